@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for Host Session Grants
+ * 뷰어별 권한과 제어 토큰으로 P2P 입력을 검사하는지 확인
+ */
+
+import { SessionGrant } from '../../../../../packages/protocol/src/signaling';
+import { ViewerGrants } from '../sessionGrants';
+
+const FULL: SessionGrant = { mode: 'control', permissions: ['view', 'input', 'clipboard', 'files', 'audio'] };
+const VIEW_ONLY: SessionGrant = { mode: 'view-only', permissions: ['view'] };
+
+describe('ViewerGrants', () => {
+    let viewers: ViewerGrants;
+
+    beforeEach(() => {
+        viewers = new ViewerGrants();
+        viewers.set('viewer-a', VIEW_ONLY);
+        viewers.set('viewer-b', FULL);
+        viewers.setControlHolder('viewer-b');
+    });
+
+    it('should check each viewer against its own grant', () => {
+        expect(viewers.isInputAllowed('viewer-a', 'mouse')).toBe(false);
+        expect(viewers.isInputAllowed('viewer-a', 'clipboard')).toBe(false);
+        expect(viewers.isInputAllowed('viewer-b', 'mouse')).toBe(true);
+        expect(viewers.isInputAllowed('viewer-b', 'file')).toBe(true);
+        expect(viewers.isInputAllowed('unknown', 'clipboard')).toBe(false);
+    });
+
+    it('should require the control token for mouse and keyboard', () => {
+        viewers.set('viewer-a', FULL);
+
+        expect(viewers.isInputAllowed('viewer-a', 'keyboard')).toBe(false);
+        expect(viewers.isInputAllowed('viewer-a', 'clipboard')).toBe(true);
+
+        viewers.setControlHolder('viewer-a');
+        expect(viewers.isInputAllowed('viewer-a', 'keyboard')).toBe(true);
+        expect(viewers.isInputAllowed('viewer-b', 'keyboard')).toBe(false);
+    });
+
+    it('should only change the targeted viewer', () => {
+        viewers.update(FULL, 'viewer-a');
+        viewers.update(VIEW_ONLY, 'viewer-b');
+
+        expect(viewers.get('viewer-a')).toEqual(FULL);
+        expect(viewers.isInputAllowed('viewer-b', 'mouse')).toBe(false);
+
+        viewers.update(VIEW_ONLY);
+        expect(viewers.get('viewer-a')).toEqual(VIEW_ONLY);
+    });
+
+    it('should drop grants and control when a viewer leaves', () => {
+        viewers.remove('viewer-b');
+
+        expect(viewers.isInputAllowed('viewer-b', 'mouse')).toBe(false);
+        expect(viewers.soleViewer()).toBe('viewer-a');
+    });
+
+    it('should rebuild state from the session roster', () => {
+        viewers.replace([
+            { connectionId: 'host', role: 'host', hasControl: false },
+            { connectionId: 'viewer-a', role: 'viewer', grant: FULL, hasControl: true },
+            { connectionId: 'viewer-b', role: 'viewer', grant: VIEW_ONLY, hasControl: false },
+        ]);
+
+        expect(viewers.size).toBe(2);
+        expect(viewers.isInputAllowed('viewer-a', 'mouse')).toBe(true);
+        expect(viewers.isInputAllowed('viewer-b', 'mouse')).toBe(false);
+        expect(viewers.soleViewer()).toBeNull();
+    });
+});
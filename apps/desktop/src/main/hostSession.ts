@@ -5,6 +5,8 @@
 
 import { ipcMain, desktopCapturer, BrowserWindow } from 'electron';
 import WebSocket from 'ws';
+import { SessionGrant, SessionPermission } from '../../../../packages/protocol/src/signaling';
+import { ViewerGrants } from './sessionGrants';
 
 // Stub implementations (실제 구현은 packages에 있음)
 class ConnectionManager {
@@ -24,14 +26,14 @@ class ConnectionManager {
 class WebRTCManager {
     onIceCandidate: ((candidate: any) => void) | null = null;
     private onStateChange: ((state: string) => void) | null = null;
-    private onMessage: ((data: any) => void) | null = null;
+    private onMessage: ((data: any, fromConnectionId?: string) => void) | null = null;
 
     async handleOffer(offer: any): Promise<any> { return { type: 'answer', sdp: '' }; }
     async addIceCandidate(candidate: any): Promise<void> { }
     sendBinary(data: Uint8Array): boolean { return true; }
     disconnect(): void { }
     setStateChangeHandler(fn: (state: string) => void): void { this.onStateChange = fn; }
-    setMessageHandler(fn: (data: any) => void): void { this.onMessage = fn; }
+    setMessageHandler(fn: (data: any, fromConnectionId?: string) => void): void { this.onMessage = fn; }
 }
 
 let connectionManagerInstance: ConnectionManager | null = null;
@@ -50,9 +52,14 @@ function getWebRTCManager(): WebRTCManager {
 const APP_CONFIG = require('./config');
 const SERVER_URL = APP_CONFIG.WS_URL;
 
+type HostAccessMode = 'password' | 'approval' | 'password-and-approval';
+
 interface HostSessionConfig {
     connectionId: string;
     password: string;
+    accessMode?: HostAccessMode;
+    // 승인 없이 연결되는 세션에 적용할 기본 권한
+    defaultGrant?: SessionGrant;
     allowControl: boolean;
     allowFileTransfer: boolean;
     quality: 'high' | 'medium' | 'low';
@@ -65,6 +72,8 @@ class HostSession {
     private captureInterval: NodeJS.Timeout | null = null;
     private config: HostSessionConfig;
     private mainWindow: BrowserWindow | null = null;
+    // 뷰어별 세션 권한과 제어 토큰 (세션 시작 전에는 입력 차단)
+    private viewers = new ViewerGrants();
 
     constructor(config: HostSessionConfig) {
         this.config = config;
@@ -84,6 +93,8 @@ class HostSession {
             connectionId: this.config.connectionId,
             password: this.config.password,
             isHost: true,
+            accessMode: this.config.accessMode || 'password',
+            defaultGrant: this.config.defaultGrant,
         });
 
         // 메시지 핸들러 설정
@@ -110,8 +121,8 @@ class HostSession {
             }
         });
 
-        this.webrtcManager.setMessageHandler((data) => {
-            this.handleRemoteInput(data);
+        this.webrtcManager.setMessageHandler((data, fromConnectionId) => {
+            this.handleRemoteInput(data, fromConnectionId);
         });
 
         this.isActive = true;
@@ -135,12 +146,62 @@ class HostSession {
         // 서버에 알림 (재등록 필요)
     }
 
+    /**
+     * 연결 승인 요청에 응답
+     */
+    respondToConnectionRequest(requestId: string, accepted: boolean, reason?: string, grant?: SessionGrant): void {
+        this.connectionManager.sendSignaling('connection-response', { requestId, accepted, reason, grant });
+    }
+
+    /**
+     * 세션 중 권한 변경 (서버가 확인 후 permissions-updated로 반영, 대상 생략 시 모든 뷰어)
+     */
+    updatePermissions(grant: SessionGrant, targetConnectionId?: string): void {
+        this.connectionManager.sendSignaling('update-permissions', { grant, targetConnectionId });
+    }
+
     // Private methods
     private async handleSignalingMessage(type: string, data: any): Promise<void> {
         switch (type) {
-            case 'incoming-connection':
-                // 원격 연결 요청 수락
+            case 'connection-request':
+                // 뷰어 정보를 보여주고 호스트의 수락/거절을 기다림
+                this.sendToRenderer('connection-request', data);
+                break;
+
+            case 'connection-request-cancelled':
+                this.sendToRenderer('connection-request-cancelled', data);
+                break;
+
+            case 'incoming-connection': {
+                // 원격 연결 요청 수락 (권한 미지정 시 기존처럼 전체 허용)
+                const grant = data.grant || this.getLegacyGrant();
+                this.viewers.set(data.fromConnectionId, grant);
                 this.sendToRenderer('incoming-connection', data);
+                this.sendToRenderer('session-permissions', grant);
+                break;
+            }
+
+            case 'permissions-updated':
+                this.viewers.update(data.grant, data.targetConnectionId);
+                this.sendToRenderer('session-permissions', data.grant);
+                break;
+
+            case 'session-roster':
+                // 재연결 후 전체 참여자 목록
+                this.viewers.replace(data.participants || []);
+                break;
+
+            case 'participant-left':
+                this.viewers.remove(data.connectionId);
+                break;
+
+            case 'control-changed':
+                this.viewers.setControlHolder(data.holderConnectionId ?? null);
+                break;
+
+            case 'control-requested':
+                // 뷰어의 제어권 요청 (다중 뷰어 세션)
+                this.sendToRenderer('control-requested', { viewerConnectionId: data.viewerConnectionId });
                 break;
 
             case 'offer':
@@ -154,6 +215,7 @@ class HostSession {
                 break;
 
             case 'disconnected':
+                this.viewers.clear();
                 this.stopScreenCapture();
                 this.sendToRenderer('session-ended', data);
                 break;
@@ -201,11 +263,26 @@ class HostSession {
         }
     }
 
-    private handleRemoteInput(data: ArrayBuffer | string): void {
-        if (!this.config.allowControl) return;
+    private getLegacyGrant(): SessionGrant {
+        const permissions: SessionPermission[] = ['view', 'audio', 'clipboard'];
+        if (this.config.allowControl) permissions.push('input');
+        if (this.config.allowFileTransfer) permissions.push('files');
+        return { mode: 'control', permissions };
+    }
 
+    /**
+     * 보낸 뷰어의 권한과 제어 토큰으로 입력 검사 (P2P 채널은 서버를 거치지 않으므로 호스트에서도 검사)
+     * 보낸 뷰어를 알 수 없으면 1:1 세션의 유일한 뷰어로 간주, 여러 명이면 차단
+     */
+    private handleRemoteInput(data: ArrayBuffer | string, fromConnectionId?: string): void {
         try {
             const input = typeof data === 'string' ? JSON.parse(data) : JSON.parse(new TextDecoder().decode(data as ArrayBuffer));
+            const sender = fromConnectionId ?? this.viewers.soleViewer();
+
+            if (!sender || !this.viewers.isInputAllowed(sender, input.type)) {
+                console.warn('Remote input blocked by session permissions:', input.type, sender);
+                return;
+            }
 
             switch (input.type) {
                 case 'mouse':
@@ -273,4 +350,20 @@ export function registerHostSessionHandlers(mainWindow: BrowserWindow): void {
         }
         return { success: true };
     });
+
+    ipcMain.handle('respond-host-connection-request', async (_, requestId: string, accepted: boolean, reason?: string, grant?: SessionGrant) => {
+        if (!hostSession) {
+            return { success: false, error: 'Host session not started' };
+        }
+        hostSession.respondToConnectionRequest(requestId, accepted, reason, grant);
+        return { success: true };
+    });
+
+    ipcMain.handle('update-host-session-permissions', async (_, grant: SessionGrant, targetConnectionId?: string) => {
+        if (!hostSession) {
+            return { success: false, error: 'Host session not started' };
+        }
+        hostSession.updatePermissions(grant, targetConnectionId);
+        return { success: true };
+    });
 }
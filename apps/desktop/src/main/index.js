@@ -38,6 +38,8 @@ const hotkeyManager = require('./modules/hotkeyManager');
 const autoUpdater = require('./modules/autoUpdater');
 const desktopAuth = require('./modules/desktopAuth');
 const planRestrictions = require('./modules/planRestrictions');
+const { isMessageAllowed } = require('../../../../packages/protocol/src/signaling');
+const deviceIdentity = require('./modules/deviceIdentity');
 const { fixedPassword, trustedDevices, savedConnections } = require('./modules/trustedDevices');
 
 // ===================
@@ -63,10 +65,19 @@ const state = {
     isHost: true,
     sessionActive: false,
     connectedPeerId: null,
+    // 접속 허용 방식 ('password' | 'approval' | 'password-and-approval')
+    accessMode: 'password',
+    // 세션 권한 ({ mode, permissions })과 이 쪽의 역할 ('host' | 'viewer')
+    sessionGrant: null,
+    sessionRole: null,
+    // 다중 뷰어 세션 참여자 목록 ({ connectionId, role, name, grant, hasControl })
+    participants: [],
     // WebRTC P2P
     webrtc: null,
     useP2P: true,  // P2P 시도 여부
     p2pConnected: false,
+    // 서버가 장치 서명을 거부하면 장치 없이 등록 (다시 등록하기 전까지)
+    deviceAuthFailed: false,
 };
 
 // ===================
@@ -96,6 +107,19 @@ function sendToRenderer(channel, data) {
     }
 }
 
+// 뷰어 → 호스트 메시지 권한 확인 (서버와 같은 정의)
+function isAllowedByGrant(type, fromId) {
+    // 호스트는 보낸 뷰어(fromId)의 권한으로 확인
+    const sender = fromId && state.participants.find(p => p.connectionId === fromId);
+    const grant = (sender && sender.grant) || state.sessionGrant;
+    return !grant || isMessageAllowed(grant, type);
+}
+
+function updateParticipants(participants) {
+    state.participants = participants;
+    sendToRenderer('session-participants', participants);
+}
+
 function sendToServer(message) {
     if (state.ws && state.ws.readyState === WebSocket.OPEN) {
         state.ws.send(JSON.stringify(message));
@@ -115,7 +139,7 @@ function createWindow() {
         minHeight: 600,
         frame: false,
         titleBarStyle: 'hidden',
-        icon: path.join(__dirname, '../../assets/icon.png'),
+        icon: path.join(app.getAppPath(), 'assets/icon.png'),
         webPreferences: {
             nodeIntegration: false,
             contextIsolation: true,
@@ -134,8 +158,8 @@ function createWindow() {
         // state.mainWindow.webContents.openDevTools();
     } else {
         // 그 외(빌드된 앱 테스트 또는 패키징된 앱)는 파일 로드
-        // dist/main/index.js 기준 ../renderer/index.html
-        state.mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
+        // 메인 프로세스 빌드는 packages/protocol을 포함해 저장소 구조대로 출력되므로 앱 경로 기준
+        state.mainWindow.loadFile(path.join(app.getAppPath(), 'dist/renderer/index.html'));
     }
 
     state.mainWindow.once('ready-to-show', () => {
@@ -212,8 +236,14 @@ function connectToServer() {
             }
         });
 
-        state.ws.on('close', () => {
+        state.ws.on('close', (code) => {
             console.log('[Main] Disconnected from server');
+
+            // 계정에서 이 장치를 해제함
+            if (code === 4004) {
+                deviceIdentity.clear();
+                sendToRenderer('device-revoked');
+            }
             state.sessionActive = false;
             sendToRenderer('connection-status', 'disconnected');
 
@@ -246,11 +276,21 @@ function registerAsHost() {
     state.password = generatePassword();
     state.isHost = true;
 
+    sendHostRegistration();
+}
+
+// 호스트 등록 (로그인 상태면 세션 기록을 계정에 연결하도록 액세스 토큰 포함)
+// 계정에 등록된 장치면 장치 키 서명을 포함해 비밀번호 없이 장치 목록에서 연결할 수 있게 함
+function sendHostRegistration() {
+    const deviceAuth = state.deviceAuthFailed ? null : deviceIdentity.signRegistration(state.connectionId);
     sendToServer({
         type: 'register',
         connectionId: state.connectionId,
         password: state.password,
         isHost: true,
+        accessMode: state.accessMode,
+        authToken: desktopAuth.getAccessToken() || undefined,
+        ...deviceAuth,
     });
 }
 
@@ -258,6 +298,12 @@ function registerAsHost() {
 // 메시지 처리
 // ===================
 function handleServerMessage(message) {
+    // 호스트가 부여하지 않은 권한의 원격 입력은 서버를 거쳐 왔더라도 무시
+    if (state.sessionRole === 'host' && !isAllowedByGrant(message.type, message.fromId)) {
+        console.warn('[Main] Blocked by session permissions:', message.type);
+        return;
+    }
+
     switch (message.type) {
         case 'registered':
             console.log('[Main] Registered:', state.connectionId);
@@ -272,6 +318,9 @@ function handleServerMessage(message) {
             console.log('[Main] Connected to:', message.targetConnectionId);
             state.sessionActive = true;
             state.connectedPeerId = message.targetConnectionId;
+            state.sessionRole = 'viewer';
+            state.sessionGrant = message.grant || null;
+            sendToRenderer('session-permissions', state.sessionGrant);
             sendToRenderer('connection-status', 'session-active');
             sendToRenderer('session-started', { sessionId: message.sessionId });
             break;
@@ -281,13 +330,77 @@ function handleServerMessage(message) {
             sendToRenderer('connection-error', message.error);
             break;
 
+        // 호스트 승인 대기 (뷰어 측)
+        case 'connect-pending':
+            console.log('[Main] Waiting for host approval:', message.requestId);
+            sendToRenderer('connect-pending', { requestId: message.requestId, expiresAt: message.expiresAt });
+            break;
+
+        // 연결 승인 요청 (호스트 측)
+        case 'connection-request':
+            console.log('[Main] Connection request from:', message.viewerConnectionId);
+            sendToRenderer('connection-request', message);
+            break;
+
+        case 'permissions-updated':
+            console.log('[Main] Session permissions updated:', message.grant);
+            if (message.targetConnectionId) {
+                // 호스트 측: 특정 뷰어의 권한 변경 확인
+                updateParticipants(state.participants.map(p =>
+                    p.connectionId === message.targetConnectionId ? { ...p, grant: message.grant } : p));
+            } else {
+                state.sessionGrant = message.grant;
+            }
+            sendToRenderer('session-permissions', message.grant);
+            break;
+
+        // 다중 뷰어 세션 참여자 변경
+        case 'session-roster':
+            updateParticipants(message.participants);
+            break;
+
+        case 'participant-joined':
+            updateParticipants([
+                ...state.participants.filter(p => p.connectionId !== message.participant.connectionId),
+                message.participant,
+            ]);
+            break;
+
+        case 'participant-left':
+            updateParticipants(state.participants.filter(p => p.connectionId !== message.connectionId));
+            break;
+
+        case 'control-changed':
+            updateParticipants(state.participants.map(p => ({
+                ...p,
+                hasControl: p.connectionId === message.holderConnectionId,
+            })));
+            sendToRenderer('control-changed', { holderConnectionId: message.holderConnectionId });
+            break;
+
+        // 제어권 요청 (호스트 측)
+        case 'control-requested':
+            sendToRenderer('control-requested', { viewerConnectionId: message.viewerConnectionId });
+            break;
+
+        case 'connection-request-cancelled':
+            sendToRenderer('connection-request-cancelled', { requestId: message.requestId, reason: message.reason });
+            break;
+
         case 'incoming-connection':
             console.log('[Main] Incoming connection from:', message.fromConnectionId);
+            // 이미 진행 중인 세션에 뷰어가 추가로 참여한 경우
+            const joiningSession = state.sessionActive && state.sessionRole === 'host';
             state.sessionActive = true;
             state.connectedPeerId = message.fromConnectionId;
+            state.sessionRole = 'host';
+            state.sessionGrant = message.grant || null;
+            sendToRenderer('session-permissions', state.sessionGrant);
             sendToRenderer('connection-status', 'session-active');
             sendToRenderer('incoming-connection', message);
-            startSession();
+            if (!joiningSession) {
+                startSession();
+            }
             break;
 
         case 'screen-frame':
@@ -319,7 +432,8 @@ function handleServerMessage(message) {
             console.log('[Main] Session ended:', message.reason);
             stopSession();
             sendToRenderer('connection-status', 'connected');
-            sendToRenderer('session-ended', { reason: message.reason });
+            // code: SESSION_TIME_LIMIT (플랜 시간 제한으로 서버가 종료)
+            sendToRenderer('session-ended', { reason: message.reason, code: message.code });
             break;
 
         // WebRTC 시그널링 처리
@@ -342,6 +456,16 @@ function handleServerMessage(message) {
             sendToRenderer('webrtc-viewer-ready');
             break;
 
+        // 장치 서명 거부 (해제된 장치 등): 비밀번호 접속은 가능하도록 장치 없이 다시 등록
+        case 'error':
+            console.warn('[Main] Server error:', message.code, message.message);
+            if (message.requestType === 'register' && message.field === 'deviceSignature') {
+                state.deviceAuthFailed = true;
+                sendToRenderer('device-auth-failed');
+                sendHostRegistration();
+            }
+            break;
+
         case 'pong':
             break;
     }
@@ -417,6 +541,9 @@ function startSession() {
 function stopSession() {
     state.sessionActive = false;
     state.connectedPeerId = null;
+    state.sessionRole = null;
+    state.sessionGrant = null;
+    state.participants = [];
     // screenCapture.stopCapture(); // Removed - capture now in Renderer
     clipboardSync.stopSync();
 }
@@ -481,15 +608,54 @@ ipcMain.handle('get-password', () => state.password);
 
 ipcMain.handle('refresh-password', () => {
     state.password = generatePassword();
-    sendToServer({
-        type: 'register',
-        connectionId: state.connectionId,
-        password: state.password,
-        isHost: true,
-    });
+    sendHostRegistration();
     return state.password;
 });
 
+ipcMain.handle('set-access-mode', (_, mode) => {
+    state.accessMode = mode;
+    console.log('[Settings] Access mode set to:', mode);
+
+    // 재등록 시 세션 정보가 초기화되므로 세션 중에는 다음 등록 시 적용
+    if (!state.sessionActive) {
+        sendHostRegistration();
+    }
+    return true;
+});
+
+// 연결 승인 요청 응답 (호스트 측)
+ipcMain.handle('respond-connection-request', (_, requestId, accepted, reason, grant) => {
+    return sendToServer({
+        type: 'connection-response',
+        requestId,
+        accepted,
+        reason,
+        grant,
+    });
+});
+
+// 세션 중 권한 변경 (호스트 측)
+ipcMain.handle('update-session-permissions', (_, grant, targetConnectionId) => {
+    if (state.sessionRole !== 'host') return false;
+    return sendToServer({ type: 'update-permissions', grant, targetConnectionId });
+});
+
+// 입력 제어권 (다중 뷰어 세션)
+ipcMain.handle('request-control', () => {
+    if (state.sessionRole !== 'viewer') return false;
+    return sendToServer({ type: 'control-request' });
+});
+
+ipcMain.handle('release-control', () => {
+    if (state.sessionRole !== 'viewer') return false;
+    return sendToServer({ type: 'control-release' });
+});
+
+ipcMain.handle('transfer-control', (_, targetConnectionId) => {
+    if (state.sessionRole !== 'host') return false;
+    return sendToServer({ type: 'control-transfer', targetConnectionId });
+});
+
 ipcMain.handle('connect', async (_, targetId, targetPwd) => {
     console.log('[Main] Connecting to:', targetId);
 
@@ -505,6 +671,7 @@ ipcMain.handle('connect', async (_, targetId, targetPwd) => {
             connectionId: state.connectionId,
             password: '',
             isHost: false,
+            authToken: desktopAuth.getAccessToken() || undefined,
         });
         await new Promise(r => setTimeout(r, 500));
     }
@@ -512,7 +679,26 @@ ipcMain.handle('connect', async (_, targetId, targetPwd) => {
     return sendToServer({
         type: 'connect',
         targetConnectionId: targetId,
-        password: targetPwd,
+        password: targetPwd || '',
+        viewerName: os.hostname(),
+        requestedPermissions: ['view', 'input', 'clipboard', 'files'],
+    });
+});
+
+// 계정에 등록된 장치에 비밀번호 없이 연결 (로그인 필요)
+ipcMain.handle('connect-device', async (_, deviceId) => {
+    console.log('[Main] Connecting to device:', deviceId);
+
+    if (!state.ws || state.ws.readyState !== WebSocket.OPEN) {
+        connectToServer();
+        await new Promise(r => setTimeout(r, 1000));
+    }
+
+    return sendToServer({
+        type: 'connect-device',
+        deviceId,
+        viewerName: os.hostname(),
+        requestedPermissions: ['view', 'input', 'clipboard', 'files'],
     });
 });
 
@@ -556,13 +742,13 @@ ipcMain.handle('get-screens', async () => {
 });
 
 ipcMain.on('mouse-event', (_, event) => {
-    if (state.sessionActive) {
+    if (state.sessionActive && isAllowedByGrant('mouse-event')) {
         sendToServer({ type: 'mouse-event', event });
     }
 });
 
 ipcMain.on('keyboard-event', (_, event) => {
-    if (state.sessionActive) {
+    if (state.sessionActive && isAllowedByGrant('keyboard-event')) {
         sendToServer({ type: 'keyboard-event', event });
     }
 });
@@ -705,6 +891,21 @@ ipcMain.handle('auth-login', async (_, email, password) => {
     const result = await desktopAuth.login(email, password);
     if (result.success) {
         planRestrictions.setUser(result.user);
+        // 세션 기록을 계정에 연결하기 위해 재등록 (세션 중이면 다음 등록 시 적용)
+        if (!state.sessionActive && state.connectionId) {
+            sendHostRegistration();
+        }
+    }
+    return result;
+});
+
+ipcMain.handle('auth-login-2fa', async (_, challengeToken, code) => {
+    const result = await desktopAuth.verifyTwoFactor(challengeToken, code);
+    if (result.success) {
+        planRestrictions.setUser(result.user);
+        if (!state.sessionActive && state.connectionId) {
+            sendHostRegistration();
+        }
     }
     return result;
 });
@@ -726,6 +927,11 @@ ipcMain.handle('auth-get-state', () => {
     return desktopAuth.getAuthState();
 });
 
+// 계정의 세션 기록 (서버)
+ipcMain.handle('sessions-get-history', async (_, params) => {
+    return await desktopAuth.getSessionHistory(params);
+});
+
 ipcMain.handle('auth-get-user', async () => {
     const user = await desktopAuth.getCurrentUser();
     if (user) {
@@ -841,6 +1047,49 @@ ipcMain.handle('trusted-devices-clear', () => {
     return { success: true };
 });
 
+// ===================
+// 계정 장치 IPC
+// ===================
+ipcMain.handle('devices-get-current', () => {
+    return deviceIdentity.get();
+});
+
+// 이 PC를 계정 장치로 등록하고 장치 서명으로 다시 등록
+ipcMain.handle('devices-enroll', async (_, name) => {
+    const publicKey = deviceIdentity.ensureKeyPair();
+    const result = await desktopAuth.devices.enroll(name || os.hostname(), publicKey, process.platform);
+    if (result.success) {
+        deviceIdentity.setEnrollment(result.device.id, result.device.name);
+        state.deviceAuthFailed = false;
+        if (!state.sessionActive && state.connectionId) {
+            sendHostRegistration();
+        }
+    }
+    return result;
+});
+
+ipcMain.handle('devices-list', async () => {
+    return await desktopAuth.devices.list();
+});
+
+ipcMain.handle('devices-rename', async (_, deviceId, name) => {
+    const result = await desktopAuth.devices.rename(deviceId, name);
+    const current = deviceIdentity.get();
+    if (result.success && current && current.deviceId === deviceId) {
+        deviceIdentity.setEnrollment(deviceId, result.device.name);
+    }
+    return result;
+});
+
+ipcMain.handle('devices-revoke', async (_, deviceId) => {
+    const result = await desktopAuth.devices.revoke(deviceId);
+    const current = deviceIdentity.get();
+    if (result.success && current && current.deviceId === deviceId) {
+        deviceIdentity.clear();
+    }
+    return result;
+});
+
 // ===================
 // 저장된 연결 IPC
 // ===================
@@ -124,12 +124,44 @@ async function login(email, password) {
             return { success: true, user: data.user };
         }
 
+        // 2단계 인증 사용자: 코드 입력 후 verifyTwoFactor로 로그인 완료
+        if (data.requiresTwoFactor) {
+            return { success: false, requiresTwoFactor: true, challengeToken: data.challengeToken, error: data.error };
+        }
+
         return { success: false, error: data.error || '로그인에 실패했습니다.' };
     } catch (error) {
         return { success: false, error: '서버에 연결할 수 없습니다.' };
     }
 }
 
+/**
+ * 로그인 2단계 (인증 앱 코드 또는 복구 코드)
+ */
+async function verifyTwoFactor(challengeToken, code) {
+    try {
+        const data = await apiRequest('/auth/login/2fa', {
+            method: 'POST',
+            body: JSON.stringify({ challengeToken, code })
+        });
+
+        if (data.success) {
+            authState = {
+                isLoggedIn: true,
+                user: data.user,
+                accessToken: data.token,
+                refreshToken: data.refreshToken
+            };
+            saveAuth();
+            return { success: true, user: data.user };
+        }
+
+        return { success: false, error: data.error || '인증 코드가 올바르지 않습니다.' };
+    } catch (error) {
+        return { success: false, error: '서버에 연결할 수 없습니다.' };
+    }
+}
+
 /**
  * 회원가입
  */
@@ -252,14 +284,65 @@ function init() {
     }
 }
 
+/**
+ * 세션 기록 조회 (로그인 필요)
+ */
+async function getSessionHistory(params = {}) {
+    if (!authState.accessToken) {
+        return { success: false, error: '로그인이 필요합니다.' };
+    }
+
+    const query = new URLSearchParams(
+        Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    ).toString();
+
+    try {
+        return await apiRequest(`/sessions${query ? `?${query}` : ''}`);
+    } catch (error) {
+        return { success: false, error: '서버에 연결할 수 없습니다.' };
+    }
+}
+
+/**
+ * 계정 장치 API (로그인 필요)
+ */
+async function deviceRequest(endpoint, options = {}) {
+    if (!authState.accessToken) {
+        return { success: false, error: '로그인이 필요합니다.' };
+    }
+
+    try {
+        return await apiRequest(`/devices${endpoint}`, options);
+    } catch (error) {
+        return { success: false, error: '서버에 연결할 수 없습니다.' };
+    }
+}
+
+const devices = {
+    enroll: (name, publicKey, platform) => deviceRequest('', {
+        method: 'POST',
+        body: JSON.stringify({ name, publicKey, platform })
+    }),
+    list: () => deviceRequest(''),
+    rename: (deviceId, name) => deviceRequest(`/${encodeURIComponent(deviceId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name })
+    }),
+    revoke: (deviceId) => deviceRequest(`/${encodeURIComponent(deviceId)}`, { method: 'DELETE' }),
+};
+
 module.exports = {
     init,
     login,
+    verifyTwoFactor,
     register,
     logout,
     getCurrentUser,
     getAuthState,
     getUserPlan,
+    getSessionHistory,
+    devices,
+    getAccessToken: () => authState.accessToken,
     refreshAccessToken,
     setSession: (accessToken, refreshToken) => {
         authState.accessToken = accessToken;
@@ -0,0 +1,78 @@
+/**
+ * LunarView - Device Identity Module
+ * 계정에 등록한 이 PC의 장치 ID와 키쌍 (개인키는 이 PC에만 저장)
+ */
+
+const Store = require('electron-store');
+const crypto = require('crypto');
+
+const store = new Store({
+    name: 'lunarview-device-identity',
+    encryptionKey: 'lunarview-device-key-2024'
+});
+
+/**
+ * 장치 키쌍 (없으면 Ed25519 키쌍 생성)
+ * 공개키는 서버 등록용 SPKI DER(base64)로 반환
+ */
+function ensureKeyPair() {
+    let privateKeyPem = store.get('privateKey');
+    if (!privateKeyPem) {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519');
+        privateKeyPem = privateKey.export({ format: 'pem', type: 'pkcs8' });
+        store.set('privateKey', privateKeyPem);
+    }
+
+    const publicKey = crypto.createPublicKey(privateKeyPem);
+    return publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+}
+
+/**
+ * 등록된 장치 정보 (등록 전이면 null)
+ */
+function get() {
+    const deviceId = store.get('deviceId');
+    if (!deviceId) return null;
+    return { deviceId, name: store.get('name') || '', enrolledAt: store.get('enrolledAt') };
+}
+
+/**
+ * 서버 등록 결과 저장
+ */
+function setEnrollment(deviceId, name) {
+    if (store.get('deviceId') !== deviceId) {
+        store.set('deviceId', deviceId);
+        store.set('enrolledAt', new Date().toISOString());
+    }
+    store.set('name', name);
+}
+
+/**
+ * 등록 해제 (키쌍도 삭제해서 다시 등록하면 새 키 사용)
+ */
+function clear() {
+    store.clear();
+}
+
+/**
+ * 호스트 등록 메시지에 넣을 장치 서명 (등록 전이면 null)
+ */
+function signRegistration(connectionId) {
+    const deviceId = store.get('deviceId');
+    const privateKeyPem = store.get('privateKey');
+    if (!deviceId || !privateKeyPem) return null;
+
+    const deviceTimestamp = Date.now();
+    const payload = Buffer.from(`lunarview-device:${deviceId}:${connectionId}:${deviceTimestamp}`);
+    const deviceSignature = crypto.sign(null, payload, privateKeyPem).toString('base64');
+
+    return { deviceId, deviceTimestamp, deviceSignature };
+}
+
+module.exports = {
+    ensureKeyPair,
+    get,
+    setEnrollment,
+    clear,
+    signRegistration
+};
@@ -11,65 +11,8 @@ const PLANS = {
     TEAM: 'team'
 };
 
-// 플랜별 제한 설정
-const PLAN_LIMITS = {
-    [PLANS.FREE]: {
-        name: '무료',
-        sessionDuration: 30 * 60 * 1000,  // 30분 (밀리초)
-        maxDailyConnections: 5,
-        fileTransfer: false,
-        multiMonitor: false,
-        maxResolution: 720,               // 720p
-        simultaneousSessions: 1,
-        watermark: true,
-        clipboard: true,
-        audioStream: false,
-        gameMode: false,
-        priority: 'low'
-    },
-    [PLANS.PERSONAL_PRO]: {
-        name: '개인 프로',
-        sessionDuration: null,            // 무제한
-        maxDailyConnections: null,        // 무제한
-        fileTransfer: true,
-        multiMonitor: true,
-        maxResolution: 1080,              // 1080p
-        simultaneousSessions: 2,
-        watermark: false,
-        clipboard: true,
-        audioStream: true,
-        gameMode: true,
-        priority: 'normal'
-    },
-    [PLANS.BUSINESS]: {
-        name: '비즈니스',
-        sessionDuration: null,
-        maxDailyConnections: null,
-        fileTransfer: true,
-        multiMonitor: true,
-        maxResolution: 2160,              // 4K
-        simultaneousSessions: 5,
-        watermark: false,
-        clipboard: true,
-        audioStream: true,
-        gameMode: true,
-        priority: 'high'
-    },
-    [PLANS.TEAM]: {
-        name: '팀',
-        sessionDuration: null,
-        maxDailyConnections: null,
-        fileTransfer: true,
-        multiMonitor: true,
-        maxResolution: 2160,              // 4K
-        simultaneousSessions: 10,
-        watermark: false,
-        clipboard: true,
-        audioStream: true,
-        gameMode: true,
-        priority: 'highest'
-    }
-};
+// 플랜별 제한 설정 (서버와 같은 정의 사용, 서버가 같은 값으로 강제함)
+const { PLAN_LIMITS } = require('../../../../../packages/protocol/src/plans');
 
 // 현재 사용자 상태
 let currentUser = null;
@@ -12,6 +12,50 @@ contextBridge.exposeInMainWorld('electronAPI', {
         ipcRenderer.invoke('connect', connectionId, password),
     disconnect: () => ipcRenderer.invoke('disconnect'),
 
+    // 연결 승인 (호스트 측)
+    setAccessMode: (mode) => ipcRenderer.invoke('set-access-mode', mode),
+    respondConnectionRequest: (requestId, accepted, reason, grant) =>
+        ipcRenderer.invoke('respond-connection-request', requestId, accepted, reason, grant),
+    onConnectionRequest: (callback) => {
+        const handler = (_, data) => callback(data);
+        ipcRenderer.on('connection-request', handler);
+        return () => ipcRenderer.removeListener('connection-request', handler);
+    },
+    onConnectionRequestCancelled: (callback) => {
+        const handler = (_, data) => callback(data);
+        ipcRenderer.on('connection-request-cancelled', handler);
+        return () => ipcRenderer.removeListener('connection-request-cancelled', handler);
+    },
+
+    // 세션 권한
+    updateSessionPermissions: (grant, targetConnectionId) =>
+        ipcRenderer.invoke('update-session-permissions', grant, targetConnectionId),
+    onSessionPermissions: (callback) => {
+        const handler = (_, grant) => callback(grant);
+        ipcRenderer.on('session-permissions', handler);
+        return () => ipcRenderer.removeListener('session-permissions', handler);
+    },
+
+    // 다중 뷰어 세션
+    requestControl: () => ipcRenderer.invoke('request-control'),
+    releaseControl: () => ipcRenderer.invoke('release-control'),
+    transferControl: (targetConnectionId) => ipcRenderer.invoke('transfer-control', targetConnectionId),
+    onSessionParticipants: (callback) => {
+        const handler = (_, participants) => callback(participants);
+        ipcRenderer.on('session-participants', handler);
+        return () => ipcRenderer.removeListener('session-participants', handler);
+    },
+    onControlChanged: (callback) => {
+        const handler = (_, data) => callback(data);
+        ipcRenderer.on('control-changed', handler);
+        return () => ipcRenderer.removeListener('control-changed', handler);
+    },
+    onControlRequested: (callback) => {
+        const handler = (_, data) => callback(data);
+        ipcRenderer.on('control-requested', handler);
+        return () => ipcRenderer.removeListener('control-requested', handler);
+    },
+
     // 화면 캡처
     startScreenCapture: () => ipcRenderer.invoke('start-screen-capture'),
     stopScreenCapture: () => ipcRenderer.invoke('stop-screen-capture'),
@@ -79,6 +123,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
         ipcRenderer.on('connection-error', handler);
         return () => ipcRenderer.removeListener('connection-error', handler);
     },
+    onConnectPending: (callback) => {
+        const handler = (_, data) => callback(data);
+        ipcRenderer.on('connect-pending', handler);
+        return () => ipcRenderer.removeListener('connect-pending', handler);
+    },
     onP2PStatus: (callback) => {
         const handler = (_, data) => callback(data);
         ipcRenderer.on('p2p-status', handler);
@@ -156,10 +205,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
     // 인증
     authLogin: (email, password) => ipcRenderer.invoke('auth-login', email, password),
+    authLoginTwoFactor: (challengeToken, code) => ipcRenderer.invoke('auth-login-2fa', challengeToken, code),
     authRegister: (email, password, name) => ipcRenderer.invoke('auth-register', email, password, name),
     authLogout: () => ipcRenderer.invoke('auth-logout'),
     authGetState: () => ipcRenderer.invoke('auth-get-state'),
     authGetUser: () => ipcRenderer.invoke('auth-get-user'),
+    sessionsGetHistory: (params) => ipcRenderer.invoke('sessions-get-history', params),
     onOAuthSuccess: (callback) => {
         const handler = (_, data) => callback(data);
         ipcRenderer.on('oauth-success', handler);
@@ -193,6 +244,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     trustedDevicesIsTrusted: (deviceId) => ipcRenderer.invoke('trusted-devices-is-trusted', deviceId),
     trustedDevicesClear: () => ipcRenderer.invoke('trusted-devices-clear'),
 
+    // 계정 장치 (등록한 장치에는 비밀번호 없이 연결)
+    devicesGetCurrent: () => ipcRenderer.invoke('devices-get-current'),
+    devicesEnroll: (name) => ipcRenderer.invoke('devices-enroll', name),
+    devicesList: () => ipcRenderer.invoke('devices-list'),
+    devicesRename: (deviceId, name) => ipcRenderer.invoke('devices-rename', deviceId, name),
+    devicesRevoke: (deviceId) => ipcRenderer.invoke('devices-revoke', deviceId),
+    connectDevice: (deviceId) => ipcRenderer.invoke('connect-device', deviceId),
+    onDeviceRevoked: (callback) => {
+        const handler = () => callback();
+        ipcRenderer.on('device-revoked', handler);
+        return () => ipcRenderer.removeListener('device-revoked', handler);
+    },
+
     // 저장된 연결
     savedConnectionsGetAll: () => ipcRenderer.invoke('saved-connections-get-all'),
     savedConnectionsSave: (connection) => ipcRenderer.invoke('saved-connections-save', connection),
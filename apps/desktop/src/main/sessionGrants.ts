@@ -0,0 +1,95 @@
+/**
+ * Host Session Grants
+ * 호스트가 뷰어별 세션 권한과 제어 토큰 보유자를 추적 (P2P 입력 검사용)
+ */
+
+import { SessionGrant, SessionParticipant, getRequiredPermission } from '../../../../packages/protocol/src/signaling';
+
+// session-roster 참여자 중 필요한 필드
+export type GrantParticipant = Pick<SessionParticipant, 'connectionId' | 'role' | 'grant' | 'hasControl'>;
+
+// 원격 입력 종류별 시그널링 메시지 (필요 권한은 프로토콜 정의를 따름)
+const INPUT_MESSAGE_TYPES: Record<string, string> = {
+    mouse: 'mouse-event',
+    keyboard: 'keyboard-event',
+    clipboard: 'clipboard-sync',
+    file: 'file-chunk',
+};
+
+export class ViewerGrants {
+    private readonly grants = new Map<string, SessionGrant>();
+    // 제어 토큰을 가진 뷰어 connectionId
+    private controlHolder: string | null = null;
+
+    get size(): number {
+        return this.grants.size;
+    }
+
+    get(connectionId: string): SessionGrant | null {
+        return this.grants.get(connectionId) ?? null;
+    }
+
+    set(connectionId: string, grant: SessionGrant): void {
+        this.grants.set(connectionId, grant);
+    }
+
+    /**
+     * 대상 뷰어 권한 변경 (대상이 없으면 모든 뷰어)
+     */
+    update(grant: SessionGrant, targetConnectionId?: string): void {
+        const targets = targetConnectionId ? [targetConnectionId] : [...this.grants.keys()];
+        for (const connectionId of targets) {
+            this.grants.set(connectionId, grant);
+        }
+    }
+
+    remove(connectionId: string): void {
+        this.grants.delete(connectionId);
+        if (this.controlHolder === connectionId) {
+            this.controlHolder = null;
+        }
+    }
+
+    setControlHolder(connectionId: string | null): void {
+        this.controlHolder = connectionId;
+    }
+
+    /**
+     * session-roster로 전체 상태 교체 (재연결 후)
+     */
+    replace(participants: GrantParticipant[]): void {
+        this.clear();
+        for (const participant of participants) {
+            if (participant.role !== 'viewer' || !participant.grant) continue;
+            this.grants.set(participant.connectionId, participant.grant);
+            if (participant.hasControl) {
+                this.controlHolder = participant.connectionId;
+            }
+        }
+    }
+
+    clear(): void {
+        this.grants.clear();
+        this.controlHolder = null;
+    }
+
+    /**
+     * 보낸 뷰어를 알 수 없을 때 (1:1 세션) 유일한 뷰어
+     */
+    soleViewer(): string | null {
+        return this.grants.size === 1 ? this.grants.keys().next().value as string : null;
+    }
+
+    /**
+     * 보낸 뷰어의 권한 범위 내 입력인지 확인 (마우스/키보드는 제어 토큰도 필요)
+     */
+    isInputAllowed(connectionId: string, type: string): boolean {
+        const grant = this.grants.get(connectionId);
+        const messageType = INPUT_MESSAGE_TYPES[type];
+        const permission = messageType ? getRequiredPermission(messageType) : null;
+        if (!grant || !permission) return false;
+        if (grant.mode === 'view-only' && permission !== 'view') return false;
+        if (!grant.permissions.includes(permission)) return false;
+        return permission !== 'input' || this.controlHolder === connectionId;
+    }
+}
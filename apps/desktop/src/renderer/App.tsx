@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import Dashboard from './components/Dashboard';
 import RemoteViewer from './components/RemoteViewer';
 import ConnectionPanel from './components/ConnectionPanel';
+import DeviceList from './components/DeviceList';
 import SettingsPage from './components/SettingsPage';
 import HelpPage from './components/HelpPage';
 import FileTransferPage from './components/FileTransferPage';
@@ -15,6 +16,7 @@ import UpgradePrompt from './components/UpgradePrompt';
 import UpdateNotification from './components/UpdateNotification';
 import WatermarkOverlay from './components/WatermarkOverlay';
 import SpaceBackground from './components/SpaceBackground';
+import ConnectionRequestPrompt from './components/ConnectionRequestPrompt';
 import { useTheme } from './contexts/ThemeContext';
 import './styles/themes.css';
 import './styles/components.css';
@@ -22,6 +24,7 @@ import './styles/auth.css';
 import './styles/plan.css';
 import './styles/space-background.css';
 import './types/electron.d';
+import type { AccountDevice, ConnectionRequest, SessionGrant, SessionParticipant } from './types/electron.d';
 
 type ViewMode = 'host' | 'viewer' | 'connected' | 'settings' | 'help' | 'files' | 'history';
 type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'session-active';
@@ -34,6 +37,11 @@ function App() {
     const [isViewer, setIsViewer] = useState(false);
     const [error, setError] = useState<string>('');
     const [p2pConnected, setP2pConnected] = useState(false);
+    // 호스트 승인 관련 상태 (호스트: 수신한 요청 목록, 뷰어: 승인 대기 여부)
+    const [connectionRequests, setConnectionRequests] = useState<ConnectionRequest[]>([]);
+    const [awaitingApproval, setAwaitingApproval] = useState(false);
+    const [sessionGrant, setSessionGrant] = useState<SessionGrant | null>(null);
+    const [participants, setParticipants] = useState<SessionParticipant[]>([]);
     const { theme } = useTheme();
 
     // 인증 및 플랜 관련 상태
@@ -63,6 +71,8 @@ function App() {
             window.electronAPI.onConnectionStatus((newStatus: string) => {
                 setStatus(newStatus as ConnectionStatus);
                 if (newStatus === 'session-active') {
+                    setAwaitingApproval(false);
+                    setConnectionRequests([]);
                     setViewMode('connected');
                     // 세션 시작 시 워터마크 확인
                     window.electronAPI.planShouldShowWatermark().then(setShowWatermark);
@@ -85,9 +95,14 @@ function App() {
         );
 
         cleanups.push(
-            window.electronAPI.onSessionEnded?.(() => {
+            window.electronAPI.onSessionEnded?.((data?: { reason?: string; code?: string }) => {
+                if (data?.code === 'SESSION_TIME_LIMIT') {
+                    setError('무료 플랜의 세션 시간이 만료되어 연결이 종료되었습니다');
+                }
                 setViewMode('host');
                 setIsViewer(false);
+                setSessionGrant(null);
+                setParticipants([]);
                 window.electronAPI.planEndSession();
                 setShowWatermark(false);
             })
@@ -97,6 +112,37 @@ function App() {
             window.electronAPI.onConnectionError?.((errorMsg: string) => {
                 setError(errorMsg);
                 setStatus('connected');
+                setAwaitingApproval(false);
+            })
+        );
+
+        cleanups.push(
+            window.electronAPI.onConnectPending?.(() => {
+                setAwaitingApproval(true);
+            })
+        );
+
+        cleanups.push(
+            window.electronAPI.onConnectionRequest?.((request: ConnectionRequest) => {
+                setConnectionRequests(prev => [...prev.filter(r => r.requestId !== request.requestId), request]);
+            })
+        );
+
+        cleanups.push(
+            window.electronAPI.onSessionPermissions?.((grant: SessionGrant | null) => {
+                setSessionGrant(grant);
+            })
+        );
+
+        cleanups.push(
+            window.electronAPI.onSessionParticipants?.((list: SessionParticipant[]) => {
+                setParticipants(list);
+            })
+        );
+
+        cleanups.push(
+            window.electronAPI.onConnectionRequestCancelled?.((data: { requestId: string }) => {
+                setConnectionRequests(prev => prev.filter(r => r.requestId !== data.requestId));
             })
         );
 
@@ -121,6 +167,12 @@ function App() {
             const pwd = await window.electronAPI.getPassword();
             if (id) setConnectionId(id);
             if (pwd) setPassword(pwd);
+
+            // 저장된 연결 허용 방식을 메인 프로세스에 반영
+            const savedSettings = JSON.parse(localStorage.getItem('lunarview-settings') || '{}');
+            if (savedSettings.accessMode && savedSettings.accessMode !== 'password') {
+                window.electronAPI.setAccessMode?.(savedSettings.accessMode);
+            }
         };
 
         // 사용자 인증 상태 초기화
@@ -197,6 +249,53 @@ function App() {
         }
     };
 
+    // 계정 장치에 비밀번호 없이 연결
+    const handleConnectDevice = async (device: AccountDevice) => {
+        const canConnect = await window.electronAPI.planCanStartConnection();
+        if (!canConnect.allowed) {
+            setShowUpgradePrompt({
+                feature: '연결 제한',
+                message: canConnect.message || '연결 횟수를 초과했습니다.'
+            });
+            return;
+        }
+
+        setError('');
+        setIsViewer(true);
+        const success = await window.electronAPI.connectDevice?.(device.id);
+        if (!success) {
+            setError('서버에 연결할 수 없습니다');
+            setIsViewer(false);
+        }
+        historyStorage.addRecord({
+            name: device.name,
+            remoteId: device.id,
+            duration: success ? '연결됨' : '-',
+            type: 'outgoing',
+            status: success ? 'success' : 'failed'
+        });
+    };
+
+    // 연결 요청 수락/거절 (호스트 측)
+    const handleConnectionRequestResponse = async (requestId: string, accepted: boolean, grant?: SessionGrant) => {
+        setConnectionRequests(prev => prev.filter(r => r.requestId !== requestId));
+        await window.electronAPI.respondConnectionRequest?.(requestId, accepted, undefined, grant);
+    };
+
+    // 세션 중 권한 변경 (호스트 측, 서버 확인 후 onSessionPermissions로 반영)
+    const handleUpdatePermissions = async (grant: SessionGrant) => {
+        await window.electronAPI.updateSessionPermissions?.(grant);
+    };
+
+    // 입력 제어권 요청/반납 (다중 뷰어 세션의 뷰어 측)
+    const handleToggleControl = async (hasControl: boolean) => {
+        if (hasControl) {
+            await window.electronAPI.releaseControl?.();
+        } else {
+            await window.electronAPI.requestControl?.();
+        }
+    };
+
     const handleDisconnect = async () => {
         setViewMode('host');
         setIsViewer(false);
@@ -321,10 +420,14 @@ function App() {
                     )}
 
                     {viewMode === 'viewer' && (
-                        <ConnectionPanel
-                            onConnect={handleConnect}
-                            error={error}
-                        />
+                        <>
+                            <ConnectionPanel
+                                onConnect={handleConnect}
+                                error={error}
+                                awaitingApproval={awaitingApproval}
+                            />
+                            <DeviceList isLoggedIn={!!user} onConnectDevice={handleConnectDevice} />
+                        </>
                     )}
 
                     {viewMode === 'connected' && (
@@ -332,6 +435,11 @@ function App() {
                             <RemoteViewer
                                 onDisconnect={handleDisconnect}
                                 isViewer={isViewer}
+                                sessionGrant={sessionGrant}
+                                onUpdatePermissions={handleUpdatePermissions}
+                                participants={participants}
+                                localConnectionId={connectionId}
+                                onToggleControl={handleToggleControl}
                             />
                             <WatermarkOverlay visible={showWatermark} />
                             <SessionTimer
@@ -365,6 +473,16 @@ function App() {
                 onClose={closeUpdateNotification}
             />
 
+            {/* 연결 승인 요청 (한 번에 하나씩 표시) */}
+            {connectionRequests.length > 0 && (
+                <ConnectionRequestPrompt
+                    key={connectionRequests[0].requestId}
+                    request={connectionRequests[0]}
+                    onAccept={(requestId, grant) => handleConnectionRequestResponse(requestId, true, grant)}
+                    onReject={(requestId) => handleConnectionRequestResponse(requestId, false)}
+                />
+            )}
+
             {/* 업그레이드 안내 */}
             {showUpgradePrompt && (
                 <UpgradePrompt
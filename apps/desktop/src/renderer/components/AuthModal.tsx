@@ -20,6 +20,9 @@ export default function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModal
     const [confirmPassword, setConfirmPassword] = useState('');
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
+    // 2단계 인증 대기 중이면 코드 입력 단계 표시
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [code, setCode] = useState('');
 
 
 
@@ -74,6 +77,9 @@ export default function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModal
                 if (result.success) {
                     onLoginSuccess(result.user);
                     onClose();
+                } else if (result.requiresTwoFactor && result.challengeToken) {
+                    setChallengeToken(result.challengeToken);
+                    setCode('');
                 } else {
                     setError(result.error || '로그인에 실패했습니다.');
                 }
@@ -85,6 +91,35 @@ export default function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModal
         setLoading(false);
     };
 
+    const handleCodeSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!challengeToken || !window.electronAPI.authLoginTwoFactor) return;
+        setError('');
+        setLoading(true);
+
+        try {
+            const result = await window.electronAPI.authLoginTwoFactor(challengeToken, code.trim());
+            if (result.success) {
+                setChallengeToken(null);
+                onLoginSuccess(result.user);
+                onClose();
+            } else {
+                setError(result.error || '인증 코드가 올바르지 않습니다.');
+            }
+        } catch (err: any) {
+            setError(err.message || '서버에 연결할 수 없습니다.');
+        }
+
+        setLoading(false);
+    };
+
+    const cancelTwoFactor = () => {
+        setChallengeToken(null);
+        setCode('');
+        setPassword('');
+        setError('');
+    };
+
     const switchMode = () => {
         setMode(mode === 'login' ? 'register' : 'login');
         setError('');
@@ -108,11 +143,11 @@ export default function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModal
                     <div className="auth-logo">
                         <Icon name="monitor" size={32} />
                     </div>
-                    <h2>{mode === 'login' ? '로그인' : '회원가입'}</h2>
+                    <h2>{challengeToken ? '2단계 인증' : (mode === 'login' ? '로그인' : '회원가입')}</h2>
                 </div>
 
                 {/* 탭 네비게이션 (로그인 모드에서만 표시) */}
-                {mode === 'login' && (
+                {mode === 'login' && !challengeToken && (
                     <div className="auth-tabs">
                         <button
                             className={`auth-tab ${activeTab === 'credentials' ? 'active' : ''}`}
@@ -131,8 +166,44 @@ export default function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModal
                     </div>
                 )}
 
-                {/* QR 로그인 탭 */}
-                {activeTab === 'qr' && mode === 'login' ? (
+                {/* 2단계 인증 코드 입력 */}
+                {challengeToken ? (
+                    <>
+                        <p className="auth-subtitle">인증 앱에 표시된 6자리 코드를 입력하세요.</p>
+
+                        <form onSubmit={handleCodeSubmit} className="auth-form">
+                            <div className="auth-field">
+                                <label>인증 코드</label>
+                                <input
+                                    type="text"
+                                    value={code}
+                                    onChange={e => setCode(e.target.value)}
+                                    placeholder="123456"
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                    required
+                                />
+                            </div>
+
+                            {error && <div className="auth-error">{error}</div>}
+
+                            <button
+                                type="submit"
+                                className="auth-submit"
+                                disabled={loading}
+                            >
+                                {loading ? '처리 중...' : '확인'}
+                            </button>
+                        </form>
+
+                        <div className="auth-footer">
+                            <span>휴대폰을 사용할 수 없으면 복구 코드를 입력하세요.</span>
+                            <button type="button" onClick={cancelTwoFactor} className="auth-switch">
+                                처음으로
+                            </button>
+                        </div>
+                    </>
+                ) : activeTab === 'qr' && mode === 'login' ? (
                     <Suspense fallback={<div className="qr-loading"><div className="spinner"></div><span>로딩 중...</span></div>}>
                         <QRLogin onLoginSuccess={handleQRLoginSuccess} />
                     </Suspense>
@@ -4,6 +4,7 @@ import Icon from './Icon';
 interface ConnectionPanelProps {
     onConnect: (id: string, password: string) => void;
     error: string;
+    awaitingApproval?: boolean;
 }
 
 interface RecentConnection {
@@ -12,7 +13,7 @@ interface RecentConnection {
     lastConnected: string;
 }
 
-function ConnectionPanel({ onConnect, error }: ConnectionPanelProps) {
+function ConnectionPanel({ onConnect, error, awaitingApproval = false }: ConnectionPanelProps) {
     const [remoteId, setRemoteId] = useState('');
     const [remotePwd, setRemotePwd] = useState('');
     const [isConnecting, setIsConnecting] = useState(false);
@@ -56,7 +57,8 @@ function ConnectionPanel({ onConnect, error }: ConnectionPanelProps) {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!remoteId || !remotePwd) return;
+        // 승인 모드 호스트는 비밀번호 없이 연결 요청 가능
+        if (!remoteId) return;
 
         setIsConnecting(true);
         setConnectionStep('서버에 연결 중...');
@@ -131,13 +133,25 @@ function ConnectionPanel({ onConnect, error }: ConnectionPanelProps) {
                         <input
                             type="password"
                             className="input-field"
-                            placeholder="••••"
+                            placeholder="•••• (승인 요청 시 생략 가능)"
                             value={remotePwd}
                             onChange={(e) => setRemotePwd(e.target.value.toUpperCase())}
                             maxLength={6}
                         />
                     </div>
 
+                    {awaitingApproval && !error && (
+                        <div className="error-message" style={{ borderColor: 'var(--accent-primary)', color: 'var(--text-secondary)' }}>
+                            <Icon name="clock" size={16} />
+                            <div>
+                                <strong>상대방의 승인을 기다리는 중...</strong>
+                                <p style={{ fontSize: '12px', marginTop: '4px', opacity: 0.8 }}>
+                                    상대방이 연결 요청을 수락하면 자동으로 연결됩니다.
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
                     {error && (
                         <div className="error-message">
                             <Icon name="alert" size={16} />
@@ -153,7 +167,7 @@ function ConnectionPanel({ onConnect, error }: ConnectionPanelProps) {
                     <button
                         type="submit"
                         className="btn btn-primary btn-full"
-                        disabled={!remoteId || !remotePwd || isConnecting}
+                        disabled={!remoteId || isConnecting}
                     >
                         {isConnecting ? (
                             <>
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import Icon from './Icon';
+import '../styles/plan.css';
+import type { ConnectionRequest, SessionGrant, SessionPermission } from '../types/electron.d';
+
+interface ConnectionRequestPromptProps {
+    request: ConnectionRequest;
+    onAccept: (requestId: string, grant: SessionGrant) => void;
+    onReject: (requestId: string) => void;
+}
+
+export const PERMISSION_LABELS: Record<SessionPermission, { label: string; icon: string }> = {
+    view: { label: '화면 보기', icon: 'monitor' },
+    input: { label: '마우스/키보드 제어', icon: 'gamepad' },
+    clipboard: { label: '클립보드 공유', icon: 'clipboard' },
+    files: { label: '파일 전송', icon: 'folder' },
+    audio: { label: '소리 전송', icon: 'volume' },
+};
+
+// view-only 세션에서 부여할 수 없는 권한
+const CONTROL_PERMISSIONS: SessionPermission[] = ['input', 'clipboard', 'files'];
+
+export default function ConnectionRequestPrompt({ request, onAccept, onReject }: ConnectionRequestPromptProps) {
+    const [remaining, setRemaining] = useState(() => Math.max(0, Math.ceil((request.expiresAt - Date.now()) / 1000)));
+    const [selected, setSelected] = useState<SessionPermission[]>(request.requestedPermissions);
+
+    // 남은 시간 표시 (만료 처리는 서버가 담당)
+    useEffect(() => {
+        const timer = setInterval(() => {
+            setRemaining(Math.max(0, Math.ceil((request.expiresAt - Date.now()) / 1000)));
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [request.expiresAt]);
+
+    const togglePermission = (permission: SessionPermission) => {
+        // 화면 보기는 항상 허용
+        if (permission === 'view') return;
+        setSelected(prev => prev.includes(permission)
+            ? prev.filter(p => p !== permission)
+            : [...prev, permission]);
+    };
+
+    const handleAccept = (viewOnly: boolean) => {
+        const permissions = viewOnly
+            ? selected.filter(p => !CONTROL_PERMISSIONS.includes(p))
+            : selected;
+        const hasControl = permissions.some(p => CONTROL_PERMISSIONS.includes(p));
+        onAccept(request.requestId, { mode: hasControl ? 'control' : 'view-only', permissions });
+    };
+
+    const formatId = (id: string) => id.replace(/(\d{3})(\d{3})(\d{3})/, '$1-$2-$3');
+
+    return (
+        <div className="upgrade-prompt-overlay">
+            <div className="upgrade-prompt">
+                <div className="upgrade-icon">
+                    <Icon name="shield" size={32} />
+                </div>
+                <h3>연결 요청</h3>
+                <p>
+                    <strong>{request.viewerName || `PC-${request.viewerConnectionId.slice(-4)}`}</strong>
+                    {' '}({formatId(request.viewerConnectionId)})이(가) 이 컴퓨터에 연결하려고 합니다.
+                    {request.ipAddress && <><br />IP: {request.ipAddress}</>}
+                </p>
+                <div className="upgrade-benefits">
+                    {request.requestedPermissions.map(permission => (
+                        <label className="benefit" key={permission} style={{ cursor: permission === 'view' ? 'default' : 'pointer' }}>
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(permission)}
+                                disabled={permission === 'view'}
+                                onChange={() => togglePermission(permission)}
+                            />
+                            <Icon name={PERMISSION_LABELS[permission]?.icon || 'check'} size={16} />
+                            <span>{PERMISSION_LABELS[permission]?.label || permission}</span>
+                        </label>
+                    ))}
+                </div>
+                <div className="upgrade-actions">
+                    <button className="upgrade-btn primary" onClick={() => handleAccept(false)}>
+                        <Icon name="check" size={16} />
+                        수락
+                    </button>
+                    <button className="upgrade-btn secondary" onClick={() => handleAccept(true)}>
+                        <Icon name="monitor" size={16} />
+                        보기 전용으로 수락
+                    </button>
+                    <button className="upgrade-btn secondary" onClick={() => onReject(request.requestId)}>
+                        거절 ({remaining}초)
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import Icon from './Icon';
+import type { AccountDevice } from '../types/electron.d';
+
+interface DeviceListProps {
+    isLoggedIn: boolean;
+    onConnectDevice: (device: AccountDevice) => void;
+}
+
+// 계정에 등록한 내 장치와 팀 장치 (비밀번호 없이 연결)
+function DeviceList({ isLoggedIn, onConnectDevice }: DeviceListProps) {
+    const [devices, setDevices] = useState<AccountDevice[]>([]);
+    const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isLoggedIn) {
+            setDevices([]);
+            return;
+        }
+        loadDevices();
+
+        // 다른 곳에서 이 장치를 해제하면 목록 갱신
+        const cleanup = window.electronAPI.onDeviceRevoked?.(() => loadDevices());
+        return () => cleanup?.();
+    }, [isLoggedIn]);
+
+    const loadDevices = async () => {
+        setLoading(true);
+        try {
+            const current = await window.electronAPI.devicesGetCurrent?.();
+            setCurrentDeviceId(current?.deviceId || null);
+
+            const result = await window.electronAPI.devicesList?.();
+            if (result?.success) {
+                setDevices(result.devices);
+                setError('');
+            } else if (result) {
+                setError(result.error);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleEnroll = async () => {
+        const result = await window.electronAPI.devicesEnroll?.();
+        if (result && !result.success) {
+            setError(result.error || '장치를 등록할 수 없습니다');
+        }
+        await loadDevices();
+    };
+
+    const handleRevoke = async (device: AccountDevice) => {
+        if (!window.confirm(`'${device.name}' 장치를 해제할까요? 연결 중인 세션이 종료됩니다.`)) return;
+        const result = await window.electronAPI.devicesRevoke?.(device.id);
+        if (result && !result.success) {
+            setError(result.error || '장치를 해제할 수 없습니다');
+        }
+        await loadDevices();
+    };
+
+    if (!isLoggedIn) return null;
+
+    return (
+        <div className="card" style={{ marginTop: '20px' }}>
+            <div className="card-header" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <h2 className="card-title">
+                    <Icon name="monitor" size={18} />
+                    내 장치
+                </h2>
+                {!currentDeviceId && (
+                    <button className="btn btn-secondary" onClick={handleEnroll} disabled={loading}>
+                        이 PC 등록
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="error-message">
+                    <Icon name="alert" size={16} />
+                    {error}
+                </div>
+            )}
+
+            {devices.length > 0 ? (
+                <div className="recent-connections">
+                    {devices.map((device) => (
+                        <div
+                            key={device.id}
+                            className="recent-connection-item"
+                            style={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                padding: '12px',
+                                borderRadius: '8px',
+                                background: 'rgba(255,255,255,0.05)',
+                                marginBottom: '8px'
+                            }}
+                        >
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                                <span
+                                    title={device.online ? '온라인' : '오프라인'}
+                                    style={{
+                                        width: '8px',
+                                        height: '8px',
+                                        borderRadius: '50%',
+                                        background: device.online ? 'var(--accent-success, #22c55e)' : 'rgba(255,255,255,0.2)'
+                                    }}
+                                />
+                                <div>
+                                    <div style={{ fontWeight: 500 }}>
+                                        {device.name}
+                                        {device.id === currentDeviceId && <span style={{ opacity: 0.6 }}> (이 PC)</span>}
+                                    </div>
+                                    <div style={{ fontSize: '12px', opacity: 0.6 }}>
+                                        {device.owned ? (device.platform || '내 장치') : (device.ownerName || device.ownerEmail)}
+                                    </div>
+                                </div>
+                            </div>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                                {device.id !== currentDeviceId && (
+                                    <button
+                                        className="btn btn-primary"
+                                        onClick={() => onConnectDevice(device)}
+                                        disabled={!device.online}
+                                    >
+                                        연결
+                                    </button>
+                                )}
+                                {device.owned && (
+                                    <button
+                                        className="btn-icon-small"
+                                        onClick={() => handleRevoke(device)}
+                                        title="장치 해제"
+                                        style={{ background: 'transparent', border: 'none', cursor: 'pointer', opacity: 0.5, padding: '4px' }}
+                                    >
+                                        <Icon name="trash" size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="empty-state">
+                    <Icon name="monitor" size={40} />
+                    <p style={{ marginTop: '12px' }}>
+                        {loading ? '불러오는 중...' : '등록된 장치가 없습니다'}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default DeviceList;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
+import type { SessionHistoryItem } from '../types/electron.d';
 
 interface ConnectionRecord {
     id: string;
@@ -43,21 +44,74 @@ const historyStorage = {
     }
 };
 
+const HISTORY_PAGE_SIZE = 50;
+
+function formatDuration(seconds: number | null, endedAt: string | null): string {
+    if (!endedAt) return '연결 중';
+    if (seconds === null) return '-';
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 1) return `${seconds}초`;
+    if (minutes < 60) return `${minutes}분`;
+    return `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`;
+}
+
+// 서버 세션 기록을 화면 표시용 기록으로 변환
+function toConnectionRecord(item: SessionHistoryItem): ConnectionRecord {
+    const remoteId = item.peerConnectionId || '';
+    return {
+        id: item.id,
+        name: (item.direction === 'incoming' && item.viewerName) || `PC-${remoteId.slice(-4)}`,
+        remoteId,
+        date: new Date(item.startedAt).toLocaleString('ko-KR'),
+        duration: formatDuration(item.durationSeconds, item.endedAt),
+        type: item.direction,
+        status: 'success',
+    };
+}
+
 function HistoryPage() {
     const [history, setHistory] = useState<ConnectionRecord[]>([]);
     const [savedConnections, setSavedConnections] = useState<any[]>([]);
     const [filter, setFilter] = useState<'all' | 'incoming' | 'outgoing' | 'saved'>('all');
     const [searchTerm, setSearchTerm] = useState('');
     const [reconnecting, setReconnecting] = useState<string | null>(null);
+    // 로그인한 경우 서버 기록 사용 (다른 기기의 기록 포함)
+    const [serverPage, setServerPage] = useState<{ page: number; total: number } | null>(null);
 
     useEffect(() => {
-        const savedHistory = historyStorage.getHistory();
-        setHistory(savedHistory);
+        loadHistory();
 
         // 저장된 연결 로드
         loadSavedConnections();
     }, []);
 
+    const loadHistory = async () => {
+        const authState = await window.electronAPI.authGetState?.();
+        if (authState?.isLoggedIn && window.electronAPI.sessionsGetHistory) {
+            const result = await window.electronAPI.sessionsGetHistory({ page: 1, limit: HISTORY_PAGE_SIZE });
+            if (result.success) {
+                setHistory(result.sessions.map(toConnectionRecord));
+                setServerPage({ page: 1, total: result.pagination.total });
+                return;
+            }
+        }
+
+        // 비로그인 또는 서버 오류 시 이 기기의 기록 사용
+        setHistory(historyStorage.getHistory());
+        setServerPage(null);
+    };
+
+    const loadMoreHistory = async () => {
+        if (!serverPage || !window.electronAPI.sessionsGetHistory) return;
+
+        const nextPage = serverPage.page + 1;
+        const result = await window.electronAPI.sessionsGetHistory({ page: nextPage, limit: HISTORY_PAGE_SIZE });
+        if (result.success) {
+            setHistory(prev => [...prev, ...result.sessions.map(toConnectionRecord)]);
+            setServerPage({ page: nextPage, total: result.pagination.total });
+        }
+    };
+
     const loadSavedConnections = async () => {
         const connections = await window.electronAPI.savedConnectionsGetAll();
         setSavedConnections(connections);
@@ -138,7 +192,7 @@ function HistoryPage() {
             <h2 className="page-title">
                 <Icon name="clock" size={20} />
                 연결 기록
-                <span className="record-count">{history.length}개</span>
+                <span className="record-count">{serverPage ? serverPage.total : history.length}개</span>
             </h2>
 
             {/* 검색 및 필터 */}
@@ -214,13 +268,15 @@ function HistoryPage() {
                                     <Icon name="link" size={14} />
                                     연결
                                 </button>
-                                <button
-                                    className="btn btn-icon btn-small"
-                                    onClick={() => handleDeleteRecord(record.id)}
-                                    title="삭제"
-                                >
-                                    <Icon name="trash" size={14} />
-                                </button>
+                                {!serverPage && (
+                                    <button
+                                        className="btn btn-icon btn-small"
+                                        onClick={() => handleDeleteRecord(record.id)}
+                                        title="삭제"
+                                    >
+                                        <Icon name="trash" size={14} />
+                                    </button>
+                                )}
                             </div>
                         </div>
                     ))}
@@ -228,17 +284,35 @@ function HistoryPage() {
             )}
 
             <div className="history-footer">
-                <button
-                    className="btn btn-secondary"
-                    onClick={handleClearHistory}
-                    disabled={history.length === 0}
-                >
-                    <Icon name="trash" size={14} />
-                    전체 기록 삭제
-                </button>
-                <span className="history-info-text">
-                    최근 100개의 기록이 저장됩니다
-                </span>
+                {serverPage ? (
+                    <>
+                        <button
+                            className="btn btn-secondary"
+                            onClick={loadMoreHistory}
+                            disabled={history.length >= serverPage.total}
+                        >
+                            <Icon name="arrow-down" size={14} />
+                            더 보기
+                        </button>
+                        <span className="history-info-text">
+                            계정에 연결된 모든 기기의 기록입니다
+                        </span>
+                    </>
+                ) : (
+                    <>
+                        <button
+                            className="btn btn-secondary"
+                            onClick={handleClearHistory}
+                            disabled={history.length === 0}
+                        >
+                            <Icon name="trash" size={14} />
+                            전체 기록 삭제
+                        </button>
+                        <span className="history-info-text">
+                            최근 100개의 기록이 저장됩니다
+                        </span>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -4,10 +4,17 @@ import Icon from './Icon';
 import { ChatPanel, FileTransferPanel, StatsDisplay } from './viewer';
 import { useRecording, useChat, useFileTransfer } from '../hooks';
 import '../styles/RemoteViewer.css';
+import type { SessionGrant, SessionParticipant } from '../types/electron.d';
 
 interface RemoteViewerProps {
     onDisconnect: () => void;
     isViewer?: boolean;
+    sessionGrant?: SessionGrant | null;
+    onUpdatePermissions?: (grant: SessionGrant) => void;
+    // 다중 뷰어 세션 참여자 (없으면 1:1 세션)
+    participants?: SessionParticipant[];
+    localConnectionId?: string;
+    onToggleControl?: (hasControl: boolean) => void;
 }
 
 interface NetworkStats {
@@ -17,9 +24,27 @@ interface NetworkStats {
     quality: string;
 }
 
-function RemoteViewer({ onDisconnect, isViewer = false }: RemoteViewerProps) {
+function RemoteViewer({
+    onDisconnect,
+    isViewer = false,
+    sessionGrant = null,
+    onUpdatePermissions,
+    participants = [],
+    localConnectionId,
+    onToggleControl,
+}: RemoteViewerProps) {
     const videoRef = useRef<HTMLVideoElement>(null);
 
+    // 세션 권한 (권한 정보가 없으면 기존처럼 전체 허용)
+    const isViewOnly = sessionGrant?.mode === 'view-only';
+    const viewerCount = participants.filter(p => p.role === 'viewer').length;
+    // 참여자 목록이 있으면 제어 토큰을 가진 뷰어만 입력 가능
+    const self = participants.find(p => p.connectionId === localConnectionId);
+    const hasControlToken = !self || self.hasControl;
+    const canControl = (!sessionGrant || (!isViewOnly && sessionGrant.permissions.includes('input'))) && hasControlToken;
+    // 보기 전용 전환 후 되돌릴 이전 권한 (호스트 측)
+    const previousGrantRef = useRef<SessionGrant | null>(null);
+
     // 기본 상태
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [showToolbar, setShowToolbar] = useState(true);
@@ -123,7 +148,7 @@ function RemoteViewer({ onDisconnect, isViewer = false }: RemoteViewerProps) {
     // 입력 핸들링
     useEffect(() => {
         const video = videoRef.current;
-        if (!video || !isViewer) return;
+        if (!video || !isViewer || !canControl) return;
 
         // Pointer Lock State
         const virtualPosRef = useRef<{ x: number, y: number } | null>(null);
@@ -229,7 +254,19 @@ function RemoteViewer({ onDisconnect, isViewer = false }: RemoteViewerProps) {
             window.removeEventListener('keyup', handleKeyUp);
             if (rafRef.current) cancelAnimationFrame(rafRef.current);
         };
-    }, [isViewer]);
+    }, [isViewer, canControl]);
+
+    // 보기 전용 전환 (호스트 측)
+    const toggleViewOnly = () => {
+        if (!sessionGrant || !onUpdatePermissions) return;
+
+        if (isViewOnly) {
+            onUpdatePermissions(previousGrantRef.current || { mode: 'control', permissions: ['view', 'input', 'clipboard', 'files', 'audio'] });
+        } else {
+            previousGrantRef.current = sessionGrant;
+            onUpdatePermissions({ mode: 'view-only', permissions: sessionGrant.permissions.filter(p => p === 'view' || p === 'audio') });
+        }
+    };
 
     // 단축키
     useEffect(() => {
@@ -326,6 +363,16 @@ function RemoteViewer({ onDisconnect, isViewer = false }: RemoteViewerProps) {
                         <span className={`status-dot ${connectionState === 'connected' ? 'connected' : 'connecting'}`} />
                         {isViewer ? '원격 연결됨' : '화면 공유 중'} ({connectionState})
                     </span>
+                    {isViewOnly && (
+                        <span className="connection-status" title="호스트가 보기 전용으로 설정했습니다">
+                            <Icon name="lock" size={12} /> 보기 전용
+                        </span>
+                    )}
+                    {viewerCount > 1 && (
+                        <span className="connection-status" title={participants.map(p => p.name || p.connectionId).join(', ')}>
+                            <Icon name="user" size={12} /> 뷰어 {viewerCount}명
+                        </span>
+                    )}
                 </div>
 
                 <div className="toolbar-center">
@@ -341,6 +388,20 @@ function RemoteViewer({ onDisconnect, isViewer = false }: RemoteViewerProps) {
                         <option value="medium">중화질</option>
                         <option value="high">고화질</option>
                     </select>
+                    {isViewer && self && !isViewOnly && onToggleControl && (
+                        <button
+                            className={`tool-btn ${self.hasControl ? 'active' : ''}`}
+                            onClick={() => onToggleControl(self.hasControl)}
+                            title={self.hasControl ? '제어권 반납' : '제어권 요청'}
+                        >
+                            <Icon name="gamepad" size={16} />
+                        </button>
+                    )}
+                    {!isViewer && sessionGrant && (
+                        <button className={`tool-btn ${isViewOnly ? 'active' : ''}`} onClick={toggleViewOnly} title={isViewOnly ? '제어 허용' : '보기 전용으로 전환'}>
+                            <Icon name="lock" size={16} />
+                        </button>
+                    )}
                     <button className={`tool-btn ${showStats ? 'active' : ''}`} onClick={() => setShowStats(!showStats)} title="통계">
                         <Icon name="chart" size={16} />
                     </button>
@@ -14,6 +14,7 @@ interface Settings {
     autoRefreshPassword: boolean;
     sessionTimeout: number;
     requirePassword: boolean;
+    accessMode: 'password' | 'approval' | 'password-and-approval';
 
     // 핫키 설정
     hotkeyPreset: string;
@@ -36,6 +37,7 @@ const defaultSettings: Settings = {
     autoRefreshPassword: true,
     sessionTimeout: 60,
     requirePassword: true,
+    accessMode: 'password',
     hotkeyPreset: 'default',
     notifyOnConnect: true,
     notifyOnDisconnect: true,
@@ -84,6 +86,9 @@ function SettingsPage() {
                 case 'hotkeyPreset':
                     window.electronAPI.setHotkeyPreset?.(value as string);
                     break;
+                case 'accessMode':
+                    window.electronAPI.setAccessMode?.(value as Settings['accessMode']);
+                    break;
                 case 'sessionTimeout':
                     window.electronAPI.setSessionTimeout?.(value as number);
                     break;
@@ -300,6 +305,21 @@ function SettingsPage() {
                                     <span className="toggle-slider"></span>
                                 </label>
                             </div>
+                            <div className="setting-item">
+                                <div className="setting-info">
+                                    <span className="setting-label">연결 허용 방식</span>
+                                    <span className="setting-description">상대방이 연결할 때 직접 수락 여부 확인</span>
+                                </div>
+                                <select
+                                    className="setting-select"
+                                    value={settings.accessMode}
+                                    onChange={(e) => updateSetting('accessMode', e.target.value as Settings['accessMode'])}
+                                >
+                                    <option value="password">비밀번호만</option>
+                                    <option value="approval">수락 요청만</option>
+                                    <option value="password-and-approval">비밀번호 + 수락</option>
+                                </select>
+                            </div>
                             <div className="setting-item">
                                 <div className="setting-info">
                                     <span className="setting-label">비밀번호 자동 갱신</span>
@@ -13,6 +13,24 @@ export interface ElectronAPI {
     connect: (connectionId: string, password: string) => Promise<boolean>;
     disconnect: () => Promise<void>;
 
+    // 연결 승인 (호스트 측)
+    setAccessMode?: (mode: HostAccessMode) => Promise<boolean>;
+    respondConnectionRequest?: (requestId: string, accepted: boolean, reason?: string, grant?: SessionGrant) => Promise<boolean>;
+    onConnectionRequest?: (callback: (request: ConnectionRequest) => void) => (() => void) | void;
+    onConnectionRequestCancelled?: (callback: (data: { requestId: string; reason: string }) => void) => (() => void) | void;
+
+    // 세션 권한
+    updateSessionPermissions?: (grant: SessionGrant, targetConnectionId?: string) => Promise<boolean>;
+    onSessionPermissions?: (callback: (grant: SessionGrant | null) => void) => (() => void) | void;
+
+    // 다중 뷰어 세션
+    requestControl?: () => Promise<boolean>;
+    releaseControl?: () => Promise<boolean>;
+    transferControl?: (targetConnectionId: string | null) => Promise<boolean>;
+    onSessionParticipants?: (callback: (participants: SessionParticipant[]) => void) => (() => void) | void;
+    onControlChanged?: (callback: (data: { holderConnectionId: string | null }) => void) => (() => void) | void;
+    onControlRequested?: (callback: (data: { viewerConnectionId: string }) => void) => (() => void) | void;
+
     // 화면 캡처
     startScreenCapture: () => Promise<void>;
     stopScreenCapture: () => Promise<void>;
@@ -41,6 +59,7 @@ export interface ElectronAPI {
     onSessionStarted: (callback: (data: { peerId: string; isViewer: boolean }) => void) => (() => void) | void;
     onSessionEnded: (callback: (data?: any) => void) => (() => void) | void;
     onConnectionError: (callback: (error: string) => void) => (() => void) | void;
+    onConnectPending?: (callback: (data: { requestId: string; expiresAt: number }) => void) => (() => void) | void;
     onP2PStatus?: (callback: (data: { connected: boolean }) => void) => (() => void) | void;
 
     // WebRTC 시그널링
@@ -94,11 +113,13 @@ export interface ElectronAPI {
     onUpdateStatus: (callback: (data: any) => void) => (() => void) | void;
 
     // 인증
-    authLogin: (email: string, password: string) => Promise<{ success: boolean; user?: any; error?: string }>;
+    authLogin: (email: string, password: string) => Promise<{ success: boolean; user?: any; error?: string; requiresTwoFactor?: boolean; challengeToken?: string }>;
+    authLoginTwoFactor?: (challengeToken: string, code: string) => Promise<{ success: boolean; user?: any; error?: string }>;
     authRegister: (email: string, password: string, name: string) => Promise<{ success: boolean; user?: any; error?: string }>;
     authLogout: () => Promise<{ success: boolean }>;
     authGetState: () => Promise<{ isLoggedIn: boolean; user: any }>;
     authGetUser: () => Promise<any>;
+    sessionsGetHistory?: (params?: SessionHistoryParams) => Promise<SessionHistoryResult>;
     onOAuthSuccess: (callback: (data: { accessToken: string; refreshToken: string }) => void) => () => void;
     setAuthTokens: (data: { accessToken: string; refreshToken: string; user: any }) => Promise<void>;
 
@@ -128,6 +149,15 @@ export interface ElectronAPI {
     trustedDevicesIsTrusted: (deviceId: string) => Promise<boolean>;
     trustedDevicesClear: () => Promise<{ success: boolean }>;
 
+    // 계정 장치
+    devicesGetCurrent?: () => Promise<{ deviceId: string; name: string; enrolledAt: string } | null>;
+    devicesEnroll?: (name?: string) => Promise<{ success: boolean; device?: any; error?: string }>;
+    devicesList?: () => Promise<DeviceListResult>;
+    devicesRename?: (deviceId: string, name: string) => Promise<{ success: boolean; device?: any; error?: string }>;
+    devicesRevoke?: (deviceId: string) => Promise<{ success: boolean; disconnected?: number; error?: string }>;
+    connectDevice?: (deviceId: string) => Promise<boolean>;
+    onDeviceRevoked?: (callback: () => void) => () => void;
+
     // 저장된 연결
     savedConnectionsGetAll: () => Promise<any[]>;
     savedConnectionsSave: (connection: { remoteId: string; password: string; name?: string }) => Promise<any>;
@@ -146,6 +176,76 @@ export interface ElectronAPI {
     openExternal: (url: string) => Promise<void>;
 }
 
+export type HostAccessMode = 'password' | 'approval' | 'password-and-approval';
+
+export type SessionPermission = 'view' | 'input' | 'clipboard' | 'files' | 'audio';
+
+export interface SessionGrant {
+    mode: 'control' | 'view-only';
+    permissions: SessionPermission[];
+}
+
+export interface SessionParticipant {
+    connectionId: string;
+    role: 'host' | 'viewer';
+    name?: string;
+    grant?: SessionGrant;
+    hasControl: boolean;
+}
+
+export interface SessionHistoryItem {
+    id: string;
+    sessionId: string | null;
+    direction: 'incoming' | 'outgoing';
+    connectionId: string;
+    peerConnectionId: string | null;
+    viewerName: string | null;
+    startedAt: string;
+    endedAt: string | null;
+    durationSeconds: number | null;
+    endReason: string | null;
+}
+
+export interface SessionHistoryParams {
+    page?: number;
+    limit?: number;
+    direction?: 'incoming' | 'outgoing';
+    status?: 'active' | 'ended';
+    from?: string;
+    to?: string;
+    peer?: string;
+}
+
+export type SessionHistoryResult =
+    | { success: true; sessions: SessionHistoryItem[]; pagination: { page: number; limit: number; total: number } }
+    | { success: false; error: string };
+
+export interface AccountDevice {
+    id: string;
+    name: string;
+    platform: string | null;
+    ownerId: string;
+    ownerEmail: string;
+    ownerName: string | null;
+    owned: boolean;
+    online: boolean;
+    createdAt: string;
+    lastSeenAt: string | null;
+}
+
+export type DeviceListResult =
+    | { success: true; devices: AccountDevice[] }
+    | { success: false; error: string };
+
+export interface ConnectionRequest {
+    requestId: string;
+    viewerConnectionId: string;
+    viewerName?: string;
+    ipAddress?: string;
+    requestedPermissions: SessionPermission[];
+    expiresAt: number;
+}
+
 export interface MouseEventData {
     type: 'move' | 'click' | 'scroll';
     x: number;
@@ -0,0 +1,262 @@
+/**
+ * Unit Tests for Account Email
+ * 이메일 인증/비밀번호 재설정 토큰과 메일 전송 단위 테스트
+ */
+
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+    AccountEmailService,
+    AccountEmailStore,
+    AccountUser,
+    EmailTokenPurpose,
+    EmailTokenRecord,
+} from '../services/accountEmail';
+import { FileMailTransport, MailMessage, MailTransport, SmtpMailTransport } from '../services/mailer';
+
+// 서비스가 사용하는 저장소의 메모리 구현
+class InMemoryAccountEmailStore implements AccountEmailStore {
+    users = new Map<string, AccountUser & { passwordHash: string | null }>();
+    tokens = new Map<string, EmailTokenRecord>();
+    revokedSessions: string[] = [];
+
+    async findUserById(userId: string) {
+        return this.users.get(userId) ?? null;
+    }
+
+    async findUserByEmail(email: string) {
+        return [...this.users.values()].find(u => u.email.toLowerCase() === email) ?? null;
+    }
+
+    async createToken(token: Omit<EmailTokenRecord, 'usedAt'>) {
+        this.tokens.set(token.id, { ...token, usedAt: null });
+    }
+
+    async getToken(tokenId: string) {
+        const token = this.tokens.get(tokenId);
+        return token ? { ...token } : null;
+    }
+
+    async consumeToken(tokenId: string, usedAt: Date) {
+        const token = this.tokens.get(tokenId);
+        if (!token || token.usedAt) return false;
+        token.usedAt = usedAt.toISOString();
+        return true;
+    }
+
+    async invalidateTokens(userId: string, purpose: EmailTokenPurpose, at: Date) {
+        for (const token of this.tokens.values()) {
+            if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+                token.usedAt = at.toISOString();
+            }
+        }
+    }
+
+    async markEmailVerified(userId: string, verifiedAt: Date) {
+        this.users.get(userId)!.emailVerifiedAt = verifiedAt.toISOString();
+    }
+
+    async updatePassword(userId: string, passwordHash: string) {
+        this.users.get(userId)!.passwordHash = passwordHash;
+        this.revokedSessions.push(userId);
+    }
+}
+
+class RecordingMailTransport implements MailTransport {
+    sent: MailMessage[] = [];
+
+    async send(message: MailMessage) {
+        this.sent.push(message);
+    }
+
+    // 마지막 메일 링크의 토큰
+    lastToken(): string {
+        const match = this.sent[this.sent.length - 1].text.match(/token=([^\s]+)/);
+        return decodeURIComponent(match![1]);
+    }
+}
+
+describe('AccountEmailService', () => {
+    let store: InMemoryAccountEmailStore;
+    let mailer: RecordingMailTransport;
+    let service: AccountEmailService;
+    let now: number;
+
+    beforeEach(() => {
+        now = Date.parse('2026-06-01T00:00:00Z');
+        store = new InMemoryAccountEmailStore();
+        store.users.set('user-1', {
+            id: 'user-1', email: 'User@Example.com', name: '홍길동', hasPassword: true, emailVerifiedAt: null, passwordHash: 'old',
+        });
+        store.users.set('user-oauth', {
+            id: 'user-oauth', email: 'oauth@example.com', name: 'OAuth', hasPassword: false, emailVerifiedAt: '2026-01-01T00:00:00.000Z', passwordHash: null,
+        });
+        mailer = new RecordingMailTransport();
+        service = new AccountEmailService(store, {
+            secret: 'test-secret',
+            mailer,
+            hashPassword: async (password) => `hashed:${password}`,
+            appUrl: 'https://app.example.com/',
+            now: () => now,
+        });
+    });
+
+    it('should verify the email once with the mailed link', async () => {
+        expect((await service.sendVerification('user-1')).success).toBe(true);
+        expect(mailer.sent[0]).toMatchObject({ to: 'User@Example.com' });
+        expect(mailer.sent[0].text).toContain('https://app.example.com/verify-email.html?token=');
+
+        const token = mailer.lastToken();
+        expect(await service.verifyEmail(token)).toEqual({ success: true, userId: 'user-1' });
+        expect(store.users.get('user-1')!.emailVerifiedAt).toBe(new Date(now).toISOString());
+
+        expect(await service.verifyEmail(token)).toMatchObject({ success: false, status: 400 });
+        expect(await service.sendVerification('user-1')).toMatchObject({ success: false, status: 409 });
+    });
+
+    it('should reject tampered, expired, superseded and wrong-purpose tokens', async () => {
+        await service.sendVerification('user-1');
+        const first = mailer.lastToken();
+        await service.sendVerification('user-1');
+        const second = mailer.lastToken();
+
+        // 새 토큰을 발급하면 이전 토큰은 무효
+        expect(await service.verifyEmail(first)).toMatchObject({ success: false });
+
+        const [id] = second.split('.');
+        expect(await service.verifyEmail(`${id}.forged`)).toMatchObject({ success: false });
+        expect(await service.resetPassword(second, 'new-password')).toMatchObject({ success: false });
+
+        now += 25 * 60 * 60 * 1000;
+        expect(await service.verifyEmail(second)).toMatchObject({ success: false });
+        expect(store.users.get('user-1')!.emailVerifiedAt).toBeNull();
+    });
+
+    it('should reset the password and end existing sessions', async () => {
+        await service.requestPasswordReset('  USER@example.com ');
+        expect(mailer.sent[0].text).toContain('/reset-password.html?token=');
+        const token = mailer.lastToken();
+
+        expect(await service.resetPassword(token, 'short')).toMatchObject({ success: false, status: 400 });
+        expect(await service.resetPassword(token, 'new-password')).toEqual({ success: true });
+        expect(store.users.get('user-1')).toMatchObject({ passwordHash: 'hashed:new-password', emailVerifiedAt: new Date(now).toISOString() });
+        expect(store.revokedSessions).toEqual(['user-1']);
+
+        expect(await service.resetPassword(token, 'another-password')).toMatchObject({ success: false, status: 400 });
+    });
+
+    it('should not reveal unknown or OAuth-only accounts', async () => {
+        await service.requestPasswordReset('nobody@example.com');
+        await service.requestPasswordReset('oauth@example.com');
+        expect(mailer.sent).toEqual([]);
+    });
+});
+
+describe('Mail transports', () => {
+    it('should write .eml files with encoded subjects', async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'lunarview-mail-'));
+        try {
+            await new FileMailTransport(directory).send({ to: 'user@example.com', subject: '비밀번호 재설정', text: '링크' });
+
+            const [file] = await fs.readdir(directory);
+            const content = await fs.readFile(path.join(directory, file), 'utf8');
+            expect(content).toContain('To: user@example.com');
+            expect(content).toContain(`Subject: =?UTF-8?B?${Buffer.from('비밀번호 재설정').toString('base64')}?=`);
+            expect(content).toContain(Buffer.from('링크').toString('base64'));
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    // 최소한의 SMTP 서버 (STARTTLS 미지원, QUIT 후 클라이언트가 닫으면 RST로 끊음)
+    async function startSmtpServer() {
+        const commands: string[] = [];
+        const received = { data: '' };
+
+        const server = net.createServer(socket => {
+            let buffer = '';
+            let inData = false;
+            socket.write('220 test ESMTP\r\n');
+            socket.on('data', chunk => {
+                buffer += chunk.toString();
+                let index: number;
+                while ((index = buffer.indexOf('\r\n')) !== -1) {
+                    const line = buffer.slice(0, index);
+                    buffer = buffer.slice(index + 2);
+
+                    if (inData) {
+                        if (line === '.') {
+                            inData = false;
+                            socket.write('250 queued\r\n');
+                        } else {
+                            received.data += `${line}\n`;
+                        }
+                        continue;
+                    }
+
+                    commands.push(line);
+                    if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN LOGIN\r\n');
+                    else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+                    else if (line === 'DATA') { inData = true; socket.write('354 go\r\n'); }
+                    else if (line === 'QUIT') { socket.write('221 bye\r\n'); socket.once('end', () => socket.resetAndDestroy()); }
+                    else socket.write('250 ok\r\n');
+                }
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        return {
+            commands,
+            received,
+            port: (server.address() as net.AddressInfo).port,
+            close: () => new Promise<void>(resolve => server.close(() => resolve())),
+        };
+    }
+
+    const message = { to: 'user@example.com', subject: 'Hello', text: 'Body' };
+
+    it('should deliver without TLS only when insecure mode is set', async () => {
+        const server = await startSmtpServer();
+        try {
+            const transport = new SmtpMailTransport({
+                host: '127.0.0.1',
+                port: server.port,
+                secure: false,
+                from: 'LunarView <no-reply@example.com>',
+                allowInsecure: true,
+            });
+            await transport.send(message);
+
+            expect(server.commands).toEqual([
+                expect.stringMatching(/^EHLO /),
+                'MAIL FROM:<no-reply@example.com>',
+                'RCPT TO:<user@example.com>',
+                'DATA',
+                'QUIT',
+            ]);
+            expect(server.received.data).toContain('Subject: Hello');
+
+            // 닫은 소켓에 늦게 도착한 RST가 처리되지 않은 오류가 되지 않아야 함
+            await new Promise(resolve => setTimeout(resolve, 50));
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should never send credentials or mail over plain text by default', async () => {
+        const server = await startSmtpServer();
+        const options = { host: '127.0.0.1', port: server.port, secure: false };
+        try {
+            await expect(new SmtpMailTransport(options).send(message))
+                .rejects.toThrow('SMTP server does not support STARTTLS');
+            await expect(new SmtpMailTransport({ ...options, user: 'mailer', pass: 'secret', allowInsecure: true }).send(message))
+                .rejects.toThrow('Refusing to send SMTP credentials over an unencrypted connection');
+
+            expect(server.commands.filter(c => !c.startsWith('EHLO'))).toEqual([]);
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for Admin Roles
+ * 관리자 역할/권한 단위 테스트
+ */
+
+import { Request, Response } from 'express';
+import { requireAdmin, getAdminRole, hasAdminPermission } from '../middleware/admin.middleware';
+
+function createResponse() {
+    const res: any = { statusCode: 200, body: undefined };
+    res.status = (code: number) => { res.statusCode = code; return res; };
+    res.json = (body: any) => { res.body = body; return res; };
+    return res as Response & { statusCode: number; body: any };
+}
+
+const users: Record<string, any> = {
+    'user-support': { id: 'user-support', email: 'support@example.com', admin_role: 'support', is_admin: true },
+    'user-billing': { id: 'user-billing', email: 'billing@example.com', admin_role: 'billing', is_admin: true },
+    'user-legacy': { id: 'user-legacy', email: 'legacy@example.com', admin_role: null, is_admin: true },
+    'user-plain': { id: 'user-plain', email: 'plain@example.com', admin_role: null, is_admin: false },
+};
+
+describe('Admin roles', () => {
+    it('should resolve roles and treat legacy admins as superadmin', () => {
+        expect(getAdminRole(users['user-support'])).toBe('support');
+        expect(getAdminRole(users['user-legacy'])).toBe('superadmin');
+        expect(getAdminRole(users['user-plain'])).toBeNull();
+        expect(getAdminRole(null)).toBeNull();
+    });
+
+    it('should scope permissions by role', () => {
+        expect(hasAdminPermission('support', 'clients:disconnect')).toBe(true);
+        expect(hasAdminPermission('support', 'subscriptions:read')).toBe(false);
+        expect(hasAdminPermission('billing', 'users:write')).toBe(true);
+        expect(hasAdminPermission('billing', 'logs:read')).toBe(false);
+        expect(hasAdminPermission('superadmin', 'admins:manage')).toBe(true);
+    });
+});
+
+describe('requireAdmin', () => {
+    const denied: string[] = [];
+    const options = {
+        findUser: async (userId: string) => users[userId] || null,
+        onDenied: (_req: Request, reason: string) => { denied.push(reason); },
+    };
+
+    const run = async (userId: string | null, permission?: Parameters<typeof requireAdmin>[0]) => {
+        const req: any = { user: userId ? { userId, email: '', plan: 'free' } : undefined };
+        const res = createResponse();
+        const next = jest.fn();
+        await requireAdmin(permission, options)(req, res, next);
+        return { req, res, next };
+    };
+
+    beforeEach(() => {
+        denied.length = 0;
+    });
+
+    it('should attach the admin context when the role has the permission', async () => {
+        const { req, next } = await run('user-support', 'clients:read');
+
+        expect(next).toHaveBeenCalled();
+        expect(req.admin).toEqual({ userId: 'user-support', email: 'support@example.com', role: 'support' });
+    });
+
+    it('should reject roles without the permission and record the denial', async () => {
+        const { res, next } = await run('user-billing', 'logs:read');
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.statusCode).toBe(403);
+        expect(denied).toEqual(['missing_permission:logs:read']);
+    });
+
+    it('should reject non-admin and unauthenticated users', async () => {
+        expect((await run('user-plain')).res.statusCode).toBe(403);
+        expect((await run(null)).res.statusCode).toBe(401);
+        expect(denied).toEqual(['not_admin']);
+    });
+});
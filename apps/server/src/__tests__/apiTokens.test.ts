@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for API Tokens
+ * 개인 API 토큰 발급/폐기/만료와 authMiddleware 권한 범위 단위 테스트
+ */
+
+import {
+    ApiToken,
+    ApiTokenOwner,
+    ApiTokenRecord,
+    ApiTokenService,
+    ApiTokenStore,
+    MAX_API_TOKENS_PER_USER,
+    hashApiToken,
+} from '../services/apiTokens';
+
+jest.mock('../services/auth.service', () => ({
+    verifyAccessToken: (token: string) => token === 'jwt-token'
+        ? { userId: 'user-1', email: 'user@example.com', plan: 'free' }
+        : null,
+}));
+
+import { createAuthMiddleware } from '../middleware/auth.middleware';
+
+// 서비스가 사용하는 저장소의 메모리 구현
+class InMemoryApiTokenStore implements ApiTokenStore {
+    tokens: Array<ApiTokenRecord & { tokenHash: string }> = [];
+    owners: Record<string, ApiTokenOwner> = {
+        'user-1': { email: 'user@example.com', plan: 'personal_pro' },
+    };
+
+    async create(token: ApiTokenRecord & { tokenHash: string }) {
+        this.tokens.push({ ...token });
+    }
+
+    async countActive(userId: string, now: Date) {
+        return (await this.listActive(userId, now)).length;
+    }
+
+    async listActive(userId: string, now: Date): Promise<ApiToken[]> {
+        return this.tokens
+            .filter(t => t.userId === userId && !t.revokedAt && Date.parse(t.expiresAt) > now.getTime())
+            .map(({ userId: _userId, revokedAt: _revokedAt, tokenHash: _tokenHash, ...token }) => token)
+            .reverse();
+    }
+
+    async findByHash(tokenHash: string) {
+        const token = this.tokens.find(t => t.tokenHash === tokenHash);
+        return token ? { ...token, ...this.owners[token.userId] } : null;
+    }
+
+    async touch(tokenId: string, usedAt: Date) {
+        this.tokens.find(t => t.id === tokenId)!.lastUsedAt = usedAt.toISOString();
+    }
+
+    async revoke(userId: string, tokenId: string, revokedAt: Date) {
+        const token = this.tokens.find(t => t.id === tokenId && t.userId === userId && !t.revokedAt);
+        if (!token) return false;
+        token.revokedAt = revokedAt.toISOString();
+        return true;
+    }
+}
+
+describe('ApiTokenService', () => {
+    let store: InMemoryApiTokenStore;
+    let service: ApiTokenService;
+    let now: number;
+
+    beforeEach(() => {
+        now = Date.parse('2026-06-01T00:00:00Z');
+        store = new InMemoryApiTokenStore();
+        service = new ApiTokenService(store, { now: () => now });
+    });
+
+    it('should issue a token that is stored only as a hash', async () => {
+        const result = await service.create('user-1', { name: ' ops script ', scopes: ['devices:read', 'devices:read'] });
+        if (!result.success) throw new Error(result.error);
+
+        expect(result.secret).toMatch(/^lvp_[A-Za-z0-9_-]{43}$/);
+        expect(result.token).toMatchObject({
+            name: 'ops script',
+            scopes: ['devices:read'],
+            prefix: result.secret.slice(0, 8),
+            expiresAt: '2026-07-01T00:00:00.000Z',
+        });
+        expect(store.tokens[0].tokenHash).toBe(hashApiToken(result.secret));
+        expect(JSON.stringify(store.tokens)).not.toContain(result.secret);
+
+        expect(await service.authenticate(result.secret)).toEqual({
+            userId: 'user-1',
+            email: 'user@example.com',
+            plan: 'personal_pro',
+            apiTokenId: result.token.id,
+            scopes: ['devices:read'],
+        });
+        expect(store.tokens[0].lastUsedAt).toBe(new Date(now).toISOString());
+    });
+
+    it('should validate name, scopes, expiry and the per-user limit', async () => {
+        expect(await service.create('user-1', { name: '', scopes: ['devices:read'] })).toMatchObject({ success: false, status: 400 });
+        expect(await service.create('user-1', { name: 'x', scopes: [] })).toMatchObject({ success: false, status: 400 });
+        expect(await service.create('user-1', { name: 'x', scopes: ['admin:all' as any] })).toMatchObject({ success: false, status: 400 });
+        expect(await service.create('user-1', { name: 'x', scopes: ['devices:read'], expiresInDays: 0 })).toMatchObject({ success: false, status: 400 });
+        expect(await service.create('user-1', { name: 'x', scopes: ['devices:read'], expiresInDays: 366 })).toMatchObject({ success: false, status: 400 });
+
+        for (let i = 0; i < MAX_API_TOKENS_PER_USER; i++) {
+            await service.create('user-1', { name: `token ${i}`, scopes: ['devices:read'] });
+        }
+        expect(await service.create('user-1', { name: 'one more', scopes: ['devices:read'] })).toMatchObject({ success: false, status: 409 });
+    });
+
+    it('should reject revoked, expired and unknown tokens', async () => {
+        const short = await service.create('user-1', { name: 'short', scopes: ['sessions:read'], expiresInDays: 1 });
+        const revoked = await service.create('user-1', { name: 'revoked', scopes: ['sessions:read'] });
+        if (!short.success || !revoked.success) throw new Error('create failed');
+
+        expect(await service.revoke('user-2', revoked.token.id)).toMatchObject({ success: false, status: 404 });
+        expect(await service.revoke('user-1', revoked.token.id)).toEqual({ success: true });
+        expect(await service.authenticate(revoked.secret)).toBeNull();
+
+        expect(await service.authenticate('lvp_unknown')).toBeNull();
+        expect(await service.authenticate('jwt-token')).toBeNull();
+
+        now += 2 * 24 * 60 * 60 * 1000;
+        expect(await service.authenticate(short.secret)).toBeNull();
+        expect(await service.list('user-1')).toEqual([]);
+    });
+});
+
+describe('authMiddleware API tokens', () => {
+    const apiToken = { userId: 'user-1', email: 'user@example.com', plan: 'free', apiTokenId: 'token-1', scopes: ['devices:read'] };
+
+    const run = async (token: string, scope?: 'devices:read' | 'sessions:read') => {
+        const auth = createAuthMiddleware({
+            scope,
+            resolveMemberPlan: async () => null,
+            authenticateApiToken: async secret => secret === 'lvp_valid' ? apiToken as any : null,
+        });
+        const req: any = { headers: { authorization: `Bearer ${token}` } };
+        const res: any = { statusCode: 200 };
+        res.status = (code: number) => { res.statusCode = code; return res; };
+        res.json = (body: any) => { res.body = body; return res; };
+        const next = jest.fn();
+
+        await auth(req, res, next);
+        return { req, res, next };
+    };
+
+    it('should accept API tokens on routes that declare a granted scope', async () => {
+        const { req, next } = await run('lvp_valid', 'devices:read');
+
+        expect(next).toHaveBeenCalled();
+        expect(req.user).toMatchObject({ userId: 'user-1', apiTokenId: 'token-1' });
+    });
+
+    it('should reject API tokens without the scope or on login-only routes', async () => {
+        expect((await run('lvp_valid', 'sessions:read')).res.statusCode).toBe(403);
+        expect((await run('lvp_valid')).res.statusCode).toBe(403);
+        expect((await run('lvp_revoked', 'devices:read')).res.statusCode).toBe(401);
+    });
+
+    it('should keep accepting login tokens everywhere', async () => {
+        expect((await run('jwt-token')).next).toHaveBeenCalled();
+        expect((await run('jwt-token', 'sessions:read')).next).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit Tests for Audit Log
+ * 감사 로그 단위 테스트
+ */
+
+import {
+    InMemoryAuditLogStore,
+    PostgresAuditLogStore,
+    parseAuditLogRequest,
+    encodeCursor,
+    decodeCursor,
+    toCsv,
+} from '../services/auditLog';
+
+describe('InMemoryAuditLogStore', () => {
+    let store: InMemoryAuditLogStore;
+    let clock: number;
+
+    beforeEach(async () => {
+        clock = Date.parse('2025-01-01T00:00:00Z');
+        store = new InMemoryAuditLogStore(100, () => new Date(clock));
+
+        const events = [
+            { event: 'register', sourceId: '111', ipAddress: '10.0.0.1', success: true },
+            { event: 'auth_failed', sourceId: '222', targetId: '111', ipAddress: '10.0.0.2', success: false },
+            { event: 'connect_success', sourceId: '333', targetId: '111', ipAddress: '10.0.0.3', success: true },
+            { event: 'disconnect', sourceId: '333', ipAddress: '10.0.0.3', success: true },
+        ];
+        for (const event of events) {
+            await store.append(event);
+            clock += 60 * 1000;
+        }
+    });
+
+    it('should return the newest entries first', async () => {
+        const page = await store.query({});
+
+        expect(page.entries.map(e => e.event)).toEqual(['disconnect', 'connect_success', 'auth_failed', 'register']);
+        expect(page.nextCursor).toBeNull();
+    });
+
+    it('should filter by event, connection ID and IP', async () => {
+        expect((await store.query({ events: ['auth_failed', 'register'] })).entries).toHaveLength(2);
+        expect((await store.query({ connectionId: '111' })).entries.map(e => e.event))
+            .toEqual(['connect_success', 'auth_failed', 'register']);
+        expect((await store.query({ ipAddress: '10.0.0.3' })).entries).toHaveLength(2);
+    });
+
+    it('should filter by time range with an exclusive end', async () => {
+        const start = Date.parse('2025-01-01T00:01:00Z');
+        const page = await store.query({ from: new Date(start), to: new Date(start + 2 * 60 * 1000) });
+
+        expect(page.entries.map(e => e.event)).toEqual(['connect_success', 'auth_failed']);
+    });
+
+    it('should page through results with a cursor', async () => {
+        const first = await store.query({ limit: 3 });
+        expect(first.entries).toHaveLength(3);
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = await store.query({ limit: 3, cursor: first.nextCursor! });
+        expect(second.entries.map(e => e.event)).toEqual(['register']);
+        expect(second.nextCursor).toBeNull();
+    });
+});
+
+describe('PostgresAuditLogStore', () => {
+    it('should build a parameterized keyset query', async () => {
+        const calls: Array<{ text: string; params?: any[] }> = [];
+        const store = new PostgresAuditLogStore({
+            query: async (text, params) => {
+                calls.push({ text, params });
+                return { rows: [] };
+            },
+        });
+
+        await store.query({ events: ['register'], connectionId: '111', cursor: encodeCursor('42'), limit: 10 });
+
+        expect(calls[0].text).toContain('id < $1');
+        expect(calls[0].text).toContain('event = ANY($2)');
+        expect(calls[0].text).toContain('(source_id = $3 OR target_id = $3)');
+        expect(calls[0].params).toEqual(['42', ['register'], '111', 11]);
+    });
+});
+
+describe('parseAuditLogRequest', () => {
+    it('should parse filters and the export format', () => {
+        const result = parseAuditLogRequest({
+            from: '2025-01-01T00:00:00Z',
+            to: '1735776000000',
+            event: 'register, auth_failed',
+            connectionId: '111',
+            ip: '10.0.0.1',
+            limit: '50',
+            format: 'csv',
+        });
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.format).toBe('csv');
+        expect(result.query).toMatchObject({
+            events: ['register', 'auth_failed'],
+            connectionId: '111',
+            ipAddress: '10.0.0.1',
+            limit: 50,
+        });
+        expect(result.query.to?.toISOString()).toBe('2025-01-02T00:00:00.000Z');
+    });
+
+    it('should reject invalid parameters', () => {
+        expect(parseAuditLogRequest({ from: 'yesterday' }).ok).toBe(false);
+        expect(parseAuditLogRequest({ format: 'xml' }).ok).toBe(false);
+        expect(parseAuditLogRequest({ limit: '-1' }).ok).toBe(false);
+        expect(parseAuditLogRequest({ cursor: 'not-a-cursor' }).ok).toBe(false);
+    });
+});
+
+describe('Audit log export', () => {
+    it('should round-trip cursors', () => {
+        expect(decodeCursor(encodeCursor('1234'))).toBe('1234');
+    });
+
+    it('should escape CSV values', () => {
+        const csv = toCsv([{
+            id: '1',
+            timestamp: new Date('2025-01-01T00:00:00Z'),
+            event: 'admin_disconnect',
+            sourceId: 'admin',
+            targetId: '=HYPERLINK("x")',
+            success: true,
+            details: { reason: 'a, b' },
+        }]);
+
+        const [header, row] = csv.trim().split('\r\n');
+        expect(header).toBe('id,timestamp,event,sourceId,targetId,ipAddress,success,details');
+        expect(row).toBe('1,2025-01-01T00:00:00.000Z,admin_disconnect,admin,"\'=HYPERLINK(""x"")",,true,"{""reason"":""a, b""}"');
+    });
+});
@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for Billing Scheduler
+ * 정기 결제 갱신/재시도/만료 단위 테스트
+ */
+
+import { BillingScheduler, addBillingPeriod, getRenewalOrderId } from '../services/billingScheduler';
+import { BillingChargeRequest, BillingProvider, TossPayment, TossPaymentsError } from '../services/tossPayments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_END = new Date('2026-03-01T00:00:00.000Z');
+
+// 빌링키 결제를 기록하고, 실패하도록 설정할 수 있는 가짜 결제 클라이언트
+class FakeBillingProvider implements BillingProvider {
+    charges: Array<{ billingKey: string; request: BillingChargeRequest }> = [];
+    failing = false;
+
+    async chargeBillingKey(billingKey: string, request: BillingChargeRequest): Promise<TossPayment> {
+        this.charges.push({ billingKey, request });
+        if (this.failing) {
+            throw new TossPaymentsError('카드 잔액 부족', 400, 'REJECT_CARD_PAYMENT');
+        }
+        return { paymentKey: `pay-${this.charges.length}`, orderId: request.orderId, status: 'DONE' };
+    }
+}
+
+// 스케줄러가 사용하는 subscriptions/users 쿼리만 흉내내는 가짜 DB
+function createFakeDb(overrides: Record<string, any> = {}) {
+    const subscription: Record<string, any> = {
+        id: 'sub-1',
+        user_id: 'user-1',
+        plan: 'business',
+        status: 'active',
+        billing_key: 'billing-1',
+        customer_key: 'CUSTOMER_user-1',
+        billing_cycle: 'monthly',
+        current_period_end: PERIOD_END,
+        renewal_attempts: 0,
+        next_retry_at: null,
+        ...overrides,
+    };
+    const users: Record<string, { plan: string }> = { 'user-1': { plan: 'business' } };
+    const invoices: any[] = [];
+    // 실패시킬 인보이스 저장 횟수
+    const faults = { invoiceWrites: 0 };
+    const time = (value: any) => value === null ? null : new Date(value).getTime();
+
+    const db = {
+        query: async (text: string, params: any[] = []) => {
+            if (text.includes('FOR UPDATE SKIP LOCKED')) {
+                const now = time(params[0])!;
+                const due = ['active', 'past_due', 'cancelled'].includes(subscription.status)
+                    && time(subscription.current_period_end)! <= now
+                    && (subscription.next_retry_at === null || time(subscription.next_retry_at)! <= now);
+                if (!due) return { rows: [] };
+                subscription.next_retry_at = params[1];
+                return { rows: [{ ...subscription }] };
+            }
+            if (text.includes('INSERT INTO invoices')) {
+                if (faults.invoiceWrites > 0) {
+                    faults.invoiceWrites--;
+                    throw new Error('connection terminated');
+                }
+                if (invoices.some(invoice => invoice.order_id === params[3])) return { rows: [] };
+                invoices.push({ order_id: params[3], amount: params[6], status: params[7], line_items: JSON.parse(params[8]) });
+                return { rows: [] };
+            }
+            if (text.includes("status = 'active'")) {
+                Object.assign(subscription, {
+                    status: 'active',
+                    current_period_start: params[1],
+                    current_period_end: params[2],
+                    renewal_attempts: 0,
+                    next_retry_at: null,
+                    last_order_id: params[3],
+                    last_payment_key: params[4] ?? subscription.last_payment_key,
+                    credit_balance: (subscription.credit_balance ?? 0) - params[5],
+                });
+                return { rows: [] };
+            }
+            if (text.includes("status = 'past_due'")) {
+                Object.assign(subscription, { status: 'past_due', renewal_attempts: params[1], next_retry_at: params[2] });
+                return { rows: [] };
+            }
+            if (text.includes("status = 'expired'")) {
+                Object.assign(subscription, { status: 'expired', next_retry_at: null });
+                return { rows: [] };
+            }
+            if (text.includes('UPDATE users')) {
+                users[params[0]].plan = params[1];
+                return { rows: [] };
+            }
+            throw new Error(`Unexpected query: ${text}`);
+        },
+    };
+    return { db, subscription, users, invoices, faults };
+}
+
+describe('BillingScheduler', () => {
+    let provider: FakeBillingProvider;
+    let now: number;
+
+    const createScheduler = (db: ReturnType<typeof createFakeDb>['db']) =>
+        new BillingScheduler(db, provider, {
+            now: () => now,
+            retryDelaysMs: [DAY_MS, 3 * DAY_MS],
+            gracePeriodMs: 7 * DAY_MS,
+            persistRetryDelaysMs: [0],
+        });
+
+    beforeEach(() => {
+        provider = new FakeBillingProvider();
+        now = PERIOD_END.getTime() + 60 * 1000;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should not charge subscriptions before the period ends', async () => {
+        const { db } = createFakeDb();
+        now = PERIOD_END.getTime() - 60 * 1000;
+
+        expect(await createScheduler(db).runOnce()).toEqual([]);
+        expect(provider.charges).toHaveLength(0);
+    });
+
+    it('should charge the billing key and extend the period', async () => {
+        const { db, subscription, users } = createFakeDb();
+
+        const events = await createScheduler(db).runOnce();
+
+        expect(provider.charges[0]).toMatchObject({
+            billingKey: 'billing-1',
+            request: { customerKey: 'CUSTOMER_user-1', amount: 9900, orderId: getRenewalOrderId('sub-1', PERIOD_END, 1) },
+        });
+        expect(events[0]).toMatchObject({ type: 'renewed', subscriptionId: 'sub-1' });
+        expect(subscription).toMatchObject({
+            status: 'active',
+            current_period_end: '2026-04-01T00:00:00.000Z',
+            last_payment_key: 'pay-1',
+            next_retry_at: null,
+        });
+        expect(users['user-1'].plan).toBe('business');
+
+        // 같은 기간은 다시 결제하지 않음
+        expect(await createScheduler(db).runOnce()).toEqual([]);
+        expect(provider.charges).toHaveLength(1);
+    });
+
+    it('should apply plan change credit and record the renewal invoice', async () => {
+        const { db, subscription, invoices } = createFakeDb({ credit_balance: 4000 });
+
+        await createScheduler(db).runOnce();
+
+        expect(provider.charges[0].request.amount).toBe(5900);
+        expect(subscription.credit_balance).toBe(0);
+        expect(invoices[0]).toMatchObject({
+            amount: 5900,
+            status: 'paid',
+            line_items: [{ amount: 9900 }, { description: '보유 크레딧 사용', amount: -4000 }],
+        });
+    });
+
+    it('should renew without charging when the credit covers the price', async () => {
+        const { db, subscription, invoices } = createFakeDb({ credit_balance: 12000 });
+
+        const [event] = await createScheduler(db).runOnce();
+
+        expect(event.type).toBe('renewed');
+        expect(provider.charges).toHaveLength(0);
+        expect(subscription.credit_balance).toBe(2100);
+        expect(invoices[0]).toMatchObject({ amount: 0, status: 'credited' });
+    });
+
+    it('should mark failed renewals past_due and retry on schedule', async () => {
+        const { db, subscription, users } = createFakeDb();
+        const scheduler = createScheduler(db);
+        provider.failing = true;
+
+        const [failed] = await scheduler.runOnce();
+        expect(failed).toMatchObject({ type: 'payment_failed', attempt: 1, error: '카드 잔액 부족' });
+        expect(subscription.status).toBe('past_due');
+        expect(users['user-1'].plan).toBe('business');
+
+        // 재시도 시각 전에는 다시 결제하지 않음
+        now += DAY_MS / 2;
+        expect(await scheduler.runOnce()).toEqual([]);
+
+        now += DAY_MS;
+        provider.failing = false;
+        const [renewed] = await scheduler.runOnce();
+
+        expect(renewed.type).toBe('renewed');
+        expect(provider.charges.map(c => c.request.orderId)).toEqual([
+            getRenewalOrderId('sub-1', PERIOD_END, 1),
+            getRenewalOrderId('sub-1', PERIOD_END, 2),
+        ]);
+        expect(subscription).toMatchObject({ status: 'active', renewal_attempts: 0 });
+    });
+
+    it('should retry saving a successful charge without charging again', async () => {
+        const { db, subscription, invoices, faults } = createFakeDb();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        faults.invoiceWrites = 1;
+
+        const [event] = await createScheduler(db).runOnce();
+
+        expect(event).toMatchObject({ type: 'renewed', orderId: getRenewalOrderId('sub-1', PERIOD_END, 1) });
+        expect(provider.charges).toHaveLength(1);
+        expect(invoices).toHaveLength(1);
+        expect(subscription).toMatchObject({ status: 'active', renewal_attempts: 0, last_payment_key: 'pay-1' });
+    });
+
+    it('should not treat a failed save after a charge as a payment failure', async () => {
+        const { db, subscription, invoices, faults } = createFakeDb();
+        const scheduler = createScheduler(db);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        faults.invoiceWrites = 2;
+
+        expect(await scheduler.runOnce()).toEqual([]);
+        expect(subscription).toMatchObject({ status: 'active', renewal_attempts: 0 });
+        expect(invoices).toHaveLength(0);
+
+        // 선점 시간이 지나면 같은 주문 ID로 다시 처리
+        now += 11 * 60 * 1000;
+        const [event] = await scheduler.runOnce();
+
+        expect(event.type).toBe('renewed');
+        expect(provider.charges.map(c => c.request.orderId)).toEqual([
+            getRenewalOrderId('sub-1', PERIOD_END, 1),
+            getRenewalOrderId('sub-1', PERIOD_END, 1),
+        ]);
+        expect(invoices).toHaveLength(1);
+    });
+
+    it('should not count errors outside the payment provider as failed payments', async () => {
+        const { db, subscription } = createFakeDb();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        provider.chargeBillingKey = async () => { throw new Error('socket hang up'); };
+
+        expect(await createScheduler(db).runOnce()).toEqual([]);
+        expect(subscription).toMatchObject({ status: 'active', renewal_attempts: 0 });
+    });
+
+    it('should expire and downgrade after the retries are exhausted', async () => {
+        const { db, subscription, users } = createFakeDb();
+        const expired: string[] = [];
+        const scheduler = new BillingScheduler(db, provider, {
+            now: () => now,
+            retryDelaysMs: [DAY_MS, 3 * DAY_MS],
+            gracePeriodMs: 7 * DAY_MS,
+            onEvent: event => { if (event.type === 'expired') expired.push(event.reason); },
+        });
+        provider.failing = true;
+
+        await scheduler.runOnce();
+        now += DAY_MS;
+        await scheduler.runOnce();
+        expect(subscription).toMatchObject({ status: 'past_due', renewal_attempts: 2 });
+
+        now += 3 * DAY_MS;
+        await scheduler.runOnce();
+
+        expect(provider.charges).toHaveLength(3);
+        expect(subscription.status).toBe('expired');
+        expect(users['user-1'].plan).toBe('free');
+        expect(expired).toEqual(['payment_failed']);
+    });
+
+    it('should expire when the grace period ends before the retries do', async () => {
+        const { db, subscription, users } = createFakeDb({ status: 'past_due', renewal_attempts: 1 });
+        provider.failing = true;
+        now = PERIOD_END.getTime() + 8 * DAY_MS;
+
+        const [event] = await createScheduler(db).runOnce();
+
+        expect(event).toMatchObject({ type: 'expired', reason: 'payment_failed' });
+        expect(subscription.status).toBe('expired');
+        expect(users['user-1'].plan).toBe('free');
+    });
+
+    it('should expire cancelled subscriptions at the period end without charging', async () => {
+        const { db, subscription, users } = createFakeDb({ status: 'cancelled' });
+
+        const [event] = await createScheduler(db).runOnce();
+
+        expect(event).toMatchObject({ type: 'expired', reason: 'cancelled' });
+        expect(provider.charges).toHaveLength(0);
+        expect(subscription.status).toBe('expired');
+        expect(users['user-1'].plan).toBe('free');
+    });
+});
+
+describe('addBillingPeriod', () => {
+    it('should add a month or a year in UTC', () => {
+        expect(addBillingPeriod(new Date('2026-01-15T00:00:00.000Z'), 'monthly').toISOString()).toBe('2026-02-15T00:00:00.000Z');
+        expect(addBillingPeriod(new Date('2026-01-15T00:00:00.000Z'), 'yearly').toISOString()).toBe('2027-01-15T00:00:00.000Z');
+    });
+});
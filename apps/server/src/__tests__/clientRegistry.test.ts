@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Client Registry
+ * 클라이언트 레지스트리 단위 테스트
+ */
+
+import {
+    InMemoryClientRegistry,
+    PubSubClientRegistry,
+    InProcessPubSub,
+    ClientRecord,
+} from '../services/clientRegistry';
+
+// 비동기 Pub/Sub 전달 대기
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createRecord(id: string, connectionId: string, nodeId: string): ClientRecord {
+    return {
+        id,
+        connectionId,
+        passwordHash: 'hash',
+        nodeId,
+        isHost: true,
+        connectedAt: Date.now(),
+    };
+}
+
+describe('InMemoryClientRegistry', () => {
+    it('should look up clients by connection ID', async () => {
+        const registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        await registry.add(createRecord('client-1', '123456789', 'node-a'));
+
+        const found = await registry.getByConnectionId('123456789');
+        expect(found?.id).toBe('client-1');
+        expect(await registry.count()).toBe(1);
+    });
+
+    it('should clear fields updated to undefined', async () => {
+        const registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        await registry.add({ ...createRecord('client-1', '111', 'node-a'), connectedTo: 'client-2' });
+
+        const updated = await registry.update('client-1', { connectedTo: undefined });
+        expect(updated).not.toHaveProperty('connectedTo');
+    });
+
+    it('should keep the session index in sync with updates', async () => {
+        const registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        await registry.add({ ...createRecord('host', '111', 'node-a'), sessionId: 's-1' });
+        await registry.add({ ...createRecord('viewer', '222', 'node-a'), sessionId: 's-1' });
+
+        expect((await registry.listSession('s-1')).map(r => r.id).sort()).toEqual(['host', 'viewer']);
+
+        await registry.update('viewer', { sessionId: undefined });
+        await registry.remove('host');
+
+        expect(await registry.listSession('s-1')).toEqual([]);
+    });
+
+    it('should deliver messages to local clients through the handler', async () => {
+        const registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        const delivered: any[] = [];
+        registry.onDeliver((clientId, message) => delivered.push({ clientId, message }));
+
+        await registry.add(createRecord('client-1', '111', 'node-a'));
+        expect(await registry.send('client-1', { type: 'pong' })).toBe(true);
+        expect(await registry.send('missing', { type: 'pong' })).toBe(false);
+
+        expect(delivered).toEqual([{ clientId: 'client-1', message: { type: 'pong' } }]);
+    });
+
+    it('should lock out an IP after too many failed attempts', async () => {
+        const registry = new InMemoryClientRegistry({ maxFailedAttempts: 2, lockoutDurationMs: 60000 });
+
+        await registry.recordFailedAttempt('10.0.0.1');
+        expect(await registry.isIPBlocked('10.0.0.1')).toBe(false);
+
+        await registry.recordFailedAttempt('10.0.0.1');
+        expect(await registry.isIPBlocked('10.0.0.1')).toBe(true);
+    });
+});
+
+describe('PubSubClientRegistry', () => {
+    let broker: InProcessPubSub;
+    let nodeA: PubSubClientRegistry;
+    let nodeB: PubSubClientRegistry;
+
+    beforeEach(async () => {
+        broker = new InProcessPubSub();
+        nodeA = new PubSubClientRegistry({ nodeId: 'node-a', broker });
+        nodeB = new PubSubClientRegistry({ nodeId: 'node-b', broker });
+        await nodeA.start();
+        await nodeB.start();
+    });
+
+    afterEach(async () => {
+        await nodeA.shutdown();
+        await nodeB.shutdown();
+    });
+
+    it('should replicate registrations to other nodes', async () => {
+        await nodeA.add(createRecord('host-1', '123456789', 'node-a'));
+        await flush();
+
+        const found = await nodeB.getByConnectionId('123456789');
+        expect(found?.nodeId).toBe('node-a');
+    });
+
+    it('should route messages to the node that owns the client', async () => {
+        const deliveredOnA: any[] = [];
+        const deliveredOnB: any[] = [];
+        nodeA.onDeliver((clientId, message) => deliveredOnA.push({ clientId, message }));
+        nodeB.onDeliver((clientId, message) => deliveredOnB.push({ clientId, message }));
+
+        await nodeA.add(createRecord('host-1', '111', 'node-a'));
+        await flush();
+
+        await nodeB.send('host-1', { type: 'incoming-connection', sessionId: 's1' });
+        await flush();
+
+        expect(deliveredOnB).toHaveLength(0);
+        expect(deliveredOnA).toEqual([
+            { clientId: 'host-1', message: { type: 'incoming-connection', sessionId: 's1' } },
+        ]);
+    });
+
+    it('should route close requests to the owning node', async () => {
+        const closed: any[] = [];
+        nodeA.onClose((clientId, code, reason) => closed.push({ clientId, code, reason }));
+
+        await nodeA.add(createRecord('host-1', '111', 'node-a'));
+        await flush();
+
+        await nodeB.close('host-1', 4001, 'Disconnected by admin');
+        await flush();
+
+        expect(closed).toEqual([{ clientId: 'host-1', code: 4001, reason: 'Disconnected by admin' }]);
+    });
+
+    it('should replicate field removal across nodes', async () => {
+        await nodeA.add({ ...createRecord('viewer-1', '222', 'node-a'), connectedTo: 'host-1' });
+        await flush();
+
+        await nodeB.update('viewer-1', { connectedTo: undefined });
+        await flush();
+
+        const record = await nodeA.get('viewer-1');
+        expect(record).not.toHaveProperty('connectedTo');
+    });
+
+    it('should share blocked IPs between nodes', async () => {
+        await nodeA.blockIP('10.0.0.5');
+        await flush();
+        expect(await nodeB.isIPBlocked('10.0.0.5')).toBe(true);
+
+        await nodeB.unblockIP('10.0.0.5');
+        await flush();
+        expect(await nodeA.isIPBlocked('10.0.0.5')).toBe(false);
+    });
+
+    it('should send existing state to a node that joins later', async () => {
+        await nodeA.add(createRecord('host-1', '111', 'node-a'));
+        await flush();
+
+        const nodeC = new PubSubClientRegistry({ nodeId: 'node-c', broker });
+        await nodeC.start();
+        await flush();
+        await flush();
+
+        expect(await nodeC.getByConnectionId('111')).not.toBeNull();
+        await nodeC.shutdown();
+    });
+
+    it('should remove its clients from other nodes on shutdown', async () => {
+        await nodeA.add(createRecord('host-1', '111', 'node-a'));
+        await flush();
+
+        await nodeA.shutdown();
+        await flush();
+
+        expect(await nodeB.get('host-1')).toBeNull();
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Connection Approval
+ * 호스트 연결 승인 단위 테스트
+ */
+
+import { InMemoryClientRegistry, ClientRecord } from '../services/clientRegistry';
+import { ConnectionApprovalService } from '../services/connectionApproval';
+
+function createRecord(id: string, connectionId: string, isHost: boolean): ClientRecord {
+    return {
+        id,
+        connectionId,
+        passwordHash: 'hash',
+        nodeId: 'node-a',
+        isHost,
+        ipAddress: '10.0.0.7',
+        connectedAt: Date.now(),
+    };
+}
+
+describe('ConnectionApprovalService', () => {
+    let registry: InMemoryClientRegistry;
+    let approvals: ConnectionApprovalService;
+    let delivered: Array<{ clientId: string; message: any }>;
+    let host: ClientRecord;
+    let viewer: ClientRecord;
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+
+        registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        approvals = new ConnectionApprovalService(registry, { timeoutMs: 1000, maxPendingPerHost: 1 });
+        delivered = [];
+        registry.onDeliver((clientId, message) => delivered.push({ clientId, message }));
+
+        host = { ...createRecord('host-1', '111', true), accessMode: 'approval' };
+        viewer = createRecord('viewer-1', '222', false);
+        await registry.add(host);
+        await registry.add(viewer);
+    });
+
+    afterEach(() => {
+        approvals.shutdown();
+        jest.useRealTimers();
+    });
+
+    const messagesFor = (clientId: string) =>
+        delivered.filter(d => d.clientId === clientId).map(d => d.message);
+
+    it('should prompt the host and hold the viewer in a pending state', async () => {
+        const approval = await approvals.request(viewer, host, {
+            viewerName: 'Support Desk',
+            ipAddress: '10.0.0.7',
+            requestedPermissions: ['view', 'clipboard'],
+        });
+
+        expect(approval).not.toBeNull();
+        expect(messagesFor('host-1')[0]).toMatchObject({
+            type: 'connection-request',
+            requestId: approval!.requestId,
+            viewerConnectionId: '222',
+            viewerName: 'Support Desk',
+            ipAddress: '10.0.0.7',
+            requestedPermissions: ['view', 'clipboard'],
+        });
+        expect(messagesFor('viewer-1')[0]).toMatchObject({ type: 'connect-pending', requestId: approval!.requestId });
+        expect((await registry.get('viewer-1'))?.pendingApproval?.requestId).toBe(approval!.requestId);
+    });
+
+    it('should return both parties when the host accepts', async () => {
+        const approval = await approvals.request(viewer, host);
+
+        const result = await approvals.respond('host-1', approval!.requestId, true);
+
+        expect(result?.viewer.id).toBe('viewer-1');
+        expect(result?.host.id).toBe('host-1');
+        expect(await registry.get('viewer-1')).not.toHaveProperty('pendingApproval');
+    });
+
+    it('should notify the viewer when the host rejects', async () => {
+        const approval = await approvals.request(viewer, host);
+
+        const result = await approvals.respond('host-1', approval!.requestId, false, 'Not now');
+
+        expect(result).toBeNull();
+        expect(messagesFor('viewer-1')).toContainEqual({
+            type: 'connect-error',
+            error: 'Not now',
+            code: 'APPROVAL_REJECTED',
+        });
+    });
+
+    it('should ignore responses from a different host', async () => {
+        const approval = await approvals.request(viewer, host);
+
+        expect(await approvals.respond('host-2', approval!.requestId, true)).toBeNull();
+        expect((await registry.get('viewer-1'))?.pendingApproval).toBeDefined();
+    });
+
+    it('should expire requests the host does not answer', async () => {
+        const approval = await approvals.request(viewer, host);
+
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(messagesFor('viewer-1')).toContainEqual(expect.objectContaining({
+            type: 'connect-error',
+            code: 'APPROVAL_TIMEOUT',
+        }));
+        expect(messagesFor('host-1')).toContainEqual(expect.objectContaining({
+            type: 'connection-request-cancelled',
+            requestId: approval!.requestId,
+        }));
+        expect(await approvals.respond('host-1', approval!.requestId, true)).toBeNull();
+    });
+
+    it('should limit pending requests per host', async () => {
+        const other = createRecord('viewer-2', '333', false);
+        await registry.add(other);
+
+        await approvals.request(viewer, host);
+        expect(await approvals.request(other, host)).toBeNull();
+    });
+
+    it('should cancel pending requests when the host disconnects', async () => {
+        await approvals.request(viewer, host);
+
+        await approvals.cancelForClient((await registry.get('host-1'))!);
+
+        expect(messagesFor('viewer-1')).toContainEqual(expect.objectContaining({
+            type: 'connect-error',
+            code: 'APPROVAL_CANCELLED',
+        }));
+        expect(await registry.get('viewer-1')).not.toHaveProperty('pendingApproval');
+    });
+
+    it('should close the host prompt when the viewer disconnects', async () => {
+        const approval = await approvals.request(viewer, host);
+
+        await approvals.cancelForClient((await registry.get('viewer-1'))!);
+
+        expect(messagesFor('host-1')).toContainEqual({
+            type: 'connection-request-cancelled',
+            requestId: approval!.requestId,
+            reason: 'Viewer disconnected',
+        });
+    });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for Devices
+ * 장치 등록/서명 확인/팀 접근/해제 단위 테스트
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import { AddressInfo } from 'net';
+import {
+    AccessibleDevice,
+    DeviceRecord,
+    DeviceService,
+    DeviceStore,
+    getDeviceSignaturePayload,
+} from '../services/devices';
+import { createClientRegistry } from '../services/clientRegistry';
+
+const tokens: Record<string, any> = {
+    'token-owner': { userId: 'user-owner', email: 'owner@example.com', plan: 'team' },
+    'token-member': { userId: 'user-member', email: 'member@example.com', plan: 'team' },
+};
+
+jest.mock('../services/auth.service', () => ({
+    verifyAccessToken: (token: string) => tokens[token] ?? null,
+}));
+
+import { createDevicesRouter } from '../api/devices';
+
+// 서비스가 사용하는 저장소의 메모리 구현 (조직은 userId → [조직 ID, 역할])
+class InMemoryDeviceStore implements DeviceStore {
+    devices = new Map<string, DeviceRecord>();
+    memberships = new Map<string, [string, string]>();
+
+    async create(device: Omit<DeviceRecord, 'createdAt' | 'lastSeenAt' | 'revokedAt'>) {
+        this.devices.set(device.id, { ...device, createdAt: new Date().toISOString(), lastSeenAt: null, revokedAt: null });
+    }
+
+    async get(deviceId: string) {
+        return this.devices.get(deviceId) ?? null;
+    }
+
+    async countActive(userId: string) {
+        return [...this.devices.values()].filter(d => d.userId === userId && !d.revokedAt).length;
+    }
+
+    async listAccessible(userId: string): Promise<AccessibleDevice[]> {
+        const visible: AccessibleDevice[] = [];
+        for (const device of this.devices.values()) {
+            if (device.revokedAt) continue;
+            if (device.userId === userId || await this.findSharedOrganizationRole(userId, device.userId)) {
+                visible.push({ ...device, ownerEmail: `${device.userId.replace('user-', '')}@example.com`, ownerName: null });
+            }
+        }
+        return visible;
+    }
+
+    async rename(deviceId: string, name: string) {
+        this.devices.get(deviceId)!.name = name;
+    }
+
+    async revoke(deviceId: string, revokedAt: Date) {
+        const device = this.devices.get(deviceId);
+        if (!device || device.revokedAt) return false;
+        device.revokedAt = revokedAt.toISOString();
+        return true;
+    }
+
+    async touch(deviceId: string, seenAt: Date) {
+        this.devices.get(deviceId)!.lastSeenAt = seenAt.toISOString();
+    }
+
+    async findSharedOrganizationRole(actorId: string, ownerId: string) {
+        const actor = this.memberships.get(actorId);
+        const owner = this.memberships.get(ownerId);
+        return actor && owner && actor[0] === owner[0] ? actor[1] : null;
+    }
+}
+
+function createDeviceKey() {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    return {
+        publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+        sign: (deviceId: string, connectionId: string, timestamp: number) =>
+            crypto.sign(null, Buffer.from(getDeviceSignaturePayload(deviceId, connectionId, timestamp)), privateKey).toString('base64'),
+    };
+}
+
+describe('DeviceService', () => {
+    let store: InMemoryDeviceStore;
+    let service: DeviceService;
+    let now: number;
+
+    const enroll = async (userId: string, key = createDeviceKey()) => {
+        const result = await service.enroll(userId, { name: 'Office PC', publicKey: key.publicKey, platform: 'win32' });
+        if (!result.success) throw new Error(result.error);
+        return { device: result.device, key };
+    };
+
+    beforeEach(() => {
+        now = Date.parse('2026-06-01T00:00:00Z');
+        store = new InMemoryDeviceStore();
+        store.memberships.set('user-owner', ['org-1', 'owner']);
+        store.memberships.set('user-member', ['org-1', 'member']);
+        store.memberships.set('user-outsider', ['org-2', 'owner']);
+        service = new DeviceService(store, { now: () => now, signatureWindowMs: 60 * 1000 });
+    });
+
+    it('should only enroll Ed25519 public keys', async () => {
+        const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey;
+
+        expect(await service.enroll('user-owner', { name: 'PC', publicKey: 'not-a-key' })).toMatchObject({ success: false, status: 400 });
+        expect(await service.enroll('user-owner', {
+            name: 'PC',
+            publicKey: rsa.export({ format: 'der', type: 'spki' }).toString('base64'),
+        })).toMatchObject({ success: false, status: 400 });
+
+        const { device } = await enroll('user-owner');
+        expect(device).toMatchObject({ userId: 'user-owner', name: 'Office PC', platform: 'win32', revokedAt: null });
+    });
+
+    it('should verify registrations signed by the device key', async () => {
+        const { device, key } = await enroll('user-owner');
+        const proof = { deviceId: device.id, connectionId: '123456789', timestamp: now, signature: key.sign(device.id, '123456789', now) };
+
+        expect(await service.verifyRegistration(proof)).toMatchObject({ id: device.id, userId: 'user-owner' });
+        expect(store.devices.get(device.id)!.lastSeenAt).toBe(new Date(now).toISOString());
+
+        // 다른 connectionId, 다른 장치 키, 오래된 서명은 거부
+        expect(await service.verifyRegistration({ ...proof, connectionId: '987654321' })).toBeNull();
+        expect(await service.verifyRegistration({ ...proof, signature: createDeviceKey().sign(device.id, '123456789', now) })).toBeNull();
+        now += 2 * 60 * 1000;
+        expect(await service.verifyRegistration(proof)).toBeNull();
+    });
+
+    it('should let the owner and team members connect', async () => {
+        const { device } = await enroll('user-owner');
+
+        // 팀 구성원은 소유자가 아니므로 호스트 승인을 거침
+        expect(await service.authorizeConnection('user-owner', device.id)).toMatchObject({ success: true, isOwner: true });
+        expect(await service.authorizeConnection('user-member', device.id)).toMatchObject({ success: true, isOwner: false });
+        expect(await service.authorizeConnection('user-outsider', device.id)).toMatchObject({ success: false, status: 403 });
+        expect(await service.authorizeConnection('user-owner', 'missing')).toMatchObject({ success: false, status: 404 });
+
+        expect((await service.listForUser('user-member')).map(d => d.id)).toEqual([device.id]);
+        expect(await service.listForUser('user-outsider')).toEqual([]);
+    });
+
+    it('should reject revoked devices and limit who can revoke', async () => {
+        const { device, key } = await enroll('user-member');
+
+        expect(await service.rename('user-owner', device.id, 'Mine')).toMatchObject({ success: false, status: 404 });
+        expect(await service.revoke('user-outsider', device.id)).toMatchObject({ success: false, status: 404 });
+
+        // 조직 owner는 구성원 장치를 해제할 수 있음
+        expect((await service.revoke('user-owner', device.id)).success).toBe(true);
+        expect(await service.revoke('user-member', device.id)).toMatchObject({ success: false, status: 404 });
+
+        const proof = { deviceId: device.id, connectionId: '1', timestamp: now, signature: key.sign(device.id, '1', now) };
+        expect(await service.verifyRegistration(proof)).toBeNull();
+        expect(await service.authorizeConnection('user-member', device.id)).toMatchObject({ success: false, status: 404 });
+        expect(await service.listForUser('user-member')).toEqual([]);
+    });
+});
+
+describe('Devices API', () => {
+    it('should show online devices and disconnect revoked ones', async () => {
+        const store = new InMemoryDeviceStore();
+        const service = new DeviceService(store);
+        const registry = createClientRegistry({});
+        const disconnected: string[] = [];
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api/devices', createDevicesRouter({
+            registry,
+            logAccess: () => { },
+            disconnectDevice: async (deviceId) => { disconnected.push(deviceId); return 1; },
+            getService: () => service,
+        }));
+        const server = app.listen(0);
+        const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/devices`;
+        const call = async (method: string, path: string, token: string, body?: object) => {
+            const response = await fetch(base + path, {
+                method,
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+                body: body && JSON.stringify(body),
+            });
+            return { status: response.status, body: await response.json() };
+        };
+
+        try {
+            const enrolled = await call('POST', '/', 'token-owner', { name: 'Home PC', publicKey: createDeviceKey().publicKey });
+            expect(enrolled.status).toBe(200);
+            const deviceId = enrolled.body.device.id;
+
+            await registry.add({
+                id: 'host-1', connectionId: '123456789', passwordHash: '', nodeId: registry.nodeId,
+                isHost: true, userId: 'user-owner', deviceId, connectedAt: Date.now(),
+            });
+
+            const listed = await call('GET', '/', 'token-owner');
+            expect(listed.body.devices).toEqual([expect.objectContaining({ id: deviceId, owned: true, online: true })]);
+            expect(listed.body.devices[0].publicKey).toBeUndefined();
+
+            expect((await call('DELETE', `/${deviceId}`, 'token-member')).status).toBe(404);
+            expect(await call('DELETE', `/${deviceId}`, 'token-owner')).toEqual({ status: 200, body: { success: true, disconnected: 1 } });
+            expect(disconnected).toEqual([deviceId]);
+        } finally {
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Login Sessions
+ * 리프레시 토큰 패밀리 갱신/재사용 감지/기기 로그아웃 단위 테스트
+ */
+
+import {
+    LoginSession,
+    LoginSessionService,
+    LoginSessionStore,
+    RefreshTokenRecord,
+} from '../services/loginSessions';
+
+type StoredToken = RefreshTokenRecord & { token: string; createdAt: string; userAgent: string | null; ipAddress: string | null };
+
+// 서비스가 사용하는 저장소의 메모리 구현
+class InMemoryLoginSessionStore implements LoginSessionStore {
+    tokens: StoredToken[] = [];
+    clock = 0;
+
+    async create(token: Parameters<LoginSessionStore['create']>[0]) {
+        this.tokens.push({
+            id: token.id,
+            familyId: token.familyId,
+            userId: token.userId,
+            token: token.token,
+            expiresAt: token.expiresAt.toISOString(),
+            rotatedAt: null,
+            revokedAt: null,
+            replacedBy: null,
+            // 같은 시각에 여러 번 갱신해도 순서가 유지되도록
+            createdAt: new Date(++this.clock).toISOString(),
+            userAgent: token.userAgent,
+            ipAddress: token.ipAddress,
+        });
+    }
+
+    async findByToken(token: string) {
+        const found = this.tokens.find(t => t.token === token);
+        return found ? { ...found } : null;
+    }
+
+    async findById(tokenId: string) {
+        const found = this.tokens.find(t => t.id === tokenId);
+        return found ? { ...found } : null;
+    }
+
+    async markRotated(tokenId: string, at: Date, replacedBy: string) {
+        const token = this.tokens.find(t => t.id === tokenId);
+        if (!token || token.rotatedAt || token.revokedAt) return false;
+        token.rotatedAt = at.toISOString();
+        token.replacedBy = replacedBy;
+        return true;
+    }
+
+    async deleteToken(tokenId: string) {
+        this.tokens = this.tokens.filter(t => t.id !== tokenId);
+    }
+
+    async deleteInactive(now: Date) {
+        const inactive = new Set([...new Set(this.tokens.map(t => t.familyId))].filter(familyId => {
+            const tokens = this.tokens.filter(t => t.familyId === familyId);
+            return tokens.some(t => t.revokedAt) || tokens.every(t => Date.parse(t.expiresAt) <= now.getTime());
+        }));
+        this.tokens = this.tokens.filter(t => !inactive.has(t.familyId));
+    }
+
+    async revokeFamily(familyId: string, at: Date) {
+        this.tokens.filter(t => t.familyId === familyId && !t.revokedAt).forEach(t => { t.revokedAt = at.toISOString(); });
+    }
+
+    async revokeUserFamily(userId: string, familyId: string, at: Date) {
+        const tokens = this.tokens.filter(t => t.userId === userId && t.familyId === familyId && !t.revokedAt);
+        tokens.forEach(t => { t.revokedAt = at.toISOString(); });
+        return tokens.length > 0;
+    }
+
+    async listActive(userId: string, now: Date): Promise<LoginSession[]> {
+        const families = new Map<string, StoredToken[]>();
+        for (const token of this.tokens.filter(t => t.userId === userId)) {
+            families.set(token.familyId, [...(families.get(token.familyId) ?? []), token]);
+        }
+
+        return [...families.entries()]
+            .filter(([, tokens]) => tokens.every(t => !t.revokedAt)
+                && tokens.some(t => !t.rotatedAt && Date.parse(t.expiresAt) > now.getTime()))
+            .map(([familyId, tokens]) => {
+                const latest = tokens[tokens.length - 1];
+                return {
+                    id: familyId,
+                    userAgent: latest.userAgent,
+                    ipAddress: latest.ipAddress,
+                    createdAt: tokens[0].createdAt,
+                    lastUsedAt: latest.createdAt,
+                    expiresAt: latest.expiresAt,
+                };
+            })
+            .reverse();
+    }
+}
+
+describe('LoginSessionService', () => {
+    let store: InMemoryLoginSessionStore;
+    let service: LoginSessionService;
+    let now: number;
+
+    beforeEach(() => {
+        now = Date.parse('2026-06-01T00:00:00Z');
+        store = new InMemoryLoginSessionStore();
+        service = new LoginSessionService(store, { now: () => now, ttlMs: 60 * 60 * 1000 });
+    });
+
+    it('should rotate tokens within the same family', async () => {
+        const { sessionId, refreshToken } = await service.start('user-1', { userAgent: 'Desktop', ipAddress: '10.0.0.1' });
+
+        const first = await service.rotate(refreshToken, { userAgent: 'Desktop', ipAddress: '10.0.0.2' });
+        if (!first.success) throw new Error(first.reason);
+        expect(first).toMatchObject({ userId: 'user-1', sessionId });
+        expect(first.refreshToken).not.toBe(refreshToken);
+
+        const second = await service.rotate(first.refreshToken, { userAgent: 'Desktop', ipAddress: '10.0.0.3' });
+        expect(second).toMatchObject({ success: true, sessionId });
+
+        expect(await service.list('user-1')).toEqual([
+            expect.objectContaining({ id: sessionId, userAgent: 'Desktop', ipAddress: '10.0.0.3' }),
+        ]);
+    });
+
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+        const { refreshToken } = await service.start('user-1');
+        const rotated = await service.rotate(refreshToken);
+        if (!rotated.success) throw new Error(rotated.reason);
+
+        // 탈취된 이전 토큰 재사용 (동시 갱신 유예 시간 이후) → 정상 사용자의 최신 토큰도 폐기
+        now += 60 * 1000;
+        expect(await service.rotate(refreshToken)).toMatchObject({ success: false, reason: 'reused', userId: 'user-1' });
+        expect(await service.rotate(rotated.refreshToken)).toMatchObject({ success: false, reason: 'invalid' });
+        expect(await service.list('user-1')).toEqual([]);
+    });
+
+    it('should hand concurrent refreshes of the same token the same new token', async () => {
+        const { refreshToken } = await service.start('user-1');
+
+        const [a, b] = await Promise.all([service.rotate(refreshToken), service.rotate(refreshToken)]);
+        if (!a.success || !b.success) throw new Error('concurrent refresh failed');
+        expect(b.refreshToken).toBe(a.refreshToken);
+
+        // 유예 시간 안에 다시 와도 같은 토큰, 다음 토큰을 쓴 뒤에는 재사용으로 폐기
+        now += 5 * 1000;
+        expect(await service.rotate(refreshToken)).toMatchObject({ success: true, refreshToken: a.refreshToken });
+        const next = await service.rotate(a.refreshToken);
+        expect(next.success).toBe(true);
+        expect(await service.rotate(refreshToken)).toMatchObject({ success: false, reason: 'reused' });
+        expect(store.tokens).toHaveLength(3);
+    });
+
+    it('should delete revoked and expired families', async () => {
+        const kept = await service.start('user-1');
+        const revoked = await service.start('user-1');
+        await service.start('user-2');
+        await service.end(revoked.refreshToken);
+        now += 30 * 60 * 1000;
+        await service.rotate(kept.refreshToken);
+
+        now += 45 * 60 * 1000;
+        await service.prune();
+
+        // user-2 로그인은 만료, 폐기한 패밀리는 삭제, 갱신한 패밀리는 유지
+        expect(store.tokens.map(t => t.familyId)).toEqual([kept.sessionId, kept.sessionId]);
+        expect(await service.list('user-1')).toEqual([expect.objectContaining({ id: kept.sessionId })]);
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+        const { refreshToken } = await service.start('user-1');
+
+        expect(await service.rotate('unknown')).toMatchObject({ success: false, reason: 'invalid' });
+        now += 2 * 60 * 60 * 1000;
+        expect(await service.rotate(refreshToken)).toMatchObject({ success: false, reason: 'invalid' });
+        expect(await service.list('user-1')).toEqual([]);
+    });
+
+    it('should sign out other devices of the same user only', async () => {
+        const laptop = await service.start('user-1', { userAgent: 'Laptop' });
+        const phone = await service.start('user-1', { userAgent: 'Phone' });
+        await service.start('user-2');
+
+        expect((await service.list('user-1')).map(s => s.userAgent)).toEqual(['Phone', 'Laptop']);
+
+        expect(await service.revoke('user-2', phone.sessionId)).toBe(false);
+        expect(await service.revoke('user-1', phone.sessionId)).toBe(true);
+        expect(await service.rotate(phone.refreshToken)).toMatchObject({ success: false, reason: 'invalid' });
+        expect((await service.list('user-1')).map(s => s.id)).toEqual([laptop.sessionId]);
+
+        // 로그아웃은 자기 세션만 종료
+        await service.end(laptop.refreshToken);
+        expect(await service.list('user-1')).toEqual([]);
+        expect(await service.list('user-2')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Schema Migrations
+ * 마이그레이션 적용/되돌리기/버전 확인 단위 테스트
+ */
+
+import { Queryable } from '../models/database';
+import { Migration, Migrator, UnknownSchemaVersionError } from '../models/migrator';
+import { migrations } from '../migrations';
+
+// schema_migrations와 트랜잭션만 흉내내는 가짜 연결 (나머지 SQL은 기록만)
+class FakeDatabase implements Queryable {
+    versions = new Map<number, string>();
+    executed: string[] = [];
+    failOn: string | null = null;
+    private snapshot: Map<number, string> | null = null;
+
+    async query(text: string, params: any[] = []) {
+        const sql = text.trim();
+        if (sql.startsWith('CREATE TABLE IF NOT EXISTS schema_migrations') || sql.includes('pg_advisory')) {
+            return { rows: [] };
+        }
+        if (sql === 'BEGIN') {
+            this.snapshot = new Map(this.versions);
+            return { rows: [] };
+        }
+        if (sql === 'COMMIT') {
+            this.snapshot = null;
+            return { rows: [] };
+        }
+        if (sql === 'ROLLBACK') {
+            this.versions = this.snapshot!;
+            this.snapshot = null;
+            return { rows: [] };
+        }
+        if (sql.startsWith('SELECT version, name, applied_at FROM schema_migrations')) {
+            return {
+                rows: [...this.versions.entries()]
+                    .sort(([a], [b]) => a - b)
+                    .map(([version, name]) => ({ version, name, applied_at: new Date('2026-06-01T00:00:00Z') })),
+            };
+        }
+        if (sql.startsWith('INSERT INTO schema_migrations')) {
+            this.versions.set(params[0], params[1]);
+            return { rows: [] };
+        }
+        if (sql.startsWith('DELETE FROM schema_migrations')) {
+            this.versions.delete(params[0]);
+            return { rows: [] };
+        }
+
+        if (this.failOn && sql.includes(this.failOn)) {
+            throw new Error(`syntax error near "${this.failOn}"`);
+        }
+        this.executed.push(sql);
+        return { rows: [] };
+    }
+}
+
+const sample: Migration[] = [
+    { version: 1, name: 'users', up: 'CREATE users', down: 'DROP users' },
+    { version: 2, name: 'devices', up: 'CREATE devices', down: 'DROP devices' },
+    { version: 3, name: 'tokens', up: 'CREATE tokens', down: 'DROP tokens' },
+];
+
+describe('Migrator', () => {
+    let db: FakeDatabase;
+
+    beforeEach(() => {
+        db = new FakeDatabase();
+    });
+
+    it('should apply pending migrations in order and only once', async () => {
+        const migrator = new Migrator(db, [sample[2], sample[0], sample[1]]);
+
+        expect((await migrator.up(2)).map(m => m.version)).toEqual([1, 2]);
+        expect((await migrator.up()).map(m => m.version)).toEqual([3]);
+        expect(await migrator.up()).toEqual([]);
+
+        expect(db.executed).toEqual(['CREATE users', 'CREATE devices', 'CREATE tokens']);
+        expect(await migrator.status()).toMatchObject({ current: 3, latest: 3, pending: [], unknown: [] });
+    });
+
+    it('should roll back the latest migrations', async () => {
+        const migrator = new Migrator(db, sample);
+        await migrator.up();
+
+        expect((await migrator.down(2)).map(m => m.version)).toEqual([3, 2]);
+        expect(db.executed.slice(-2)).toEqual(['DROP tokens', 'DROP devices']);
+
+        const status = await migrator.status();
+        expect(status.current).toBe(1);
+        expect(status.pending.map(m => m.version)).toEqual([2, 3]);
+    });
+
+    it('should refuse to roll back zero steps', async () => {
+        const migrator = new Migrator(db, sample);
+        await migrator.up();
+
+        await expect(migrator.down(0)).rejects.toThrow('Invalid rollback steps: 0');
+        await expect(migrator.down(-1)).rejects.toThrow('Invalid rollback steps');
+        expect((await migrator.status()).current).toBe(3);
+
+        // 적용된 것보다 많이 되돌리면 전부
+        expect((await migrator.down(10)).map(m => m.version)).toEqual([3, 2, 1]);
+    });
+
+    it('should not record a migration that failed', async () => {
+        const migrator = new Migrator(db, sample);
+        db.failOn = 'devices';
+
+        await expect(migrator.up()).rejects.toThrow('syntax error');
+        expect([...db.versions.keys()]).toEqual([1]);
+
+        db.failOn = null;
+        expect((await migrator.up()).map(m => m.version)).toEqual([2, 3]);
+    });
+
+    it('should refuse a database migrated by a newer server', async () => {
+        db.versions.set(1, 'users');
+        db.versions.set(2, 'devices');
+        db.versions.set(3, 'tokens');
+        db.versions.set(4, 'from-the-future');
+        const migrator = new Migrator(db, sample);
+
+        await expect(migrator.up()).rejects.toThrow(UnknownSchemaVersionError);
+        await expect(migrator.down()).rejects.toThrow(UnknownSchemaVersionError);
+        expect((await migrator.status()).unknown.map(m => m.version)).toEqual([4]);
+        expect(db.executed).toEqual([]);
+    });
+
+    it('should reject gaps and duplicate versions', () => {
+        expect(() => new Migrator(db, [sample[0], sample[2]])).toThrow('sequential');
+        expect(() => new Migrator(db, [sample[0], sample[0]])).toThrow('sequential');
+    });
+});
+
+describe('Registered migrations', () => {
+    it('should be numbered sequentially', () => {
+        expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1));
+        expect(() => new Migrator(new FakeDatabase(), migrations)).not.toThrow();
+    });
+
+    it('should drop every table it creates', () => {
+        for (const migration of migrations) {
+            const created = [...migration.up.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/g)].map(m => m[1]);
+            const dropped = [...migration.down.matchAll(/DROP TABLE IF EXISTS (\w+)/g)].map(m => m[1]);
+            expect(dropped.sort()).toEqual(expect.arrayContaining(created.sort()));
+        }
+    });
+});
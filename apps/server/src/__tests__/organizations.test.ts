@@ -0,0 +1,260 @@
+/**
+ * Unit Tests for Organizations
+ * 조직 구성원/좌석/초대 및 조직 플랜 상속 단위 테스트
+ */
+
+import {
+    InvitationRecord,
+    MembershipRecord,
+    OrganizationRecord,
+    OrganizationService,
+    OrganizationStore,
+    OrganizationRole,
+    OwnerSubscription,
+    SeatBilling,
+} from '../services/organizations';
+import { PlanId } from '../../../../packages/protocol/src/plans';
+
+const tokens: Record<string, any> = {
+    'token-member': { userId: 'user-member', email: 'member@example.com', plan: 'free' },
+    'token-pro': { userId: 'user-pro', email: 'pro@example.com', plan: 'personal_pro' },
+};
+
+jest.mock('../services/auth.service', () => ({
+    verifyAccessToken: (token: string) => tokens[token] ?? null,
+}));
+
+import { createAuthMiddleware, requirePlan } from '../middleware/auth.middleware';
+
+// 서비스가 사용하는 저장소의 메모리 구현
+class InMemoryOrganizationStore implements OrganizationStore {
+    organizations = new Map<string, { id: string; name: string; ownerId: string; subscriptionId: string; createdAt: string }>();
+    subscriptions = new Map<string, OwnerSubscription & { userId: string; seats: number }>();
+    members: Array<MembershipRecord & { joinedAt: string }> = [];
+    invitations: InvitationRecord[] = [];
+
+    async create(org: { id: string; name: string; ownerId: string; subscriptionId: string }) {
+        this.organizations.set(org.id, { ...org, createdAt: new Date().toISOString() });
+        await this.addMember(org.id, org.ownerId, 'owner');
+    }
+
+    async get(id: string): Promise<OrganizationRecord | null> {
+        const org = this.organizations.get(id);
+        if (!org) return null;
+        const subscription = this.subscriptions.get(org.subscriptionId);
+        const active = subscription && ['active', 'past_due'].includes(subscription.status);
+        return { ...org, plan: active ? subscription!.plan as PlanId : 'free', seats: subscription?.seats ?? 1 };
+    }
+
+    async rename(id: string, name: string) {
+        this.organizations.get(id)!.name = name;
+    }
+
+    async findOwnerSubscription(userId: string) {
+        return [...this.subscriptions.values()].find(s => s.userId === userId) ?? null;
+    }
+
+    async isSubscriptionLinked(subscriptionId: string) {
+        return [...this.organizations.values()].some(o => o.subscriptionId === subscriptionId);
+    }
+
+    async findMembership(userId: string) {
+        const member = this.members.find(m => m.userId === userId);
+        return member ? { organizationId: member.organizationId, userId, role: member.role } : null;
+    }
+
+    async listMembers(organizationId: string) {
+        return this.members
+            .filter(m => m.organizationId === organizationId)
+            .map(m => ({ ...m, email: `${m.userId.replace('user-', '')}@example.com`, name: null }));
+    }
+
+    async addMember(organizationId: string, userId: string, role: OrganizationRole) {
+        this.members.push({ organizationId, userId, role, joinedAt: new Date().toISOString() });
+    }
+
+    async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole) {
+        this.members.find(m => m.organizationId === organizationId && m.userId === userId)!.role = role;
+    }
+
+    async removeMember(organizationId: string, userId: string) {
+        const before = this.members.length;
+        this.members = this.members.filter(m => !(m.organizationId === organizationId && m.userId === userId));
+        return this.members.length < before;
+    }
+
+    async getMemberPlan(userId: string) {
+        const member = this.members.find(m => m.userId === userId);
+        return member ? (await this.get(member.organizationId))!.plan : null;
+    }
+
+    async createInvitation(invitation: Omit<InvitationRecord, 'acceptedAt' | 'createdAt'>) {
+        this.invitations.push({ ...invitation, acceptedAt: null, createdAt: new Date().toISOString() });
+    }
+
+    async listPendingInvitations(organizationId: string, now: Date) {
+        return this.invitations.filter(i =>
+            i.organizationId === organizationId && !i.acceptedAt && new Date(i.expiresAt) > now);
+    }
+
+    async findInvitationByTokenHash(tokenHash: string) {
+        return this.invitations.find(i => i.tokenHash === tokenHash) ?? null;
+    }
+
+    async markInvitationAccepted(id: string, acceptedAt: Date) {
+        this.invitations.find(i => i.id === id)!.acceptedAt = acceptedAt.toISOString();
+    }
+
+    async deleteInvitation(organizationId: string, id: string) {
+        const before = this.invitations.length;
+        this.invitations = this.invitations.filter(i => !(i.organizationId === organizationId && i.id === id && !i.acceptedAt));
+        return this.invitations.length < before;
+    }
+}
+
+// 좌석 변경 결제 (실패하도록 설정하면 좌석 수를 바꾸지 않음)
+class FakeSeatBilling implements SeatBilling {
+    changes: Array<{ subscriptionId: string; seats: number }> = [];
+    declined = false;
+
+    constructor(private readonly store: InMemoryOrganizationStore) { }
+
+    async changeSeats(subscriptionId: string, seats: number) {
+        if (this.declined) return { success: false, error: '카드 한도 초과' };
+        this.changes.push({ subscriptionId, seats });
+        this.store.subscriptions.get(subscriptionId)!.seats = seats;
+        return { success: true };
+    }
+}
+
+describe('OrganizationService', () => {
+    let store: InMemoryOrganizationStore;
+    let service: OrganizationService;
+    let billing: FakeSeatBilling;
+    let now: number;
+    let orgId: string;
+
+    const invite = async (actor: string, email: string, role: 'admin' | 'member' = 'member') => {
+        const result = await service.invite(actor, orgId, email, role);
+        if (!result.success) throw new Error(result.error);
+        return result.token;
+    };
+
+    beforeEach(async () => {
+        now = Date.parse('2026-05-01T00:00:00Z');
+        store = new InMemoryOrganizationStore();
+        store.subscriptions.set('sub-1', { id: 'sub-1', userId: 'user-owner', plan: 'team', status: 'active', seats: 3 });
+        store.subscriptions.set('sub-2', { id: 'sub-2', userId: 'user-pro', plan: 'personal_pro', status: 'active', seats: 1 });
+        billing = new FakeSeatBilling(store);
+        service = new OrganizationService(store, billing, { now: () => now, invitationTtlMs: 60 * 60 * 1000 });
+
+        const created = await service.create('user-owner', 'Support Team');
+        if (!created.success) throw new Error(created.error);
+        orgId = created.organization.id;
+    });
+
+    it('should only create organizations for team or business subscribers', async () => {
+        const result = await service.create('user-pro', 'Solo');
+
+        expect(result).toMatchObject({ success: false, status: 403 });
+        expect(store.members).toEqual([expect.objectContaining({ userId: 'user-owner', role: 'owner' })]);
+    });
+
+    it('should add members through email invitations', async () => {
+        const token = await invite('user-owner', 'Member@Example.com');
+
+        expect(await service.acceptInvitation('user-other', 'other@example.com', token)).toMatchObject({ success: false, status: 403 });
+
+        const accepted = await service.acceptInvitation('user-member', 'member@example.com', token);
+        expect(accepted).toMatchObject({ success: true, role: 'member' });
+
+        // 같은 토큰은 다시 사용할 수 없음
+        expect(await service.acceptInvitation('user-member', 'member@example.com', token)).toMatchObject({ success: false, status: 404 });
+
+        const details = await service.getForUser('user-member');
+        expect(details).toMatchObject({ success: true, role: 'member', seatsUsed: 2, invitations: [] });
+    });
+
+    it('should count pending invitations against the seats', async () => {
+        await invite('user-owner', 'a@example.com');
+        await invite('user-owner', 'b@example.com');
+
+        expect(await service.invite('user-owner', orgId, 'c@example.com', 'member')).toMatchObject({ success: false, status: 409 });
+        expect(await service.setSeats('user-owner', orgId, 2)).toMatchObject({ success: false, status: 409 });
+
+        // 만료된 초대는 좌석에서 빠짐
+        now += 2 * 60 * 60 * 1000;
+        expect((await service.invite('user-owner', orgId, 'c@example.com', 'member')).success).toBe(true);
+        expect(await service.setSeats('user-owner', orgId, 5)).toEqual({ success: true, seats: 5 });
+        expect(store.subscriptions.get('sub-1')!.seats).toBe(5);
+    });
+
+    it('should only change seats after billing the difference', async () => {
+        billing.declined = true;
+        expect(await service.setSeats('user-owner', orgId, 10)).toEqual({ success: false, status: 409, error: '카드 한도 초과' });
+        expect(store.subscriptions.get('sub-1')!.seats).toBe(3);
+
+        // 같은 좌석 수는 결제 없이 성공
+        expect(await service.setSeats('user-owner', orgId, 3)).toEqual({ success: true, seats: 3 });
+        expect(billing.changes).toEqual([]);
+
+        billing.declined = false;
+        expect(await service.setSeats('user-owner', orgId, 10)).toEqual({ success: true, seats: 10 });
+        expect(billing.changes).toEqual([{ subscriptionId: 'sub-1', seats: 10 }]);
+    });
+
+    it('should enforce role permissions', async () => {
+        await service.acceptInvitation('user-admin', 'admin@example.com', await invite('user-owner', 'admin@example.com', 'admin'));
+        await service.acceptInvitation('user-member', 'member@example.com', await invite('user-admin', 'member@example.com'));
+
+        expect(await service.invite('user-admin', orgId, 'x@example.com', 'admin')).toMatchObject({ success: false, status: 403 });
+        expect(await service.invite('user-member', orgId, 'x@example.com', 'member')).toMatchObject({ success: false, status: 403 });
+        expect(await service.setSeats('user-admin', orgId, 10)).toMatchObject({ success: false, status: 403 });
+        expect(await service.updateMemberRole('user-admin', orgId, 'user-member', 'admin')).toMatchObject({ success: false, status: 403 });
+        expect(await service.removeMember('user-member', orgId, 'user-admin')).toMatchObject({ success: false, status: 403 });
+        expect(await service.removeMember('user-admin', orgId, 'user-owner')).toMatchObject({ success: false, status: 400 });
+
+        expect((await service.removeMember('user-admin', orgId, 'user-member')).success).toBe(true);
+        expect((await service.updateMemberRole('user-owner', orgId, 'user-admin', 'member')).success).toBe(true);
+        expect((await service.removeMember('user-admin', orgId, 'user-admin')).success).toBe(true);
+        expect(store.members.map(m => m.userId)).toEqual(['user-owner']);
+    });
+
+    it('should fall back to the free plan when the subscription lapses', async () => {
+        await service.acceptInvitation('user-member', 'member@example.com', await invite('user-owner', 'member@example.com'));
+        expect(await store.getMemberPlan('user-member')).toBe('team');
+
+        store.subscriptions.get('sub-1')!.status = 'expired';
+        expect(await store.getMemberPlan('user-member')).toBe('free');
+    });
+});
+
+describe('authMiddleware organization plans', () => {
+    const memberPlans: Record<string, PlanId> = { 'user-member': 'team', 'user-pro': 'free' };
+    const auth = createAuthMiddleware({ resolveMemberPlan: async userId => memberPlans[userId] ?? null });
+
+    const run = async (token: string, ...plans: string[]) => {
+        const req: any = { headers: { authorization: `Bearer ${token}` } };
+        const res: any = { statusCode: 200 };
+        res.status = (code: number) => { res.statusCode = code; return res; };
+        res.json = () => res;
+        const next = jest.fn();
+
+        await auth(req, res, () => requirePlan(...plans)(req, res, next));
+        return { req, res, next };
+    };
+
+    it('should let members use the organization plan', async () => {
+        const { req, next } = await run('token-member', 'team');
+
+        expect(req.user.plan).toBe('team');
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('should keep the personal plan when it is higher', async () => {
+        const { req, res } = await run('token-pro', 'team');
+
+        expect(req.user.plan).toBe('personal_pro');
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit Tests for Payment Webhooks
+ * 결제 웹훅 검증/중복 처리 단위 테스트 (로컬 가짜 토스페이먼츠 서버 사용)
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PaymentWebhookProcessor } from '../services/paymentWebhook';
+import { TossPayment, TossPaymentsClient, getTossAuthHeader } from '../services/tossPayments';
+
+const SECRET_KEY = 'test_sk_webhook';
+
+// GET /v1/payments/:paymentKey 만 흉내내는 가짜 결제 서버
+function startFakeToss(payments: Map<string, TossPayment>) {
+    const server = http.createServer((req, res) => {
+        const match = req.url?.match(/^\/v1\/payments\/([^/]+)$/);
+        if (req.headers.authorization !== getTossAuthHeader(SECRET_KEY)) {
+            res.writeHead(401, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ code: 'UNAUTHORIZED_KEY', message: 'unauthorized' }));
+            return;
+        }
+        const payment = match && payments.get(decodeURIComponent(match[1]));
+        if (!payment) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ code: 'NOT_FOUND_PAYMENT', message: 'not found' }));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payment));
+    });
+
+    return new Promise<{ server: http.Server; baseUrl: string }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1` });
+        });
+    });
+}
+
+// payment_webhook_events, subscriptions, users 테이블만 흉내내는 가짜 DB
+// 트랜잭션은 한 번에 하나씩 실행하고 (이벤트 행 잠금 흉내), ROLLBACK하면 BEGIN 시점 상태로 복원
+function createFakeDb() {
+    const events = new Map<string, { attempts: number; processed_at: string | null; result?: string }>();
+    const subscriptions = [
+        { id: 'sub-1', user_id: 'user-1', plan: 'business', status: 'active', last_order_id: 'ORDER_1', last_payment_key: 'pay-1' },
+    ];
+    const users: Record<string, { plan: string }> = { 'user-1': { plan: 'business' } };
+    const faults = { userUpdates: 0 };
+    let lock = Promise.resolve();
+
+    const snapshot = () => JSON.stringify({ events: [...events], subscriptions, users });
+    const restore = (saved: string) => {
+        const state = JSON.parse(saved);
+        events.clear();
+        state.events.forEach(([id, event]: [string, any]) => events.set(id, event));
+        subscriptions.splice(0, subscriptions.length, ...state.subscriptions);
+        Object.keys(users).forEach(id => delete users[id]);
+        Object.assign(users, state.users);
+    };
+
+    const db = {
+        connect: async () => {
+            const previous = lock;
+            let release!: () => void;
+            lock = new Promise<void>(resolve => { release = resolve; });
+            await previous;
+
+            let saved = '';
+            return {
+                query: async (text: string, params: any[] = []) => {
+                    if (text === 'BEGIN') saved = snapshot();
+                    else if (text === 'ROLLBACK') restore(saved);
+                    else if (text !== 'COMMIT') return db.query(text, params);
+                    return { rows: [] };
+                },
+                release,
+            };
+        },
+        query: async (text: string, params: any[] = []) => {
+            if (text.includes('INSERT INTO payment_webhook_events')) {
+                const existing = events.get(params[0]);
+                if (existing) {
+                    existing.attempts++;
+                    return { rows: [{ processed_at: existing.processed_at }] };
+                }
+                events.set(params[0], { attempts: 1, processed_at: null });
+                return { rows: [{ processed_at: null }] };
+            }
+            if (text.includes('UPDATE payment_webhook_events')) {
+                Object.assign(events.get(params[0])!, { processed_at: 'now', result: params[1] });
+                return { rows: [] };
+            }
+            if (text.includes('FROM subscriptions')) {
+                return { rows: subscriptions.filter(s => s.last_order_id === params[0] || s.last_payment_key === params[1]) };
+            }
+            if (text.includes('UPDATE subscriptions')) {
+                subscriptions.find(s => s.id === params[0])!.status = params[1];
+                return { rows: [] };
+            }
+            if (text.includes('UPDATE users')) {
+                if (faults.userUpdates > 0) {
+                    faults.userUpdates--;
+                    throw new Error('connection reset');
+                }
+                users[params[0]].plan = params[1];
+                return { rows: [] };
+            }
+            throw new Error(`Unexpected query: ${text}`);
+        },
+    };
+    return { db, events, subscriptions, users, faults };
+}
+
+const webhook = (paymentKey: string, orderId: string, status: string) => ({
+    eventType: 'PAYMENT_STATUS_CHANGED',
+    createdAt: '2026-01-01T00:00:00.000',
+    data: { paymentKey, orderId, status },
+});
+
+describe('PaymentWebhookProcessor', () => {
+    const payments = new Map<string, TossPayment>();
+    let server: http.Server;
+    let client: TossPaymentsClient;
+
+    beforeAll(async () => {
+        const fake = await startFakeToss(payments);
+        server = fake.server;
+        client = new TossPaymentsClient({ secretKey: SECRET_KEY, baseUrl: fake.baseUrl });
+    });
+
+    afterAll(done => {
+        server.close(() => done());
+    });
+
+    beforeEach(() => {
+        payments.clear();
+    });
+
+    it('should expire the subscription and downgrade the user once per event', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'EXPIRED', lastTransactionKey: 'tx-2' });
+        const { db, events, subscriptions, users } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        const first = await processor.process(webhook('pay-1', 'ORDER_1', 'EXPIRED'));
+        expect(first).toMatchObject({ status: 'processed', subscriptionId: 'sub-1', subscriptionStatus: 'expired' });
+        expect(subscriptions[0].status).toBe('expired');
+        expect(users['user-1'].plan).toBe('free');
+
+        // 재전송은 중복으로 처리되고 상태를 다시 바꾸지 않음
+        users['user-1'].plan = 'business';
+        const retry = await processor.process(webhook('pay-1', 'ORDER_1', 'EXPIRED'));
+        expect(retry.status).toBe('duplicate');
+        expect(users['user-1'].plan).toBe('business');
+        expect([...events.values()][0]).toMatchObject({ attempts: 2, result: 'expired' });
+    });
+
+    it('should trust the provider status over the webhook body', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'ABORTED', lastTransactionKey: 'tx-3' });
+        const { db, subscriptions, users } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        const result = await processor.process(webhook('pay-1', 'ORDER_1', 'DONE'));
+
+        expect(result).toMatchObject({ status: 'processed', paymentStatus: 'ABORTED', subscriptionStatus: 'past_due' });
+        expect(subscriptions[0].status).toBe('past_due');
+        // past_due는 유예 기간이므로 플랜 유지 (정기 결제 스케줄러와 같음)
+        expect(users['user-1'].plan).toBe('business');
+    });
+
+    it('should apply concurrent deliveries of the same event once', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'CANCELED', lastTransactionKey: 'tx-7' });
+        const { db, events } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        const results = await Promise.all([
+            processor.process(webhook('pay-1', 'ORDER_1', 'CANCELED')),
+            processor.process(webhook('pay-1', 'ORDER_1', 'CANCELED')),
+        ]);
+
+        expect(results.map(r => r.status).sort()).toEqual(['duplicate', 'processed']);
+        expect([...events.values()][0]).toMatchObject({ attempts: 2, result: 'cancelled' });
+    });
+
+    it('should roll back the subscription change when the plan update fails', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'EXPIRED', lastTransactionKey: 'tx-8' });
+        const { db, events, subscriptions, users, faults } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+        faults.userUpdates = 1;
+
+        await expect(processor.process(webhook('pay-1', 'ORDER_1', 'EXPIRED'))).rejects.toThrow('connection reset');
+        expect(subscriptions[0].status).toBe('active');
+        expect(events.size).toBe(0);
+
+        // 재전송하면 처음부터 다시 처리
+        expect((await processor.process(webhook('pay-1', 'ORDER_1', 'EXPIRED'))).status).toBe('processed');
+        expect(subscriptions[0].status).toBe('expired');
+        expect(users['user-1'].plan).toBe('free');
+    });
+
+    it('should map cancellations and restore the plan when a payment completes', async () => {
+        const { db, subscriptions, users } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'CANCELED', lastTransactionKey: 'tx-4' });
+        await processor.process(webhook('pay-1', 'ORDER_1', 'CANCELED'));
+        expect(subscriptions[0].status).toBe('cancelled');
+        expect(users['user-1'].plan).toBe('free');
+
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'DONE', lastTransactionKey: 'tx-5' });
+        await processor.process(webhook('pay-1', 'ORDER_1', 'DONE'));
+        expect(subscriptions[0].status).toBe('active');
+        expect(users['user-1'].plan).toBe('business');
+    });
+
+    it('should record partial cancellations without changing the subscription', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'PARTIAL_CANCELED', lastTransactionKey: 'tx-6' });
+        const { db, events, subscriptions } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        const result = await processor.process(webhook('pay-1', 'ORDER_1', 'PARTIAL_CANCELED'));
+
+        expect(result.status).toBe('processed');
+        expect(subscriptions[0].status).toBe('active');
+        expect([...events.values()][0].result).toBe('recorded');
+    });
+
+    it('should reject forged or unknown payments without touching the database', async () => {
+        payments.set('pay-1', { paymentKey: 'pay-1', orderId: 'ORDER_1', status: 'DONE', lastTransactionKey: 'tx-1' });
+        const { db, events } = createFakeDb();
+        const processor = new PaymentWebhookProcessor(db, client);
+
+        expect(await processor.process(webhook('pay-missing', 'ORDER_1', 'CANCELED'))).toEqual({ status: 'rejected', reason: 'unknown_payment' });
+        expect(await processor.process(webhook('pay-1', 'ORDER_OTHER', 'CANCELED'))).toEqual({ status: 'rejected', reason: 'order_mismatch' });
+        expect(await processor.process({ eventType: 'PAYMENT_STATUS_CHANGED', data: {} })).toEqual({ status: 'rejected', reason: 'missing_payment' });
+        expect((await processor.process({ eventType: 'DEPOSIT_CALLBACK' })).status).toBe('ignored');
+        expect(events.size).toBe(0);
+    });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for PostgreSQL Pub/Sub
+ * 큰 메시지 전달과 LISTEN 연결 재연결 단위 테스트
+ */
+
+import { EventEmitter } from 'events';
+import { Queryable } from '../models/database';
+import { ListenerClient, NOTIFY_PAYLOAD_LIMIT, PostgresPubSub } from '../services/pgPubSub';
+
+// LISTEN한 채널만 기억하는 가짜 연결
+class FakeListener extends EventEmitter implements ListenerClient {
+    channels = new Set<string>();
+
+    async connect() {}
+
+    async query(text: string) {
+        const [command, quoted] = text.split(' ');
+        const channel = quoted.slice(1, -1);
+        if (command === 'LISTEN') this.channels.add(channel);
+        else this.channels.delete(channel);
+    }
+
+    async end() {}
+}
+
+// pg_notify를 현재 연결된 리스너에 전달하고 pubsub_messages만 흉내내는 가짜 데이터베이스
+class FakeDatabase implements Queryable {
+    listeners: FakeListener[] = [];
+    messages = new Map<string, { payload: string; createdAt: number }>();
+    notified: string[] = [];
+    now = 0;
+
+    async query(text: string, params: any[] = []) {
+        if (text.startsWith('SELECT pg_notify')) {
+            const [channel, payload] = params;
+            if (Buffer.byteLength(payload) >= NOTIFY_PAYLOAD_LIMIT) throw new Error('payload string too long');
+            this.notified.push(payload);
+            for (const listener of this.listeners) {
+                if (listener.channels.has(channel)) listener.emit('notification', { channel, payload });
+            }
+            return { rows: [] };
+        }
+        if (text.startsWith('INSERT INTO pubsub_messages')) {
+            this.messages.set(params[0], { payload: params[2], createdAt: this.now });
+            return { rows: [] };
+        }
+        if (text.startsWith('SELECT payload FROM pubsub_messages')) {
+            const message = this.messages.get(params[0]);
+            return { rows: message ? [{ payload: message.payload }] : [] };
+        }
+        if (text.startsWith('DELETE FROM pubsub_messages')) {
+            const before = Date.parse(params[0]);
+            for (const [id, message] of this.messages) {
+                if (message.createdAt < before) this.messages.delete(id);
+            }
+            return { rows: [] };
+        }
+        throw new Error(`Unexpected query: ${text}`);
+    }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('PostgresPubSub', () => {
+    let db: FakeDatabase;
+    let pubsub: PostgresPubSub;
+
+    beforeEach(() => {
+        db = new FakeDatabase();
+        pubsub = new PostgresPubSub('postgres://test', {
+            db: () => db,
+            createListener: () => {
+                const listener = new FakeListener();
+                db.listeners.push(listener);
+                return listener;
+            },
+            reconnectDelaysMs: [10],
+            now: () => db.now,
+        });
+    });
+
+    afterEach(async () => {
+        await pubsub.close();
+    });
+
+    it('should deliver payloads over the NOTIFY limit in order', async () => {
+        const received: string[] = [];
+        await pubsub.subscribe('node-a', payload => received.push(payload));
+
+        const frame = JSON.stringify({ type: 'screen-frame', data: 'x'.repeat(20000) });
+        await pubsub.publish('node-a', frame);
+        await pubsub.publish('node-a', '{"type":"small"}');
+        await flush();
+
+        expect(received).toEqual([frame, '{"type":"small"}']);
+        expect(db.notified[0]).toMatch(/^ref:/);
+        expect(db.messages.size).toBe(1);
+    });
+
+    it('should delete stored messages after they expire', async () => {
+        const large = 'x'.repeat(NOTIFY_PAYLOAD_LIMIT);
+        db.now = Date.parse('2026-06-01T00:00:00Z');
+        await pubsub.publish('node-a', large);
+
+        db.now += 2 * 60 * 1000;
+        await pubsub.publish('node-a', large);
+
+        expect(db.messages.size).toBe(1);
+    });
+
+    it('should reconnect and listen again after the connection drops', async () => {
+        const received: string[] = [];
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        try {
+            await pubsub.subscribe('node-a', payload => received.push(payload));
+            await pubsub.subscribe('node-b', payload => received.push(payload));
+
+            // 첫 재연결은 실패, 다음 시도에서 성공
+            const [first] = db.listeners;
+            db.listeners = [];
+            const originalConnect = FakeListener.prototype.connect;
+            let attempts = 0;
+            jest.spyOn(FakeListener.prototype, 'connect').mockImplementation(function (this: FakeListener) {
+                attempts++;
+                if (attempts === 1) return Promise.reject(new Error('connection refused'));
+                return originalConnect.call(this);
+            });
+            first.emit('error', new Error('Connection terminated unexpectedly'));
+
+            await new Promise(resolve => setTimeout(resolve, 50));
+            expect(attempts).toBe(2);
+
+            const current = db.listeners[db.listeners.length - 1];
+            expect([...current.channels].sort()).toEqual(['node-a', 'node-b']);
+
+            await pubsub.publish('node-b', '"after"');
+            await flush();
+            expect(received).toEqual(['"after"']);
+        } finally {
+            errorSpy.mockRestore();
+            logSpy.mockRestore();
+            jest.restoreAllMocks();
+        }
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * Unit Tests for Plan Changes
+ * 플랜 변경 일할 계산/결제/결제 내역 단위 테스트
+ */
+
+import { PlanChangeService, calculateProration } from '../services/planChange';
+import { InvoiceService } from '../services/invoices';
+import { BillingChargeRequest, BillingProvider, TossPayment } from '../services/tossPayments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_START = new Date('2026-03-01T00:00:00.000Z');
+const PERIOD_END = new Date('2026-03-31T00:00:00.000Z');
+const HALFWAY = PERIOD_START.getTime() + 15 * DAY_MS;
+
+class FakeBillingProvider implements BillingProvider {
+    charges: BillingChargeRequest[] = [];
+
+    async chargeBillingKey(_billingKey: string, request: BillingChargeRequest): Promise<TossPayment> {
+        this.charges.push(request);
+        return {
+            paymentKey: 'pay-change',
+            orderId: request.orderId,
+            status: 'DONE',
+            method: '카드',
+            approvedAt: '2026-03-16T00:00:00.000Z',
+            receipt: { url: 'https://example.com/receipt/pay-change' },
+        };
+    }
+}
+
+// subscriptions 행 하나만 흉내내는 가짜 DB (트랜잭션은 한 번에 하나씩 실행해 행 잠금 흉내)
+function createFakeDb(subscription: Record<string, any>) {
+    const calls: Array<{ text: string; params: any[] }> = [];
+    const faults = { invoiceInserts: 0 };
+    let lock = Promise.resolve();
+
+    const db = {
+        connect: async () => {
+            const previous = lock;
+            let release!: () => void;
+            lock = new Promise<void>(resolve => { release = resolve; });
+            await previous;
+
+            return {
+                query: async (text: string, params: any[] = []) => {
+                    if (text === 'BEGIN' || text === 'COMMIT' || text === 'ROLLBACK') return { rows: [] };
+                    return db.query(text, params);
+                },
+                release,
+            };
+        },
+        query: async (text: string, params: any[] = []) => {
+            calls.push({ text, params });
+            if (text.startsWith('SELECT * FROM subscriptions')) return { rows: [{ ...subscription }] };
+            if (text.includes('UPDATE subscriptions')) {
+                Object.assign(subscription, { plan: params[1], credit_balance: params[2], seats: params[5] });
+            }
+            if (text.includes('INSERT INTO invoices') && faults.invoiceInserts > 0) {
+                faults.invoiceInserts--;
+                throw new Error('connection reset');
+            }
+            return { rows: [] };
+        },
+    };
+    const find = (fragment: string) => calls.find(c => c.text.includes(fragment));
+    const findAll = (fragment: string) => calls.filter(c => c.text.includes(fragment));
+    return { db, calls, find, findAll, faults };
+}
+
+const activeSubscription = (overrides: Record<string, any> = {}) => ({
+    id: 'sub-1',
+    user_id: 'user-1',
+    plan: 'personal_pro',
+    status: 'active',
+    billing_key: 'billing-1',
+    customer_key: 'CUSTOMER_user-1',
+    billing_cycle: 'monthly',
+    current_period_start: PERIOD_START,
+    current_period_end: PERIOD_END,
+    credit_balance: 0,
+    ...overrides,
+});
+
+describe('calculateProration', () => {
+    it('should credit the unused part of the current plan', () => {
+        const proration = calculateProration({
+            currentPlan: 'personal_pro',
+            newPlan: 'team',
+            billingCycle: 'monthly',
+            periodStart: PERIOD_START,
+            periodEnd: PERIOD_END,
+            now: HALFWAY,
+        });
+
+        expect(proration).toMatchObject({ remainingDays: 15, credit: 2950, charge: 9950, amountDue: 7000, creditIssued: 0 });
+        expect(proration.lineItems.map(item => item.amount)).toEqual([-2950, 9950]);
+    });
+
+    it('should issue credit on downgrades and use existing credit on upgrades', () => {
+        const downgrade = calculateProration({
+            currentPlan: 'team',
+            newPlan: 'business',
+            billingCycle: 'monthly',
+            periodStart: PERIOD_START,
+            periodEnd: PERIOD_END,
+            now: HALFWAY,
+        });
+        expect(downgrade).toMatchObject({ amountDue: 0, creditIssued: 5000 });
+
+        const upgrade = calculateProration({
+            currentPlan: 'personal_pro',
+            newPlan: 'business',
+            billingCycle: 'monthly',
+            periodStart: PERIOD_START,
+            periodEnd: PERIOD_END,
+            creditBalance: 500,
+            now: HALFWAY,
+        });
+        expect(upgrade).toMatchObject({ amountDue: 1500, creditApplied: 500 });
+    });
+});
+
+describe('PlanChangeService', () => {
+    it('should charge the prorated difference and record a paid invoice', async () => {
+        const provider = new FakeBillingProvider();
+        const { db, find } = createFakeDb(activeSubscription());
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        const result = await service.changePlan('user-1', 'team');
+
+        expect(result.success).toBe(true);
+        expect(provider.charges[0]).toMatchObject({ amount: 7000, customerKey: 'CUSTOMER_user-1' });
+        expect(find('UPDATE subscriptions')!.params.slice(0, 3)).toEqual(['sub-1', 'team', 0]);
+        expect(find('UPDATE users')!.params).toEqual(['user-1', 'team']);
+
+        const invoice = find('INSERT INTO invoices')!.params;
+        expect(invoice.slice(4, 8)).toEqual(['plan_change', 'team', 7000, 'paid']);
+        expect(invoice.slice(9, 12)).toEqual(['pay-change', '카드', 'https://example.com/receipt/pay-change']);
+    });
+
+    it('should store downgrade credit without charging', async () => {
+        const provider = new FakeBillingProvider();
+        const { db, find } = createFakeDb(activeSubscription({ plan: 'team' }));
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        const result = await service.changePlan('user-1', 'business');
+
+        expect(provider.charges).toHaveLength(0);
+        expect(result.subscription?.credit_balance).toBe(5000);
+        expect(find('INSERT INTO invoices')!.params.slice(6, 8)).toEqual([0, 'credited']);
+    });
+
+    it('should lock the subscription so concurrent changes charge once', async () => {
+        const provider = new FakeBillingProvider();
+        const { db, find } = createFakeDb(activeSubscription({ credit_balance: 500 }));
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        const results = await Promise.all([service.changePlan('user-1', 'team'), service.changePlan('user-1', 'team')]);
+
+        expect(find('SELECT * FROM subscriptions')!.text).toContain('FOR UPDATE');
+        expect(results.map(r => r.success)).toEqual([true, false]);
+        expect(results[1].error).toBe('이미 사용 중인 플랜입니다.');
+        expect(provider.charges).toHaveLength(1);
+        expect(provider.charges[0].amount).toBe(6500);
+    });
+
+    it('should retry saving after a successful charge instead of charging again', async () => {
+        const provider = new FakeBillingProvider();
+        const { db, findAll, faults } = createFakeDb(activeSubscription());
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY, persistRetryDelaysMs: [0, 0] });
+        faults.invoiceInserts = 2;
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        try {
+            const result = await service.changePlan('user-1', 'team');
+
+            expect(result.success).toBe(true);
+            expect(provider.charges).toHaveLength(1);
+            const orderIds = findAll('INSERT INTO invoices').map(call => call.params[3]);
+            expect(orderIds).toHaveLength(3);
+            expect(new Set(orderIds)).toEqual(new Set([provider.charges[0].orderId]));
+            expect(findAll('UPDATE users').every(call => call.params[1] === 'team')).toBe(true);
+        } finally {
+            errorSpy.mockRestore();
+        }
+    });
+
+    it('should reject inactive subscriptions and unchanged plans', async () => {
+        const provider = new FakeBillingProvider();
+
+        const pastDue = new PlanChangeService(createFakeDb(activeSubscription({ status: 'past_due' })).db, provider);
+        expect((await pastDue.changePlan('user-1', 'team')).success).toBe(false);
+
+        const same = new PlanChangeService(createFakeDb(activeSubscription()).db, provider, { now: () => HALFWAY });
+        expect(await same.changePlan('user-1', 'personal_pro')).toEqual({ success: false, error: '이미 사용 중인 플랜입니다.' });
+        expect(provider.charges).toHaveLength(0);
+    });
+});
+
+describe('PlanChangeService seats', () => {
+    it('should charge the remaining period for added seats', async () => {
+        const provider = new FakeBillingProvider();
+        const { db, find } = createFakeDb(activeSubscription({ plan: 'team', seats: 3 }));
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        const result = await service.changeSeats('sub-1', 5);
+
+        // 팀 좌석 2개의 남은 15일
+        expect(result.proration).toMatchObject({ credit: 29850, charge: 49750, amountDue: 19900 });
+        expect(provider.charges[0]).toMatchObject({ amount: 19900, orderName: 'LunarView 팀 좌석 변경' });
+        expect(find('UPDATE subscriptions')!.params).toEqual(['sub-1', 'team', 0, expect.any(String), 'pay-change', 5]);
+        expect(find('UPDATE users')).toBeUndefined();
+        expect(find('INSERT INTO invoices')!.params.slice(4, 8)).toEqual(['plan_change', 'team', 19900, 'paid']);
+    });
+
+    it('should not change seats when the charge fails', async () => {
+        const provider = new FakeBillingProvider();
+        provider.chargeBillingKey = async () => { throw new Error('카드 한도 초과'); };
+        const { db, find } = createFakeDb(activeSubscription({ plan: 'team', seats: 3 }));
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        expect(await service.changeSeats('sub-1', 5)).toEqual({ success: false, error: '카드 한도 초과' });
+        expect(find('UPDATE subscriptions')).toBeUndefined();
+    });
+
+    it('should credit removed seats without charging', async () => {
+        const provider = new FakeBillingProvider();
+        const { db } = createFakeDb(activeSubscription({ plan: 'team', seats: 5 }));
+        const service = new PlanChangeService(db, provider, { now: () => HALFWAY });
+
+        const result = await service.changeSeats('sub-1', 4);
+
+        expect(provider.charges).toHaveLength(0);
+        expect(result.subscription?.credit_balance).toBe(9950);
+    });
+});
+
+describe('InvoiceService', () => {
+    it('should return invoices with line items and receipt metadata', async () => {
+        const row = {
+            id: 'inv-1',
+            order_id: 'ORDER_1',
+            kind: 'subscription',
+            plan: 'business',
+            amount: 9900,
+            currency: 'KRW',
+            status: 'paid',
+            line_items: [{ description: 'LunarView 비즈니스 월간 구독', amount: 9900 }],
+            payment_key: 'pay-1',
+            method: '카드',
+            receipt_url: 'https://example.com/receipt/pay-1',
+            period_start: PERIOD_START,
+            period_end: PERIOD_END,
+            paid_at: PERIOD_START,
+            created_at: PERIOD_START,
+        };
+        const db = {
+            query: async (text: string) => text.includes('COUNT(*)') ? { rows: [{ total: '1' }] } : { rows: [row] },
+        };
+
+        const page = await new InvoiceService(db).listForUser('user-1', 1, 500);
+
+        expect(page.pagination).toEqual({ page: 1, limit: 100, total: 1 });
+        expect(page.invoices[0]).toMatchObject({
+            orderId: 'ORDER_1',
+            amount: 9900,
+            lineItems: row.line_items,
+            receipt: { paymentKey: 'pay-1', method: '카드', url: 'https://example.com/receipt/pay-1', paidAt: PERIOD_START.toISOString() },
+        });
+    });
+});
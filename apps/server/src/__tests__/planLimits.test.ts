@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Plan Limits
+ * 플랜 동시 세션/시간 제한 단위 테스트
+ */
+
+import { InMemoryClientRegistry, ClientRecord } from '../services/clientRegistry';
+import { SessionManager } from '../services/sessionManager';
+import { PlanLimitService } from '../services/planLimits';
+import { FULL_CONTROL_GRANT } from '../../../../packages/protocol/src/signaling';
+import { PlanId } from '../../../../packages/protocol/src/plans';
+
+function createRecord(id: string, connectionId: string, isHost: boolean, userId?: string): ClientRecord {
+    return {
+        id,
+        connectionId,
+        passwordHash: 'hash',
+        nodeId: 'node-a',
+        isHost,
+        connectedAt: Date.now(),
+        userId,
+    };
+}
+
+describe('PlanLimitService', () => {
+    let registry: InMemoryClientRegistry;
+    let sessions: SessionManager;
+    let limits: PlanLimitService;
+    let plans: Record<string, PlanId>;
+    let expired: string[];
+    let delivered: Array<{ clientId: string; message: any }>;
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        sessions = new SessionManager(registry);
+        plans = {};
+        expired = [];
+        limits = new PlanLimitService(registry, sessions, {
+            resolvePlan: async (userId) => plans[userId] || 'free',
+            onSessionExpired: async (viewer) => { expired.push(viewer.id); },
+        });
+        delivered = [];
+        registry.onDeliver((clientId, message) => delivered.push({ clientId, message }));
+
+        await registry.add(createRecord('host', '111', true, 'user-host'));
+        await registry.add(createRecord('host-2', '555', true, 'user-host'));
+        await registry.add(createRecord('viewer-1', '222', false, 'user-viewer'));
+        await registry.add(createRecord('viewer-2', '333', false));
+    });
+
+    afterEach(() => {
+        limits.shutdown();
+        jest.useRealTimers();
+    });
+
+    const get = async (id: string) => (await registry.get(id))!;
+
+    const connect = async (viewerId: string, hostId: string) => {
+        const check = await limits.check(await get(viewerId), await get(hostId));
+        if (!check.allowed) return check;
+        const expiresAt = limits.getExpiresAt(check);
+        const result = await sessions.join(await get(viewerId), await get(hostId), { grant: FULL_CONTROL_GRANT, expiresAt });
+        if (result.ok) limits.schedule(viewerId, result.sessionId, expiresAt);
+        return check;
+    };
+
+    it('should refuse a free host already in a session', async () => {
+        expect((await connect('viewer-1', 'host')).allowed).toBe(true);
+
+        const second = await limits.check(await get('viewer-2'), await get('host'));
+        expect(second).toMatchObject({ allowed: false, reason: expect.stringContaining('host plan') });
+    });
+
+    it('should count sessions across devices of the same account', async () => {
+        await connect('viewer-1', 'host');
+
+        // 같은 계정의 다른 호스트 기기
+        const check = await limits.check(await get('viewer-2'), await get('host-2'));
+        expect(check.allowed).toBe(false);
+
+        plans['user-host'] = 'personal_pro';
+        expect((await limits.check(await get('viewer-2'), await get('host-2'))).allowed).toBe(true);
+    });
+
+    it('should not count the viewer session being replaced', async () => {
+        plans['user-host'] = 'business';
+        await connect('viewer-1', 'host');
+
+        expect((await limits.check(await get('viewer-1'), await get('host-2'))).allowed).toBe(true);
+    });
+
+    it('should send the expiry time and end free sessions when time runs out', async () => {
+        const now = Date.now();
+        const check = await connect('viewer-1', 'host');
+
+        expect(check).toMatchObject({ allowed: true, hostPlan: 'free', viewerPlan: 'free', sessionDuration: 30 * 60 * 1000 });
+        const success = delivered.find(d => d.clientId === 'viewer-1' && d.message.type === 'connect-success');
+        expect(success?.message.expiresAt).toBe(now + 30 * 60 * 1000);
+
+        await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+
+        expect(expired).toEqual(['viewer-1']);
+        for (const clientId of ['viewer-1', 'host']) {
+            expect(delivered).toContainEqual({
+                clientId,
+                message: expect.objectContaining({ type: 'disconnected', code: 'SESSION_TIME_LIMIT' }),
+            });
+        }
+        expect((await get('viewer-1')).sessionId).toBeUndefined();
+        expect((await get('host')).sessionId).toBeUndefined();
+    });
+
+    it('should not limit duration when either side has a paid plan', async () => {
+        plans['user-viewer'] = 'personal_pro';
+        const check = await connect('viewer-1', 'host');
+
+        expect(check).toMatchObject({ allowed: true, sessionDuration: null });
+        expect(limits.getExpiresAt(check)).toBeUndefined();
+    });
+
+    it('should ignore the timer when the viewer already left', async () => {
+        await connect('viewer-1', 'host');
+        await sessions.leave('viewer-1', 'Partner disconnected');
+
+        await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+
+        expect(expired).toEqual([]);
+    });
+});
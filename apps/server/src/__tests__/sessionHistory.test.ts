@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for Session History
+ * 세션 기록 단위 테스트
+ */
+
+import { SessionHistoryService, parseSessionHistoryRequest } from '../services/sessionHistory';
+
+function createFakeDb(rows: any[] = []) {
+    const calls: Array<{ text: string; params?: any[] }> = [];
+    const db = {
+        query: async (text: string, params?: any[]) => {
+            calls.push({ text, params });
+            if (text.includes('COUNT(*)')) return { rows: [{ total: String(rows.length) }] };
+            return { rows };
+        },
+    };
+    return { db, calls };
+}
+
+describe('SessionHistoryService', () => {
+    it('should record the viewer and host users when a session starts', async () => {
+        const { db, calls } = createFakeDb();
+        const history = new SessionHistoryService(db);
+
+        const id = await history.start({
+            sessionId: 's-1',
+            connectionId: '222',
+            connectedTo: '111',
+            userId: 'user-viewer',
+            peerUserId: 'user-host',
+            viewerName: 'Trainer',
+        });
+
+        expect(calls[0].text).toContain('INSERT INTO connection_logs');
+        expect(calls[0].params).toEqual([id, 'user-viewer', '222', '111', 's-1', 'user-host', 'Trainer']);
+    });
+
+    it('should end one viewer or the whole session', async () => {
+        const { db, calls } = createFakeDb();
+        const history = new SessionHistoryService(db);
+
+        await history.end('s-1', '222', 'Partner disconnected');
+        await history.end('s-1');
+
+        expect(calls[0].text).toContain('connection_id = $3');
+        expect(calls[0].params).toEqual(['s-1', 'Partner disconnected', '222']);
+        expect(calls[1].text).not.toContain('connection_id = $3');
+        expect(calls[1].params).toEqual(['s-1', null]);
+    });
+
+    it('should map rows from the user point of view', async () => {
+        const { db } = createFakeDb([
+            {
+                id: 'log-1', user_id: 'me', connection_id: '222', connected_to: '111', session_id: 's-1',
+                started_at: '2025-01-01T00:00:00Z', ended_at: '2025-01-01T00:10:00Z', duration_seconds: 600,
+            },
+            {
+                id: 'log-2', user_id: null, peer_user_id: 'me', connection_id: '333', connected_to: '111',
+                viewer_name: 'Support', started_at: '2025-01-01T01:00:00Z', ended_at: null, duration_seconds: null,
+            },
+        ]);
+        const history = new SessionHistoryService(db);
+
+        const result = await history.listForUser('me');
+
+        expect(result.pagination).toEqual({ page: 1, limit: 20, total: 2 });
+        expect(result.sessions[0]).toMatchObject({ direction: 'outgoing', connectionId: '222', peerConnectionId: '111', durationSeconds: 600 });
+        expect(result.sessions[1]).toMatchObject({ direction: 'incoming', connectionId: '111', peerConnectionId: '333', viewerName: 'Support', endedAt: null });
+    });
+
+    it('should apply filters and paging', async () => {
+        const { db, calls } = createFakeDb();
+        const history = new SessionHistoryService(db);
+
+        await history.listForUser('me', { direction: 'incoming', status: 'ended', peer: '333', page: 3, limit: 10 });
+
+        const select = calls[1];
+        expect(select.text).toContain('peer_user_id = $1');
+        expect(select.text).toContain('ended_at IS NOT NULL');
+        expect(select.params).toEqual(['me', '333', 10, 20]);
+    });
+});
+
+describe('parseSessionHistoryRequest', () => {
+    it('should parse valid filters', () => {
+        const result = parseSessionHistoryRequest({ page: '2', limit: '50', direction: 'outgoing', from: '2025-01-01' });
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.query).toMatchObject({ page: 2, limit: 50, direction: 'outgoing' });
+            expect(result.query.from).toBeInstanceOf(Date);
+        }
+    });
+
+    it('should reject invalid filters', () => {
+        expect(parseSessionHistoryRequest({ page: '0' }).ok).toBe(false);
+        expect(parseSessionHistoryRequest({ direction: 'sideways' }).ok).toBe(false);
+        expect(parseSessionHistoryRequest({ to: 'not-a-date' }).ok).toBe(false);
+    });
+});
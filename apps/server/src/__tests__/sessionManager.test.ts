@@ -0,0 +1,227 @@
+/**
+ * Unit Tests for Session Manager
+ * 다중 뷰어 세션 단위 테스트
+ */
+
+import { InMemoryClientRegistry, ClientRecord } from '../services/clientRegistry';
+import { SessionManager } from '../services/sessionManager';
+import { FULL_CONTROL_GRANT, VIEW_ONLY_GRANT } from '../../../../packages/protocol/src/signaling';
+
+function createRecord(id: string, connectionId: string, isHost: boolean): ClientRecord {
+    return {
+        id,
+        connectionId,
+        passwordHash: 'hash',
+        nodeId: 'node-a',
+        isHost,
+        connectedAt: Date.now(),
+    };
+}
+
+describe('SessionManager', () => {
+    let registry: InMemoryClientRegistry;
+    let sessions: SessionManager;
+    let delivered: Array<{ clientId: string; message: any }>;
+
+    beforeEach(async () => {
+        registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        sessions = new SessionManager(registry, { maxViewersPerSession: 2 });
+        delivered = [];
+        registry.onDeliver((clientId, message) => delivered.push({ clientId, message }));
+
+        await registry.add(createRecord('host', '111', true));
+        await registry.add(createRecord('viewer-1', '222', false));
+        await registry.add(createRecord('viewer-2', '333', false));
+        await registry.add(createRecord('viewer-3', '444', false));
+    });
+
+    const messagesFor = (clientId: string) =>
+        delivered.filter(d => d.clientId === clientId).map(d => d.message);
+
+    const join = async (viewerId: string, grant = FULL_CONTROL_GRANT, viewerName?: string) =>
+        sessions.join((await registry.get(viewerId))!, (await registry.get('host'))!, { grant, viewerName });
+
+    it('should add several viewers to the same session', async () => {
+        const first = await join('viewer-1');
+        const second = await join('viewer-2', VIEW_ONLY_GRANT, 'Trainee');
+
+        expect(first.ok && second.ok).toBe(true);
+        if (!first.ok || !second.ok) return;
+        expect(second.sessionId).toBe(first.sessionId);
+
+        const roster = await sessions.getRoster(first.sessionId);
+        expect(roster).toHaveLength(3);
+        expect(roster.find(p => p.connectionId === '333')).toMatchObject({ role: 'viewer', name: 'Trainee', hasControl: false });
+
+        expect(messagesFor('viewer-2')).toContainEqual(expect.objectContaining({ type: 'session-roster', sessionId: first.sessionId }));
+        expect(messagesFor('viewer-1')).toContainEqual(expect.objectContaining({
+            type: 'participant-joined',
+            participant: expect.objectContaining({ connectionId: '333' }),
+        }));
+        expect(messagesFor('host').filter(m => m.type === 'incoming-connection')).toHaveLength(2);
+    });
+
+    it('should reject viewers beyond the session limit', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        const result = await join('viewer-3');
+
+        expect(result).toEqual({ ok: false, reason: 'SESSION_FULL' });
+        expect(await registry.get('viewer-3')).not.toHaveProperty('sessionId', expect.any(String));
+    });
+
+    it('should not let a viewer be used as the connect target', async () => {
+        await registry.add(createRecord('host-2', '555', true));
+        const first = await join('viewer-1');
+        if (!first.ok) throw new Error('join failed');
+
+        // viewer-1에 연결하면 host의 세션에 들어가고 viewer-1이 호스트로 바뀌던 문제
+        const viaViewer = await sessions.join((await registry.get('viewer-2'))!, (await registry.get('viewer-1'))!, { grant: FULL_CONTROL_GRANT });
+        const self = await sessions.join((await registry.get('host'))!, (await registry.get('host'))!, { grant: FULL_CONTROL_GRANT });
+
+        expect(viaViewer).toEqual({ ok: false, reason: 'INVALID_TARGET' });
+        expect(self).toEqual({ ok: false, reason: 'INVALID_TARGET' });
+        expect(await registry.get('viewer-2')).not.toHaveProperty('sessionId', expect.any(String));
+        expect(await registry.get('viewer-1')).toMatchObject({ sessionRole: 'viewer', connectedTo: 'host' });
+        expect((await sessions.getRoster(first.sessionId)).map(p => p.connectionId).sort()).toEqual(['111', '222']);
+
+        // 뷰어로 참여 중인 호스트 레코드도 대상이 될 수 없음
+        await sessions.join((await registry.get('host-2'))!, (await registry.get('host'))!, { grant: FULL_CONTROL_GRANT });
+        expect(await sessions.join((await registry.get('viewer-3'))!, (await registry.get('host-2'))!, { grant: FULL_CONTROL_GRANT }))
+            .toEqual({ ok: false, reason: 'INVALID_TARGET' });
+    });
+
+    it('should fan out host messages and route viewer messages to the host', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        const fromHost = await sessions.getRecipients('host');
+        expect(fromHost?.recipients.map(r => r.id).sort()).toEqual(['viewer-1', 'viewer-2']);
+
+        const targeted = await sessions.getRecipients('host', { targetId: '333' });
+        expect(targeted?.recipients.map(r => r.id)).toEqual(['viewer-2']);
+
+        const fromViewer = await sessions.getRecipients('viewer-1');
+        expect(fromViewer?.recipients.map(r => r.id)).toEqual(['host']);
+
+        const chat = await sessions.getRecipients('viewer-1', { broadcast: true });
+        expect(chat?.recipients.map(r => r.id).sort()).toEqual(['host', 'viewer-2']);
+    });
+
+    it('should only accept input from the control token holder', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        const holder = (await registry.get('viewer-1'))!;
+        const other = (await registry.get('viewer-2'))!;
+
+        expect(await sessions.checkInput(holder, 'mouse-event')).toEqual({ allowed: true });
+        expect(await sessions.checkInput(other, 'mouse-event')).toEqual({ allowed: false, reason: 'Control token required' });
+        expect(await sessions.checkInput(other, 'chat-message')).toEqual({ allowed: true });
+    });
+
+    it('should gate viewer relays and keep screen frames host-only', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        const host = (await registry.get('host'))!;
+        const holder = (await registry.get('viewer-1'))!;
+        const other = (await registry.get('viewer-2'))!;
+
+        expect(await sessions.checkInput(host, 'screen-frame')).toEqual({ allowed: true });
+        expect(await sessions.checkInput(holder, 'screen-frame')).toEqual({ allowed: false, reason: 'Only the host can send screen-frame' });
+
+        expect(await sessions.checkInput(holder, 'relay')).toEqual({ allowed: true });
+        expect(await sessions.checkInput(other, 'relay')).toEqual({ allowed: false, reason: 'Control token required' });
+    });
+
+    it('should let the host transfer and revoke control', async () => {
+        const joined = await join('viewer-1');
+        await join('viewer-2');
+        if (!joined.ok) return;
+
+        expect(await sessions.transferControl('host', '333')).toBe(true);
+        expect((await registry.get('host'))?.controlHolder).toBe('viewer-2');
+        expect(messagesFor('viewer-1')).toContainEqual({
+            type: 'control-changed',
+            sessionId: joined.sessionId,
+            holderConnectionId: '333',
+        });
+
+        expect(await sessions.transferControl('viewer-1', '222')).toBe(false);
+
+        expect(await sessions.transferControl('host', null)).toBe(true);
+        expect((await registry.get('host'))?.controlHolder).toBeUndefined();
+    });
+
+    it('should not give control to view-only viewers', async () => {
+        await join('viewer-1', VIEW_ONLY_GRANT);
+
+        expect((await registry.get('host'))?.controlHolder).toBeUndefined();
+        expect(await sessions.transferControl('host', '222')).toBe(false);
+    });
+
+    it('should forward control requests to the host and allow release', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        expect(await sessions.requestControl('viewer-2')).toBe(true);
+        expect(messagesFor('host')).toContainEqual(expect.objectContaining({
+            type: 'control-requested',
+            viewerConnectionId: '333',
+        }));
+
+        expect(await sessions.releaseControl('viewer-2')).toBe(false);
+        expect(await sessions.releaseControl('viewer-1')).toBe(true);
+        expect((await registry.get('host'))?.controlHolder).toBeUndefined();
+    });
+
+    it('should update one viewer and revoke control when input is removed', async () => {
+        await join('viewer-1');
+        await join('viewer-2');
+
+        expect(await sessions.updatePermissions('host', VIEW_ONLY_GRANT, '222')).toBe(1);
+
+        expect((await registry.get('viewer-1'))?.grant).toEqual(VIEW_ONLY_GRANT);
+        expect((await registry.get('viewer-2'))?.grant).toEqual(FULL_CONTROL_GRANT);
+        expect((await registry.get('host'))?.controlHolder).toBeUndefined();
+        expect(await sessions.updatePermissions('viewer-2', VIEW_ONLY_GRANT)).toBeNull();
+    });
+
+    it('should keep the session open until the last viewer leaves', async () => {
+        const joined = await join('viewer-1');
+        await join('viewer-2');
+        if (!joined.ok) return;
+
+        await sessions.leave('viewer-1', 'Partner disconnected');
+
+        expect(messagesFor('viewer-2')).toContainEqual({
+            type: 'participant-left',
+            sessionId: joined.sessionId,
+            connectionId: '222',
+            reason: 'Partner disconnected',
+        });
+        expect(messagesFor('viewer-2')).toContainEqual(expect.objectContaining({ type: 'control-changed', holderConnectionId: null }));
+        expect((await registry.get('host'))?.sessionId).toBe(joined.sessionId);
+
+        await sessions.leave('viewer-2', 'Partner disconnected');
+
+        expect(messagesFor('host')).toContainEqual({ type: 'disconnected', reason: 'Partner disconnected' });
+        expect((await registry.get('host'))?.sessionId).toBeUndefined();
+    });
+
+    it('should disconnect every viewer when the host leaves', async () => {
+        const joined = await join('viewer-1');
+        await join('viewer-2');
+        if (!joined.ok) return;
+
+        await sessions.leave('host', 'Partner disconnected');
+
+        for (const viewerId of ['viewer-1', 'viewer-2']) {
+            expect(messagesFor(viewerId)).toContainEqual({ type: 'disconnected', reason: 'Partner disconnected' });
+            expect((await registry.get(viewerId))?.sessionId).toBeUndefined();
+        }
+        expect(await registry.listSession(joined.sessionId)).toHaveLength(0);
+    });
+});
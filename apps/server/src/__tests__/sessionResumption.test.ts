@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Session Resumption
+ * 세션 재개 단위 테스트
+ */
+
+import { InMemoryClientRegistry, ClientRecord } from '../services/clientRegistry';
+import { SessionResumptionService } from '../services/sessionResumption';
+
+function createRecord(id: string, connectionId: string, sessionId?: string): ClientRecord {
+    return {
+        id,
+        connectionId,
+        passwordHash: 'hash',
+        nodeId: 'node-a',
+        isHost: true,
+        connectedAt: Date.now(),
+        sessionId,
+        sessionRole: sessionId ? 'host' : undefined,
+    };
+}
+
+describe('SessionResumptionService', () => {
+    let registry: InMemoryClientRegistry;
+    let resumption: SessionResumptionService;
+    let expired: string[];
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        registry = new InMemoryClientRegistry({ nodeId: 'node-a' });
+        expired = [];
+        resumption = new SessionResumptionService(registry, {
+            graceMs: 10000,
+            onExpired: async (clientId) => { expired.push(clientId); },
+        });
+
+        await registry.add(createRecord('host', '111', 'session-1'));
+        await registry.add(createRecord('idle', '222'));
+    });
+
+    afterEach(() => {
+        resumption.shutdown();
+        jest.useRealTimers();
+    });
+
+    it('should store only a hash of the issued token', async () => {
+        const token = await resumption.issue('host');
+        const record = await registry.get('host');
+
+        expect(token.startsWith('host.')).toBe(true);
+        expect(record?.resumeTokenHash).toBeDefined();
+        expect(record?.resumeTokenHash).not.toContain(token.split('.')[1]);
+    });
+
+    it('should resume a suspended session within the grace window', async () => {
+        const token = await resumption.issue('host');
+        expect(await resumption.suspend((await registry.get('host'))!)).toBe(true);
+
+        await jest.advanceTimersByTimeAsync(5000);
+        const result = await resumption.resume(token);
+
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        expect(result.client).toMatchObject({ id: 'host', sessionId: 'session-1' });
+        expect(result.client.suspendedUntil).toBeUndefined();
+        expect(result.resumeToken).not.toBe(token);
+
+        // 이전 토큰은 재사용할 수 없고, 유예 타이머도 해제됨
+        expect(await resumption.resume(token)).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(expired).toEqual([]);
+    });
+
+    it('should expire clients that do not come back in time', async () => {
+        const token = await resumption.issue('host');
+        await resumption.suspend((await registry.get('host'))!);
+
+        await jest.advanceTimersByTimeAsync(10000);
+
+        expect(expired).toEqual(['host']);
+        expect(await resumption.resume(token)).toEqual({ ok: false, code: 'RESUME_EXPIRED' });
+    });
+
+    it('should not suspend clients without a session', async () => {
+        await resumption.issue('idle');
+
+        expect(await resumption.suspend((await registry.get('idle'))!)).toBe(false);
+    });
+
+    it('should reject malformed and unknown tokens', async () => {
+        await resumption.issue('host');
+
+        expect(await resumption.resume('garbage')).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+        expect(await resumption.resume('host.wrong-secret')).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+        expect(await resumption.resume('missing.secret')).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+    });
+
+    it('should take over a record owned by another node', async () => {
+        const token = await resumption.issue('host');
+        await registry.update('host', { nodeId: 'node-b' });
+
+        const result = await resumption.resume(token);
+
+        expect(result.ok && result.client.nodeId).toBe('node-a');
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Two-Factor Authentication
+ * TOTP 코드/등록 확인/복구 코드/재사용 방지 단위 테스트
+ */
+
+import {
+    TwoFactorRecord,
+    TwoFactorService,
+    TwoFactorStore,
+    generateTotpCode,
+    getOtpAuthUri,
+} from '../services/twoFactor';
+
+// 서비스가 사용하는 저장소의 메모리 구현 (복구 코드는 해시 → 사용 여부)
+class InMemoryTwoFactorStore implements TwoFactorStore {
+    records = new Map<string, TwoFactorRecord>();
+    recoveryCodes = new Map<string, Map<string, boolean>>();
+
+    async get(userId: string) {
+        return this.records.get(userId) ?? null;
+    }
+
+    async setPendingSecret(userId: string, secret: string) {
+        const record = this.records.get(userId);
+        this.records.set(userId, record
+            ? { ...record, pendingSecret: secret }
+            : { userId, pendingSecret: secret, secret: null, enabledAt: null, lastUsedStep: null });
+    }
+
+    async enable(userId: string, secret: string, enabledAt: Date) {
+        this.records.set(userId, { userId, pendingSecret: null, secret, enabledAt: enabledAt.toISOString(), lastUsedStep: null });
+    }
+
+    async disable(userId: string) {
+        this.records.delete(userId);
+        this.recoveryCodes.delete(userId);
+    }
+
+    async markStepUsed(userId: string, step: number) {
+        const record = this.records.get(userId)!;
+        if (record.lastUsedStep !== null && record.lastUsedStep >= step) return false;
+        record.lastUsedStep = step;
+        return true;
+    }
+
+    async replaceRecoveryCodes(userId: string, codeHashes: string[]) {
+        this.recoveryCodes.set(userId, new Map(codeHashes.map(hash => [hash, false])));
+    }
+
+    async consumeRecoveryCode(userId: string, codeHash: string) {
+        const codes = this.recoveryCodes.get(userId);
+        if (!codes || codes.get(codeHash) !== false) return false;
+        codes.set(codeHash, true);
+        return true;
+    }
+
+    async countRecoveryCodes(userId: string) {
+        return [...(this.recoveryCodes.get(userId)?.values() ?? [])].filter(used => !used).length;
+    }
+}
+
+describe('TOTP', () => {
+    it('should match the RFC 6238 SHA1 test vectors', () => {
+        // "12345678901234567890"의 base32
+        const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+        expect(generateTotpCode(secret, 59 * 1000)).toBe('287082');
+        expect(generateTotpCode(secret, 1111111109 * 1000)).toBe('081804');
+        expect(generateTotpCode(secret, 20000000000 * 1000)).toBe('353130');
+    });
+
+    it('should build otpauth URIs for authenticator apps', () => {
+        const uri = getOtpAuthUri('JBSWY3DPEHPK3PXP', 'user@example.com');
+
+        expect(uri.startsWith('otpauth://totp/LunarView%3Auser%40example.com?')).toBe(true);
+        expect(new URL(uri).searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+        expect(new URL(uri).searchParams.get('issuer')).toBe('LunarView');
+    });
+});
+
+describe('TwoFactorService', () => {
+    let store: InMemoryTwoFactorStore;
+    let service: TwoFactorService;
+    let now: number;
+
+    const enroll = async () => {
+        const setup = await service.beginSetup('user-1', 'user@example.com');
+        if (!setup.success) throw new Error(setup.error);
+
+        const confirmed = await service.confirmSetup('user-1', generateTotpCode(setup.secret, now));
+        if (!confirmed.success) throw new Error(confirmed.error);
+        return { secret: setup.secret, recoveryCodes: confirmed.recoveryCodes };
+    };
+
+    beforeEach(() => {
+        now = Date.parse('2026-06-01T00:00:00Z');
+        store = new InMemoryTwoFactorStore();
+        service = new TwoFactorService(store, { now: () => now });
+    });
+
+    it('should only enable after confirming a code from the new secret', async () => {
+        expect(await service.confirmSetup('user-1', '123456')).toMatchObject({ success: false, status: 400 });
+
+        const setup = await service.beginSetup('user-1', 'user@example.com');
+        if (!setup.success) throw new Error(setup.error);
+        expect(await service.isEnabled('user-1')).toBe(false);
+
+        expect(await service.confirmSetup('user-1', '000000')).toMatchObject({ success: false, status: 401 });
+        const confirmed = await service.confirmSetup('user-1', generateTotpCode(setup.secret, now));
+        expect(confirmed.success).toBe(true);
+        expect(await service.isEnabled('user-1')).toBe(true);
+
+        expect(await service.beginSetup('user-1', 'user@example.com')).toMatchObject({ success: false, status: 409 });
+        expect(await service.getStatus('user-1')).toMatchObject({ enabled: true, recoveryCodesRemaining: 10 });
+    });
+
+    it('should accept each time step only once', async () => {
+        const { secret } = await enroll();
+
+        // 등록 확인에 쓴 코드는 로그인에 다시 사용할 수 없음
+        expect(await service.verify('user-1', generateTotpCode(secret, now))).toBeNull();
+
+        now += 30 * 1000;
+        const code = generateTotpCode(secret, now);
+        expect(await service.verify('user-1', code)).toBe('totp');
+        expect(await service.verify('user-1', code)).toBeNull();
+
+        // 시계 오차 한 구간은 허용, 그 이상은 거부
+        now += 60 * 1000;
+        expect(await service.verify('user-1', generateTotpCode(secret, now + 30 * 1000))).toBe('totp');
+        expect(await service.verify('user-1', generateTotpCode(secret, now + 5 * 60 * 1000))).toBeNull();
+    });
+
+    it('should consume recovery codes and regenerate them', async () => {
+        const { secret, recoveryCodes } = await enroll();
+        expect(new Set(recoveryCodes).size).toBe(10);
+
+        expect(await service.verify('user-1', recoveryCodes[0].toUpperCase())).toBe('recovery');
+        expect(await service.verify('user-1', recoveryCodes[0])).toBeNull();
+        expect((await service.getStatus('user-1')).recoveryCodesRemaining).toBe(9);
+
+        now += 30 * 1000;
+        const regenerated = await service.regenerateRecoveryCodes('user-1', generateTotpCode(secret, now));
+        if (!regenerated.success) throw new Error(regenerated.error);
+        expect(await service.verify('user-1', recoveryCodes[1])).toBeNull();
+
+        expect(await service.disable('user-1', 'wrong-code')).toMatchObject({ success: false, status: 401 });
+        expect((await service.disable('user-1', regenerated.recoveryCodes[0])).success).toBe(true);
+        expect(await service.getStatus('user-1')).toEqual({ enabled: false, enabledAt: null, recoveryCodesRemaining: 0 });
+    });
+});
@@ -0,0 +1,356 @@
+/**
+ * 관리자 API v2 라우터
+ * JWT 인증 + 역할별 권한 (support, billing, superadmin)
+ *
+ * 시그널링 레지스트리와 감사 로그 저장소를 사용하므로 서버 초기화 시 생성해서 /admin/v2에 연결.
+ * 모든 요청은 응답 후 감사 로그에 기록되며, 핸들러는 res.locals.audit로 이벤트 이름과 대상을 지정.
+ */
+
+import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import {
+    requireAdmin,
+    isAdminRole,
+    ADMIN_ROLE_PERMISSIONS,
+    AdminGuardOptions,
+} from '../middleware/admin.middleware';
+import { getDatabase, userQueries } from '../models/database';
+import { ClientRegistry } from '../services/clientRegistry';
+import { AuditEvent, AuditLogStore, parseAuditLogRequest, toCsv } from '../services/auditLog';
+import { AdminPermission } from '../types/api.types';
+import { PLAN_IDS, isPlanId } from '../../../../packages/protocol/src/plans';
+
+export interface AdminRouterDeps {
+    registry: ClientRegistry;
+    // DB 초기화 후 저장소가 교체되므로 요청마다 조회
+    getAuditLog: () => AuditLogStore;
+    logAccess: (entry: AuditEvent) => void;
+    getLastActivity?: (clientId: string) => Date | undefined;
+    guard?: AdminGuardOptions;
+}
+
+// 핸들러가 지정하는 감사 로그 항목
+interface AdminAudit {
+    event: string;
+    targetId?: string;
+    details?: Record<string, unknown>;
+}
+
+const DEFAULT_TRIAL_DAYS = 30;
+
+export function createAdminRouter(deps: AdminRouterDeps): Router {
+    const router = Router();
+    const { registry, logAccess } = deps;
+
+    const guardOptions: AdminGuardOptions = {
+        onDenied: (req, reason) => {
+            logAccess({
+                event: 'admin_access_denied',
+                sourceId: req.user?.userId || 'unknown',
+                ipAddress: req.ip,
+                success: false,
+                details: { reason, method: req.method, path: req.baseUrl + req.path },
+            });
+        },
+        ...deps.guard,
+    };
+
+    // 응답이 끝나면 관리자 작업 기록
+    const audit: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+        res.on('finish', () => {
+            const entry: AdminAudit = res.locals.audit || { event: 'admin_request' };
+            logAccess({
+                event: entry.event,
+                sourceId: req.admin?.userId || 'unknown',
+                targetId: entry.targetId,
+                ipAddress: req.ip,
+                success: res.statusCode < 400,
+                details: {
+                    role: req.admin?.role,
+                    method: req.method,
+                    path: req.baseUrl + req.path,
+                    status: res.statusCode,
+                    ...entry.details,
+                },
+            });
+        });
+        next();
+    };
+
+    const admin = (permission?: AdminPermission): RequestHandler[] =>
+        [authMiddleware, requireAdmin(permission, guardOptions), audit];
+
+    const setAudit = (res: Response, entry: AdminAudit) => {
+        res.locals.audit = entry;
+    };
+
+    /**
+     * GET /admin/v2/me
+     * 현재 관리자 역할과 권한
+     */
+    router.get('/me', ...admin(), (req: Request, res: Response) => {
+        const role = req.admin!.role;
+        res.json({ success: true, admin: { ...req.admin, permissions: ADMIN_ROLE_PERMISSIONS[role] } });
+    });
+
+    /**
+     * GET /admin/v2/clients
+     * 시그널링 서버에 연결된 클라이언트
+     */
+    router.get('/clients', ...admin('clients:read'), async (req: Request, res: Response) => {
+        try {
+            const records = await registry.list();
+            const clients = records.map(c => ({
+                connectionId: c.connectionId,
+                isHost: c.isHost,
+                userId: c.userId,
+                sessionId: c.sessionId,
+                sessionRole: c.sessionRole,
+                connectedTo: c.connectedTo,
+                connectedAt: new Date(c.connectedAt),
+                lastActivity: deps.getLastActivity?.(c.id),
+                suspended: c.suspendedUntil !== undefined,
+                nodeId: c.nodeId,
+            }));
+            res.json({ success: true, clients });
+        } catch (error) {
+            console.error('Admin clients error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * POST /admin/v2/clients/:connectionId/disconnect
+     * 클라이언트 강제 연결 해제
+     */
+    router.post('/clients/:connectionId/disconnect', ...admin('clients:disconnect'), async (req: Request, res: Response) => {
+        const { connectionId } = req.params;
+        setAudit(res, { event: 'admin_disconnect', targetId: connectionId });
+
+        try {
+            const client = await registry.getByConnectionId(connectionId);
+            if (!client || !(await registry.close(client.id, 4001, 'Disconnected by admin'))) {
+                res.status(404).json({ success: false, error: '연결된 클라이언트를 찾을 수 없습니다.' });
+                return;
+            }
+
+            res.json({ success: true });
+        } catch (error) {
+            console.error('Admin disconnect error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * POST /admin/v2/blocked-ips
+     * IP 차단
+     */
+    router.post('/blocked-ips', ...admin('ip:block'), async (req: Request, res: Response) => {
+        const { ip } = req.body;
+        setAudit(res, { event: 'ip_blocked', targetId: ip });
+
+        if (!ip || typeof ip !== 'string') {
+            res.status(400).json({ success: false, error: 'IP 주소가 필요합니다.' });
+            return;
+        }
+
+        try {
+            await registry.blockIP(ip);
+            res.json({ success: true });
+        } catch (error) {
+            console.error('Admin block IP error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * DELETE /admin/v2/blocked-ips/:ip
+     * IP 차단 해제
+     */
+    router.delete('/blocked-ips/:ip', ...admin('ip:block'), async (req: Request, res: Response) => {
+        const { ip } = req.params;
+        setAudit(res, { event: 'ip_unblocked', targetId: ip });
+
+        try {
+            if (!(await registry.unblockIP(ip))) {
+                res.status(404).json({ success: false, error: '차단 목록에 없는 IP입니다.' });
+                return;
+            }
+
+            res.json({ success: true });
+        } catch (error) {
+            console.error('Admin unblock IP error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * GET /admin/v2/logs
+     * 감사 로그 조회 (기간, 이벤트, 연결 ID, IP 필터 + 커서 페이지네이션, JSON/CSV)
+     */
+    router.get('/logs', ...admin('logs:read'), async (req: Request, res: Response) => {
+        const parsed = parseAuditLogRequest(req.query as Record<string, unknown>);
+        if (!parsed.ok) {
+            res.status(400).json({ success: false, error: parsed.error });
+            return;
+        }
+
+        try {
+            const page = await deps.getAuditLog().query(parsed.query);
+
+            if (parsed.format === 'csv') {
+                setAudit(res, { event: 'admin_logs_exported', details: { count: page.entries.length } });
+                if (page.nextCursor) res.setHeader('X-Next-Cursor', page.nextCursor);
+                res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+                res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${new Date().toISOString().slice(0, 10)}.csv"`);
+                res.send(toCsv(page.entries));
+                return;
+            }
+
+            res.json({ success: true, ...page });
+        } catch (error) {
+            console.error('Admin logs error:', error);
+            res.status(500).json({ success: false, error: '로그를 불러오지 못했습니다.' });
+        }
+    });
+
+    /**
+     * GET /admin/v2/users
+     * 사용자 목록 및 플랜별 통계
+     */
+    router.get('/users', ...admin('users:read'), async (req: Request, res: Response) => {
+        try {
+            const users = await userQueries.findAll();
+
+            const todayStart = new Date();
+            todayStart.setHours(0, 0, 0, 0);
+
+            const byPlan = Object.fromEntries(PLAN_IDS.map(plan => [plan, users.filter((u: any) => u.plan === plan).length]));
+            const stats = {
+                total: users.length,
+                todaySignups: users.filter((u: any) => new Date(u.created_at) >= todayStart).length,
+                byPlan,
+            };
+
+            res.json({ success: true, users, stats });
+        } catch (error) {
+            console.error('Admin users error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * PUT /admin/v2/users/:userId/plan
+     * 사용자 플랜 변경
+     */
+    router.put('/users/:userId/plan', ...admin('users:write'), async (req: Request, res: Response) => {
+        const { userId } = req.params;
+        const { plan } = req.body;
+        setAudit(res, { event: 'admin_plan_changed', targetId: userId, details: { plan } });
+
+        if (!isPlanId(plan)) {
+            res.status(400).json({ success: false, error: '유효하지 않은 플랜입니다.' });
+            return;
+        }
+
+        try {
+            const user = await userQueries.updatePlan(userId, plan);
+            if (!user) {
+                res.status(404).json({ success: false, error: '사용자를 찾을 수 없습니다.' });
+                return;
+            }
+            res.json({ success: true, user });
+        } catch (error) {
+            console.error('Admin update plan error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * PUT /admin/v2/users/:userId/trial
+     * 사용자 체험 기간 변경 (오늘부터 days일)
+     */
+    router.put('/users/:userId/trial', ...admin('users:write'), async (req: Request, res: Response) => {
+        const { userId } = req.params;
+        const days = req.body.days ?? DEFAULT_TRIAL_DAYS;
+        setAudit(res, { event: 'admin_trial_changed', targetId: userId, details: { days } });
+
+        if (!Number.isInteger(days) || days < 0) {
+            res.status(400).json({ success: false, error: 'days는 0 이상의 정수여야 합니다.' });
+            return;
+        }
+
+        try {
+            const trialEndsAt = new Date();
+            trialEndsAt.setDate(trialEndsAt.getDate() + days);
+
+            const user = await userQueries.updateTrialEndsAt(userId, trialEndsAt.toISOString());
+            if (!user) {
+                res.status(404).json({ success: false, error: '사용자를 찾을 수 없습니다.' });
+                return;
+            }
+            res.json({ success: true, user });
+        } catch (error) {
+            console.error('Admin update trial error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * PUT /admin/v2/users/:userId/role
+     * 관리자 역할 지정 (null이면 해제, 자기 자신은 변경 불가)
+     */
+    router.put('/users/:userId/role', ...admin('admins:manage'), async (req: Request, res: Response) => {
+        const { userId } = req.params;
+        const role = req.body.role ?? null;
+        setAudit(res, { event: 'admin_role_changed', targetId: userId, details: { newRole: role } });
+
+        if (role !== null && !isAdminRole(role)) {
+            res.status(400).json({ success: false, error: '유효하지 않은 관리자 역할입니다.' });
+            return;
+        }
+
+        if (userId === req.admin!.userId) {
+            res.status(400).json({ success: false, error: '자신의 역할은 변경할 수 없습니다.' });
+            return;
+        }
+
+        try {
+            const user = await userQueries.setAdminRole(userId, role);
+            if (!user) {
+                res.status(404).json({ success: false, error: '사용자를 찾을 수 없습니다.' });
+                return;
+            }
+            res.json({ success: true, user: { id: user.id, email: user.email, admin_role: user.admin_role } });
+        } catch (error) {
+            console.error('Admin update role error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * GET /admin/v2/subscriptions
+     * 구독 목록
+     */
+    router.get('/subscriptions', ...admin('subscriptions:read'), async (req: Request, res: Response) => {
+        try {
+            const result = await getDatabase().query(`
+                SELECT s.*, u.email, u.name
+                FROM subscriptions s
+                JOIN users u ON s.user_id = u.id
+                ORDER BY s.created_at DESC
+            `);
+            const subscriptions = result.rows;
+            const activeCount = subscriptions.filter((s: any) => s.status === 'active' && s.plan !== 'free').length;
+
+            res.json({ success: true, subscriptions, activeCount });
+        } catch (error) {
+            console.error('Admin subscriptions error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    return router;
+}
+
+export default createAdminRouter;
@@ -3,13 +3,70 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { register, login, refreshTokens, logout, getUserById, generateAccessToken, generateRefreshToken } from '../services/auth.service';
-import { authMiddleware } from '../middleware/auth.middleware';
+import {
+    register,
+    authenticate,
+    issueTokens,
+    refreshTokens,
+    logout,
+    getUserById,
+    listSessions,
+    revokeSession,
+    generateTwoFactorChallenge,
+    verifyTwoFactorChallenge,
+    deriveTokenSecret,
+    hashPassword,
+} from '../services/auth.service';
+import { apiTokenAuth, authMiddleware } from '../middleware/auth.middleware';
 import passport from '../config/passport';
-import { tokenQueries, userQueries } from '../models/database'; // 토큰 저장을 위해 필요
+import { getDatabase, userQueries } from '../models/database';
+import { PostgresTwoFactorStore, TwoFactorService } from '../services/twoFactor';
+import { AccountEmailService, PostgresAccountEmailStore } from '../services/accountEmail';
+import { MailTransport, createMailTransport } from '../services/mailer';
+import { SessionContext } from '../services/loginSessions';
+import { User } from '../types/api.types';
 
 const router = Router();
 
+let mailer: MailTransport | null = null;
+
+function getTwoFactorService(): TwoFactorService {
+    return new TwoFactorService(new PostgresTwoFactorStore(getDatabase()));
+}
+
+function getAccountEmailService(): AccountEmailService {
+    mailer = mailer ?? createMailTransport();
+    return new AccountEmailService(new PostgresAccountEmailStore(getDatabase()), {
+        secret: deriveTokenSecret('email-token'),
+        mailer,
+        hashPassword,
+        appUrl: process.env.FRONTEND_URL,
+    });
+}
+
+// 로그인 세션에 기록할 기기 정보
+function getSessionContext(req: Request): SessionContext {
+    return { userAgent: req.get('user-agent') || null, ipAddress: req.ip || null };
+}
+
+// 로그인 완료 응답 (리프레시 토큰은 쿠키에도 설정)
+async function sendLoginSuccess(req: Request, res: Response, user: User): Promise<void> {
+    const result = await issueTokens(user, getSessionContext(req));
+
+    res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 7 * 24 * 60 * 60 * 1000 // 7일
+    });
+
+    res.json({
+        success: true,
+        user: result.user,
+        token: result.accessToken
+    });
+}
+
 // ==========================================
 // OAuth Routes
 // ==========================================
@@ -42,14 +99,8 @@ async function handleOAuthSuccess(req: Request, res: Response) {
     try {
         const user = req.user as any;
 
-        // 토큰 생성
-        const accessToken = generateAccessToken(user);
-        const refreshToken = generateRefreshToken();
-
-        // 리프레시 토큰 저장
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 7); // 7일
-        await tokenQueries.create(user.id, refreshToken, expiresAt.toISOString());
+        // 토큰 생성 (새 로그인 세션)
+        const { accessToken, refreshToken } = await issueTokens(user, getSessionContext(req));
 
         const frontendUrl = process.env.FRONTEND_URL || 'https://www.lunarview-remote.com';
 
@@ -159,13 +210,18 @@ router.post('/register', async (req: Request, res: Response) => {
             return;
         }
 
-        const result = await register(email, password, name);
+        const result = await register(email, password, name, getSessionContext(req));
 
         if (!result.success) {
             res.status(400).json(result);
             return;
         }
 
+        // 인증 메일 발송 실패는 가입 결과에 영향 없음 (나중에 다시 요청 가능)
+        getAccountEmailService().sendVerification(result.user!.id).catch(error => {
+            console.error('Verification mail error:', error);
+        });
+
         // 쿠키에 리프레시 토큰 설정
         res.cookie('refreshToken', result.refreshToken, {
             httpOnly: true,
@@ -199,32 +255,63 @@ router.post('/login', async (req: Request, res: Response) => {
             return;
         }
 
-        const result = await login(email, password);
+        const result = await authenticate(email, password);
 
-        if (!result.success) {
-            res.status(401).json(result);
+        if (!result.success || !result.user) {
+            res.status(401).json({ success: false, error: result.error });
             return;
         }
 
-        // 쿠키에 리프레시 토큰 설정
-        res.cookie('refreshToken', result.refreshToken, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'strict',
-            maxAge: 7 * 24 * 60 * 60 * 1000 // 7일
-        });
+        // 2단계 인증 사용자는 코드 확인 후 토큰 발급
+        if (await getTwoFactorService().isEnabled(result.user.id)) {
+            res.json({
+                success: false,
+                requiresTwoFactor: true,
+                challengeToken: generateTwoFactorChallenge(result.user.id),
+                error: '2단계 인증 코드를 입력해주세요.'
+            });
+            return;
+        }
 
-        res.json({
-            success: true,
-            user: result.user,
-            token: result.accessToken
-        });
+        await sendLoginSuccess(req, res, result.user);
     } catch (error) {
         console.error('Login route error:', error);
         res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
     }
 });
 
+/**
+ * POST /api/auth/login/2fa
+ * 로그인 2단계 (인증 앱 코드 또는 복구 코드)
+ */
+router.post('/login/2fa', async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code } = req.body;
+
+        if (typeof challengeToken !== 'string' || typeof code !== 'string' || !code.trim()) {
+            res.status(400).json({ success: false, error: '인증 코드는 필수입니다.' });
+            return;
+        }
+
+        const userId = verifyTwoFactorChallenge(challengeToken);
+        if (!userId) {
+            res.status(401).json({ success: false, error: '인증 시간이 만료되었습니다. 다시 로그인해주세요.' });
+            return;
+        }
+
+        const user = await userQueries.findById(userId) as User | undefined;
+        if (!user || !(await getTwoFactorService().verify(userId, code.trim()))) {
+            res.status(401).json({ success: false, error: '인증 코드가 올바르지 않습니다.' });
+            return;
+        }
+
+        await sendLoginSuccess(req, res, user);
+    } catch (error) {
+        console.error('Two-factor login route error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
 /**
  * POST /api/auth/logout
  * 로그아웃
@@ -253,7 +340,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
             return;
         }
 
-        const result = await refreshTokens(refreshToken);
+        const result = await refreshTokens(refreshToken, getSessionContext(req));
 
         if (!result.success) {
             res.clearCookie('refreshToken');
@@ -280,121 +367,179 @@ router.post('/refresh', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/auth/me
- * 현재 사용자 정보 조회 (체험 정보 포함)
+ * POST /api/auth/verify-email/request
+ * 인증 메일 다시 보내기
  */
-router.get('/me', authMiddleware, async (req: Request, res: Response) => {
+router.post('/verify-email/request', authMiddleware, async (req: Request, res: Response) => {
     try {
-        const user = await getUserById(req.user!.userId);
+        const result = await getAccountEmailService().sendVerification(req.user!.userId);
 
-        if (!user) {
-            res.status(404).json({ success: false, error: '사용자를 찾을 수 없습니다.' });
+        if (!result.success) {
+            res.status(result.status).json({ success: false, error: result.error });
             return;
         }
 
-        // 체험 기간 정보 계산
-        let isTrialActive = false;
-        let trialDaysLeft = 0;
+        res.json({ success: true, message: '인증 메일을 보냈습니다.' });
+    } catch (error) {
+        console.error('Verification request route error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
 
-        if (user.trial_ends_at) {
-            const trialEnds = new Date(user.trial_ends_at);
-            const now = new Date();
-            isTrialActive = trialEnds > now;
-            trialDaysLeft = Math.max(0, Math.ceil((trialEnds.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+/**
+ * POST /api/auth/verify-email
+ * 메일 링크의 토큰으로 이메일 인증
+ */
+router.post('/verify-email', async (req: Request, res: Response) => {
+    try {
+        const { token } = req.body;
+
+        if (!token || typeof token !== 'string') {
+            res.status(400).json({ success: false, error: '토큰이 필요합니다.' });
+            return;
         }
 
-        res.json({
-            success: true,
-            user,
-            trial: {
-                isActive: isTrialActive,
-                daysLeft: trialDaysLeft,
-                endsAt: user.trial_ends_at
-            }
-        });
+        const result = await getAccountEmailService().verifyEmail(token);
+
+        if (!result.success) {
+            res.status(result.status).json({ success: false, error: result.error });
+            return;
+        }
+
+        res.json({ success: true, message: '이메일이 인증되었습니다.' });
     } catch (error) {
-        console.error('Me route error:', error);
+        console.error('Verify email route error:', error);
         res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
     }
 });
 
-// ==========================================
-// 관리자 API
-// ==========================================
-
 /**
- * GET /api/auth/admin/users
- * 모든 사용자 조회 (관리자 전용)
+ * POST /api/auth/password-reset/request
+ * 비밀번호 재설정 메일 요청 (가입 여부와 관계없이 같은 응답)
  */
-router.get('/admin/users', authMiddleware, async (req: Request, res: Response) => {
+router.post('/password-reset/request', async (req: Request, res: Response) => {
     try {
-        const currentUser = await getUserById((req.user as any).userId || (req.user as any).id);
+        const { email } = req.body;
 
-        if (!currentUser?.is_admin) {
-            res.status(403).json({ success: false, error: '관리자 권한이 필요합니다.' });
+        if (!email || typeof email !== 'string') {
+            res.status(400).json({ success: false, error: '이메일은 필수입니다.' });
             return;
         }
 
-        const users = await userQueries.findAll();
-        res.json({ success: true, users });
+        // 응답 시간이나 메일 발송 오류로 가입 여부가 드러나지 않도록 기다리지 않음
+        getAccountEmailService().requestPasswordReset(email).catch(error => {
+            console.error('Password reset mail error:', error);
+        });
+
+        res.json({ success: true, message: '가입된 이메일이면 재설정 링크를 보냈습니다.' });
     } catch (error) {
-        console.error('Admin users error:', error);
+        console.error('Password reset request route error:', error);
         res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
     }
 });
 
 /**
- * PUT /api/auth/admin/users/:userId/plan
- * 사용자 플랜 변경 (관리자 전용)
+ * POST /api/auth/password-reset
+ * 메일 링크의 토큰으로 새 비밀번호 설정 (기존 로그인은 모두 만료)
  */
-router.put('/admin/users/:userId/plan', authMiddleware, async (req: Request, res: Response) => {
+router.post('/password-reset', async (req: Request, res: Response) => {
     try {
-        const currentUser = await getUserById((req.user as any).userId || (req.user as any).id);
+        const { token, password } = req.body;
 
-        if (!currentUser?.is_admin) {
-            res.status(403).json({ success: false, error: '관리자 권한이 필요합니다.' });
+        if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+            res.status(400).json({ success: false, error: '토큰과 새 비밀번호는 필수입니다.' });
             return;
         }
 
-        const { userId } = req.params;
-        const { plan } = req.body;
+        const result = await getAccountEmailService().resetPassword(token, password);
+
+        if (!result.success) {
+            res.status(result.status).json({ success: false, error: result.error });
+            return;
+        }
+
+        res.clearCookie('refreshToken');
+        res.json({ success: true, message: '비밀번호가 변경되었습니다. 다시 로그인해주세요.' });
+    } catch (error) {
+        console.error('Password reset route error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * GET /api/auth/sessions
+ * 로그인된 기기 목록 (current: 이 요청의 세션)
+ */
+router.get('/sessions', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const sessions = await listSessions(req.user!.userId, req.user!.sessionId);
+        res.json({ success: true, sessions });
+    } catch (error) {
+        console.error('List sessions route error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * 다른 기기 로그아웃 (그 기기의 리프레시 토큰 폐기)
+ */
+router.delete('/sessions/:id', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const revoked = await revokeSession(req.user!.userId, req.params.id);
 
-        if (!['free', 'personal_pro', 'business', 'team'].includes(plan)) {
-            res.status(400).json({ success: false, error: '유효하지 않은 플랜입니다.' });
+        if (!revoked) {
+            res.status(404).json({ success: false, error: '세션을 찾을 수 없습니다.' });
             return;
         }
 
-        const updatedUser = await userQueries.updatePlan(userId, plan);
-        res.json({ success: true, user: updatedUser });
+        // 현재 세션을 폐기했으면 쿠키도 삭제
+        if (req.params.id === req.user!.sessionId) {
+            res.clearCookie('refreshToken');
+        }
+
+        res.json({ success: true });
     } catch (error) {
-        console.error('Admin update plan error:', error);
+        console.error('Revoke session route error:', error);
         res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
     }
 });
 
 /**
- * PUT /api/auth/admin/users/:userId/trial
- * 사용자 체험 기간 변경 (관리자 전용)
+ * GET /api/auth/me
+ * 현재 사용자 정보 조회 (체험 정보 포함)
  */
-router.put('/admin/users/:userId/trial', authMiddleware, async (req: Request, res: Response) => {
+router.get('/me', apiTokenAuth('account:read'), async (req: Request, res: Response) => {
     try {
-        const currentUser = await getUserById((req.user as any).userId || (req.user as any).id);
+        const user = await getUserById(req.user!.userId);
 
-        if (!currentUser?.is_admin) {
-            res.status(403).json({ success: false, error: '관리자 권한이 필요합니다.' });
+        if (!user) {
+            res.status(404).json({ success: false, error: '사용자를 찾을 수 없습니다.' });
             return;
         }
 
-        const { userId } = req.params;
-        const { days } = req.body; // 체험 기간 연장 일수
+        // 체험 기간 정보 계산
+        let isTrialActive = false;
+        let trialDaysLeft = 0;
 
-        const trialEndsAt = new Date();
-        trialEndsAt.setDate(trialEndsAt.getDate() + (days || 30));
+        if (user.trial_ends_at) {
+            const trialEnds = new Date(user.trial_ends_at);
+            const now = new Date();
+            isTrialActive = trialEnds > now;
+            trialDaysLeft = Math.max(0, Math.ceil((trialEnds.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
+        }
 
-        const updatedUser = await userQueries.updateTrialEndsAt(userId, trialEndsAt.toISOString());
-        res.json({ success: true, user: updatedUser });
+        res.json({
+            success: true,
+            user,
+            trial: {
+                isActive: isTrialActive,
+                daysLeft: trialDaysLeft,
+                endsAt: user.trial_ends_at
+            }
+        });
     } catch (error) {
-        console.error('Admin update trial error:', error);
+        console.error('Me route error:', error);
         res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
     }
 });
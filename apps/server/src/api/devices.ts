@@ -0,0 +1,168 @@
+/**
+ * 장치 API 라우터
+ * 장치 등록/목록/이름 변경/해제
+ *
+ * 온라인 상태 확인과 해제 시 세션 종료에 시그널링 레지스트리가 필요하므로 서버 초기화 시 생성해서 /api/devices에 연결.
+ */
+
+import { Router, Request, Response } from 'express';
+import { apiTokenAuth } from '../middleware/auth.middleware';
+import { getDatabase } from '../models/database';
+import { ClientRegistry } from '../services/clientRegistry';
+import { AuditEvent } from '../services/auditLog';
+import {
+    DeviceResult,
+    DeviceService,
+    MAX_DEVICE_NAME_LENGTH,
+    PostgresDeviceStore,
+} from '../services/devices';
+
+export interface DevicesRouterDeps {
+    registry: ClientRegistry;
+    logAccess: (entry: AuditEvent) => void;
+    // 해제된 장치의 호스트 연결 종료 (종료한 연결 수 반환)
+    disconnectDevice: (deviceId: string) => Promise<number>;
+    getService?: () => DeviceService;
+}
+
+const MAX_PLATFORM_LENGTH = 32;
+
+function parseName(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const name = value.trim();
+    return name && name.length <= MAX_DEVICE_NAME_LENGTH ? name : null;
+}
+
+// 서비스 결과를 응답으로 변환
+function send(res: Response, result: DeviceResult<object>): void {
+    if (!result.success) {
+        res.status(result.status).json({ success: false, error: result.error });
+        return;
+    }
+    res.json(result);
+}
+
+export function createDevicesRouter(deps: DevicesRouterDeps): Router {
+    const router = Router();
+    const { registry, logAccess } = deps;
+    const getService = deps.getService ?? (() => new DeviceService(new PostgresDeviceStore(getDatabase())));
+
+    /**
+     * POST /api/devices
+     * 장치 등록 (장치에서 만든 공개키 전달, 응답의 id를 장치에 저장)
+     */
+    router.post('/', apiTokenAuth('devices:write'), async (req: Request, res: Response) => {
+        const name = parseName(req.body.name);
+        const { publicKey, platform } = req.body;
+
+        if (!name) {
+            res.status(400).json({ success: false, error: `장치 이름은 1~${MAX_DEVICE_NAME_LENGTH}자여야 합니다.` });
+            return;
+        }
+        if (!publicKey || typeof publicKey !== 'string') {
+            res.status(400).json({ success: false, error: '장치 공개키가 필요합니다.' });
+            return;
+        }
+        if (platform !== undefined && (typeof platform !== 'string' || platform.length > MAX_PLATFORM_LENGTH)) {
+            res.status(400).json({ success: false, error: '유효하지 않은 플랫폼입니다.' });
+            return;
+        }
+
+        try {
+            const result = await getService().enroll(req.user!.userId, { name, publicKey, platform });
+            if (result.success) {
+                logAccess({ event: 'device_enrolled', sourceId: req.user!.userId, targetId: result.device.id, ipAddress: req.ip, success: true });
+            }
+            send(res, result);
+        } catch (error) {
+            console.error('Enroll device error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * GET /api/devices
+     * 내 장치와 팀 장치 목록 (온라인 여부 포함)
+     */
+    router.get('/', apiTokenAuth('devices:read'), async (req: Request, res: Response) => {
+        try {
+            const userId = req.user!.userId;
+            const [devices, clients] = await Promise.all([getService().listForUser(userId), registry.list()]);
+
+            // 재연결 대기 중인 호스트는 오프라인으로 표시
+            const online = new Set(clients
+                .filter(c => c.isHost && c.deviceId && c.suspendedUntil === undefined)
+                .map(c => c.deviceId));
+
+            res.json({
+                success: true,
+                devices: devices.map(({ publicKey, userId: ownerId, ...device }) => ({
+                    ...device,
+                    ownerId,
+                    owned: ownerId === userId,
+                    online: online.has(device.id),
+                })),
+            });
+        } catch (error) {
+            console.error('List devices error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * PATCH /api/devices/:deviceId
+     * 장치 이름 변경 (소유자)
+     */
+    router.patch('/:deviceId', apiTokenAuth('devices:write'), async (req: Request, res: Response) => {
+        const name = parseName(req.body.name);
+        if (!name) {
+            res.status(400).json({ success: false, error: `장치 이름은 1~${MAX_DEVICE_NAME_LENGTH}자여야 합니다.` });
+            return;
+        }
+
+        try {
+            const result = await getService().rename(req.user!.userId, req.params.deviceId, name);
+            if (!result.success) {
+                send(res, result);
+                return;
+            }
+            const { publicKey, ...device } = result.device;
+            res.json({ success: true, device });
+        } catch (error) {
+            console.error('Rename device error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    /**
+     * DELETE /api/devices/:deviceId
+     * 장치 해제 (소유자 또는 조직 관리자), 연결 중인 세션 즉시 종료
+     */
+    router.delete('/:deviceId', apiTokenAuth('devices:write'), async (req: Request, res: Response) => {
+        const { deviceId } = req.params;
+
+        try {
+            const result = await getService().revoke(req.user!.userId, deviceId);
+            if (!result.success) {
+                send(res, result);
+                return;
+            }
+
+            const disconnected = await deps.disconnectDevice(deviceId);
+            logAccess({
+                event: 'device_revoked',
+                sourceId: req.user!.userId,
+                targetId: deviceId,
+                ipAddress: req.ip,
+                success: true,
+                details: { ownerId: result.device.userId, disconnected },
+            });
+            res.json({ success: true, disconnected });
+        } catch (error) {
+            console.error('Revoke device error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    });
+
+    return router;
+}
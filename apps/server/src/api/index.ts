@@ -6,6 +6,10 @@ import { Router } from 'express';
 import authRouter from './auth';
 import subscriptionRouter from './subscription';
 import qrAuthRouter from './qr-auth';
+import twoFactorRouter from './two-factor';
+import sessionsRouter from './sessions';
+import organizationsRouter from './organizations';
+import tokensRouter from './tokens';
 
 const apiRouter = Router();
 
@@ -15,9 +19,21 @@ apiRouter.use('/auth', authRouter);
 // QR 코드 로그인 API
 apiRouter.use('/auth/qr', qrAuthRouter);
 
+// 2단계 인증 API
+apiRouter.use('/auth/2fa', twoFactorRouter);
+
 // 구독/결제 API
 apiRouter.use('/subscription', subscriptionRouter);
 
+// 세션 기록 API
+apiRouter.use('/sessions', sessionsRouter);
+
+// 조직(팀) API
+apiRouter.use('/organizations', organizationsRouter);
+
+// 개인 API 토큰
+apiRouter.use('/tokens', tokensRouter);
+
 // API 상태 확인
 apiRouter.get('/status', (req, res) => {
     res.json({
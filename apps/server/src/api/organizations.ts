@@ -0,0 +1,195 @@
+/**
+ * 조직(팀) API 라우터
+ * 조직 생성, 구성원/역할 관리, 좌석 수 변경, 이메일 초대
+ */
+
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { getDatabase } from '../models/database';
+import { PlanChangeService } from '../services/planChange';
+import { TossPaymentsClient } from '../services/tossPayments';
+import {
+    OrganizationResult,
+    OrganizationService,
+    PostgresOrganizationStore,
+    isInvitableRole,
+} from '../services/organizations';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+
+function getService(): OrganizationService {
+    const db = getDatabase();
+    return new OrganizationService(new PostgresOrganizationStore(db), new PlanChangeService(db, new TossPaymentsClient()));
+}
+
+// 서비스 결과를 응답으로 변환
+function send(res: Response, result: OrganizationResult<object>): void {
+    if (!result.success) {
+        res.status(result.status).json({ success: false, error: result.error });
+        return;
+    }
+    res.json(result);
+}
+
+function parseName(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const name = value.trim();
+    return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+/**
+ * POST /api/organizations
+ * 조직 생성 (팀/비즈니스 구독 필요)
+ */
+router.post('/', authMiddleware, async (req: Request, res: Response) => {
+    const name = parseName(req.body.name);
+    if (!name) {
+        res.status(400).json({ success: false, error: `조직 이름은 1~${MAX_NAME_LENGTH}자여야 합니다.` });
+        return;
+    }
+
+    try {
+        send(res, await getService().create(req.user!.userId, name));
+    } catch (error) {
+        console.error('Create organization error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * GET /api/organizations/me
+ * 내 조직, 구성원, 좌석 사용량
+ */
+router.get('/me', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().getForUser(req.user!.userId));
+    } catch (error) {
+        console.error('Get organization error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/organizations/invitations/accept
+ * 초대 수락
+ */
+router.post('/invitations/accept', authMiddleware, async (req: Request, res: Response) => {
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+        res.status(400).json({ success: false, error: '초대 토큰이 필요합니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().acceptInvitation(req.user!.userId, req.user!.email, token));
+    } catch (error) {
+        console.error('Accept invitation error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * PATCH /api/organizations/:orgId
+ * 조직 이름 변경 (owner/admin)
+ */
+router.patch('/:orgId', authMiddleware, async (req: Request, res: Response) => {
+    const name = parseName(req.body.name);
+    if (!name) {
+        res.status(400).json({ success: false, error: `조직 이름은 1~${MAX_NAME_LENGTH}자여야 합니다.` });
+        return;
+    }
+
+    try {
+        send(res, await getService().rename(req.user!.userId, req.params.orgId, name));
+    } catch (error) {
+        console.error('Rename organization error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * PUT /api/organizations/:orgId/seats
+ * 좌석 수 변경 (owner, 늘린 좌석은 남은 기간 요금을 즉시 결제)
+ */
+router.put('/:orgId/seats', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().setSeats(req.user!.userId, req.params.orgId, req.body.seats));
+    } catch (error) {
+        console.error('Update seats error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/organizations/:orgId/invitations
+ * 이메일 초대 (응답의 token으로 초대 링크 생성)
+ */
+router.post('/:orgId/invitations', authMiddleware, async (req: Request, res: Response) => {
+    const { email } = req.body;
+    const role = req.body.role ?? 'member';
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+        res.status(400).json({ success: false, error: '유효한 이메일이 필요합니다.' });
+        return;
+    }
+    if (!isInvitableRole(role)) {
+        res.status(400).json({ success: false, error: '역할은 admin 또는 member여야 합니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().invite(req.user!.userId, req.params.orgId, email, role));
+    } catch (error) {
+        console.error('Invite member error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * DELETE /api/organizations/:orgId/invitations/:invitationId
+ * 초대 취소
+ */
+router.delete('/:orgId/invitations/:invitationId', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().revokeInvitation(req.user!.userId, req.params.orgId, req.params.invitationId));
+    } catch (error) {
+        console.error('Revoke invitation error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * PUT /api/organizations/:orgId/members/:userId/role
+ * 구성원 역할 변경 (owner)
+ */
+router.put('/:orgId/members/:userId/role', authMiddleware, async (req: Request, res: Response) => {
+    const { role } = req.body;
+    if (!isInvitableRole(role)) {
+        res.status(400).json({ success: false, error: '역할은 admin 또는 member여야 합니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().updateMemberRole(req.user!.userId, req.params.orgId, req.params.userId, role));
+    } catch (error) {
+        console.error('Update member role error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * DELETE /api/organizations/:orgId/members/:userId
+ * 구성원 제거 (본인이면 탈퇴)
+ */
+router.delete('/:orgId/members/:userId', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().removeMember(req.user!.userId, req.params.orgId, req.params.userId));
+    } catch (error) {
+        console.error('Remove member error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+export default router;
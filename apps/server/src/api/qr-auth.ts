@@ -6,8 +6,8 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { authMiddleware } from '../middleware/auth.middleware';
-import { generateAccessToken, generateRefreshToken } from '../services/auth.service';
-import { tokenQueries, userQueries } from '../models/database';
+import { issueTokens } from '../services/auth.service';
+import { userQueries } from '../models/database';
 
 const router = Router();
 
@@ -164,14 +164,8 @@ router.post('/approve', authMiddleware, async (req: Request, res: Response) => {
             return;
         }
 
-        // 토큰 생성
-        const accessToken = generateAccessToken(user);
-        const refreshToken = generateRefreshToken();
-
-        // 리프레시 토큰 저장
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 7);
-        await tokenQueries.create(user.id, refreshToken, expiresAt.toISOString());
+        // 토큰 생성 (QR을 띄운 데스크톱의 로그인 세션)
+        const { accessToken, refreshToken } = await issueTokens(user, { userAgent: 'LunarView Desktop (QR)' });
 
         // 세션 업데이트
         session.status = 'approved';
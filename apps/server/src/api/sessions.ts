@@ -0,0 +1,34 @@
+/**
+ * 세션 기록 API 라우터
+ */
+
+import { Router, Request, Response } from 'express';
+import { apiTokenAuth } from '../middleware/auth.middleware';
+import { getDatabase } from '../models/database';
+import { SessionHistoryService, parseSessionHistoryRequest } from '../services/sessionHistory';
+
+const router = Router();
+
+/**
+ * GET /api/sessions
+ * 로그인한 사용자의 세션 기록 (보낸 연결 + 받은 연결)
+ */
+router.get('/', apiTokenAuth('sessions:read'), async (req: Request, res: Response) => {
+    const parsed = parseSessionHistoryRequest(req.query as Record<string, unknown>);
+    if (!parsed.ok) {
+        res.status(400).json({ success: false, error: parsed.error });
+        return;
+    }
+
+    try {
+        const history = new SessionHistoryService(getDatabase());
+        const result = await history.listForUser(req.user!.userId, parsed.query);
+
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+export default router;
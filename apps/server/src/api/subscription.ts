@@ -13,6 +13,12 @@ import {
     PLAN_NAMES
 } from '../services/payment.service';
 import { UserPlan } from '../types/api.types';
+import { getDatabase } from '../models/database';
+import { PaymentWebhookProcessor } from '../services/paymentWebhook';
+import { TossPaymentsClient } from '../services/tossPayments';
+import { PlanChangeService } from '../services/planChange';
+import { InvoiceService } from '../services/invoices';
+import { getPlanLimits } from '../../../../packages/protocol/src/plans';
 
 const router = Router();
 
@@ -49,13 +55,14 @@ router.get('/plans', (req: Request, res: Response) => {
         name: PLAN_NAMES[key],
         monthlyPrice: prices.monthly,
         yearlyPrice: prices.yearly,
-        yearlyMonthlyEquivalent: Math.round(prices.yearly / 12)
+        yearlyMonthlyEquivalent: Math.round(prices.yearly / 12),
+        limits: getPlanLimits(key)
     }));
 
     res.json({
         success: true,
         plans: [
-            { id: 'free', name: '무료', monthlyPrice: 0, yearlyPrice: 0 },
+            { id: 'free', name: PLAN_NAMES.free, monthlyPrice: 0, yearlyPrice: 0, limits: getPlanLimits('free') },
             ...plans
         ]
     });
@@ -138,6 +145,58 @@ router.post('/confirm', authMiddleware, async (req: Request, res: Response) => {
     }
 });
 
+/**
+ * POST /api/subscription/change-plan
+ * 플랜 변경 (남은 기간 일할 계산, 업그레이드 차액은 즉시 결제)
+ */
+router.post('/change-plan', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const { plan } = req.body;
+
+        if (!['personal_pro', 'business', 'team'].includes(plan)) {
+            res.status(400).json({ success: false, error: '유효하지 않은 플랜입니다.' });
+            return;
+        }
+
+        const planChange = new PlanChangeService(getDatabase(), new TossPaymentsClient());
+        const result = await planChange.changePlan(req.user!.userId, plan as UserPlan);
+
+        if (!result.success) {
+            res.status(400).json(result);
+            return;
+        }
+
+        res.json(result);
+    } catch (error) {
+        console.error('Change plan error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * GET /api/subscription/invoices
+ * 결제 내역 (page, limit)
+ */
+router.get('/invoices', authMiddleware, async (req: Request, res: Response) => {
+    const page = req.query.page === undefined ? 1 : Number(req.query.page);
+    const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+
+    if (!Number.isInteger(page) || page < 1 || (limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+        res.status(400).json({ success: false, error: 'page와 limit는 1 이상의 정수여야 합니다.' });
+        return;
+    }
+
+    try {
+        const invoices = new InvoiceService(getDatabase());
+        const result = await invoices.listForUser(req.user!.userId, page, limit);
+
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Get invoices error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
 /**
  * POST /api/subscription/cancel
  * 구독 취소
@@ -161,22 +220,20 @@ router.post('/cancel', authMiddleware, async (req: Request, res: Response) => {
 /**
  * POST /api/subscription/webhook
  * 토스페이먼츠 웹훅 (결제 상태 변경 알림)
+ * 결제사 재조회로 검증하고, 이미 처리한 이벤트는 200으로 응답해 재전송을 멈춤
  */
 router.post('/webhook', async (req: Request, res: Response) => {
     try {
-        const { eventType, data } = req.body;
-
-        console.log('Webhook received:', eventType, data);
+        const processor = new PaymentWebhookProcessor(getDatabase(), new TossPaymentsClient());
+        const result = await processor.process(req.body);
 
-        // TODO: 웹훅 시그니처 검증
-        // TODO: 결제 상태에 따른 처리
-        // - DONE: 결제 완료
-        // - CANCELED: 결제 취소
-        // - PARTIAL_CANCELED: 부분 취소
-        // - ABORTED: 결제 실패
-        // - EXPIRED: 결제 만료
+        if (result.status === 'rejected') {
+            console.warn('Webhook rejected:', result.reason);
+            res.status(400).json({ success: false, error: '유효하지 않은 웹훅입니다.' });
+            return;
+        }
 
-        res.json({ success: true });
+        res.json({ success: true, result: result.status });
     } catch (error) {
         console.error('Webhook error:', error);
         res.status(500).json({ success: false, error: '웹훅 처리 실패' });
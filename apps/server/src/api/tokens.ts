@@ -0,0 +1,86 @@
+/**
+ * 개인 API 토큰 라우터
+ * 토큰 발급/목록/폐기 (로그인 토큰으로만 관리 가능, API 토큰으로 새 토큰을 만들 수 없음)
+ */
+
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { getDatabase } from '../models/database';
+import {
+    API_TOKEN_SCOPES,
+    ApiTokenResult,
+    ApiTokenService,
+    PostgresApiTokenStore,
+} from '../services/apiTokens';
+
+const router = Router();
+
+function getService(): ApiTokenService {
+    return new ApiTokenService(new PostgresApiTokenStore(getDatabase()));
+}
+
+// 서비스 결과를 응답으로 변환
+function send(res: Response, result: ApiTokenResult<object>): void {
+    if (!result.success) {
+        res.status(result.status).json({ success: false, error: result.error });
+        return;
+    }
+    res.json(result);
+}
+
+/**
+ * GET /api/tokens
+ * 내 API 토큰 목록 (토큰 값은 포함하지 않음)
+ */
+router.get('/', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const tokens = await getService().list(req.user!.userId);
+        res.json({ success: true, tokens, scopes: API_TOKEN_SCOPES });
+    } catch (error) {
+        console.error('List API tokens error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/tokens
+ * API 토큰 발급 { name, scopes, expiresInDays? } (응답의 secret은 다시 볼 수 없음)
+ */
+router.post('/', authMiddleware, async (req: Request, res: Response) => {
+    const { name, scopes, expiresInDays } = req.body;
+
+    if (typeof name !== 'string') {
+        res.status(400).json({ success: false, error: '토큰 이름이 필요합니다.' });
+        return;
+    }
+    if (!Array.isArray(scopes)) {
+        res.status(400).json({ success: false, error: '권한 범위(scopes) 목록이 필요합니다.' });
+        return;
+    }
+    if (expiresInDays !== undefined && typeof expiresInDays !== 'number') {
+        res.status(400).json({ success: false, error: '만료 기간은 일 단위 숫자여야 합니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().create(req.user!.userId, { name, scopes, expiresInDays }));
+    } catch (error) {
+        console.error('Create API token error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * DELETE /api/tokens/:tokenId
+ * API 토큰 폐기 (즉시 사용 불가)
+ */
+router.delete('/:tokenId', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().revoke(req.user!.userId, req.params.tokenId));
+    } catch (error) {
+        console.error('Revoke API token error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+export default router;
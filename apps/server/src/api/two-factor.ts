@@ -0,0 +1,115 @@
+/**
+ * 2단계 인증 API 라우터
+ * 인증 앱 등록/확인, 해제, 복구 코드 재발급
+ */
+
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { getDatabase } from '../models/database';
+import { PostgresTwoFactorStore, TwoFactorResult, TwoFactorService } from '../services/twoFactor';
+
+const router = Router();
+
+function getService(): TwoFactorService {
+    return new TwoFactorService(new PostgresTwoFactorStore(getDatabase()));
+}
+
+// 서비스 결과를 응답으로 변환
+function send(res: Response, result: TwoFactorResult<object>): void {
+    if (!result.success) {
+        res.status(result.status).json({ success: false, error: result.error });
+        return;
+    }
+    res.json(result);
+}
+
+function parseCode(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+router.use(authMiddleware);
+
+/**
+ * GET /api/auth/2fa
+ * 2단계 인증 상태 (남은 복구 코드 수 포함)
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        res.json({ success: true, ...(await getService().getStatus(req.user!.userId)) });
+    } catch (error) {
+        console.error('Two-factor status error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ * 등록 시작 (인증 앱에 추가할 otpauth URI 발급)
+ */
+router.post('/setup', async (req: Request, res: Response) => {
+    try {
+        send(res, await getService().beginSetup(req.user!.userId, req.user!.email));
+    } catch (error) {
+        console.error('Two-factor setup error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ * 첫 코드로 등록 확인 (복구 코드는 이 응답에서만 확인 가능)
+ */
+router.post('/enable', async (req: Request, res: Response) => {
+    const code = parseCode(req.body.code);
+    if (!code) {
+        res.status(400).json({ success: false, error: '인증 코드는 필수입니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().confirmSetup(req.user!.userId, code));
+    } catch (error) {
+        console.error('Two-factor enable error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ * 2단계 인증 해제 (인증 앱 코드 또는 복구 코드)
+ */
+router.post('/disable', async (req: Request, res: Response) => {
+    const code = parseCode(req.body.code);
+    if (!code) {
+        res.status(400).json({ success: false, error: '인증 코드는 필수입니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().disable(req.user!.userId, code));
+    } catch (error) {
+        console.error('Two-factor disable error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * 복구 코드 재발급 (기존 코드는 무효)
+ */
+router.post('/recovery-codes', async (req: Request, res: Response) => {
+    const code = parseCode(req.body.code);
+    if (!code) {
+        res.status(400).json({ success: false, error: '인증 코드는 필수입니다.' });
+        return;
+    }
+
+    try {
+        send(res, await getService().regenerateRecoveryCodes(req.user!.userId, code));
+    } catch (error) {
+        console.error('Two-factor recovery codes error:', error);
+        res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+    }
+});
+
+export default router;
@@ -18,7 +18,51 @@ import logger from './utils/logger';
 
 // API 및 데이터베이스 임포트
 import { initDatabase, getDatabase } from './models/database';
+import { UnknownSchemaVersionError } from './models/migrator';
 import apiRouter from './api';
+import { createAdminRouter } from './api/admin';
+import { createDevicesRouter } from './api/devices';
+import { createClientRegistry, ClientRecord, PubSubBroker } from './services/clientRegistry';
+import { PostgresPubSub } from './services/pgPubSub';
+import { ConnectionApprovalService } from './services/connectionApproval';
+import { SessionManager, RouteOptions, isJoinableHost } from './services/sessionManager';
+import {
+    AuditEvent,
+    AuditLogStore,
+    InMemoryAuditLogStore,
+    PostgresAuditLogStore,
+} from './services/auditLog';
+import { SessionHistoryService } from './services/sessionHistory';
+import { PlanLimitService, PlanCheck } from './services/planLimits';
+import { SessionResumptionService } from './services/sessionResumption';
+import { BillingScheduler, BillingEvent } from './services/billingScheduler';
+import { TossPaymentsClient } from './services/tossPayments';
+import { DeviceService, PostgresDeviceStore } from './services/devices';
+import { LoginSessionService, PostgresLoginSessionStore } from './services/loginSessions';
+import { verifyAccessToken } from './services/auth.service';
+import { authenticateApiTokenFromDatabase, isApiToken } from './services/apiTokens';
+import {
+    SIGNALING_PROTOCOL_VERSION,
+    FULL_CONTROL_GRANT,
+    parseClientMessage,
+    createErrorMessage,
+    normalizeSessionGrant,
+    SessionGrant,
+    ClientMessage,
+    ServerMessage,
+    ConnectErrorCode,
+    RegisterMessage,
+    ResumeMessage,
+    ConnectMessage,
+    ConnectDeviceMessage,
+    ConnectionResponseMessage,
+    UpdatePermissionsMessage,
+    ControlTransferMessage,
+    KeyExchangeMessage,
+    RelayMessage,
+    ScreenFrameMessage,
+    PeerMessage,
+} from '../../../packages/protocol/src/signaling';
 
 const app = express();
 const server = createServer(app);
@@ -70,58 +114,112 @@ const authLimiter = rateLimit({
 async function initializeApp() {
     try {
         await initDatabase();
+        auditLog = new PostgresAuditLogStore(getDatabase());
+        sessionHistory = new SessionHistoryService(getDatabase());
+        devices = new DeviceService(new PostgresDeviceStore(getDatabase()));
+        loginSessions = new LoginSessionService(new PostgresLoginSessionStore(getDatabase()));
+        if (process.env.BILLING_SCHEDULER !== 'off') {
+            billingScheduler = new BillingScheduler(getDatabase(), new TossPaymentsClient(), { onEvent: logBillingEvent });
+            billingScheduler.start();
+        }
         logger.info('✅ Database initialized');
     } catch (error) {
         logger.error('❌ Database initialization failed:', error);
-        // 개발 환경에서는 DB 없이도 실행 가능하도록
-        if (process.env.NODE_ENV === 'production') {
+        // 개발 환경에서는 DB 없이도 실행 가능하도록 (스키마가 서버보다 새 버전이면 항상 종료)
+        if (process.env.NODE_ENV === 'production' || error instanceof UnknownSchemaVersionError) {
             process.exit(1);
         }
     }
 }
 
 // 정적 파일 서빙 (웹사이트) - Render/Server 배포 시 필수
-app.use(express.static(path.join(__dirname, '../../website')));
+// 빌드 결과물 위치(dist/apps/server/src)와 무관하도록 서버 패키지 디렉터리 기준으로 지정
+app.use(express.static(path.resolve(process.cwd(), '../website')));
 
 // API 라우터 연결 (Rate Limiting 적용)
 app.use('/api/auth/login', authLimiter);
 app.use('/api/auth/register', authLimiter);
+app.use('/api/auth/2fa', authLimiter);
+app.use('/api/auth/verify-email', authLimiter);
+app.use('/api/auth/password-reset', authLimiter);
 app.use('/api', apiLimiter, apiRouter);
 
-// 연결된 클라이언트 관리
-interface Client {
-    id: string;
-    connectionId: string;
-    passwordHash: string;
+// 이 노드에 연결된 WebSocket (공유 상태는 레지스트리에 저장)
+interface LocalConnection {
     ws: WebSocket;
-    isHost: boolean;
-    sessionId?: string;
-    connectedTo?: string;
-    publicKey?: string;
-    ipAddress?: string;
-    connectedAt: Date;
     lastActivity: Date;
+    // 서버가 직접 닫은 연결 (관리자 해제, 시간 초과)은 재개 대기 없이 정리
+    closedByServer?: boolean;
 }
 
-interface AccessLog {
-    timestamp: Date;
-    event: string;
-    sourceId: string;
-    targetId?: string;
-    ipAddress?: string;
-    success: boolean;
-}
 
-const clients = new Map<string, Client>();
-const connectionIdMap = new Map<string, string>();
-const accessLogs: AccessLog[] = [];
-const blockedIPs = new Set<string>();
-const failedAttempts = new Map<string, { count: number; lastAttempt: Date }>();
+const localConnections = new Map<string, LocalConnection>();
+// 감사 로그 (DB 초기화 전이나 DB 없는 개발 환경에서는 메모리 저장)
+let auditLog: AuditLogStore = new InMemoryAuditLogStore();
+// 세션 기록 (DB가 없으면 기록하지 않음)
+let sessionHistory: SessionHistoryService | null = null;
+// 정기 결제 갱신 (DB가 없으면 실행하지 않음)
+let billingScheduler: BillingScheduler | null = null;
+// 등록 장치 (DB가 없으면 장치 등록/연결 불가)
+let devices: DeviceService | null = null;
+// 로그인 세션 정리 (DB가 없으면 실행하지 않음)
+let loginSessions: LoginSessionService | null = null;
 
 // 설정
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15분
 const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30분
+const APPROVAL_TIMEOUT_MS = 60 * 1000; // 호스트 승인 대기 1분
+const MAX_VIEWERS_PER_SESSION = parseInt(process.env.MAX_VIEWERS_PER_SESSION || '10', 10);
+const RESUME_GRACE_MS = parseInt(process.env.RESUME_GRACE_MS || '30000', 10); // 재연결 대기 30초
+
+// 다중 인스턴스 배포 시 SIGNALING_PUBSUB=postgres 로 노드 간 상태 공유
+let signalingBroker: PubSubBroker | undefined;
+if (process.env.SIGNALING_PUBSUB === 'postgres' && process.env.DATABASE_URL) {
+    signalingBroker = new PostgresPubSub(process.env.DATABASE_URL);
+}
+
+const registry = createClientRegistry({
+    nodeId: process.env.SIGNALING_NODE_ID,
+    broker: signalingBroker,
+    maxFailedAttempts: MAX_FAILED_ATTEMPTS,
+    lockoutDurationMs: LOCKOUT_DURATION_MS,
+});
+
+// 레지스트리가 이 노드의 클라이언트에게 전달하는 메시지를 실제 소켓으로 전송
+registry.onDeliver((clientId, message) => {
+    const connection = localConnections.get(clientId);
+    if (connection) {
+        sendMessage(connection.ws, message);
+    }
+});
+
+registry.onClose((clientId, code, reason) => {
+    closeLocalConnection(clientId, code, reason);
+});
+
+const approvals = new ConnectionApprovalService(registry, { timeoutMs: APPROVAL_TIMEOUT_MS });
+const sessions = new SessionManager(registry, { maxViewersPerSession: MAX_VIEWERS_PER_SESSION });
+const planLimits = new PlanLimitService(registry, sessions, {
+    onSessionExpired: async (viewer) => {
+        await recordSessionEnd(viewer, 'Session time limit reached');
+        logAccess({
+            event: 'session_time_limit',
+            sourceId: viewer.connectionId,
+            targetId: viewer.connectedTo ? (await registry.get(viewer.connectedTo))?.connectionId : undefined,
+            ipAddress: viewer.ipAddress,
+            success: true
+        });
+    },
+});
+
+const resumption = new SessionResumptionService(registry, {
+    graceMs: RESUME_GRACE_MS,
+    onExpired: async (clientId) => {
+        const client = await registry.get(clientId);
+        if (client) await removeClient(client);
+    },
+});
 
 // 비밀번호 해싱
 function hashPassword(password: string, salt: string): string {
@@ -129,223 +227,101 @@ function hashPassword(password: string, salt: string): string {
 }
 
 // 접근 로그 기록
-function logAccess(entry: Omit<AccessLog, 'timestamp'>): void {
-    accessLogs.unshift({ ...entry, timestamp: new Date() });
-    if (accessLogs.length > 1000) accessLogs.pop();
+function logAccess(entry: AuditEvent): void {
+    auditLog.append(entry).catch(error => {
+        logger.error('Failed to write audit log:', error);
+    });
     console.log(`[${entry.success ? 'OK' : 'FAIL'}] ${entry.event}: ${entry.sourceId}${entry.targetId ? ' -> ' + entry.targetId : ''}`);
 }
 
-// IP 차단 여부 확인
-function isIPBlocked(ip: string): boolean {
-    if (blockedIPs.has(ip)) return true;
-
-    const attempts = failedAttempts.get(ip);
-    if (attempts && attempts.count >= MAX_FAILED_ATTEMPTS) {
-        const elapsed = Date.now() - attempts.lastAttempt.getTime();
-        if (elapsed < LOCKOUT_DURATION_MS) return true;
-        failedAttempts.delete(ip);
-    }
-
-    return false;
-}
-
-// 실패 시도 기록
-function recordFailedAttempt(ip: string): void {
-    const attempts = failedAttempts.get(ip) || { count: 0, lastAttempt: new Date() };
-    attempts.count++;
-    attempts.lastAttempt = new Date();
-    failedAttempts.set(ip, attempts);
+// 정기 결제 결과 기록
+function logBillingEvent(event: BillingEvent): void {
+    const names: Record<BillingEvent['type'], string> = {
+        renewed: 'billing_renewed',
+        payment_failed: 'billing_payment_failed',
+        expired: 'subscription_expired',
+    };
+    const { type, subscriptionId, userId, ...details } = event;
+    logAccess({
+        event: names[type],
+        sourceId: userId,
+        targetId: subscriptionId,
+        success: type === 'renewed',
+        details,
+    });
 }
 
 // HTTP API
 
-// 환경 변수에서 설정 로드 (필수)
-const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
-if (!ADMIN_API_KEY) {
-    console.warn('⚠️ ADMIN_API_KEY not set. Admin endpoints will be inaccessible.');
-}
-
-// 관리자 인증 미들웨어
-function adminAuth(req: any, res: any, next: any) {
-    const apiKey = req.headers['x-api-key'] || req.query.apiKey;
-
-    if (!apiKey || apiKey !== ADMIN_API_KEY) {
-        logAccess({
-            event: 'admin_auth_failed',
-            sourceId: 'admin',
-            ipAddress: req.ip,
-            success: false
-        });
-        return res.status(401).json({ error: 'Unauthorized: Invalid API key' });
-    }
-
-    next();
-}
-
 // 공개 API
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
     res.json({
         status: 'ok',
-        clients: clients.size,
+        clients: await registry.count(),
         timestamp: new Date().toISOString(),
     });
 });
 
-// 보호된 관리자 API
-app.get('/admin/logs', adminAuth, (req, res) => {
-    res.json(accessLogs.slice(0, 100));
-});
-
-app.get('/admin/clients', adminAuth, (req, res) => {
-    const clientList = Array.from(clients.values()).map(c => ({
-        connectionId: c.connectionId,
-        isHost: c.isHost,
-        connectedTo: c.connectedTo,
-        connectedAt: c.connectedAt,
-        lastActivity: c.lastActivity,
-    }));
-    res.json(clientList);
-});
-
-// 관리자 사용자 목록 API
-app.get('/admin/users', adminAuth, async (req, res) => {
-    try {
-        const db = getDatabase();
-        const result = await db.query(`
-            SELECT id, email, name, plan, created_at, updated_at 
-            FROM users 
-            ORDER BY created_at DESC
-        `);
-        const users = result.rows;
-
-        const todayStart = new Date();
-        todayStart.setHours(0, 0, 0, 0);
-
-        const stats = {
-            total: users.length,
-            todaySignups: users.filter((u: any) => new Date(u.created_at) >= todayStart).length,
-            byPlan: {
-                free: users.filter((u: any) => u.plan === 'free').length,
-                personal_pro: users.filter((u: any) => u.plan === 'personal_pro').length,
-                business: users.filter((u: any) => u.plan === 'business').length,
-                team: users.filter((u: any) => u.plan === 'team').length
-            }
-        };
-
-        res.json({ users, stats });
-    } catch (error) {
-        console.error('Admin users error:', error);
-        res.status(500).json({ error: 'Failed to fetch users' });
-    }
-});
-
-// 관리자 구독 목록 API
-app.get('/admin/subscriptions', adminAuth, async (req, res) => {
-    try {
-        const db = getDatabase();
-        const result = await db.query(`
-            SELECT s.*, u.email, u.name 
-            FROM subscriptions s 
-            JOIN users u ON s.user_id = u.id 
-            ORDER BY s.created_at DESC
-        `);
-        const subscriptions = result.rows;
-
-        const activeCount = subscriptions.filter((s: any) => s.status === 'active' && s.plan !== 'free').length;
-
-        res.json({ subscriptions, activeCount });
-    } catch (error) {
-        console.error('Admin subscriptions error:', error);
-        res.status(500).json({ error: 'Failed to fetch subscriptions' });
-    }
-});
-
-app.post('/admin/block-ip', adminAuth, (req, res) => {
-    const { ip } = req.body;
-    if (ip) {
-        blockedIPs.add(ip);
-        logAccess({ event: 'ip_blocked', sourceId: 'admin', targetId: ip, success: true });
-        res.json({ success: true });
-    } else {
-        res.status(400).json({ error: 'IP required' });
-    }
-});
-
-app.delete('/admin/block-ip', adminAuth, (req, res) => {
-    const { ip } = req.body;
-    if (ip && blockedIPs.has(ip)) {
-        blockedIPs.delete(ip);
-        logAccess({ event: 'ip_unblocked', sourceId: 'admin', targetId: ip, success: true });
-        res.json({ success: true });
-    } else {
-        res.status(400).json({ error: 'IP not found in blocklist' });
-    }
-});
+// 관리자 API (JWT + 역할별 권한, 모든 작업은 감사 로그에 기록)
+app.use('/admin/v2', apiLimiter, createAdminRouter({
+    registry,
+    getAuditLog: () => auditLog,
+    logAccess,
+    getLastActivity: (clientId) => localConnections.get(clientId)?.lastActivity,
+}));
 
-app.post('/admin/disconnect', adminAuth, (req, res) => {
-    const { connectionId } = req.body;
-    const clientId = connectionIdMap.get(connectionId);
-    if (clientId) {
-        const client = clients.get(clientId);
-        if (client) {
-            client.ws.close(4001, 'Disconnected by admin');
-            res.json({ success: true });
-        } else {
-            res.status(404).json({ error: 'Client not found' });
-        }
-    } else {
-        res.status(400).json({ error: 'connectionId required' });
-    }
-});
+// 장치 API (/api 경로의 apiLimiter가 이미 적용됨)
+app.use('/api/devices', createDevicesRouter({ registry, logAccess, disconnectDevice }));
 
 // WebSocket 연결 처리
-wss.on('connection', (ws: WebSocket, req) => {
-    const clientId = uuidv4();
+wss.on('connection', async (ws: WebSocket, req) => {
+    // 세션을 재개하면 기존 클라이언트 ID로 바뀜
+    let clientId = uuidv4();
     const ipAddress = req.socket.remoteAddress || 'unknown';
 
     // IP 차단 확인
-    if (isIPBlocked(ipAddress)) {
+    if (await registry.isIPBlocked(ipAddress)) {
         ws.close(4003, 'IP blocked');
         logAccess({ event: 'connection_blocked', sourceId: clientId, ipAddress, success: false });
         return;
     }
 
+    localConnections.set(clientId, { ws, lastActivity: new Date() });
     console.log(`Client connected: ${clientId} from ${ipAddress}`);
 
     ws.on('message', (data: Buffer) => {
-        try {
-            const message = JSON.parse(data.toString());
-            handleMessage(clientId, ws, message, ipAddress);
-        } catch (error) {
-            console.error('Failed to parse message:', error);
+        // 스키마 검증 실패 시 구조화된 오류 응답
+        const result = parseClientMessage(data.toString());
+        if (!result.ok) {
+            console.warn(`Rejected message from ${clientId}: ${result.error.code} ${result.error.message}`);
+            sendMessage(ws, result.error);
+            return;
         }
+
+        const message = result.message;
+        if (message.type === 'resume') {
+            handleResume(clientId, ws, message, ipAddress).then(resumedId => {
+                if (resumedId) clientId = resumedId;
+            }).catch(error => {
+                console.error(`Failed to resume ${clientId}:`, error);
+            });
+            return;
+        }
+
+        handleMessage(clientId, ws, message, ipAddress).catch(error => {
+            console.error(`Failed to handle ${message.type} from ${clientId}:`, error);
+        });
     });
 
     ws.on('close', () => {
-        const client = clients.get(clientId);
-        if (client) {
-            // 연결된 상대방에게 연결 해제 알림
-            if (client.connectedTo) {
-                const partner = clients.get(client.connectedTo);
-                if (partner) {
-                    sendMessage(partner.ws, {
-                        type: 'disconnected',
-                        reason: 'Partner disconnected',
-                    });
-                    partner.connectedTo = undefined;
-                }
-            }
-
-            logAccess({
-                event: 'disconnect',
-                sourceId: client.connectionId,
-                ipAddress: client.ipAddress,
-                success: true
-            });
+        // 세션 재개로 새 소켓이 이 클라이언트를 넘겨받았으면 정리하지 않음
+        const connection = localConnections.get(clientId);
+        if (connection?.ws !== ws) return;
 
-            connectionIdMap.delete(client.connectionId);
-            clients.delete(clientId);
-        }
+        localConnections.delete(clientId);
+        handleClose(clientId, !connection.closedByServer).catch(error => {
+            console.error(`Failed to clean up ${clientId}:`, error);
+        });
         console.log(`Client disconnected: ${clientId}`);
     });
 
@@ -363,81 +339,238 @@ wss.on('connection', (ws: WebSocket, req) => {
     ws.on('close', () => clearInterval(pingInterval));
 });
 
-function handleMessage(clientId: string, ws: WebSocket, message: any, ipAddress: string) {
+async function handleClose(clientId: string, resumable: boolean) {
+    const client = await registry.get(clientId);
+    // 다른 노드에서 재개된 클라이언트는 그 노드가 관리
+    if (!client || client.nodeId !== registry.nodeId) return;
+
+    // 대기 중인 승인 요청 정리
+    await approvals.cancelForClient(client);
+
+    // 세션 중이면 유예 시간 동안 재연결을 기다림 (P2P 연결은 그대로일 수 있음)
+    if (resumable && await resumption.suspend(client)) {
+        logAccess({
+            event: 'session_suspended',
+            sourceId: client.connectionId,
+            ipAddress: client.ipAddress,
+            success: true
+        });
+        return;
+    }
+
+    await removeClient(client);
+}
+
+/**
+ * 클라이언트 제거 (세션 참여자에게 연결 해제 알림, 다른 노드에 있어도 전달됨)
+ */
+async function removeClient(client: ClientRecord) {
+    await recordSessionEnd(client, 'Partner disconnected');
+    await sessions.leave(client.id, 'Partner disconnected');
+
+    logAccess({
+        event: 'disconnect',
+        sourceId: client.connectionId,
+        ipAddress: client.ipAddress,
+        success: true
+    });
+
+    await registry.remove(client.id);
+}
+
+/**
+ * 해제된 장치로 등록한 호스트 연결 종료 (세션 참여자에게도 연결 해제 알림)
+ * 재연결 대기 중인 호스트는 재개하지 못하도록 바로 제거
+ */
+async function disconnectDevice(deviceId: string): Promise<number> {
+    const hosts = (await registry.list()).filter(c => c.deviceId === deviceId);
+    for (const host of hosts) {
+        if (host.suspendedUntil !== undefined) {
+            await removeClient(host);
+        } else {
+            await registry.close(host.id, 4004, 'Device revoked');
+        }
+    }
+    return hosts.length;
+}
+
+/**
+ * 이 노드의 소켓을 닫음 (재개 대기 없이 정리됨)
+ */
+function closeLocalConnection(clientId: string, code: number, reason: string) {
+    const connection = localConnections.get(clientId);
+    if (!connection) return;
+    connection.closedByServer = true;
+    connection.ws.close(code, reason);
+}
+
+/**
+ * 끊어진 연결 재개
+ * 성공하면 이 소켓을 기존 클라이언트에 연결하고 그 ID를 반환
+ */
+async function handleResume(socketId: string, ws: WebSocket, message: ResumeMessage, ipAddress: string): Promise<string | null> {
+    // 이미 register한 소켓은 재개할 수 없음
+    const result = await registry.get(socketId)
+        ? { ok: false as const, code: 'INVALID_TOKEN' as const }
+        : await resumption.resume(message.resumeToken);
+    if (!result.ok) {
+        sendMessage(ws, {
+            type: 'resume-failed',
+            error: result.code === 'RESUME_EXPIRED' ? 'Resume window expired' : 'Invalid resume token',
+            code: result.code,
+        });
+        logAccess({ event: 'resume_failed', sourceId: socketId, ipAddress, success: false, details: { code: result.code } });
+        return null;
+    }
+
+    const client = result.client;
+
+    // 서버가 아직 끊김을 감지하지 못한 이전 소켓은 정리 없이 닫음
+    const previous = localConnections.get(client.id);
+    localConnections.delete(socketId);
+    localConnections.set(client.id, { ws, lastActivity: new Date() });
+    previous?.ws.terminate();
+
+    await registry.update(client.id, { ipAddress });
+
+    sendMessage(ws, {
+        type: 'resumed',
+        clientId: client.id,
+        connectionId: client.connectionId,
+        resumeToken: result.resumeToken,
+        sessionId: client.sessionId,
+        role: client.sessionRole,
+    });
+    if (client.sessionId) {
+        sendMessage(ws, {
+            type: 'session-roster',
+            sessionId: client.sessionId,
+            participants: await sessions.getRoster(client.sessionId),
+        });
+    }
+
+    logAccess({ event: 'session_resumed', sourceId: client.connectionId, ipAddress, success: true });
+    console.log(`Client resumed: ${client.connectionId} (${client.sessionId ? `session ${client.sessionId}` : 'no session'})`);
+
+    return client.id;
+}
+
+async function handleMessage(clientId: string, ws: WebSocket, message: ClientMessage, ipAddress: string) {
     // 클라이언트 활성 시간 업데이트
-    const client = clients.get(clientId);
-    if (client) {
-        client.lastActivity = new Date();
+    const connection = localConnections.get(clientId);
+    if (connection) {
+        connection.lastActivity = new Date();
     }
 
     switch (message.type) {
         case 'register':
-            handleRegister(clientId, ws, message, ipAddress);
+            await handleRegister(clientId, ws, message, ipAddress);
             break;
         case 'connect':
-            handleConnect(clientId, message, ipAddress);
+            await handleConnect(clientId, message, ipAddress);
+            break;
+        case 'connect-device':
+            await handleConnectDevice(clientId, message, ipAddress);
+            break;
+        case 'connection-response':
+            await handleConnectionResponse(clientId, message);
+            break;
+        case 'update-permissions':
+            await handleUpdatePermissions(clientId, ws, message);
+            break;
+        case 'control-request':
+            await sessions.requestControl(clientId);
+            break;
+        case 'control-release':
+            await sessions.releaseControl(clientId);
+            break;
+        case 'control-transfer':
+            await handleControlTransfer(clientId, ws, message);
             break;
         case 'key-exchange':
-            handleKeyExchange(clientId, message);
+            await handleKeyExchange(clientId, message);
             break;
         case 'offer':
         case 'answer':
         case 'ice-candidate':
-            handleSignaling(clientId, message);
+            await handleSignaling(clientId, message);
             break;
         case 'webrtc-offer':
         case 'webrtc-answer':
         case 'webrtc-ice-candidate':
         case 'webrtc-viewer-ready':
-            handleWebRTCSignaling(clientId, message);
+            await handleWebRTCSignaling(clientId, message);
             break;
         case 'relay':
-            handleRelay(clientId, message);
+            await handleRelay(clientId, message);
             break;
         case 'screen-frame':
-            handleScreenFrame(clientId, message);
+            await handleScreenFrame(clientId, message);
             break;
         case 'mouse-event':
         case 'keyboard-event':
-            handleInputEvent(clientId, message);
+            await handleInputEvent(clientId, message);
             break;
         case 'file-chunk':
         case 'clipboard-sync':
+            // 파일 청크, 클립보드도 상대방에게 릴레이
+            await handleInputEvent(clientId, message);
+            break;
         case 'chat-message':
-            // 파일 청크, 클립보드, 채팅도 상대방에게 릴레이
-            handleInputEvent(clientId, message);
+            // 채팅은 세션 참여자 전체에게 전달
+            await handleInputEvent(clientId, message, { broadcast: true });
             break;
         case 'disconnect':
-            handleDisconnect(clientId);
+            await handleDisconnect(clientId);
             break;
         case 'ping':
             sendMessage(ws, { type: 'pong' });
             break;
-        default:
-            console.warn(`Unknown message type: ${message.type}`);
     }
 }
 
-function handleRegister(clientId: string, ws: WebSocket, message: any, ipAddress: string) {
-    const { connectionId, password, isHost, publicKey } = message;
+async function handleRegister(clientId: string, ws: WebSocket, message: RegisterMessage, ipAddress: string) {
+    const { connectionId, password, isHost, publicKey, accessMode, defaultGrant, authToken } = message;
 
     // 비밀번호 해싱 (salt는 connectionId 사용)
     const passwordHash = hashPassword(password, connectionId);
 
-    const client: Client = {
+    // 로그인한 사용자면 세션 기록을 계정에 연결 (토큰이 유효하지 않으면 익명으로 등록)
+    let userId = authToken ? await resolveRegisterUserId(authToken) : undefined;
+
+    // 등록된 장치면 서명 확인 후 장치 소유자 계정으로 등록 (실패하면 등록하지 않음)
+    let deviceId: string | undefined;
+    if (message.deviceId !== undefined) {
+        const device = await verifyDevice(message);
+        if (!device) {
+            sendMessage(ws, createErrorMessage('PERMISSION_DENIED', 'Device authentication failed', {
+                requestType: message.type,
+                field: 'deviceSignature',
+            }));
+            logAccess({ event: 'device_auth_failed', sourceId: connectionId, targetId: message.deviceId, ipAddress, success: false });
+            return;
+        }
+        deviceId = device.id;
+        userId = device.userId;
+    }
+
+    const client: ClientRecord = {
         id: clientId,
         connectionId,
         passwordHash,
-        ws,
+        nodeId: registry.nodeId,
         isHost,
+        userId,
+        deviceId,
+        accessMode: accessMode || 'password',
+        defaultGrant: normalizeSessionGrant(defaultGrant) || undefined,
         publicKey,
         ipAddress,
-        connectedAt: new Date(),
-        lastActivity: new Date(),
+        connectedAt: Date.now(),
     };
 
-    clients.set(clientId, client);
-    connectionIdMap.set(connectionId, clientId);
+    await registry.add(client);
+    const resumeToken = await resumption.issue(clientId);
 
     logAccess({
         event: 'register',
@@ -450,20 +583,53 @@ function handleRegister(clientId: string, ws: WebSocket, message: any, ipAddress
         type: 'registered',
         clientId,
         connectionId,
+        resumeToken,
+        resumeWindowMs: resumption.graceMs,
     });
 
-    console.log(`Client registered: ${connectionId} (${isHost ? 'Host' : 'Viewer'})`);
+    console.log(`Client registered: ${connectionId} (${isHost ? 'Host' : 'Viewer'}, ${client.accessMode}${deviceId ? `, device ${deviceId}` : ''})`);
+}
+
+/**
+ * register 메시지의 authToken 확인 (API 토큰은 sessions:connect 권한 필요)
+ */
+async function resolveRegisterUserId(authToken: string): Promise<string | undefined> {
+    if (!isApiToken(authToken)) {
+        return verifyAccessToken(authToken)?.userId;
+    }
+    const payload = await authenticateApiTokenFromDatabase(authToken);
+    return payload?.scopes?.includes('sessions:connect') ? payload.userId : undefined;
 }
 
-function handleConnect(clientId: string, message: any, ipAddress: string) {
-    const { targetConnectionId, password } = message;
-    const client = clients.get(clientId);
+/**
+ * register 메시지의 장치 서명 확인 (호스트만, 세 필드가 모두 있어야 함)
+ */
+async function verifyDevice(message: RegisterMessage) {
+    const { deviceId, deviceTimestamp, deviceSignature } = message;
+    if (!devices || !message.isHost || !deviceId || deviceTimestamp === undefined || !deviceSignature) return null;
+
+    try {
+        return await devices.verifyRegistration({
+            deviceId,
+            connectionId: message.connectionId,
+            timestamp: deviceTimestamp,
+            signature: deviceSignature,
+        });
+    } catch (error) {
+        logger.error('Failed to verify device:', error);
+        return null;
+    }
+}
+
+async function handleConnect(clientId: string, message: ConnectMessage, ipAddress: string) {
+    const { targetConnectionId, password, viewerName, requestedPermissions } = message;
+    const client = await registry.get(clientId);
 
     if (!client) return;
 
-    const targetClientId = connectionIdMap.get(targetConnectionId);
-    if (!targetClientId) {
-        sendMessage(client.ws, {
+    const targetClient = await registry.getByConnectionId(targetConnectionId);
+    if (!targetClient) {
+        await registry.send(clientId, {
             type: 'connect-error',
             error: 'Connection ID not found',
         });
@@ -477,20 +643,34 @@ function handleConnect(clientId: string, message: any, ipAddress: string) {
         return;
     }
 
-    const targetClient = clients.get(targetClientId);
-    if (!targetClient) {
-        sendMessage(client.ws, {
+    // 뷰어나 자기 자신을 대상으로 하면 다른 호스트의 세션에 끼어들 수 있으므로 거부
+    if (!isJoinableHost(client, targetClient)) {
+        await registry.send(clientId, {
             type: 'connect-error',
-            error: 'Target not available',
+            error: 'Target is not a host',
+            code: 'INVALID_TARGET',
+        });
+        logAccess({
+            event: 'connect_attempt',
+            sourceId: client.connectionId,
+            targetId: targetConnectionId,
+            ipAddress,
+            success: false,
+            details: { code: 'INVALID_TARGET' },
         });
         return;
     }
 
-    // 비밀번호 확인
+    const accessMode = targetClient.accessMode || 'password';
+
+    // 비밀번호 확인 (approval 모드는 호스트가 직접 판단)
     const passwordHash = hashPassword(password, targetConnectionId);
-    if (targetClient.passwordHash !== passwordHash) {
-        recordFailedAttempt(ipAddress);
-        sendMessage(client.ws, {
+    if (accessMode !== 'approval' && targetClient.passwordHash !== passwordHash) {
+        await registry.recordFailedAttempt(ipAddress);
+        if (await registry.isIPBlocked(ipAddress)) {
+            logAccess({ event: 'ip_locked_out', sourceId: client.connectionId, ipAddress, success: false });
+        }
+        await registry.send(clientId, {
             type: 'connect-error',
             error: 'Invalid password',
         });
@@ -504,130 +684,339 @@ function handleConnect(clientId: string, message: any, ipAddress: string) {
         return;
     }
 
-    // 세션 생성
-    const sessionId = uuidv4();
-    client.sessionId = sessionId;
-    client.connectedTo = targetClientId;
-    targetClient.sessionId = sessionId;
-    targetClient.connectedTo = clientId;
+    // 플랜 동시 세션 수 확인 (승인 요청 전에 미리 거절)
+    if (!(await checkPlanLimits(client, targetClient, ipAddress)).allowed) return;
+
+    if (accessMode !== 'password') {
+        // 호스트 승인 대기
+        const approval = await approvals.request(client, targetClient, { viewerName, ipAddress, requestedPermissions });
+        if (!approval) {
+            await registry.send(clientId, {
+                type: 'connect-error',
+                error: 'Host has too many pending requests',
+            });
+        }
+        logAccess({
+            event: 'approval_requested',
+            sourceId: client.connectionId,
+            targetId: targetConnectionId,
+            ipAddress,
+            success: approval !== null
+        });
+        return;
+    }
+
+    await establishSession(client, targetClient, targetClient.defaultGrant || FULL_CONTROL_GRANT, viewerName, ipAddress);
+}
+
+/**
+ * 등록된 장치에 비밀번호 없이 연결 (소유자 본인은 바로, 같은 조직 구성원은 호스트 승인 후)
+ */
+async function handleConnectDevice(clientId: string, message: ConnectDeviceMessage, ipAddress: string) {
+    const { deviceId, viewerName, requestedPermissions } = message;
+    const client = await registry.get(clientId);
+
+    if (!client) return;
+
+    const reject = async (error: string, code: ConnectErrorCode) => {
+        await registry.send(clientId, { type: 'connect-error', error, code });
+        logAccess({
+            event: 'device_connect_attempt',
+            sourceId: client.connectionId,
+            targetId: deviceId,
+            ipAddress,
+            success: false,
+            details: { code },
+        });
+    };
+
+    if (!client.userId) {
+        await reject('Login required', 'LOGIN_REQUIRED');
+        return;
+    }
+    if (!devices) {
+        await reject('Device not found', 'DEVICE_NOT_FOUND');
+        return;
+    }
+
+    const access = await devices.authorizeConnection(client.userId, deviceId);
+    if (!access.success) {
+        await reject(access.status === 403 ? 'Access to this device is not allowed' : 'Device not found',
+            access.status === 403 ? 'DEVICE_ACCESS_DENIED' : 'DEVICE_NOT_FOUND');
+        return;
+    }
+
+    // 재연결 대기 중인 호스트는 오프라인으로 취급
+    const targetClient = (await registry.list())
+        .find(c => c.isHost && c.deviceId === deviceId && c.suspendedUntil === undefined);
+    if (!targetClient) {
+        await reject('Device is offline', 'DEVICE_OFFLINE');
+        return;
+    }
+    if (!isJoinableHost(client, targetClient)) {
+        await reject('Target is not a host', 'INVALID_TARGET');
+        return;
+    }
+
+    if (!(await checkPlanLimits(client, targetClient, ipAddress)).allowed) return;
+
+    if (!access.isOwner) {
+        // 팀 구성원은 호스트의 접근 모드와 관계없이 장치 소유자 승인 필요
+        const approval = await approvals.request(client, targetClient, { viewerName, ipAddress, requestedPermissions });
+        if (!approval) {
+            await registry.send(clientId, {
+                type: 'connect-error',
+                error: 'Host has too many pending requests',
+            });
+        }
+        logAccess({
+            event: 'approval_requested',
+            sourceId: client.connectionId,
+            targetId: targetClient.connectionId,
+            ipAddress,
+            success: approval !== null,
+            details: { deviceId },
+        });
+        return;
+    }
+
+    await establishSession(client, targetClient, targetClient.defaultGrant || FULL_CONTROL_GRANT, viewerName, ipAddress);
+}
 
+async function handleConnectionResponse(clientId: string, message: ConnectionResponseMessage) {
+    const { requestId, accepted, reason } = message;
+    const result = await approvals.respond(clientId, requestId, accepted, reason);
+
+    const host = await registry.get(clientId);
     logAccess({
-        event: 'connect_success',
-        sourceId: client.connectionId,
-        targetId: targetConnectionId,
-        ipAddress,
-        success: true
+        event: accepted ? 'approval_accepted' : 'approval_rejected',
+        sourceId: host?.connectionId || clientId,
+        targetId: result?.viewer.connectionId,
+        success: accepted && result !== null
     });
 
-    // 양쪽에 연결 성공 알림 (공개키 포함)
-    sendMessage(client.ws, {
-        type: 'connect-success',
-        sessionId,
-        targetConnectionId,
-        targetPublicKey: targetClient.publicKey,
+    if (result) {
+        // 호스트가 권한을 지정하지 않으면 뷰어가 요청한 권한 부여
+        const grant = normalizeSessionGrant(message.grant)
+            || normalizeSessionGrant({ mode: 'control', permissions: result.approval.requestedPermissions })!;
+        await establishSession(result.viewer, result.host, grant, result.approval.viewerName, result.viewer.ipAddress);
+    }
+}
+
+async function handleUpdatePermissions(clientId: string, ws: WebSocket, message: UpdatePermissionsMessage) {
+    const grant = normalizeSessionGrant(message.grant);
+    if (!grant) {
+        sendMessage(ws, createErrorMessage('INVALID_FIELD', 'Invalid permission grant', {
+            requestType: message.type,
+            field: 'grant',
+        }));
+        return;
+    }
+
+    const updated = await sessions.updatePermissions(clientId, grant, message.targetConnectionId);
+    if (updated === null) {
+        sendMessage(ws, createErrorMessage('PERMISSION_DENIED', 'Only the host can change session permissions', {
+            requestType: message.type,
+        }));
+        return;
+    }
+
+    const client = await registry.get(clientId);
+    logAccess({
+        event: 'permissions_updated',
+        sourceId: client?.connectionId || clientId,
+        targetId: message.targetConnectionId,
+        success: updated > 0
     });
+}
+
+async function handleControlTransfer(clientId: string, ws: WebSocket, message: ControlTransferMessage) {
+    const transferred = await sessions.transferControl(clientId, message.targetConnectionId);
+    if (!transferred) {
+        sendMessage(ws, createErrorMessage('PERMISSION_DENIED', 'Control can only be given to a viewer with input permission', {
+            requestType: message.type,
+        }));
+    }
+}
+
+/**
+ * 뷰어를 호스트의 세션에 참여시키고 로그 기록
+ */
+async function establishSession(client: ClientRecord, targetClient: ClientRecord, grant: SessionGrant, viewerName?: string, ipAddress?: string) {
+    // 다른 세션에서 옮겨오는 뷰어는 이전 기록을 먼저 종료
+    if (client.sessionId && client.sessionId !== targetClient.sessionId) {
+        await recordSessionEnd(client, 'Joined another session');
+    }
+
+    // 승인 대기 중 다른 세션이 생겼을 수 있으므로 다시 확인
+    const plan = await checkPlanLimits(client, targetClient, ipAddress);
+    if (!plan.allowed) return;
+
+    const expiresAt = planLimits.getExpiresAt(plan);
+    const result = await sessions.join(client, targetClient, { grant, viewerName, expiresAt });
+
+    if (!result.ok) {
+        await registry.send(client.id, {
+            type: 'connect-error',
+            error: result.reason === 'SESSION_FULL' ? 'Session is full' : 'Target is not a host',
+            code: result.reason,
+        });
+    }
 
-    sendMessage(targetClient.ws, {
-        type: 'incoming-connection',
-        sessionId,
-        fromConnectionId: client.connectionId,
-        fromPublicKey: client.publicKey,
+    logAccess({
+        event: result.ok ? 'connect_success' : result.reason === 'SESSION_FULL' ? 'session_full' : 'connect_attempt',
+        sourceId: client.connectionId,
+        targetId: targetClient.connectionId,
+        ipAddress,
+        success: result.ok
     });
 
-    console.log(`Session created: ${sessionId} between ${client.connectionId} and ${targetConnectionId}`);
+    if (result.ok) {
+        planLimits.schedule(client.id, result.sessionId, expiresAt);
+        await recordSessionStart(result.sessionId, client, targetClient, viewerName);
+        console.log(`Session joined: ${result.sessionId} by ${client.connectionId} (host ${targetClient.connectionId})`);
+    }
+}
+
+/**
+ * 호스트/뷰어 플랜의 동시 세션 제한 확인 (초과 시 뷰어에게 PLAN_LIMIT 오류 전송)
+ */
+async function checkPlanLimits(client: ClientRecord, targetClient: ClientRecord, ipAddress?: string): Promise<PlanCheck> {
+    const check = await planLimits.check(client, targetClient);
+    if (!check.allowed) {
+        await registry.send(client.id, {
+            type: 'connect-error',
+            error: check.reason,
+            code: 'PLAN_LIMIT',
+        });
+        logAccess({
+            event: 'plan_limit',
+            sourceId: client.connectionId,
+            targetId: targetClient.connectionId,
+            ipAddress,
+            success: false,
+            details: { reason: check.reason }
+        });
+    }
+    return check;
+}
+
+/**
+ * 세션 시작 기록 (connection_logs)
+ */
+async function recordSessionStart(sessionId: string, viewer: ClientRecord, host: ClientRecord, viewerName?: string) {
+    if (!sessionHistory) return;
+    try {
+        await sessionHistory.start({
+            sessionId,
+            connectionId: viewer.connectionId,
+            connectedTo: host.connectionId,
+            userId: viewer.userId,
+            peerUserId: host.userId,
+            viewerName,
+        });
+    } catch (error) {
+        logger.error('Failed to record session start:', error);
+    }
 }
 
-function handleKeyExchange(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
+/**
+ * 세션 종료 기록 (호스트가 나가면 세션 전체, 뷰어면 해당 뷰어만)
+ */
+async function recordSessionEnd(client: ClientRecord, reason: string) {
+    if (!sessionHistory || !client.sessionId) return;
+    try {
+        const connectionId = client.sessionRole === 'viewer' ? client.connectionId : undefined;
+        await sessionHistory.end(client.sessionId, connectionId, reason);
+    } catch (error) {
+        logger.error('Failed to record session end:', error);
+    }
+}
+
+/**
+ * 세션 내 다른 참여자에게 메시지 전달
+ * 보낸 사람의 connectionId를 fromId로 붙여 호스트가 뷰어를 구분할 수 있게 함
+ */
+async function relayToSession(clientId: string, message: ServerMessage & { targetId?: string }, options: RouteOptions = {}): Promise<boolean> {
+    const route = await sessions.getRecipients(clientId, { ...options, targetId: message.targetId });
+    if (!route) return false;
 
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
+    const { targetId, ...payload } = message;
+    for (const recipient of route.recipients) {
+        await registry.send(recipient.id, { ...payload, fromId: route.client.connectionId } as ServerMessage);
+    }
+    return route.recipients.length > 0;
+}
 
+async function handleKeyExchange(clientId: string, message: KeyExchangeMessage) {
     // 공개키 교환 메시지 전달
-    sendMessage(partner.ws, {
+    await relayToSession(clientId, {
         type: 'key-exchange',
         publicKey: message.publicKey,
         sessionId: message.sessionId,
+        targetId: message.targetId,
     });
 }
 
-function handleSignaling(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
-
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
-
-    sendMessage(partner.ws, message);
+async function handleSignaling(clientId: string, message: PeerMessage) {
+    await relayToSession(clientId, message);
 }
 
-function handleWebRTCSignaling(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
-
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
-
+async function handleWebRTCSignaling(clientId: string, message: PeerMessage) {
     // WebRTC 시그널링 메시지를 상대방에게 전달
-    sendMessage(partner.ws, message);
-    console.log(`[WebRTC] ${message.type} from ${client.connectionId} to ${partner.connectionId}`);
+    if (await relayToSession(clientId, message)) {
+        console.log(`[WebRTC] ${message.type} from ${clientId} to ${message.targetId || 'session'}`);
+    }
 }
 
-function handleRelay(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
-
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
+async function handleRelay(clientId: string, message: RelayMessage) {
+    if (!(await isPermitted(clientId, message.type))) return;
 
-    sendMessage(partner.ws, {
+    await relayToSession(clientId, {
         type: 'relayed',
         data: message.data,
+        targetId: message.targetId,
     });
 }
 
-function handleScreenFrame(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
+async function handleScreenFrame(clientId: string, message: ScreenFrameMessage) {
+    // 화면 프레임은 호스트만 보낼 수 있고 모든 뷰어에게 전달
+    if (!(await isPermitted(clientId, message.type))) return;
 
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
-
-    // 화면 프레임을 상대방에게 전달
-    sendMessage(partner.ws, {
+    await relayToSession(clientId, {
         type: 'screen-frame',
         frame: message.frame,
+        targetId: message.targetId,
     });
 }
 
-function handleInputEvent(clientId: string, message: any) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
-
-    const partner = clients.get(client.connectedTo);
-    if (!partner) return;
+async function handleInputEvent(clientId: string, message: PeerMessage, options: RouteOptions = {}) {
+    if (!(await isPermitted(clientId, message.type))) return;
 
-    // 입력 이벤트를 상대방에게 전달
-    sendMessage(partner.ws, message);
+    await relayToSession(clientId, message, options);
 }
 
-function handleDisconnect(clientId: string) {
-    const client = clients.get(clientId);
-    if (!client || !client.connectedTo) return;
-
-    const partner = clients.get(client.connectedTo);
-    if (partner) {
-        sendMessage(partner.ws, {
-            type: 'disconnected',
-            reason: 'Partner disconnected',
-        });
-        partner.connectedTo = undefined;
-        partner.sessionId = undefined;
+// 뷰어가 보낸 메시지는 호스트가 부여한 권한과 제어 토큰 범위 내에서만 전달 (거부하면 PERMISSION_DENIED)
+async function isPermitted(clientId: string, type: string): Promise<boolean> {
+    const client = await registry.get(clientId);
+    if (!client || !client.sessionId) return false;
+
+    const check = await sessions.checkInput(client, type);
+    if (!check.allowed) {
+        await registry.send(clientId, createErrorMessage('PERMISSION_DENIED', check.reason, {
+            requestType: type,
+        }));
+        return false;
     }
+    return true;
+}
+
+async function handleDisconnect(clientId: string) {
+    const client = await registry.get(clientId);
+    if (!client || !client.sessionId) return;
 
-    client.connectedTo = undefined;
-    client.sessionId = undefined;
+    await recordSessionEnd(client, 'Disconnected');
+    await sessions.leave(clientId, 'Partner disconnected');
 
     logAccess({
         event: 'session_end',
@@ -636,22 +1025,24 @@ function handleDisconnect(clientId: string) {
     });
 }
 
-function sendMessage(ws: WebSocket, message: any) {
+function sendMessage(ws: WebSocket, message: ServerMessage) {
     if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(message));
+        ws.send(JSON.stringify({ ...message, v: SIGNALING_PROTOCOL_VERSION }));
     }
 }
 
-// 비활성 세션 정리 (5분마다)
+// 비활성 세션, 만료/폐기된 로그인 세션 정리 (5분마다)
 setInterval(() => {
     const now = new Date();
-    for (const [clientId, client] of clients.entries()) {
-        const inactive = now.getTime() - client.lastActivity.getTime();
+    for (const [clientId, connection] of localConnections.entries()) {
+        const inactive = now.getTime() - connection.lastActivity.getTime();
         if (inactive > SESSION_TIMEOUT_MS) {
-            console.log(`Session timeout: ${client.connectionId}`);
-            client.ws.close(4002, 'Session timeout');
+            console.log(`Session timeout: ${clientId}`);
+            closeLocalConnection(clientId, 4002, 'Session timeout');
         }
     }
+
+    loginSessions?.prune().catch(error => logger.error('Login session cleanup error:', error));
 }, 5 * 60 * 1000);
 
 // 서버 시작
@@ -661,6 +1052,9 @@ async function startServer() {
     // PostgreSQL 연결
     await initializeApp();
 
+    // 클라이언트 레지스트리 (분산 모드에서는 브로커 구독)
+    await registry.start();
+
     server.listen(PORT, () => {
         logger.info(`🚀 Remote Desktop Server running on port ${PORT}`);
         logger.info(`   WebSocket: ws://localhost:${PORT}`);
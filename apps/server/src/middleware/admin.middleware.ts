@@ -0,0 +1,90 @@
+/**
+ * 관리자 인증 미들웨어
+ * JWT로 로그인한 사용자의 관리자 역할을 DB에서 확인하고 역할별 권한을 검사
+ *
+ * 역할은 토큰에 넣지 않고 요청마다 조회하므로 역할을 회수하면 즉시 반영됨.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { userQueries } from '../models/database';
+import { AdminPermission, AdminRole } from '../types/api.types';
+
+export const ADMIN_ROLES: readonly AdminRole[] = ['support', 'billing', 'superadmin'];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+    support: ['clients:read', 'clients:disconnect', 'ip:block', 'logs:read', 'users:read'],
+    billing: ['users:read', 'users:write', 'subscriptions:read'],
+    superadmin: [
+        'clients:read',
+        'clients:disconnect',
+        'ip:block',
+        'logs:read',
+        'users:read',
+        'users:write',
+        'subscriptions:read',
+        'admins:manage',
+    ],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * 사용자의 관리자 역할 (역할 도입 전 is_admin 사용자는 superadmin)
+ */
+export function getAdminRole(user: { admin_role?: string | null; is_admin?: boolean } | null): AdminRole | null {
+    if (!user) return null;
+    if (isAdminRole(user.admin_role)) return user.admin_role;
+    return user.is_admin ? 'superadmin' : null;
+}
+
+export function hasAdminPermission(role: AdminRole, permission: AdminPermission): boolean {
+    return ADMIN_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export interface AdminGuardOptions {
+    findUser?: (userId: string) => Promise<any>;
+    // 권한 부족으로 거부된 요청 기록
+    onDenied?: (req: Request, reason: string) => void;
+}
+
+/**
+ * 관리자 권한 검증 미들웨어 (authMiddleware 다음에 사용)
+ * permission을 생략하면 관리자 역할만 확인
+ */
+export function requireAdmin(permission?: AdminPermission, options: AdminGuardOptions = {}) {
+    const findUser = options.findUser ?? userQueries.findById;
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (!req.user) {
+            res.status(401).json({ success: false, error: '인증이 필요합니다.' });
+            return;
+        }
+
+        try {
+            const user = await findUser(req.user.userId);
+            const role = getAdminRole(user);
+
+            if (!role) {
+                options.onDenied?.(req, 'not_admin');
+                res.status(403).json({ success: false, error: '관리자 권한이 필요합니다.' });
+                return;
+            }
+
+            if (permission && !hasAdminPermission(role, permission)) {
+                options.onDenied?.(req, `missing_permission:${permission}`);
+                res.status(403).json({ success: false, error: '이 작업을 수행할 권한이 없습니다.' });
+                return;
+            }
+
+            req.admin = { userId: user.id, email: user.email, role };
+            next();
+        } catch (error) {
+            console.error('Admin auth error:', error);
+            res.status(500).json({ success: false, error: '서버 오류가 발생했습니다.' });
+        }
+    };
+}
+
+export default { requireAdmin, getAdminRole, hasAdminPermission };
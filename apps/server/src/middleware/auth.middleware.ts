@@ -1,52 +1,141 @@
 /**
  * JWT 인증 미들웨어
+ * 개인 API 토큰(lvp_)은 scope를 선언한 미들웨어(apiTokenAuth)에서만 허용
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../services/auth.service';
+import { resolveMemberPlanFromDatabase } from '../services/organizations';
+import { ApiTokenScope, authenticateApiTokenFromDatabase, isApiToken } from '../services/apiTokens';
 import { JWTPayload } from '../types/api.types';
+import { PlanId, getHigherPlan, isPlanId } from '../../../../packages/protocol/src/plans';
+
+export interface AuthMiddlewareOptions {
+    // 조직 구성원이면 조직 플랜 (없으면 null)
+    resolveMemberPlan?: (userId: string) => Promise<PlanId | null>;
+    // 개인 API 토큰 확인 (유효하지 않으면 null)
+    authenticateApiToken?: (token: string) => Promise<JWTPayload | null>;
+    // 이 권한이 있는 API 토큰도 허용 (없으면 로그인 토큰만)
+    scope?: ApiTokenScope;
+}
 
 /**
- * JWT 인증 미들웨어
- * Authorization 헤더에서 Bearer 토큰을 추출하여 검증
+ * 토큰의 개인 플랜과 조직 플랜 중 높은 플랜 적용
  */
-export function authMiddleware(req: Request, res: Response, next: NextFunction): void {
-    const authHeader = req.headers.authorization;
+async function withMemberPlan(
+    payload: JWTPayload,
+    resolveMemberPlan: (userId: string) => Promise<PlanId | null>
+): Promise<JWTPayload> {
+    const memberPlan = await resolveMemberPlan(payload.userId);
+    if (!memberPlan) return payload;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        res.status(401).json({ success: false, error: '인증이 필요합니다.' });
-        return;
-    }
+    const plan = isPlanId(payload.plan) ? payload.plan : 'free';
+    return { ...payload, plan: getHigherPlan(plan, memberPlan) };
+}
 
-    const token = authHeader.substring(7); // 'Bearer ' 이후의 토큰
+/**
+ * Bearer 토큰 확인 (JWT 또는 개인 API 토큰)
+ */
+function createTokenVerifier(options: AuthMiddlewareOptions) {
+    const authenticateApiToken = options.authenticateApiToken ?? authenticateApiTokenFromDatabase;
 
-    const payload = verifyAccessToken(token);
-    if (!payload) {
-        res.status(401).json({ success: false, error: '유효하지 않거나 만료된 토큰입니다.' });
-        return;
-    }
+    return async (token: string): Promise<JWTPayload | null> => {
+        return isApiToken(token) ? authenticateApiToken(token) : verifyAccessToken(token);
+    };
+}
 
-    // 요청 객체에 사용자 정보 추가
-    req.user = payload;
-    next();
+/**
+ * API 토큰이면 요청한 권한이 있는지 확인 (로그인 토큰은 항상 허용)
+ */
+function isAllowedScope(payload: JWTPayload, scope: ApiTokenScope | undefined): boolean {
+    return !payload.scopes || (scope !== undefined && payload.scopes.includes(scope));
 }
 
 /**
- * 선택적 인증 미들웨어
+ * JWT 인증 미들웨어 생성 (테스트에서는 조직 플랜 조회와 API 토큰 확인을 교체)
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
+    const resolveMemberPlan = options.resolveMemberPlan ?? resolveMemberPlanFromDatabase;
+    const verifyToken = createTokenVerifier(options);
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const authHeader = req.headers.authorization;
+
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            res.status(401).json({ success: false, error: '인증이 필요합니다.' });
+            return;
+        }
+
+        const token = authHeader.substring(7); // 'Bearer ' 이후의 토큰
+
+        const payload = await verifyToken(token);
+        if (!payload) {
+            res.status(401).json({ success: false, error: '유효하지 않거나 만료된 토큰입니다.' });
+            return;
+        }
+
+        if (!isAllowedScope(payload, options.scope)) {
+            res.status(403).json({
+                success: false,
+                error: options.scope
+                    ? `API 토큰에 ${options.scope} 권한이 없습니다.`
+                    : '이 API는 API 토큰으로 사용할 수 없습니다. 로그인 후 이용해주세요.'
+            });
+            return;
+        }
+
+        // 요청 객체에 사용자 정보 추가
+        req.user = await withMemberPlan(payload, resolveMemberPlan);
+        next();
+    };
+}
+
+/**
+ * 선택적 인증 미들웨어 생성
  * 토큰이 있으면 검증하고, 없어도 통과
  */
-export function optionalAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
-    const authHeader = req.headers.authorization;
-
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-        const token = authHeader.substring(7);
-        const payload = verifyAccessToken(token);
-        if (payload) {
-            req.user = payload;
+export function createOptionalAuthMiddleware(options: AuthMiddlewareOptions = {}) {
+    const resolveMemberPlan = options.resolveMemberPlan ?? resolveMemberPlanFromDatabase;
+    const verifyToken = createTokenVerifier(options);
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const authHeader = req.headers.authorization;
+
+        if (authHeader && authHeader.startsWith('Bearer ')) {
+            const token = authHeader.substring(7);
+            const payload = await verifyToken(token);
+            if (payload && isAllowedScope(payload, options.scope)) {
+                req.user = await withMemberPlan(payload, resolveMemberPlan);
+            }
         }
-    }
 
-    next();
+        next();
+    };
+}
+
+/**
+ * JWT 인증 미들웨어
+ * Authorization 헤더에서 Bearer 토큰을 추출하여 검증하고, 조직 구성원이면 조직 플랜 적용
+ */
+export const authMiddleware = createAuthMiddleware();
+
+/**
+ * 선택적 인증 미들웨어
+ */
+export const optionalAuthMiddleware = createOptionalAuthMiddleware();
+
+const scopedAuthMiddlewares = new Map<ApiTokenScope, ReturnType<typeof createAuthMiddleware>>();
+
+/**
+ * 로그인 토큰 또는 scope 권한이 있는 API 토큰 인증 (자동화에 공개하는 API에 사용)
+ */
+export function apiTokenAuth(scope: ApiTokenScope) {
+    let middleware = scopedAuthMiddlewares.get(scope);
+    if (!middleware) {
+        middleware = createAuthMiddleware({ scope });
+        scopedAuthMiddlewares.set(scope, middleware);
+    }
+    return middleware;
 }
 
 /**
@@ -72,4 +161,4 @@ export function requirePlan(...allowedPlans: string[]) {
     };
 }
 
-export default { authMiddleware, optionalAuthMiddleware, requirePlan };
+export default { authMiddleware, optionalAuthMiddleware, apiTokenAuth, requirePlan, createAuthMiddleware };
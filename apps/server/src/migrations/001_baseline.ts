@@ -0,0 +1,260 @@
+/**
+ * 001 기준 스키마
+ * 마이그레이션 도입 전 createTables()가 만들던 스키마 (기존 데이터베이스에 다시 실행해도 안전하도록 IF NOT EXISTS 유지)
+ */
+
+import { Migration } from '../models/migrator';
+
+export const migration: Migration = {
+    version: 1,
+    name: 'baseline',
+    up: `
+        -- 사용자 테이블 (스키마 업데이트)
+        CREATE TABLE IF NOT EXISTS users (
+            id TEXT PRIMARY KEY,
+            email TEXT UNIQUE NOT NULL,
+            password_hash TEXT, -- OAuth 사용자는 비밀번호 없음 (Nullable 변경)
+            name TEXT NOT NULL,
+            plan TEXT DEFAULT 'free' CHECK(plan IN ('free', 'personal_pro', 'business', 'team')),
+            provider TEXT DEFAULT 'local', -- local, google, github
+            provider_id TEXT, -- OAuth ID
+            avatar_url TEXT,
+            trial_ends_at TIMESTAMP, -- 무료 체험 종료일
+            is_admin BOOLEAN DEFAULT FALSE, -- 관리자 여부
+            admin_role TEXT CHECK(admin_role IN ('support', 'billing', 'superadmin')), -- 관리자 역할 (NULL이면 일반 사용자)
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+
+        -- 기존 테이블 마이그레이션 (컬럼 추가)
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS provider TEXT DEFAULT 'local';
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS provider_id TEXT;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE;
+        ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS admin_role TEXT CHECK(admin_role IN ('support', 'billing', 'superadmin'));
+        -- 역할 도입 전 관리자는 superadmin
+        UPDATE users SET admin_role = 'superadmin' WHERE is_admin = TRUE AND admin_role IS NULL;
+
+        -- 이메일 인증 (OAuth 계정은 제공자가 확인한 이메일이므로 인증된 것으로 처리)
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+        UPDATE users SET email_verified_at = created_at WHERE provider <> 'local' AND email_verified_at IS NULL;
+
+        -- 이메일 인증/비밀번호 재설정 토큰 (토큰 원문은 저장하지 않고 서명으로 확인)
+        CREATE TABLE IF NOT EXISTS email_tokens (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            purpose TEXT NOT NULL CHECK(purpose IN ('verify_email', 'reset_password')),
+            expires_at TIMESTAMP NOT NULL,
+            used_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_email_tokens_user ON email_tokens(user_id, purpose);
+
+        -- 구독 테이블
+        CREATE TABLE IF NOT EXISTS subscriptions (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            plan TEXT NOT NULL CHECK(plan IN ('free', 'personal_pro', 'business', 'team')),
+            status TEXT DEFAULT 'active' CHECK(status IN ('active', 'cancelled', 'expired', 'past_due')),
+            billing_key TEXT,
+            customer_key TEXT,
+            current_period_start TIMESTAMP,
+            current_period_end TIMESTAMP,
+            cancelled_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON subscriptions(user_id);
+
+        -- 구독 마이그레이션 (웹훅에서 결제와 구독을 연결하기 위한 마지막 주문/결제 키)
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_order_id TEXT;
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_payment_key TEXT;
+        CREATE INDEX IF NOT EXISTS idx_subscriptions_order ON subscriptions(last_order_id);
+        CREATE INDEX IF NOT EXISTS idx_subscriptions_payment_key ON subscriptions(last_payment_key);
+
+        -- 구독 마이그레이션 (정기 결제 갱신 주기와 재시도 상태)
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS billing_cycle TEXT DEFAULT 'monthly';
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS renewal_attempts INTEGER DEFAULT 0;
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP;
+        CREATE INDEX IF NOT EXISTS idx_subscriptions_period_end ON subscriptions(current_period_end);
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS credit_balance INTEGER DEFAULT 0;
+        ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS seats INTEGER DEFAULT 1 CHECK(seats >= 1);
+
+        -- 조직 (팀/비즈니스 구독 하나에 연결, 사용자는 한 조직에만 소속)
+        CREATE TABLE IF NOT EXISTS organizations (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            subscription_id TEXT UNIQUE REFERENCES subscriptions(id) ON DELETE SET NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS organization_members (
+            organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+            user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+            role TEXT NOT NULL CHECK(role IN ('owner', 'admin', 'member')),
+            joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (organization_id, user_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS organization_invitations (
+            id TEXT PRIMARY KEY,
+            organization_id TEXT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+            email TEXT NOT NULL,
+            role TEXT NOT NULL CHECK(role IN ('admin', 'member')),
+            token_hash TEXT UNIQUE NOT NULL,
+            invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+            expires_at TIMESTAMP NOT NULL,
+            accepted_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_organization_invitations_org ON organization_invitations(organization_id);
+
+        -- 결제 내역 (영수증)
+        CREATE TABLE IF NOT EXISTS invoices (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            subscription_id TEXT REFERENCES subscriptions(id) ON DELETE SET NULL,
+            order_id TEXT UNIQUE NOT NULL,
+            kind TEXT NOT NULL CHECK(kind IN ('subscription', 'renewal', 'plan_change')),
+            plan TEXT NOT NULL,
+            amount INTEGER NOT NULL,
+            currency TEXT DEFAULT 'KRW',
+            status TEXT DEFAULT 'paid' CHECK(status IN ('paid', 'credited', 'refunded')),
+            line_items JSONB NOT NULL DEFAULT '[]',
+            payment_key TEXT,
+            method TEXT,
+            receipt_url TEXT,
+            period_start TIMESTAMP,
+            period_end TIMESTAMP,
+            paid_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_invoices_user ON invoices(user_id, created_at DESC);
+
+        -- 결제 웹훅 이벤트 (이벤트 ID로 중복 처리 방지)
+        CREATE TABLE IF NOT EXISTS payment_webhook_events (
+            event_id TEXT PRIMARY KEY,
+            event_type TEXT NOT NULL,
+            payment_key TEXT,
+            payment_status TEXT,
+            payload JSONB,
+            attempts INTEGER DEFAULT 1,
+            result TEXT,
+            received_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            processed_at TIMESTAMPTZ
+        );
+        CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_payment ON payment_webhook_events(payment_key);
+
+        -- 계정에 등록된 장치 (장치 키로 서명한 호스트 등록만 허용, 해제된 장치는 revoked_at 기록)
+        CREATE TABLE IF NOT EXISTS devices (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            name TEXT NOT NULL,
+            public_key TEXT NOT NULL,
+            platform TEXT,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            last_seen_at TIMESTAMP,
+            revoked_at TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_devices_user ON devices(user_id);
+
+        -- 2단계 인증 (TOTP 비밀키는 users와 분리해 프로필 응답에 포함되지 않도록, 복구 코드는 해시만 저장)
+        CREATE TABLE IF NOT EXISTS user_two_factor (
+            user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            secret TEXT,
+            pending_secret TEXT,
+            enabled_at TIMESTAMP,
+            last_used_step BIGINT,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+            id SERIAL PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            code_hash TEXT NOT NULL,
+            used_at TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes(user_id);
+
+        -- 연결 기록 테이블
+        CREATE TABLE IF NOT EXISTS connection_logs (
+            id TEXT PRIMARY KEY,
+            user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+            connection_id TEXT NOT NULL,
+            connected_to TEXT,
+            started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            ended_at TIMESTAMP,
+            duration_seconds INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_connection_logs_user ON connection_logs(user_id);
+
+        -- 연결 기록 마이그레이션 (세션 ID, 상대방 사용자, 종료 사유)
+        ALTER TABLE connection_logs ADD COLUMN IF NOT EXISTS session_id TEXT;
+        ALTER TABLE connection_logs ADD COLUMN IF NOT EXISTS peer_user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+        ALTER TABLE connection_logs ADD COLUMN IF NOT EXISTS viewer_name TEXT;
+        ALTER TABLE connection_logs ADD COLUMN IF NOT EXISTS end_reason TEXT;
+        CREATE INDEX IF NOT EXISTS idx_connection_logs_peer_user ON connection_logs(peer_user_id);
+        CREATE INDEX IF NOT EXISTS idx_connection_logs_session ON connection_logs(session_id);
+        CREATE INDEX IF NOT EXISTS idx_connection_logs_started ON connection_logs(started_at);
+
+        -- 리프레시 토큰 테이블
+        CREATE TABLE IF NOT EXISTS refresh_tokens (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            token TEXT UNIQUE NOT NULL,
+            expires_at TIMESTAMP NOT NULL,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id);
+        CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token ON refresh_tokens(token);
+
+        -- 리프레시 토큰 패밀리 (로그인 한 번 = 패밀리 하나, 갱신한 토큰은 rotated_at 기록, 재사용되면 패밀리 폐기)
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS family_id TEXT;
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP;
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS user_agent TEXT;
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS ip_address TEXT;
+        UPDATE refresh_tokens SET family_id = id WHERE family_id IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id);
+
+        -- 감사 로그 테이블 (접속/인증/관리자 작업 기록)
+        CREATE TABLE IF NOT EXISTS audit_logs (
+            id BIGSERIAL PRIMARY KEY,
+            event TEXT NOT NULL,
+            source_id TEXT NOT NULL,
+            target_id TEXT,
+            ip_address TEXT,
+            success BOOLEAN NOT NULL,
+            details JSONB,
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_created ON audit_logs(created_at);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_event ON audit_logs(event);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_source ON audit_logs(source_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_target ON audit_logs(target_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_logs_ip ON audit_logs(ip_address);
+    `,
+    down: `
+        DROP TABLE IF EXISTS audit_logs;
+        DROP TABLE IF EXISTS refresh_tokens;
+        DROP TABLE IF EXISTS connection_logs;
+        DROP TABLE IF EXISTS two_factor_recovery_codes;
+        DROP TABLE IF EXISTS user_two_factor;
+        DROP TABLE IF EXISTS devices;
+        DROP TABLE IF EXISTS payment_webhook_events;
+        DROP TABLE IF EXISTS invoices;
+        DROP TABLE IF EXISTS organization_invitations;
+        DROP TABLE IF EXISTS organization_members;
+        DROP TABLE IF EXISTS organizations;
+        DROP TABLE IF EXISTS subscriptions;
+        DROP TABLE IF EXISTS email_tokens;
+        DROP TABLE IF EXISTS users;
+    `,
+};
@@ -0,0 +1,30 @@
+/**
+ * 002 개인 API 토큰
+ */
+
+import { Migration } from '../models/migrator';
+
+export const migration: Migration = {
+    version: 2,
+    name: 'api_tokens',
+    up: `
+        -- 개인 API 토큰 (토큰 값은 SHA-256 해시만 저장)
+        CREATE TABLE IF NOT EXISTS api_tokens (
+            id TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            name TEXT NOT NULL,
+            token_hash TEXT UNIQUE NOT NULL,
+            prefix TEXT NOT NULL,
+            scopes TEXT[] NOT NULL,
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+            expires_at TIMESTAMPTZ NOT NULL,
+            last_used_at TIMESTAMPTZ,
+            revoked_at TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
+    `,
+    down: `
+        DROP TABLE IF EXISTS api_tokens;
+    `,
+};
@@ -0,0 +1,24 @@
+/**
+ * 003 Pub/Sub 큰 메시지
+ */
+
+import { Migration } from '../models/migrator';
+
+export const migration: Migration = {
+    version: 3,
+    name: 'pubsub_messages',
+    up: `
+        -- NOTIFY 한도(8000바이트)를 넘는 시그널링 노드 간 메시지 (NOTIFY에는 ID만 실림, 1분 뒤 삭제)
+        CREATE TABLE IF NOT EXISTS pubsub_messages (
+            id TEXT PRIMARY KEY,
+            channel TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pubsub_messages_created ON pubsub_messages(created_at);
+    `,
+    down: `
+        DROP TABLE IF EXISTS pubsub_messages;
+    `,
+};
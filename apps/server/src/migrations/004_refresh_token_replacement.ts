@@ -0,0 +1,17 @@
+/**
+ * 004 리프레시 토큰 교체 기록
+ */
+
+import { Migration } from '../models/migrator';
+
+export const migration: Migration = {
+    version: 4,
+    name: 'refresh_token_replacement',
+    up: `
+        -- 갱신으로 발급한 다음 토큰 (동시 갱신으로 바로 이전 토큰이 다시 오면 같은 토큰을 돌려줌)
+        ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS replaced_by TEXT;
+    `,
+    down: `
+        ALTER TABLE refresh_tokens DROP COLUMN IF EXISTS replaced_by;
+    `,
+};
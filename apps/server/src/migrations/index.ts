@@ -0,0 +1,17 @@
+/**
+ * 마이그레이션 목록
+ * 새 마이그레이션은 다음 번호로 파일을 추가하고 여기에 순서대로 등록 (적용된 마이그레이션은 수정하지 않음)
+ */
+
+import { Migration } from '../models/migrator';
+import { migration as baseline } from './001_baseline';
+import { migration as apiTokens } from './002_api_tokens';
+import { migration as pubsubMessages } from './003_pubsub_messages';
+import { migration as refreshTokenReplacement } from './004_refresh_token_replacement';
+
+export const migrations: Migration[] = [
+    baseline,
+    apiTokens,
+    pubsubMessages,
+    refreshTokenReplacement,
+];
@@ -5,10 +5,47 @@
 
 import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { migrations } from '../migrations';
+import { Migrator } from './migrator';
 
 // 데이터베이스 연결 풀
 let pool: Pool;
 
+// 쿼리 실행 인터페이스 (Pool 또는 테스트용 가짜 구현)
+export interface Queryable {
+    query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+/**
+ * DB 시각 값(TIMESTAMPTZ → Date, 또는 문자열)을 ISO 문자열로 (NULL이면 null)
+ */
+export function toIso(value: Date | string | number | null | undefined): string | null {
+    return value ? new Date(value).toISOString() : null;
+}
+
+// 트랜잭션용 연결을 빌려줄 수 있는 DB (Pool 또는 테스트용 가짜 구현)
+export interface TransactionalDatabase extends Queryable {
+    connect(): Promise<Queryable & { release(): void }>;
+}
+
+/**
+ * 연결 하나에서 BEGIN/COMMIT으로 실행 (오류가 나면 ROLLBACK 후 다시 던짐)
+ */
+export async function withTransaction<T>(db: TransactionalDatabase, work: (tx: Queryable) => Promise<T>): Promise<T> {
+    const client = await db.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await work(client);
+        await client.query('COMMIT');
+        return result;
+    } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
 /**
  * 데이터베이스 초기화
  */
@@ -36,98 +73,21 @@ export async function initDatabase(): Promise<Pool> {
         client.release();
     }
 
-    // 테이블 생성 및 마이그레이션
-    await createTables();
+    // 스키마 마이그레이션 (코드보다 새 버전의 스키마면 시작 거부)
+    await migrateSchema();
 
     console.log('✅ Database initialized');
     return pool;
 }
 
 /**
- * 테이블 생성 및 마이그레이션
+ * 대기 중인 마이그레이션 적용
  */
-async function createTables(): Promise<void> {
+async function migrateSchema(): Promise<void> {
     const client = await pool.connect();
     try {
-        // 사용자 테이블 (스키마 업데이트)
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS users (
-                id TEXT PRIMARY KEY,
-                email TEXT UNIQUE NOT NULL,
-                password_hash TEXT, -- OAuth 사용자는 비밀번호 없음 (Nullable 변경)
-                name TEXT NOT NULL,
-                plan TEXT DEFAULT 'free' CHECK(plan IN ('free', 'personal_pro', 'business', 'team')),
-                provider TEXT DEFAULT 'local', -- local, google, github
-                provider_id TEXT, -- OAuth ID
-                avatar_url TEXT,
-                trial_ends_at TIMESTAMP, -- 무료 체험 종료일
-                is_admin BOOLEAN DEFAULT FALSE, -- 관리자 여부
-                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            );
-            CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-        `);
-
-        // 기존 테이블 마이그레이션 (컬럼 추가)
-        try {
-            await client.query(`
-                ALTER TABLE users ADD COLUMN IF NOT EXISTS provider TEXT DEFAULT 'local';
-                ALTER TABLE users ADD COLUMN IF NOT EXISTS provider_id TEXT;
-                ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_url TEXT;
-                ALTER TABLE users ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP;
-                ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE;
-                ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
-            `);
-        } catch (e) {
-            console.log('Migration note: Columns might already exist or alteration skipped.');
-        }
-
-        // 구독 테이블
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS subscriptions (
-                id TEXT PRIMARY KEY,
-                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-                plan TEXT NOT NULL CHECK(plan IN ('free', 'personal_pro', 'business', 'team')),
-                status TEXT DEFAULT 'active' CHECK(status IN ('active', 'cancelled', 'expired', 'past_due')),
-                billing_key TEXT,
-                customer_key TEXT,
-                current_period_start TIMESTAMP,
-                current_period_end TIMESTAMP,
-                cancelled_at TIMESTAMP,
-                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            );
-            CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON subscriptions(user_id);
-        `);
-
-        // 연결 기록 테이블
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS connection_logs (
-                id TEXT PRIMARY KEY,
-                user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
-                connection_id TEXT NOT NULL,
-                connected_to TEXT,
-                started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-                ended_at TIMESTAMP,
-                duration_seconds INTEGER
-            );
-            CREATE INDEX IF NOT EXISTS idx_connection_logs_user ON connection_logs(user_id);
-        `);
-
-        // 리프레시 토큰 테이블
-        await client.query(`
-            CREATE TABLE IF NOT EXISTS refresh_tokens (
-                id TEXT PRIMARY KEY,
-                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-                token TEXT UNIQUE NOT NULL,
-                expires_at TIMESTAMP NOT NULL,
-                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            );
-            CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id);
-            CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token ON refresh_tokens(token);
-        `);
-
-        console.log('✅ Tables created/migrated');
+        const applied = await new Migrator(client, migrations).up();
+        applied.forEach(m => console.log(`✅ Migration ${m.version} (${m.name}) applied`));
     } finally {
         client.release();
     }
@@ -159,7 +119,8 @@ export async function closeDatabase(): Promise<void> {
 export const userQueries = {
     create: async (id: string, email: string, passwordHash: string | null, name: string, plan: string = 'free', provider: string = 'local', providerId: string | null = null, avatarUrl: string | null = null, trialEndsAt: string | null = null) => {
         const result = await pool.query(
-            'INSERT INTO users (id, email, password_hash, name, plan, provider, provider_id, avatar_url, trial_ends_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *',
+            `INSERT INTO users (id, email, password_hash, name, plan, provider, provider_id, avatar_url, trial_ends_at, email_verified_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CASE WHEN $6 = 'local' THEN NULL ELSE CURRENT_TIMESTAMP END) RETURNING *`,
             [id, email, passwordHash, name, plan, provider, providerId, avatarUrl, trialEndsAt]
         );
         return result.rows[0];
@@ -176,7 +137,7 @@ export const userQueries = {
     },
 
     findAll: async () => {
-        const result = await pool.query('SELECT id, email, name, plan, provider, avatar_url, trial_ends_at, is_admin, created_at FROM users ORDER BY created_at DESC');
+        const result = await pool.query('SELECT id, email, name, plan, provider, avatar_url, trial_ends_at, is_admin, admin_role, created_at FROM users ORDER BY created_at DESC');
         return result.rows;
     },
 
@@ -198,12 +159,21 @@ export const userQueries = {
 
     setAdmin: async (userId: string, isAdmin: boolean) => {
         const result = await pool.query(
-            'UPDATE users SET is_admin = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
+            'UPDATE users SET is_admin = $1, admin_role = CASE WHEN $1 THEN COALESCE(admin_role, \'superadmin\') END, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
             [isAdmin, userId]
         );
         return result.rows[0];
     },
 
+    // 관리자 역할 변경 (null이면 관리자 해제, is_admin도 함께 갱신)
+    setAdminRole: async (userId: string, role: string | null) => {
+        const result = await pool.query(
+            'UPDATE users SET admin_role = $1, is_admin = $1 IS NOT NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
+            [role, userId]
+        );
+        return result.rows[0];
+    },
+
     updateProfile: async (userId: string, name: string) => {
         const result = await pool.query(
             'UPDATE users SET name = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *',
@@ -225,17 +195,23 @@ export const subscriptionQueries = {
         billing_key?: string;
         customer_key?: string;
         current_period_end?: string;
+        last_order_id?: string;
+        last_payment_key?: string;
+        billing_cycle?: 'monthly' | 'yearly';
     }) => {
         const result = await pool.query(
-            `INSERT INTO subscriptions (id, user_id, plan, billing_key, customer_key, current_period_start, current_period_end)
-             VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, $6) RETURNING *`,
+            `INSERT INTO subscriptions (id, user_id, plan, billing_key, customer_key, current_period_start, current_period_end, last_order_id, last_payment_key, billing_cycle)
+             VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, $6, $7, $8, $9) RETURNING *`,
             [
                 subscription.id,
                 subscription.user_id,
                 subscription.plan,
                 subscription.billing_key || null,
                 subscription.customer_key || null,
-                subscription.current_period_end || null
+                subscription.current_period_end || null,
+                subscription.last_order_id || null,
+                subscription.last_payment_key || null,
+                subscription.billing_cycle || 'monthly'
             ]
         );
         return result.rows[0];
@@ -0,0 +1,166 @@
+/**
+ * 스키마 마이그레이션
+ * 번호가 붙은 마이그레이션(src/migrations)을 순서대로 적용/되돌리고 schema_migrations에 기록
+ *
+ * - 마이그레이션 하나는 트랜잭션 하나 (실패하면 기록되지 않고 전체 롤백)
+ * - 여러 인스턴스가 동시에 시작해도 advisory lock으로 한 곳에서만 적용
+ * - 코드가 모르는 버전이 적용된 데이터베이스(더 새 버전의 서버가 마이그레이션한 경우)에서는 실행 거부
+ */
+
+import { Queryable } from './database';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+    down: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: string;
+}
+
+export interface MigrationStatus {
+    current: number;
+    latest: number;
+    applied: AppliedMigration[];
+    pending: Migration[];
+    // 코드에 없는 적용 버전
+    unknown: AppliedMigration[];
+}
+
+// pg_advisory_lock 키 (임의의 고정 값)
+const MIGRATION_LOCK_ID = 72_614_019;
+
+export class UnknownSchemaVersionError extends Error {
+    constructor(public readonly versions: number[], public readonly latest: number) {
+        super(`Database schema version ${Math.max(...versions)} is newer than this server (latest known: ${latest}). Refusing to start.`);
+        this.name = 'UnknownSchemaVersionError';
+    }
+}
+
+export class Migrator {
+    private readonly migrations: Migration[];
+
+    /**
+     * @param db 한 연결 (트랜잭션과 잠금이 같은 세션에서 실행되어야 함)
+     */
+    constructor(
+        private readonly db: Queryable,
+        migrations: Migration[]
+    ) {
+        this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+        this.migrations.forEach((migration, index) => {
+            if (migration.version !== index + 1) {
+                throw new Error(`Migration versions must be sequential from 1 (found ${migration.version} at position ${index + 1})`);
+            }
+        });
+    }
+
+    async status(): Promise<MigrationStatus> {
+        await this.ensureTable();
+        const result = await this.db.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+        const applied: AppliedMigration[] = result.rows.map(row => ({
+            version: Number(row.version),
+            name: row.name,
+            appliedAt: new Date(row.applied_at).toISOString(),
+        }));
+
+        const appliedVersions = new Set(applied.map(m => m.version));
+        const known = new Set(this.migrations.map(m => m.version));
+
+        return {
+            current: applied.length > 0 ? applied[applied.length - 1].version : 0,
+            latest: this.migrations.length,
+            applied,
+            pending: this.migrations.filter(m => !appliedVersions.has(m.version)),
+            unknown: applied.filter(m => !known.has(m.version)),
+        };
+    }
+
+    /**
+     * 대기 중인 마이그레이션 적용 (target까지, 기본은 최신)
+     */
+    async up(target: number = this.migrations.length): Promise<Migration[]> {
+        return this.withLock(async () => {
+            const status = await this.assertKnown();
+            const pending = status.pending.filter(m => m.version <= target);
+
+            for (const migration of pending) {
+                await this.transaction(async () => {
+                    await this.db.query(migration.up);
+                    await this.db.query(
+                        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                        [migration.version, migration.name]
+                    );
+                });
+            }
+            return pending;
+        });
+    }
+
+    /**
+     * 마지막으로 적용한 마이그레이션부터 steps개 되돌리기 (1 이상, slice(-0)은 전체가 되므로 0은 거부)
+     */
+    async down(steps: number = 1): Promise<Migration[]> {
+        if (!Number.isInteger(steps) || steps < 1) {
+            throw new Error(`Invalid rollback steps: ${steps}`);
+        }
+
+        return this.withLock(async () => {
+            const status = await this.assertKnown();
+            const reverted = status.applied
+                .slice(Math.max(status.applied.length - steps, 0))
+                .reverse()
+                .map(applied => this.migrations[applied.version - 1]);
+
+            for (const migration of reverted) {
+                await this.transaction(async () => {
+                    await this.db.query(migration.down);
+                    await this.db.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+                });
+            }
+            return reverted;
+        });
+    }
+
+    private async assertKnown(): Promise<MigrationStatus> {
+        const status = await this.status();
+        if (status.unknown.length > 0) {
+            throw new UnknownSchemaVersionError(status.unknown.map(m => m.version), status.latest);
+        }
+        return status;
+    }
+
+    private async ensureTable(): Promise<void> {
+        await this.db.query(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                applied_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+    }
+
+    private async transaction(work: () => Promise<void>): Promise<void> {
+        await this.db.query('BEGIN');
+        try {
+            await work();
+            await this.db.query('COMMIT');
+        } catch (error) {
+            await this.db.query('ROLLBACK');
+            throw error;
+        }
+    }
+
+    private async withLock<T>(work: () => Promise<T>): Promise<T> {
+        await this.db.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+        try {
+            return await work();
+        } finally {
+            await this.db.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * 스키마 마이그레이션 CLI
+ *
+ *   npm run migrate -- status        적용/대기 중인 마이그레이션 표시
+ *   npm run migrate -- up [version]  대기 중인 마이그레이션 적용 (version까지, 기본은 최신)
+ *   npm run migrate -- down [steps]  마지막 마이그레이션부터 steps개 되돌리기 (1 이상, 기본 1)
+ */
+
+import { Pool } from 'pg';
+import { migrations } from '../migrations';
+import { Migrator } from '../models/migrator';
+
+const USAGE = 'Usage: npm run migrate -- <status | up [version] | down [steps]>';
+
+function parseCount(value: string | undefined, fallback: number, min = 0): number {
+    if (value === undefined) return fallback;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+        console.error(`Invalid number: ${value}`);
+        process.exit(1);
+    }
+    return count;
+}
+
+async function main() {
+    const [command = 'status', arg] = process.argv.slice(2);
+    if (!['status', 'up', 'down'].includes(command)) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const dbUrl = process.env.DATABASE_URL;
+    if (!dbUrl || !dbUrl.startsWith('postgres')) {
+        console.error('DATABASE_URL environment variable is required.');
+        process.exit(1);
+    }
+
+    const pool = new Pool({
+        connectionString: dbUrl,
+        ssl: { rejectUnauthorized: false } // Required for Render External connections
+    });
+
+    let exitCode = 0;
+    const client = await pool.connect();
+    try {
+        const migrator = new Migrator(client, migrations);
+
+        if (command === 'up') {
+            const applied = await migrator.up(parseCount(arg, migrations.length));
+            applied.forEach(m => console.log(`✅ Applied ${m.version} (${m.name})`));
+            if (applied.length === 0) console.log('Already up to date.');
+        } else if (command === 'down') {
+            const reverted = await migrator.down(parseCount(arg, 1, 1));
+            reverted.forEach(m => console.log(`✅ Reverted ${m.version} (${m.name})`));
+            if (reverted.length === 0) console.log('Nothing to roll back.');
+        }
+
+        const status = await migrator.status();
+        console.log(`Schema version: ${status.current} (latest: ${status.latest})`);
+        status.applied.forEach(m => console.log(`  [x] ${m.version} ${m.name} (${m.appliedAt})`));
+        status.pending.forEach(m => console.log(`  [ ] ${m.version} ${m.name}`));
+        status.unknown.forEach(m => console.log(`  [?] ${m.version} ${m.name} (unknown to this server)`));
+    } catch (err: any) {
+        console.error('❌ Migration failed:', err.message);
+        exitCode = 1;
+    } finally {
+        client.release();
+        await pool.end();
+    }
+    process.exit(exitCode);
+}
+
+main();
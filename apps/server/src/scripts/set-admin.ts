@@ -54,11 +54,18 @@ async function main() {
         process.exit(1);
     }
 
-    // 4. Update User
+    // 4. Get Role
+    const role = (await question('Enter admin role (support, billing, superadmin) [superadmin]: ')).trim() || 'superadmin';
+    if (!['support', 'billing', 'superadmin'].includes(role)) {
+        console.error('Invalid role.');
+        process.exit(1);
+    }
+
+    // 5. Update User
     try {
         const result = await pool.query(
-            `UPDATE users SET is_admin = true, updated_at = NOW() WHERE email = $1 RETURNING id, email, is_admin`,
-            [email]
+            `UPDATE users SET is_admin = true, admin_role = $2, updated_at = NOW() WHERE email = $1 RETURNING id, email, is_admin, admin_role`,
+            [email, role]
         );
 
         if (result.rowCount === 0) {
@@ -0,0 +1,257 @@
+/**
+ * 이메일 인증 / 비밀번호 재설정
+ * 메일로 보낸 링크의 토큰을 확인해서 이메일 인증 또는 비밀번호 변경
+ *
+ * - 토큰: `<ID>.<서명>` (ID는 email_tokens 행, 서명은 서버 비밀키 HMAC → DB가 유출되어도 토큰을 만들 수 없음)
+ * - 만료 시간이 지나거나 한 번 사용한 토큰은 거부, 새 토큰을 발급하면 같은 용도의 이전 토큰은 무효
+ * - 비밀번호를 재설정하면 기존 로그인(리프레시 토큰)도 모두 만료
+ */
+
+import crypto from 'crypto';
+import { Queryable, toIso } from '../models/database';
+import { MailTransport } from './mailer';
+
+export type EmailTokenPurpose = 'verify_email' | 'reset_password';
+
+export const DEFAULT_VERIFY_EMAIL_TTL_MS = 24 * 60 * 60 * 1000; // 24시간
+export const DEFAULT_RESET_PASSWORD_TTL_MS = 60 * 60 * 1000; // 1시간
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface AccountUser {
+    id: string;
+    email: string;
+    name: string;
+    // OAuth 전용 계정은 false
+    hasPassword: boolean;
+    emailVerifiedAt: string | null;
+}
+
+export interface EmailTokenRecord {
+    id: string;
+    userId: string;
+    purpose: EmailTokenPurpose;
+    expiresAt: string;
+    usedAt: string | null;
+}
+
+/**
+ * 이메일 인증/재설정 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface AccountEmailStore {
+    findUserById(userId: string): Promise<AccountUser | null>;
+    findUserByEmail(email: string): Promise<AccountUser | null>;
+    createToken(token: Omit<EmailTokenRecord, 'usedAt'>): Promise<void>;
+    getToken(tokenId: string): Promise<EmailTokenRecord | null>;
+    // 사용하지 않은 토큰이면 사용 처리하고 true
+    consumeToken(tokenId: string, usedAt: Date): Promise<boolean>;
+    // 같은 용도의 남은 토큰 무효화
+    invalidateTokens(userId: string, purpose: EmailTokenPurpose, at: Date): Promise<void>;
+    markEmailVerified(userId: string, verifiedAt: Date): Promise<void>;
+    // 비밀번호 변경 + 리프레시 토큰 삭제
+    updatePassword(userId: string, passwordHash: string): Promise<void>;
+}
+
+export type AccountEmailResult<T = {}> =
+    | ({ success: true } & T)
+    | { success: false; status: 400 | 404 | 409; error: string };
+
+export interface AccountEmailServiceOptions {
+    // 토큰 서명 키
+    secret: string;
+    mailer: MailTransport;
+    hashPassword: (password: string) => Promise<string>;
+    // 메일 링크 기준 주소 (웹사이트)
+    appUrl?: string;
+    verifyEmailTtlMs?: number;
+    resetPasswordTtlMs?: number;
+    now?: () => number;
+}
+
+const INVALID_TOKEN = '링크가 만료되었거나 올바르지 않습니다.';
+
+const fail = (status: 400 | 404 | 409, error: string) => ({ success: false as const, status, error });
+
+export class AccountEmailService {
+    private readonly now: () => number;
+    private readonly appUrl: string;
+
+    constructor(
+        private readonly store: AccountEmailStore,
+        private readonly options: AccountEmailServiceOptions
+    ) {
+        this.now = options.now ?? Date.now;
+        this.appUrl = (options.appUrl ?? 'https://www.lunarview-remote.com').replace(/\/$/, '');
+    }
+
+    /**
+     * 인증 메일 발송 (이미 인증된 이메일이면 409)
+     */
+    async sendVerification(userId: string): Promise<AccountEmailResult> {
+        const user = await this.store.findUserById(userId);
+        if (!user) return fail(404, '사용자를 찾을 수 없습니다.');
+        if (user.emailVerifiedAt) return fail(409, '이미 인증된 이메일입니다.');
+
+        const token = await this.issueToken(user.id, 'verify_email', this.options.verifyEmailTtlMs ?? DEFAULT_VERIFY_EMAIL_TTL_MS);
+        const link = `${this.appUrl}/verify-email.html?token=${encodeURIComponent(token)}`;
+
+        await this.options.mailer.send({
+            to: user.email,
+            subject: 'LunarView 이메일 인증',
+            text: `${user.name}님, 아래 링크를 열어 이메일 인증을 완료해주세요.\n\n${link}\n\n링크는 24시간 동안 유효합니다.`,
+        });
+        return { success: true };
+    }
+
+    /**
+     * 이메일 인증 완료
+     */
+    async verifyEmail(token: string): Promise<AccountEmailResult<{ userId: string }>> {
+        const record = await this.consumeToken(token, 'verify_email');
+        if (!record) return fail(400, INVALID_TOKEN);
+
+        await this.store.markEmailVerified(record.userId, new Date(this.now()));
+        return { success: true, userId: record.userId };
+    }
+
+    /**
+     * 비밀번호 재설정 메일 발송
+     * 가입 여부가 드러나지 않도록 없는 이메일/OAuth 계정도 결과는 같음 (라우터는 완료를 기다리지 않고 응답)
+     */
+    async requestPasswordReset(email: string): Promise<void> {
+        const user = await this.store.findUserByEmail(email.trim().toLowerCase());
+        if (!user || !user.hasPassword) return;
+
+        const token = await this.issueToken(user.id, 'reset_password', this.options.resetPasswordTtlMs ?? DEFAULT_RESET_PASSWORD_TTL_MS);
+        const link = `${this.appUrl}/reset-password.html?token=${encodeURIComponent(token)}`;
+
+        await this.options.mailer.send({
+            to: user.email,
+            subject: 'LunarView 비밀번호 재설정',
+            text: `${user.name}님, 아래 링크에서 새 비밀번호를 설정해주세요.\n\n${link}\n\n링크는 1시간 동안 유효합니다. 요청하지 않으셨다면 이 메일을 무시하세요.`,
+        });
+    }
+
+    /**
+     * 비밀번호 재설정 (메일을 받았으므로 이메일 인증도 함께 처리)
+     */
+    async resetPassword(token: string, password: string): Promise<AccountEmailResult> {
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return fail(400, `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`);
+        }
+
+        const record = await this.consumeToken(token, 'reset_password');
+        if (!record) return fail(400, INVALID_TOKEN);
+
+        await this.store.updatePassword(record.userId, await this.options.hashPassword(password));
+        const user = await this.store.findUserById(record.userId);
+        if (user && !user.emailVerifiedAt) {
+            await this.store.markEmailVerified(record.userId, new Date(this.now()));
+        }
+        return { success: true };
+    }
+
+    private async issueToken(userId: string, purpose: EmailTokenPurpose, ttlMs: number): Promise<string> {
+        const now = new Date(this.now());
+        await this.store.invalidateTokens(userId, purpose, now);
+
+        const id = crypto.randomBytes(16).toString('hex');
+        await this.store.createToken({ id, userId, purpose, expiresAt: new Date(now.getTime() + ttlMs).toISOString() });
+        return `${id}.${this.sign(id, purpose)}`;
+    }
+
+    // 서명/용도/만료 확인 후 사용 처리 (동시에 같은 토큰을 쓰면 한 번만 성공)
+    private async consumeToken(token: string, purpose: EmailTokenPurpose): Promise<EmailTokenRecord | null> {
+        const [id, signature] = token.split('.');
+        if (!id || !signature) return null;
+
+        const expected = this.sign(id, purpose);
+        if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            return null;
+        }
+
+        const record = await this.store.getToken(id);
+        if (!record || record.purpose !== purpose || record.usedAt) return null;
+        if (Date.parse(record.expiresAt) <= this.now()) return null;
+
+        return await this.store.consumeToken(id, new Date(this.now())) ? record : null;
+    }
+
+    private sign(id: string, purpose: EmailTokenPurpose): string {
+        return crypto.createHmac('sha256', this.options.secret).update(`${purpose}:${id}`).digest('base64url');
+    }
+}
+
+export class PostgresAccountEmailStore implements AccountEmailStore {
+    constructor(private readonly db: Queryable) { }
+
+    async findUserById(userId: string): Promise<AccountUser | null> {
+        const result = await this.db.query('SELECT * FROM users WHERE id = $1', [userId]);
+        return result.rows[0] ? rowToAccountUser(result.rows[0]) : null;
+    }
+
+    async findUserByEmail(email: string): Promise<AccountUser | null> {
+        const result = await this.db.query('SELECT * FROM users WHERE LOWER(email) = $1', [email]);
+        return result.rows[0] ? rowToAccountUser(result.rows[0]) : null;
+    }
+
+    async createToken(token: Omit<EmailTokenRecord, 'usedAt'>): Promise<void> {
+        await this.db.query(
+            'INSERT INTO email_tokens (id, user_id, purpose, expires_at) VALUES ($1, $2, $3, $4)',
+            [token.id, token.userId, token.purpose, token.expiresAt]
+        );
+    }
+
+    async getToken(tokenId: string): Promise<EmailTokenRecord | null> {
+        const result = await this.db.query('SELECT * FROM email_tokens WHERE id = $1', [tokenId]);
+        const row = result.rows[0];
+        if (!row) return null;
+
+        return {
+            id: row.id,
+            userId: row.user_id,
+            purpose: row.purpose,
+            expiresAt: toIso(row.expires_at)!,
+            usedAt: toIso(row.used_at),
+        };
+    }
+
+    async consumeToken(tokenId: string, usedAt: Date): Promise<boolean> {
+        const result = await this.db.query(
+            'UPDATE email_tokens SET used_at = $2 WHERE id = $1 AND used_at IS NULL RETURNING id',
+            [tokenId, usedAt]
+        );
+        return result.rows.length > 0;
+    }
+
+    async invalidateTokens(userId: string, purpose: EmailTokenPurpose, at: Date): Promise<void> {
+        await this.db.query(
+            'UPDATE email_tokens SET used_at = $3 WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+            [userId, purpose, at]
+        );
+    }
+
+    async markEmailVerified(userId: string, verifiedAt: Date): Promise<void> {
+        await this.db.query(
+            'UPDATE users SET email_verified_at = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [userId, verifiedAt]
+        );
+    }
+
+    async updatePassword(userId: string, passwordHash: string): Promise<void> {
+        await this.db.query(
+            'UPDATE users SET password_hash = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [userId, passwordHash]
+        );
+        await this.db.query('DELETE FROM refresh_tokens WHERE user_id = $1', [userId]);
+    }
+}
+
+function rowToAccountUser(row: any): AccountUser {
+    return {
+        id: row.id,
+        email: row.email,
+        name: row.name,
+        hasPassword: Boolean(row.password_hash),
+        emailVerifiedAt: toIso(row.email_verified_at),
+    };
+}
@@ -0,0 +1,263 @@
+/**
+ * 개인 API 토큰
+ * 스크립트/자동화용 토큰 (장치 목록, 세션 기록 조회, 시그널링 연결 등)
+ *
+ * - 토큰은 발급 시 한 번만 보여주고 SHA-256 해시만 저장
+ * - 토큰마다 허용 범위(scope)와 만료일이 있고, 범위를 선언한 API에서만 사용 가능
+ * - 토큰 관리(/api/tokens), 비밀번호/2단계 인증 같은 계정 설정은 로그인(JWT)으로만 가능
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, getDatabase, toIso } from '../models/database';
+import { JWTPayload, UserPlan } from '../types/api.types';
+
+export const API_TOKEN_PREFIX = 'lvp_';
+export const MAX_API_TOKENS_PER_USER = 20;
+export const MAX_API_TOKEN_NAME_LENGTH = 64;
+export const DEFAULT_API_TOKEN_TTL_DAYS = 30;
+export const MAX_API_TOKEN_TTL_DAYS = 365;
+// 마지막 사용 시간 갱신 간격 (요청마다 쓰지 않도록)
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const API_TOKEN_SCOPES = [
+    'account:read',
+    'devices:read',
+    'devices:write',
+    'sessions:read',
+    'sessions:connect',
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export interface ApiToken {
+    id: string;
+    name: string;
+    scopes: ApiTokenScope[];
+    // 목록에서 토큰을 구분하기 위한 앞부분 (lvp_xxxx)
+    prefix: string;
+    createdAt: string;
+    expiresAt: string;
+    lastUsedAt: string | null;
+}
+
+export interface ApiTokenRecord extends ApiToken {
+    userId: string;
+    revokedAt: string | null;
+}
+
+// 토큰 소유자 (인증 시 현재 플랜 반영)
+export interface ApiTokenOwner {
+    email: string;
+    plan: UserPlan;
+}
+
+export interface NewApiToken {
+    name: string;
+    scopes: ApiTokenScope[];
+    expiresInDays?: number;
+}
+
+/**
+ * 토큰 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface ApiTokenStore {
+    create(token: ApiTokenRecord & { tokenHash: string }): Promise<void>;
+    countActive(userId: string, now: Date): Promise<number>;
+    // 폐기/만료되지 않은 토큰 (최근 생성 순)
+    listActive(userId: string, now: Date): Promise<ApiToken[]>;
+    findByHash(tokenHash: string): Promise<(ApiTokenRecord & ApiTokenOwner) | null>;
+    touch(tokenId: string, usedAt: Date): Promise<void>;
+    revoke(userId: string, tokenId: string, revokedAt: Date): Promise<boolean>;
+}
+
+export type ApiTokenResult<T = {}> =
+    | ({ success: true } & T)
+    | { success: false; status: 400 | 404 | 409; error: string };
+
+export interface ApiTokenServiceOptions {
+    now?: () => number;
+}
+
+export function isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+    return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+export function hashApiToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+const fail = (status: 400 | 404 | 409, error: string) => ({ success: false as const, status, error });
+
+export class ApiTokenService {
+    private readonly now: () => number;
+
+    constructor(
+        private readonly store: ApiTokenStore,
+        options: ApiTokenServiceOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 토큰 발급 (secret은 응답으로 한 번만 전달)
+     */
+    async create(userId: string, input: NewApiToken): Promise<ApiTokenResult<{ token: ApiToken; secret: string }>> {
+        const name = input.name.trim();
+        if (!name || name.length > MAX_API_TOKEN_NAME_LENGTH) {
+            return fail(400, `토큰 이름은 1~${MAX_API_TOKEN_NAME_LENGTH}자여야 합니다.`);
+        }
+
+        const scopes = [...new Set(input.scopes)];
+        if (scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+            return fail(400, `권한 범위를 하나 이상 선택해야 합니다. (${API_TOKEN_SCOPES.join(', ')})`);
+        }
+
+        const days = input.expiresInDays ?? DEFAULT_API_TOKEN_TTL_DAYS;
+        if (!Number.isInteger(days) || days < 1 || days > MAX_API_TOKEN_TTL_DAYS) {
+            return fail(400, `만료 기간은 1~${MAX_API_TOKEN_TTL_DAYS}일이어야 합니다.`);
+        }
+
+        const now = new Date(this.now());
+        if (await this.store.countActive(userId, now) >= MAX_API_TOKENS_PER_USER) {
+            return fail(409, `API 토큰은 최대 ${MAX_API_TOKENS_PER_USER}개까지 만들 수 있습니다.`);
+        }
+
+        const secret = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+        const token: ApiToken = {
+            id: uuidv4(),
+            name,
+            scopes,
+            prefix: secret.slice(0, API_TOKEN_PREFIX.length + 4),
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + days * DAY_MS).toISOString(),
+            lastUsedAt: null,
+        };
+
+        await this.store.create({ ...token, userId, revokedAt: null, tokenHash: hashApiToken(secret) });
+        return { success: true, token, secret };
+    }
+
+    async list(userId: string): Promise<ApiToken[]> {
+        return this.store.listActive(userId, new Date(this.now()));
+    }
+
+    async revoke(userId: string, tokenId: string): Promise<ApiTokenResult> {
+        if (!(await this.store.revoke(userId, tokenId, new Date(this.now())))) {
+            return fail(404, 'API 토큰을 찾을 수 없습니다.');
+        }
+        return { success: true };
+    }
+
+    /**
+     * Bearer 토큰 확인 (폐기/만료/알 수 없는 토큰이면 null)
+     */
+    async authenticate(secret: string): Promise<JWTPayload | null> {
+        if (!isApiToken(secret)) return null;
+
+        const record = await this.store.findByHash(hashApiToken(secret));
+        const now = this.now();
+        if (!record || record.revokedAt || Date.parse(record.expiresAt) <= now) {
+            return null;
+        }
+
+        if (!record.lastUsedAt || now - Date.parse(record.lastUsedAt) >= TOUCH_INTERVAL_MS) {
+            await this.store.touch(record.id, new Date(now));
+        }
+
+        return {
+            userId: record.userId,
+            email: record.email,
+            plan: record.plan,
+            apiTokenId: record.id,
+            scopes: record.scopes,
+        };
+    }
+}
+
+/**
+ * DB로 API 토큰 확인 (DB가 없으면 null)
+ */
+export async function authenticateApiTokenFromDatabase(secret: string): Promise<JWTPayload | null> {
+    try {
+        return await new ApiTokenService(new PostgresApiTokenStore(getDatabase())).authenticate(secret);
+    } catch {
+        return null;
+    }
+}
+
+export class PostgresApiTokenStore implements ApiTokenStore {
+    constructor(private readonly db: Queryable) { }
+
+    async create(token: ApiTokenRecord & { tokenHash: string }): Promise<void> {
+        await this.db.query(
+            `INSERT INTO api_tokens (id, user_id, name, token_hash, prefix, scopes, created_at, expires_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [token.id, token.userId, token.name, token.tokenHash, token.prefix, token.scopes, token.createdAt, token.expiresAt]
+        );
+    }
+
+    async countActive(userId: string, now: Date): Promise<number> {
+        const result = await this.db.query(
+            'SELECT COUNT(*) AS total FROM api_tokens WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2',
+            [userId, now]
+        );
+        return Number(result.rows[0]?.total ?? 0);
+    }
+
+    async listActive(userId: string, now: Date): Promise<ApiToken[]> {
+        const result = await this.db.query(
+            `SELECT * FROM api_tokens
+             WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2
+             ORDER BY created_at DESC`,
+            [userId, now]
+        );
+        return result.rows.map(row => {
+            const { userId: _userId, revokedAt: _revokedAt, ...token } = rowToApiToken(row);
+            return token;
+        });
+    }
+
+    async findByHash(tokenHash: string): Promise<(ApiTokenRecord & ApiTokenOwner) | null> {
+        const result = await this.db.query(
+            `SELECT t.*, u.email, u.plan
+             FROM api_tokens t
+             JOIN users u ON u.id = t.user_id
+             WHERE t.token_hash = $1`,
+            [tokenHash]
+        );
+        const row = result.rows[0];
+        return row ? { ...rowToApiToken(row), email: row.email, plan: row.plan } : null;
+    }
+
+    async touch(tokenId: string, usedAt: Date): Promise<void> {
+        await this.db.query('UPDATE api_tokens SET last_used_at = $2 WHERE id = $1', [tokenId, usedAt]);
+    }
+
+    async revoke(userId: string, tokenId: string, revokedAt: Date): Promise<boolean> {
+        const result = await this.db.query(
+            'UPDATE api_tokens SET revoked_at = $3 WHERE id = $2 AND user_id = $1 AND revoked_at IS NULL RETURNING id',
+            [userId, tokenId, revokedAt]
+        );
+        return result.rows.length > 0;
+    }
+}
+
+function rowToApiToken(row: any): ApiTokenRecord {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        name: row.name,
+        scopes: (row.scopes || []).filter(isApiTokenScope),
+        prefix: row.prefix,
+        createdAt: toIso(row.created_at)!,
+        expiresAt: toIso(row.expires_at)!,
+        lastUsedAt: toIso(row.last_used_at),
+        revokedAt: toIso(row.revoked_at),
+    };
+}
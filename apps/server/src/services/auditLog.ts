@@ -0,0 +1,270 @@
+/**
+ * 감사 로그 서비스
+ * 접속/인증/관리자 작업 기록을 데이터베이스에 저장하고 조건별로 조회
+ *
+ * 커서는 마지막으로 반환한 항목의 ID (ID는 기록 순서대로 증가하므로 최신순 정렬 기준으로 사용)
+ * DB가 없는 개발 환경에서는 메모리 저장소를 사용
+ */
+
+import { Queryable } from '../models/database';
+
+export interface AuditEvent {
+    event: string;
+    sourceId: string;
+    targetId?: string;
+    ipAddress?: string;
+    success: boolean;
+    details?: Record<string, unknown>;
+}
+
+export interface AuditLogEntry extends AuditEvent {
+    id: string;
+    timestamp: Date;
+}
+
+export interface AuditLogQuery {
+    from?: Date;
+    to?: Date;
+    events?: string[];
+    // source 또는 target이 일치하는 기록
+    connectionId?: string;
+    ipAddress?: string;
+    cursor?: string;
+    limit?: number;
+}
+
+export interface AuditLogPage {
+    entries: AuditLogEntry[];
+    nextCursor: string | null;
+}
+
+export interface AuditLogStore {
+    append(event: AuditEvent): Promise<void>;
+    query(query: AuditLogQuery): Promise<AuditLogPage>;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 100;
+export const MAX_AUDIT_PAGE_SIZE = 1000;
+
+/**
+ * 페이지 크기 보정 (1 ~ MAX_AUDIT_PAGE_SIZE)
+ */
+function pageSize(limit?: number): number {
+    if (!limit || !Number.isFinite(limit)) return DEFAULT_AUDIT_PAGE_SIZE;
+    return Math.min(Math.max(Math.floor(limit), 1), MAX_AUDIT_PAGE_SIZE);
+}
+
+/**
+ * 커서 인코딩 (내부 ID를 그대로 노출하지 않음)
+ */
+export function encodeCursor(id: string): string {
+    return Buffer.from(id, 'utf8').toString('base64url');
+}
+
+/**
+ * 커서 디코딩 (형식이 잘못되면 null)
+ */
+export function decodeCursor(cursor: string): string | null {
+    const id = Buffer.from(cursor, 'base64url').toString('utf8');
+    return /^\d+$/.test(id) ? id : null;
+}
+
+// ==========================================
+// 메모리 저장소 (개발 환경 / 테스트)
+// ==========================================
+
+export class InMemoryAuditLogStore implements AuditLogStore {
+    private entries: AuditLogEntry[] = [];
+    private nextId = 1;
+
+    constructor(private readonly maxEntries = 10000, private readonly now: () => Date = () => new Date()) { }
+
+    async append(event: AuditEvent): Promise<void> {
+        this.entries.unshift({ ...event, id: String(this.nextId++), timestamp: this.now() });
+        if (this.entries.length > this.maxEntries) this.entries.pop();
+    }
+
+    async query(query: AuditLogQuery): Promise<AuditLogPage> {
+        const limit = pageSize(query.limit);
+        const before = query.cursor ? decodeCursor(query.cursor) : null;
+
+        const matches = this.entries.filter(entry =>
+            (!before || Number(entry.id) < Number(before)) &&
+            (!query.from || entry.timestamp >= query.from) &&
+            (!query.to || entry.timestamp < query.to) &&
+            (!query.events?.length || query.events.includes(entry.event)) &&
+            (!query.connectionId || entry.sourceId === query.connectionId || entry.targetId === query.connectionId) &&
+            (!query.ipAddress || entry.ipAddress === query.ipAddress)
+        );
+
+        const entries = matches.slice(0, limit);
+        const hasMore = matches.length > limit;
+
+        return {
+            entries,
+            nextCursor: hasMore ? encodeCursor(entries[entries.length - 1].id) : null,
+        };
+    }
+}
+
+// ==========================================
+// PostgreSQL 저장소
+// ==========================================
+
+export class PostgresAuditLogStore implements AuditLogStore {
+    constructor(private readonly db: Queryable) { }
+
+    async append(event: AuditEvent): Promise<void> {
+        await this.db.query(
+            `INSERT INTO audit_logs (event, source_id, target_id, ip_address, success, details)
+             VALUES ($1, $2, $3, $4, $5, $6)`,
+            [
+                event.event,
+                event.sourceId,
+                event.targetId || null,
+                event.ipAddress || null,
+                event.success,
+                event.details ? JSON.stringify(event.details) : null,
+            ]
+        );
+    }
+
+    async query(query: AuditLogQuery): Promise<AuditLogPage> {
+        const limit = pageSize(query.limit);
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        const add = (condition: (index: number) => string, value: any) => {
+            params.push(value);
+            conditions.push(condition(params.length));
+        };
+
+        if (query.cursor) {
+            const before = decodeCursor(query.cursor);
+            if (before) add(i => `id < $${i}`, before);
+        }
+        if (query.from) add(i => `created_at >= $${i}`, query.from);
+        if (query.to) add(i => `created_at < $${i}`, query.to);
+        if (query.events?.length) add(i => `event = ANY($${i})`, query.events);
+        if (query.connectionId) add(i => `(source_id = $${i} OR target_id = $${i})`, query.connectionId);
+        if (query.ipAddress) add(i => `ip_address = $${i}`, query.ipAddress);
+
+        // 다음 페이지 존재 여부 확인을 위해 1개 더 조회
+        params.push(limit + 1);
+        const result = await this.db.query(
+            `SELECT id, event, source_id, target_id, ip_address, success, details, created_at
+             FROM audit_logs
+             ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+             ORDER BY id DESC
+             LIMIT $${params.length}`,
+            params
+        );
+
+        const entries = result.rows.slice(0, limit).map(rowToEntry);
+        const hasMore = result.rows.length > limit;
+
+        return {
+            entries,
+            nextCursor: hasMore ? encodeCursor(entries[entries.length - 1].id) : null,
+        };
+    }
+}
+
+function rowToEntry(row: any): AuditLogEntry {
+    return {
+        id: String(row.id),
+        timestamp: new Date(row.created_at),
+        event: row.event,
+        sourceId: row.source_id,
+        targetId: row.target_id || undefined,
+        ipAddress: row.ip_address || undefined,
+        success: row.success,
+        details: row.details || undefined,
+    };
+}
+
+// ==========================================
+// 요청 파라미터 / 내보내기
+// ==========================================
+
+export type AuditExportFormat = 'json' | 'csv';
+
+export type ParsedAuditRequest =
+    | { ok: true; query: AuditLogQuery; format: AuditExportFormat }
+    | { ok: false; error: string };
+
+function parseDate(value: unknown): Date | null | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string') return null;
+
+    // 숫자는 epoch(ms), 그 외는 ISO 8601
+    const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /admin/v2/logs 쿼리 파라미터 해석
+ * from, to, event(쉼표 구분), connectionId, ip, cursor, limit, format
+ */
+export function parseAuditLogRequest(params: Record<string, unknown>): ParsedAuditRequest {
+    const from = parseDate(params.from);
+    const to = parseDate(params.to);
+    if (from === null) return { ok: false, error: 'Invalid from date' };
+    if (to === null) return { ok: false, error: 'Invalid to date' };
+
+    const format = params.format || 'json';
+    if (format !== 'json' && format !== 'csv') {
+        return { ok: false, error: 'format must be json or csv' };
+    }
+
+    if (params.cursor !== undefined && (typeof params.cursor !== 'string' || !decodeCursor(params.cursor))) {
+        return { ok: false, error: 'Invalid cursor' };
+    }
+
+    const limit = params.limit !== undefined ? Number(params.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        return { ok: false, error: 'limit must be a positive integer' };
+    }
+
+    const events = typeof params.event === 'string' && params.event
+        ? params.event.split(',').map(e => e.trim()).filter(Boolean)
+        : undefined;
+
+    return {
+        ok: true,
+        format,
+        query: {
+            from,
+            to,
+            events,
+            connectionId: typeof params.connectionId === 'string' && params.connectionId ? params.connectionId : undefined,
+            ipAddress: typeof params.ip === 'string' && params.ip ? params.ip : undefined,
+            cursor: params.cursor as string | undefined,
+            limit,
+        },
+    };
+}
+
+const CSV_COLUMNS = ['id', 'timestamp', 'event', 'sourceId', 'targetId', 'ipAddress', 'success', 'details'] as const;
+
+function escapeCsv(value: string): string {
+    // 스프레드시트 수식 실행 방지
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV 변환 (헤더 포함)
+ */
+export function toCsv(entries: AuditLogEntry[]): string {
+    const lines = entries.map(entry => CSV_COLUMNS.map(column => {
+        switch (column) {
+            case 'timestamp': return entry.timestamp.toISOString();
+            case 'success': return String(entry.success);
+            case 'details': return entry.details ? escapeCsv(JSON.stringify(entry.details)) : '';
+            default: return escapeCsv(entry[column] ?? '');
+        }
+    }).join(','));
+
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
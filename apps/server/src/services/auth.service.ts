@@ -3,9 +3,11 @@
  */
 
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { getDatabase, userQueries, tokenQueries } from '../models/database';
+import { getDatabase, userQueries } from '../models/database';
+import { LoginSession, LoginSessionService, PostgresLoginSessionStore, SessionContext } from './loginSessions';
 import { User, JWTPayload, UserPlan } from '../types/api.types';
 
 // 환경 변수 (필수)
@@ -14,8 +16,17 @@ if (!process.env.JWT_SECRET) {
 }
 const JWT_SECRET: string = process.env.JWT_SECRET;
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '1h';
-const REFRESH_TOKEN_EXPIRES_DAYS = 7;
 const SALT_ROUNDS = 12;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+/**
+ * 용도별 서명 키 (JWT_SECRET에서 파생, 다른 용도의 토큰이 서로 통과하지 않도록)
+ */
+export function deriveTokenSecret(purpose: string): string {
+    return crypto.createHmac('sha256', JWT_SECRET).update(`lunarview-${purpose}`).digest('hex');
+}
+
+const TWO_FACTOR_CHALLENGE_SECRET = deriveTokenSecret('2fa-challenge');
 
 /**
  * 비밀번호 해싱
@@ -32,13 +43,14 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 }
 
 /**
- * JWT 액세스 토큰 생성
+ * JWT 액세스 토큰 생성 (sessionId는 발급한 로그인 세션)
  */
-export function generateAccessToken(user: { id: string; email: string; plan: UserPlan }): string {
+export function generateAccessToken(user: { id: string; email: string; plan: UserPlan }, sessionId?: string): string {
     const payload: JWTPayload = {
         userId: user.id,
         email: user.email,
-        plan: user.plan
+        plan: user.plan,
+        ...(sessionId ? { sessionId } : {})
     };
     return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions);
 }
@@ -55,16 +67,16 @@ export function verifyAccessToken(token: string): JWTPayload | null {
 }
 
 /**
- * 리프레시 토큰 생성
+ * 로그인 세션 (리프레시 토큰 패밀리)
  */
-export function generateRefreshToken(): string {
-    return uuidv4() + uuidv4(); // 64자 랜덤 토큰
+function getLoginSessions(): LoginSessionService {
+    return new LoginSessionService(new PostgresLoginSessionStore(getDatabase()));
 }
 
 /**
  * 회원가입
  */
-export async function register(email: string, password: string, name: string): Promise<{
+export async function register(email: string, password: string, name: string, context: SessionContext = {}): Promise<{
     success: boolean;
     user?: Omit<User, 'password_hash'>;
     accessToken?: string;
@@ -92,34 +104,54 @@ export async function register(email: string, password: string, name: string): P
         // 생성된 사용자 조회
         const user = await userQueries.findById(userId) as User;
 
-        // 토큰 생성
-        const accessToken = generateAccessToken(user);
-        const refreshToken = generateRefreshToken();
-
-        // 리프레시 토큰 저장
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_EXPIRES_DAYS);
-        await tokenQueries.create(userId, refreshToken, expiresAt.toISOString());
-
-        // 비밀번호 해시 제외하고 반환
-        const { password_hash, ...userWithoutPassword } = user;
-
-        return {
-            success: true,
-            user: userWithoutPassword as Omit<User, 'password_hash'>,
-            accessToken,
-            refreshToken
-        };
+        return { success: true, ...(await issueTokens(user, context)) };
     } catch (error) {
         console.error('Registration error:', error);
         return { success: false, error: '회원가입 중 오류가 발생했습니다.' };
     }
 }
 
+/**
+ * 이메일/비밀번호 확인 (토큰은 발급하지 않음)
+ */
+export async function authenticate(email: string, password: string): Promise<{
+    success: boolean;
+    user?: User;
+    error?: string;
+}> {
+    const user = await userQueries.findByEmail(email) as User | undefined;
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+        return { success: false, error: '이메일 또는 비밀번호가 올바르지 않습니다.' };
+    }
+    return { success: true, user };
+}
+
+/**
+ * 로그인 완료 처리 (액세스/리프레시 토큰 발급)
+ */
+export async function issueTokens(user: User, context: SessionContext = {}): Promise<{
+    user: Omit<User, 'password_hash'>;
+    accessToken: string;
+    refreshToken: string;
+}> {
+    // 새 로그인 세션 (리프레시 토큰 패밀리)
+    const { sessionId, refreshToken } = await getLoginSessions().start(user.id, context);
+    const accessToken = generateAccessToken(user, sessionId);
+
+    // 비밀번호 해시 제외하고 반환
+    const { password_hash, ...userWithoutPassword } = user;
+
+    return {
+        user: userWithoutPassword as Omit<User, 'password_hash'>,
+        accessToken,
+        refreshToken
+    };
+}
+
 /**
  * 로그인
  */
-export async function login(email: string, password: string): Promise<{
+export async function login(email: string, password: string, context: SessionContext = {}): Promise<{
     success: boolean;
     user?: Omit<User, 'password_hash'>;
     accessToken?: string;
@@ -127,80 +159,69 @@ export async function login(email: string, password: string): Promise<{
     error?: string;
 }> {
     try {
-        // 사용자 조회
-        const user = await userQueries.findByEmail(email) as User | undefined;
-        if (!user) {
-            return { success: false, error: '이메일 또는 비밀번호가 올바르지 않습니다.' };
+        const result = await authenticate(email, password);
+        if (!result.success || !result.user) {
+            return { success: false, error: result.error };
         }
 
-        // 비밀번호 검증
-        const isValid = await verifyPassword(password, user.password_hash);
-        if (!isValid) {
-            return { success: false, error: '이메일 또는 비밀번호가 올바르지 않습니다.' };
-        }
-
-        // 토큰 생성
-        const accessToken = generateAccessToken(user);
-        const refreshToken = generateRefreshToken();
-
-        // 리프레시 토큰 저장
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_EXPIRES_DAYS);
-        await tokenQueries.create(user.id, refreshToken, expiresAt.toISOString());
-
-        // 비밀번호 해시 제외하고 반환
-        const { password_hash, ...userWithoutPassword } = user;
-
-        return {
-            success: true,
-            user: userWithoutPassword as Omit<User, 'password_hash'>,
-            accessToken,
-            refreshToken
-        };
+        return { success: true, ...(await issueTokens(result.user, context)) };
     } catch (error) {
         console.error('Login error:', error);
         return { success: false, error: '로그인 중 오류가 발생했습니다.' };
     }
 }
 
+/**
+ * 2단계 인증 대기 토큰 (비밀번호 확인 후 코드 입력까지, 5분)
+ * 액세스 토큰과 다른 키로 서명해서 API 인증에는 사용할 수 없음
+ */
+export function generateTwoFactorChallenge(userId: string): string {
+    return jwt.sign({ userId, purpose: '2fa' }, TWO_FACTOR_CHALLENGE_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN } as jwt.SignOptions);
+}
+
+/**
+ * 2단계 인증 대기 토큰 검증 (사용자 ID 반환)
+ */
+export function verifyTwoFactorChallenge(token: string): string | null {
+    try {
+        const payload = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as { userId?: string; purpose?: string };
+        return payload.purpose === '2fa' && payload.userId ? payload.userId : null;
+    } catch (error) {
+        return null;
+    }
+}
+
 /**
  * 토큰 갱신
  */
-export async function refreshTokens(refreshToken: string): Promise<{
+export async function refreshTokens(refreshToken: string, context: SessionContext = {}): Promise<{
     success: boolean;
     accessToken?: string;
     refreshToken?: string;
     error?: string;
 }> {
     try {
-        // 리프레시 토큰 조회
-        const tokenRecord = await tokenQueries.findByToken(refreshToken) as any;
-        if (!tokenRecord) {
+        const result = await getLoginSessions().rotate(refreshToken, context);
+
+        if (!result.success) {
+            // 이미 갱신한 토큰이 다시 사용됨 → 탈취 가능성이 있어 세션 전체 폐기
+            if (result.reason === 'reused') {
+                console.warn(`Refresh token reuse detected: user=${result.userId} session=${result.sessionId}`);
+                return { success: false, error: '보안을 위해 로그아웃되었습니다. 다시 로그인해주세요.' };
+            }
             return { success: false, error: '유효하지 않은 토큰입니다.' };
         }
 
         // 사용자 조회
-        const user = await userQueries.findById(tokenRecord.user_id) as User | undefined;
+        const user = await userQueries.findById(result.userId) as User | undefined;
         if (!user) {
             return { success: false, error: '사용자를 찾을 수 없습니다.' };
         }
 
-        // 기존 토큰 삭제
-        await tokenQueries.deleteByToken(refreshToken);
-
-        // 새 토큰 생성
-        const newAccessToken = generateAccessToken(user);
-        const newRefreshToken = generateRefreshToken();
-
-        // 새 리프레시 토큰 저장
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_EXPIRES_DAYS);
-        await tokenQueries.create(user.id, newRefreshToken, expiresAt.toISOString());
-
         return {
             success: true,
-            accessToken: newAccessToken,
-            refreshToken: newRefreshToken
+            accessToken: generateAccessToken(user, result.sessionId),
+            refreshToken: result.refreshToken
         };
     } catch (error) {
         console.error('Token refresh error:', error);
@@ -209,16 +230,31 @@ export async function refreshTokens(refreshToken: string): Promise<{
 }
 
 /**
- * 로그아웃
+ * 로그아웃 (로그인 세션 폐기)
  */
 export async function logout(refreshToken: string): Promise<void> {
     try {
-        await tokenQueries.deleteByToken(refreshToken);
+        await getLoginSessions().end(refreshToken);
     } catch (error) {
         console.error('Logout error:', error);
     }
 }
 
+/**
+ * 로그인 세션 목록 (currentSessionId는 요청한 액세스 토큰의 세션)
+ */
+export async function listSessions(userId: string, currentSessionId?: string): Promise<Array<LoginSession & { current: boolean }>> {
+    const sessions = await getLoginSessions().list(userId);
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+}
+
+/**
+ * 로그인 세션 폐기 (다른 기기 로그아웃)
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    return getLoginSessions().revoke(userId, sessionId);
+}
+
 /**
  * 사용자 ID로 조회
  */
@@ -231,14 +267,20 @@ export async function getUserById(userId: string): Promise<Omit<User, 'password_
 }
 
 export default {
+    deriveTokenSecret,
     hashPassword,
     verifyPassword,
     generateAccessToken,
     verifyAccessToken,
-    generateRefreshToken,
     register,
+    authenticate,
+    issueTokens,
     login,
+    generateTwoFactorChallenge,
+    verifyTwoFactorChallenge,
     refreshTokens,
     logout,
+    listSessions,
+    revokeSession,
     getUserById
 };
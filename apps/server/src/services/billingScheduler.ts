@@ -0,0 +1,305 @@
+/**
+ * 정기 결제 스케줄러
+ * 결제 기간이 끝난 구독을 저장된 빌링키로 갱신하고, 실패하면 재시도 후 만료 처리
+ *
+ * - 결제 실패: past_due로 바꾸고 retryDelaysMs 간격으로 재시도 (유예 기간 동안 플랜 유지)
+ * - 재시도를 모두 실패했거나 유예 기간이 끝나면 expired로 바꾸고 무료 플랜으로 다운그레이드
+ * - 취소된 구독은 결제 기간이 끝나면 바로 만료
+ * - 갱신 금액은 플랜 가격 × 좌석 수 (조직 구독)
+ * - 플랜 변경으로 적립된 크레딧은 갱신 금액에서 먼저 차감 (전액 차감되면 결제 없이 갱신)
+ * - 결제사가 거절한 경우(TossPaymentsError)만 결제 실패, 결제 후 DB 저장이 실패하면 같은 주문 ID로 저장만 재시도
+ *   (새 시도/주문 ID로 넘어가면 이중 결제)
+ *
+ * 여러 노드에서 실행해도 next_retry_at을 선점 시각으로 갱신해 한 노드만 처리.
+ */
+
+import { Queryable } from '../models/database';
+import { UserPlan } from '../types/api.types';
+import { PLAN_PRICES, PLAN_NAMES } from './payment.service';
+import { BillingProvider, TossPayment, TossPaymentsError } from './tossPayments';
+import { InvoiceService } from './invoices';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// 같은 주문 ID로 이미 결제된 경우 (이전 실행에서 결제 후 저장 실패)
+const DUPLICATED_ORDER_CODE = 'DUPLICATED_ORDER_ID';
+
+export type BillingEvent =
+    | { type: 'renewed'; subscriptionId: string; userId: string; plan: UserPlan; orderId: string; periodEnd: Date }
+    | { type: 'payment_failed'; subscriptionId: string; userId: string; plan: UserPlan; attempt: number; nextRetryAt: Date; error: string }
+    | { type: 'expired'; subscriptionId: string; userId: string; plan: UserPlan; reason: 'cancelled' | 'payment_failed' };
+
+export interface BillingSchedulerOptions {
+    // 갱신 대상 확인 주기 (기본 1시간)
+    intervalMs?: number;
+    // 실패 후 재시도 간격 (기본 1일, 3일, 5일)
+    retryDelaysMs?: number[];
+    // 결제 기간 종료 후 유예 기간 (기본 7일)
+    gracePeriodMs?: number;
+    // 처리 중 다른 노드가 가져가지 않도록 선점하는 시간
+    claimTimeoutMs?: number;
+    // 결제 후 인보이스/구독 저장 실패 시 재시도 간격 (기본 1초, 5초)
+    persistRetryDelaysMs?: number[];
+    batchSize?: number;
+    onEvent?: (event: BillingEvent) => void;
+    now?: () => number;
+}
+
+interface DueSubscription {
+    id: string;
+    user_id: string;
+    plan: UserPlan;
+    status: string;
+    billing_key: string | null;
+    customer_key: string | null;
+    billing_cycle: 'monthly' | 'yearly' | null;
+    current_period_end: Date | string;
+    renewal_attempts: number | null;
+    credit_balance: number | null;
+    seats: number | null;
+}
+
+/**
+ * 결제 주기만큼 기간 연장 (count가 음수면 이전 기간, 월말은 Date 규칙대로 넘어감)
+ */
+export function addBillingPeriod(start: Date, cycle: 'monthly' | 'yearly', count = 1): Date {
+    const end = new Date(start);
+    if (cycle === 'yearly') {
+        end.setUTCFullYear(end.getUTCFullYear() + count);
+    } else {
+        end.setUTCMonth(end.getUTCMonth() + count);
+    }
+    return end;
+}
+
+/**
+ * 갱신 주문 ID (같은 기간, 같은 시도는 같은 ID라서 결제사에서 중복 결제가 거절됨)
+ */
+export function getRenewalOrderId(subscriptionId: string, periodEnd: Date, attempt: number): string {
+    const date = periodEnd.toISOString().slice(0, 10).replace(/-/g, '');
+    return `RENEW_${subscriptionId.replace(/-/g, '')}_${date}_${attempt}`;
+}
+
+/**
+ * 결제 후 저장 재시도 (결제는 다시 하지 않으므로 task는 여러 번 실행해도 같은 결과여야 함)
+ */
+export async function withPersistRetry<T>(
+    task: () => Promise<T>,
+    delaysMs: number[] = [1000, 5000],
+    message = 'Billing save error, retrying:'
+): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (retry >= delaysMs.length) throw error;
+            console.error(message, error);
+            await new Promise(resolve => setTimeout(resolve, delaysMs[retry]));
+        }
+    }
+}
+
+export class BillingScheduler {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private readonly now: () => number;
+    private readonly retryDelaysMs: number[];
+    private readonly gracePeriodMs: number;
+    private readonly invoices: InvoiceService;
+
+    constructor(
+        private readonly db: Queryable,
+        private readonly provider: BillingProvider,
+        private readonly options: BillingSchedulerOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+        this.retryDelaysMs = options.retryDelaysMs ?? [DAY_MS, 3 * DAY_MS, 5 * DAY_MS];
+        this.gracePeriodMs = options.gracePeriodMs ?? 7 * DAY_MS;
+        this.invoices = new InvoiceService(db);
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.runOnce().catch(error => console.error('Billing scheduler error:', error));
+        }, this.options.intervalMs ?? HOUR_MS);
+        this.runOnce().catch(error => console.error('Billing scheduler error:', error));
+    }
+
+    /**
+     * 갱신 대상 구독을 한 번 처리 (이전 실행이 끝나지 않았으면 건너뜀)
+     */
+    async runOnce(): Promise<BillingEvent[]> {
+        if (this.running) return [];
+        this.running = true;
+
+        try {
+            const events: BillingEvent[] = [];
+            for (const subscription of await this.claimDue()) {
+                let event: BillingEvent;
+                try {
+                    event = await this.process(subscription);
+                } catch (error) {
+                    // 선점 시간이 지나면 같은 시도(주문 ID)로 다시 처리
+                    console.error(`Billing renewal error (${subscription.id}):`, error);
+                    continue;
+                }
+                events.push(event);
+                this.options.onEvent?.(event);
+            }
+            return events;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    shutdown(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async claimDue(): Promise<DueSubscription[]> {
+        const now = new Date(this.now());
+        const claimedUntil = new Date(now.getTime() + (this.options.claimTimeoutMs ?? 10 * 60 * 1000));
+
+        const result = await this.db.query(
+            `UPDATE subscriptions SET next_retry_at = $2
+             WHERE id IN (
+                SELECT id FROM subscriptions
+                WHERE status IN ('active', 'past_due', 'cancelled')
+                  AND current_period_end <= $1
+                  AND (next_retry_at IS NULL OR next_retry_at <= $1)
+                ORDER BY current_period_end
+                LIMIT $3
+                FOR UPDATE SKIP LOCKED
+             )
+             RETURNING *`,
+            [now.toISOString(), claimedUntil.toISOString(), this.options.batchSize ?? 50]
+        );
+        return result.rows;
+    }
+
+    private async process(subscription: DueSubscription): Promise<BillingEvent> {
+        if (subscription.status === 'cancelled') {
+            return this.expire(subscription, 'cancelled');
+        }
+
+        const periodEnd = new Date(subscription.current_period_end);
+        const cycle = subscription.billing_cycle ?? 'monthly';
+        const attempt = (subscription.renewal_attempts ?? 0) + 1;
+        const orderId = getRenewalOrderId(subscription.id, periodEnd, attempt);
+
+        const prices = PLAN_PRICES[subscription.plan];
+        if (!prices) throw new Error(`No price for plan: ${subscription.plan}`);
+
+        const seats = subscription.seats ?? 1;
+        const price = (cycle === 'yearly' ? prices.yearly : prices.monthly) * seats;
+        const creditApplied = Math.min(subscription.credit_balance ?? 0, price);
+        const amount = price - creditApplied;
+        const periodName = `LunarView ${PLAN_NAMES[subscription.plan]} ${cycle === 'yearly' ? '연간' : '월간'} 구독`;
+
+        let payment: TossPayment | undefined;
+        if (amount > 0) {
+            if (!subscription.billing_key) {
+                return this.fail(subscription, periodEnd, attempt, 'No billing key');
+            }
+            try {
+                payment = await this.provider.chargeBillingKey(subscription.billing_key, {
+                    customerKey: subscription.customer_key ?? `CUSTOMER_${subscription.user_id}`,
+                    amount,
+                    orderId,
+                    orderName: `${periodName} 갱신`,
+                });
+            } catch (error) {
+                // 네트워크 오류 등 결제 여부를 모르는 경우와 이미 처리된 주문은 실패로 처리하지 않음 (로그 확인 후 수동 정산)
+                if (!(error instanceof TossPaymentsError) || error.code === DUPLICATED_ORDER_CODE) throw error;
+                return this.fail(subscription, periodEnd, attempt, error.message);
+            }
+        }
+
+        const nextPeriodEnd = addBillingPeriod(periodEnd, cycle);
+
+        // 인보이스(order_id 중복 무시)와 갱신은 다시 실행해도 같은 결과
+        return withPersistRetry(async () => {
+            await this.invoices.record({
+                userId: subscription.user_id,
+                subscriptionId: subscription.id,
+                orderId,
+                kind: 'renewal',
+                plan: subscription.plan,
+                amount,
+                status: payment ? 'paid' : 'credited',
+                lineItems: [
+                    { description: seats > 1 ? `${periodName} × ${seats}석` : periodName, amount: price },
+                    ...(creditApplied > 0 ? [{ description: '보유 크레딧 사용', amount: -creditApplied }] : []),
+                ],
+                payment,
+                periodStart: periodEnd,
+                periodEnd: nextPeriodEnd,
+            });
+
+            return this.renew(subscription, periodEnd, nextPeriodEnd, orderId, payment?.paymentKey ?? null, creditApplied);
+        }, this.options.persistRetryDelaysMs, 'Billing renewal save error, retrying:');
+    }
+
+    private async renew(
+        subscription: DueSubscription,
+        periodStart: Date,
+        periodEnd: Date,
+        orderId: string,
+        paymentKey: string | null,
+        creditApplied: number
+    ): Promise<BillingEvent> {
+        await this.db.query(
+            `UPDATE subscriptions SET status = 'active', current_period_start = $2, current_period_end = $3,
+                renewal_attempts = 0, next_retry_at = NULL, last_order_id = $4,
+                last_payment_key = COALESCE($5, last_payment_key), credit_balance = COALESCE(credit_balance, 0) - $6,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [subscription.id, periodStart.toISOString(), periodEnd.toISOString(), orderId, paymentKey, creditApplied]
+        );
+        await this.updateUserPlan(subscription.user_id, subscription.plan);
+
+        return { type: 'renewed', subscriptionId: subscription.id, userId: subscription.user_id, plan: subscription.plan, orderId, periodEnd };
+    }
+
+    private async fail(subscription: DueSubscription, periodEnd: Date, attempt: number, error: string): Promise<BillingEvent> {
+        const now = this.now();
+        const graceEndsAt = periodEnd.getTime() + this.gracePeriodMs;
+
+        if (attempt > this.retryDelaysMs.length || now >= graceEndsAt) {
+            return this.expire(subscription, 'payment_failed');
+        }
+
+        // 유예 기간이 끝나는 시점에는 마지막으로 한 번 더 시도
+        const nextRetryAt = new Date(Math.min(now + this.retryDelaysMs[attempt - 1], graceEndsAt));
+        await this.db.query(
+            `UPDATE subscriptions SET status = 'past_due', renewal_attempts = $2, next_retry_at = $3,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [subscription.id, attempt, nextRetryAt.toISOString()]
+        );
+
+        return { type: 'payment_failed', subscriptionId: subscription.id, userId: subscription.user_id, plan: subscription.plan, attempt, nextRetryAt, error };
+    }
+
+    private async expire(subscription: DueSubscription, reason: 'cancelled' | 'payment_failed'): Promise<BillingEvent> {
+        await this.db.query(
+            `UPDATE subscriptions SET status = 'expired', next_retry_at = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [subscription.id]
+        );
+        await this.updateUserPlan(subscription.user_id, 'free');
+
+        return { type: 'expired', subscriptionId: subscription.id, userId: subscription.user_id, plan: subscription.plan, reason };
+    }
+
+    private async updateUserPlan(userId: string, plan: UserPlan): Promise<void> {
+        await this.db.query(
+            `UPDATE users SET plan = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [userId, plan]
+        );
+    }
+}
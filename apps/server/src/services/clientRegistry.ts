@@ -0,0 +1,614 @@
+/**
+ * 시그널링 클라이언트 레지스트리
+ * 여러 서버 인스턴스(노드)가 클라이언트 상태를 공유하고 서로의 클라이언트에게 메시지를 라우팅
+ *
+ * - InMemoryClientRegistry: 단일 노드용 (기본값)
+ * - PubSubClientRegistry: Pub/Sub 브로커로 상태를 복제하고 다른 노드로 메시지 전달
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { HostAccessMode, SessionGrant, SessionPermission } from '../../../../packages/protocol/src/signaling';
+
+// 호스트 승인을 기다리는 연결 요청 (뷰어 레코드에 저장)
+export interface PendingApproval {
+    requestId: string;
+    hostClientId: string;
+    expiresAt: number;
+    viewerName?: string;
+    requestedPermissions: SessionPermission[];
+}
+
+// 공유되는 클라이언트 상태 (WebSocket 객체는 소유 노드에만 존재)
+export interface ClientRecord {
+    id: string;
+    connectionId: string;
+    passwordHash: string;
+    nodeId: string;
+    isHost: boolean;
+    // 로그인한 사용자 ID (register 시 액세스 토큰을 보낸 경우)
+    userId?: string;
+    // 등록된 장치로 서명해서 등록한 호스트의 장치 ID
+    deviceId?: string;
+    accessMode?: HostAccessMode;
+    defaultGrant?: SessionGrant;
+    sessionId?: string;
+    sessionRole?: 'host' | 'viewer';
+    // 뷰어별 세션 권한 (뷰어 레코드에 저장)
+    grant?: SessionGrant;
+    // 뷰어: 호스트 ID (호스트는 여러 뷰어를 가지므로 비워둠)
+    connectedTo?: string;
+    // 호스트: 입력 제어 토큰을 가진 뷰어 ID
+    controlHolder?: string;
+    viewerName?: string;
+    pendingApproval?: PendingApproval;
+    publicKey?: string;
+    ipAddress?: string;
+    connectedAt: number;
+    // 연결 재개 토큰의 해시 (토큰 원문은 클라이언트만 보관)
+    resumeTokenHash?: string;
+    // 소켓이 끊긴 뒤 재연결을 기다리는 기한 (epoch ms, 연결 중이면 없음)
+    suspendedUntil?: number;
+}
+
+/**
+ * 공유 상태 저장소
+ * 클라이언트 목록, IP 차단 목록, 인증 실패 횟수
+ */
+export interface PresenceStore {
+    add(record: ClientRecord): Promise<void>;
+    get(clientId: string): Promise<ClientRecord | null>;
+    getByConnectionId(connectionId: string): Promise<ClientRecord | null>;
+    update(clientId: string, changes: Partial<ClientRecord>): Promise<ClientRecord | null>;
+    remove(clientId: string): Promise<void>;
+    list(): Promise<ClientRecord[]>;
+    /** 같은 세션에 참여 중인 클라이언트 (호스트 포함) */
+    listSession(sessionId: string): Promise<ClientRecord[]>;
+    count(): Promise<number>;
+
+    isIPBlocked(ip: string): Promise<boolean>;
+    blockIP(ip: string): Promise<void>;
+    unblockIP(ip: string): Promise<boolean>;
+    recordFailedAttempt(ip: string): Promise<void>;
+}
+
+export type DeliveryHandler = (clientId: string, message: any) => void;
+export type CloseHandler = (clientId: string, code: number, reason: string) => void;
+
+/**
+ * 클라이언트 레지스트리
+ * 상태 저장 + 클라이언트가 어느 노드에 있든 메시지를 전달
+ */
+export interface ClientRegistry extends PresenceStore {
+    readonly nodeId: string;
+
+    /** 클라이언트에게 메시지 전달 (로컬이면 onDeliver 핸들러, 원격이면 소유 노드로 전달) */
+    send(clientId: string, message: any): Promise<boolean>;
+    /** 클라이언트 소켓 종료 요청 */
+    close(clientId: string, code: number, reason: string): Promise<boolean>;
+
+    /** 이 노드가 소유한 소켓으로 실제 전송하는 핸들러 등록 */
+    onDeliver(handler: DeliveryHandler): void;
+    onClose(handler: CloseHandler): void;
+
+    start(): Promise<void>;
+    shutdown(): Promise<void>;
+}
+
+export interface RegistryOptions {
+    nodeId?: string;
+    maxFailedAttempts?: number;
+    lockoutDurationMs?: number;
+}
+
+const DEFAULT_MAX_FAILED_ATTEMPTS = 5;
+const DEFAULT_LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15분
+
+/**
+ * 인메모리 레지스트리 (단일 노드)
+ */
+export class InMemoryClientRegistry implements ClientRegistry {
+    readonly nodeId: string;
+
+    protected clients = new Map<string, ClientRecord>();
+    protected connectionIdMap = new Map<string, string>();
+    protected sessionIndex = new Map<string, Set<string>>();
+    protected blockedIPs = new Set<string>();
+    protected failedAttempts = new Map<string, { count: number; lastAttempt: number }>();
+
+    protected deliverHandler: DeliveryHandler | null = null;
+    protected closeHandler: CloseHandler | null = null;
+
+    private readonly maxFailedAttempts: number;
+    private readonly lockoutDurationMs: number;
+
+    constructor(options: RegistryOptions = {}) {
+        this.nodeId = options.nodeId || uuidv4();
+        this.maxFailedAttempts = options.maxFailedAttempts ?? DEFAULT_MAX_FAILED_ATTEMPTS;
+        this.lockoutDurationMs = options.lockoutDurationMs ?? DEFAULT_LOCKOUT_DURATION_MS;
+    }
+
+    async start(): Promise<void> { }
+
+    async shutdown(): Promise<void> { }
+
+    async add(record: ClientRecord): Promise<void> {
+        this.applyAdd(record);
+    }
+
+    async get(clientId: string): Promise<ClientRecord | null> {
+        return this.clients.get(clientId) || null;
+    }
+
+    async getByConnectionId(connectionId: string): Promise<ClientRecord | null> {
+        const clientId = this.connectionIdMap.get(connectionId);
+        return clientId ? this.clients.get(clientId) || null : null;
+    }
+
+    async update(clientId: string, changes: Partial<ClientRecord>): Promise<ClientRecord | null> {
+        return this.applyUpdate(clientId, changes);
+    }
+
+    async remove(clientId: string): Promise<void> {
+        this.applyRemove(clientId);
+    }
+
+    async list(): Promise<ClientRecord[]> {
+        return Array.from(this.clients.values());
+    }
+
+    async listSession(sessionId: string): Promise<ClientRecord[]> {
+        const ids = this.sessionIndex.get(sessionId);
+        if (!ids) return [];
+        return Array.from(ids)
+            .map(id => this.clients.get(id))
+            .filter((record): record is ClientRecord => record !== undefined);
+    }
+
+    async count(): Promise<number> {
+        return this.clients.size;
+    }
+
+    async isIPBlocked(ip: string): Promise<boolean> {
+        if (this.blockedIPs.has(ip)) return true;
+
+        const attempts = this.failedAttempts.get(ip);
+        if (attempts && attempts.count >= this.maxFailedAttempts) {
+            const elapsed = Date.now() - attempts.lastAttempt;
+            if (elapsed < this.lockoutDurationMs) return true;
+            this.failedAttempts.delete(ip);
+        }
+
+        return false;
+    }
+
+    async blockIP(ip: string): Promise<void> {
+        this.blockedIPs.add(ip);
+    }
+
+    async unblockIP(ip: string): Promise<boolean> {
+        return this.blockedIPs.delete(ip);
+    }
+
+    async recordFailedAttempt(ip: string): Promise<void> {
+        this.applyFailedAttempt(ip, Date.now());
+    }
+
+    async send(clientId: string, message: any): Promise<boolean> {
+        const record = this.clients.get(clientId);
+        if (!record || !this.deliverHandler) return false;
+
+        this.deliverHandler(clientId, message);
+        return true;
+    }
+
+    async close(clientId: string, code: number, reason: string): Promise<boolean> {
+        const record = this.clients.get(clientId);
+        if (!record || !this.closeHandler) return false;
+
+        this.closeHandler(clientId, code, reason);
+        return true;
+    }
+
+    onDeliver(handler: DeliveryHandler): void {
+        this.deliverHandler = handler;
+    }
+
+    onClose(handler: CloseHandler): void {
+        this.closeHandler = handler;
+    }
+
+    // 상태 변경 (복제 시에도 그대로 재사용)
+    protected applyAdd(record: ClientRecord): void {
+        const previous = this.clients.get(record.id);
+        if (previous && previous.connectionId !== record.connectionId
+            && this.connectionIdMap.get(previous.connectionId) === record.id) {
+            this.connectionIdMap.delete(previous.connectionId);
+        }
+
+        this.clients.set(record.id, { ...record });
+        this.connectionIdMap.set(record.connectionId, record.id);
+        this.indexSession(record.id, previous?.sessionId, record.sessionId);
+    }
+
+    protected applyUpdate(clientId: string, changes: Partial<ClientRecord>): ClientRecord | null {
+        const record = this.clients.get(clientId);
+        if (!record) return null;
+
+        const updated: ClientRecord = { ...record, ...changes, id: record.id };
+        // undefined 값은 필드 삭제로 취급
+        for (const key of Object.keys(changes) as (keyof ClientRecord)[]) {
+            if (changes[key] === undefined) delete updated[key];
+        }
+
+        if (updated.connectionId !== record.connectionId) {
+            if (this.connectionIdMap.get(record.connectionId) === clientId) {
+                this.connectionIdMap.delete(record.connectionId);
+            }
+            this.connectionIdMap.set(updated.connectionId, clientId);
+        }
+
+        this.clients.set(clientId, updated);
+        this.indexSession(clientId, record.sessionId, updated.sessionId);
+        return updated;
+    }
+
+    protected applyRemove(clientId: string): void {
+        const record = this.clients.get(clientId);
+        if (!record) return;
+
+        if (this.connectionIdMap.get(record.connectionId) === clientId) {
+            this.connectionIdMap.delete(record.connectionId);
+        }
+        this.clients.delete(clientId);
+        this.indexSession(clientId, record.sessionId, undefined);
+    }
+
+    private indexSession(clientId: string, previous?: string, next?: string): void {
+        if (previous === next) return;
+
+        if (previous) {
+            const members = this.sessionIndex.get(previous);
+            members?.delete(clientId);
+            if (members && members.size === 0) this.sessionIndex.delete(previous);
+        }
+        if (next) {
+            if (!this.sessionIndex.has(next)) this.sessionIndex.set(next, new Set());
+            this.sessionIndex.get(next)!.add(clientId);
+        }
+    }
+
+    protected applyFailedAttempt(ip: string, at: number): void {
+        const attempts = this.failedAttempts.get(ip) || { count: 0, lastAttempt: at };
+        attempts.count++;
+        attempts.lastAttempt = Math.max(attempts.lastAttempt, at);
+        this.failedAttempts.set(ip, attempts);
+    }
+}
+
+// ==========================================
+// Pub/Sub 기반 분산 레지스트리
+// ==========================================
+
+export type PubSubHandler = (payload: string) => void;
+
+/**
+ * Pub/Sub 브로커 인터페이스
+ * 운영 환경에서는 Redis 등의 어댑터로 구현
+ */
+export interface PubSubBroker {
+    publish(channel: string, payload: string): Promise<void>;
+    /** 구독하고 구독 해제 함수를 반환 */
+    subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>>;
+}
+
+/**
+ * 프로세스 내 Pub/Sub (테스트 및 단일 프로세스 다중 노드용)
+ * 실제 브로커처럼 비동기로 메시지를 전달
+ */
+export class InProcessPubSub implements PubSubBroker {
+    private channels = new Map<string, Set<PubSubHandler>>();
+
+    async publish(channel: string, payload: string): Promise<void> {
+        const handlers = this.channels.get(channel);
+        if (!handlers) return;
+
+        for (const handler of Array.from(handlers)) {
+            queueMicrotask(() => handler(payload));
+        }
+    }
+
+    async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+        if (!this.channels.has(channel)) {
+            this.channels.set(channel, new Set());
+        }
+        this.channels.get(channel)!.add(handler);
+
+        return async () => {
+            this.channels.get(channel)?.delete(handler);
+        };
+    }
+}
+
+type RegistryEvent =
+    | { op: 'add'; record: ClientRecord }
+    | { op: 'update'; clientId: string; changes: Record<string, unknown> }
+    | { op: 'remove'; clientId: string }
+    | { op: 'block-ip'; ip: string }
+    | { op: 'unblock-ip'; ip: string }
+    | { op: 'failed-attempt'; ip: string; at: number }
+    | { op: 'heartbeat' }
+    | { op: 'sync-request' };
+
+type NodeEvent =
+    | { op: 'deliver'; clientId: string; message: any }
+    | { op: 'close'; clientId: string; code: number; reason: string };
+
+export interface PubSubRegistryOptions extends RegistryOptions {
+    broker: PubSubBroker;
+    channelPrefix?: string;
+    heartbeatIntervalMs?: number;
+    /** 하트비트가 끊긴 노드의 클라이언트를 정리하기까지의 시간 */
+    nodeTimeoutMs?: number;
+}
+
+/**
+ * Pub/Sub 기반 레지스트리
+ * 모든 노드가 상태 복제본을 유지하고, 자기 클라이언트가 아닌 대상은 소유 노드 채널로 전달
+ */
+export class PubSubClientRegistry extends InMemoryClientRegistry {
+    private readonly broker: PubSubBroker;
+    private readonly channelPrefix: string;
+    private readonly heartbeatIntervalMs: number;
+    private readonly nodeTimeoutMs: number;
+
+    private unsubscribers: Array<() => Promise<void>> = [];
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private nodeLastSeen = new Map<string, number>();
+
+    constructor(options: PubSubRegistryOptions) {
+        super(options);
+        this.broker = options.broker;
+        this.channelPrefix = options.channelPrefix || 'signaling';
+        this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10000;
+        this.nodeTimeoutMs = options.nodeTimeoutMs ?? 30000;
+    }
+
+    async start(): Promise<void> {
+        this.unsubscribers.push(
+            await this.broker.subscribe(this.registryChannel(), (payload) => this.handleRegistryEvent(payload)),
+            await this.broker.subscribe(this.nodeChannel(this.nodeId), (payload) => this.handleNodeEvent(payload))
+        );
+
+        // 기존 노드들에게 현재 상태 요청
+        await this.publishRegistry({ op: 'sync-request' });
+
+        this.heartbeatTimer = setInterval(() => {
+            this.publishRegistry({ op: 'heartbeat' }).catch(error => {
+                console.error('Registry heartbeat failed:', error);
+            });
+            this.pruneDeadNodes();
+        }, this.heartbeatIntervalMs);
+        this.heartbeatTimer.unref?.();
+    }
+
+    async shutdown(): Promise<void> {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+
+        // 이 노드의 클라이언트를 다른 노드에서 제거
+        for (const record of Array.from(this.clients.values())) {
+            if (record.nodeId === this.nodeId) {
+                await this.remove(record.id);
+            }
+        }
+
+        for (const unsubscribe of this.unsubscribers) {
+            await unsubscribe();
+        }
+        this.unsubscribers = [];
+    }
+
+    async add(record: ClientRecord): Promise<void> {
+        this.applyAdd(record);
+        await this.publishRegistry({ op: 'add', record });
+    }
+
+    async update(clientId: string, changes: Partial<ClientRecord>): Promise<ClientRecord | null> {
+        const updated = this.applyUpdate(clientId, changes);
+        if (updated) {
+            await this.publishRegistry({ op: 'update', clientId, changes: encodeChanges(changes) });
+        }
+        return updated;
+    }
+
+    async remove(clientId: string): Promise<void> {
+        this.applyRemove(clientId);
+        await this.publishRegistry({ op: 'remove', clientId });
+    }
+
+    async blockIP(ip: string): Promise<void> {
+        this.blockedIPs.add(ip);
+        await this.publishRegistry({ op: 'block-ip', ip });
+    }
+
+    async unblockIP(ip: string): Promise<boolean> {
+        const removed = this.blockedIPs.delete(ip);
+        await this.publishRegistry({ op: 'unblock-ip', ip });
+        return removed;
+    }
+
+    async recordFailedAttempt(ip: string): Promise<void> {
+        const at = Date.now();
+        this.applyFailedAttempt(ip, at);
+        await this.publishRegistry({ op: 'failed-attempt', ip, at });
+    }
+
+    async send(clientId: string, message: any): Promise<boolean> {
+        const record = this.clients.get(clientId);
+        if (!record) return false;
+
+        if (record.nodeId === this.nodeId) {
+            return super.send(clientId, message);
+        }
+
+        await this.publishNode(record.nodeId, { op: 'deliver', clientId, message });
+        return true;
+    }
+
+    async close(clientId: string, code: number, reason: string): Promise<boolean> {
+        const record = this.clients.get(clientId);
+        if (!record) return false;
+
+        if (record.nodeId === this.nodeId) {
+            return super.close(clientId, code, reason);
+        }
+
+        await this.publishNode(record.nodeId, { op: 'close', clientId, code, reason });
+        return true;
+    }
+
+    private handleRegistryEvent(payload: string): void {
+        let envelope: { origin: string; event: RegistryEvent };
+        try {
+            envelope = JSON.parse(payload);
+        } catch (error) {
+            console.error('Invalid registry event:', error);
+            return;
+        }
+
+        const { origin, event } = envelope;
+        this.nodeLastSeen.set(origin, Date.now());
+        if (origin === this.nodeId) return;
+
+        switch (event.op) {
+            case 'add':
+                this.applyAdd(event.record);
+                break;
+            case 'update':
+                this.applyUpdate(event.clientId, decodeChanges(event.changes));
+                break;
+            case 'remove':
+                this.applyRemove(event.clientId);
+                break;
+            case 'block-ip':
+                this.blockedIPs.add(event.ip);
+                break;
+            case 'unblock-ip':
+                this.blockedIPs.delete(event.ip);
+                break;
+            case 'failed-attempt':
+                this.applyFailedAttempt(event.ip, event.at);
+                break;
+            case 'sync-request':
+                this.publishSnapshot().catch(error => {
+                    console.error('Registry sync failed:', error);
+                });
+                break;
+            case 'heartbeat':
+                break;
+        }
+    }
+
+    private handleNodeEvent(payload: string): void {
+        let event: NodeEvent;
+        try {
+            event = JSON.parse(payload);
+        } catch (error) {
+            console.error('Invalid node event:', error);
+            return;
+        }
+
+        switch (event.op) {
+            case 'deliver':
+                super.send(event.clientId, event.message);
+                break;
+            case 'close':
+                super.close(event.clientId, event.code, event.reason);
+                break;
+        }
+    }
+
+    /**
+     * 새로 합류한 노드에게 이 노드가 소유한 상태를 다시 전송
+     */
+    private async publishSnapshot(): Promise<void> {
+        for (const record of Array.from(this.clients.values())) {
+            if (record.nodeId === this.nodeId) {
+                await this.publishRegistry({ op: 'add', record });
+            }
+        }
+        for (const ip of Array.from(this.blockedIPs)) {
+            await this.publishRegistry({ op: 'block-ip', ip });
+        }
+    }
+
+    /**
+     * 하트비트가 끊긴 노드의 클라이언트 정리
+     */
+    private pruneDeadNodes(): void {
+        const now = Date.now();
+        for (const record of Array.from(this.clients.values())) {
+            if (record.nodeId === this.nodeId) continue;
+
+            const lastSeen = this.nodeLastSeen.get(record.nodeId);
+            if (lastSeen === undefined) {
+                this.nodeLastSeen.set(record.nodeId, now);
+            } else if (now - lastSeen > this.nodeTimeoutMs) {
+                this.applyRemove(record.id);
+            }
+        }
+    }
+
+    private publishRegistry(event: RegistryEvent): Promise<void> {
+        return this.broker.publish(this.registryChannel(), JSON.stringify({ origin: this.nodeId, event }));
+    }
+
+    private publishNode(nodeId: string, event: NodeEvent): Promise<void> {
+        return this.broker.publish(this.nodeChannel(nodeId), JSON.stringify(event));
+    }
+
+    private registryChannel(): string {
+        return `${this.channelPrefix}:registry`;
+    }
+
+    private nodeChannel(nodeId: string): string {
+        return `${this.channelPrefix}:node:${nodeId}`;
+    }
+}
+
+// JSON은 undefined를 버리므로 필드 삭제는 null로 전송
+function encodeChanges(changes: Partial<ClientRecord>): Record<string, unknown> {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes)) {
+        encoded[key] = value === undefined ? null : value;
+    }
+    return encoded;
+}
+
+function decodeChanges(changes: Record<string, unknown>): Partial<ClientRecord> {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes)) {
+        decoded[key] = value === null ? undefined : value;
+    }
+    return decoded as Partial<ClientRecord>;
+}
+
+/**
+ * 레지스트리 생성
+ * 브로커가 주어지면 분산 레지스트리, 없으면 인메모리 레지스트리
+ */
+export function createClientRegistry(options: RegistryOptions & { broker?: PubSubBroker } = {}): ClientRegistry {
+    if (options.broker) {
+        return new PubSubClientRegistry({ ...options, broker: options.broker });
+    }
+    return new InMemoryClientRegistry(options);
+}
+
+export default {
+    InMemoryClientRegistry,
+    PubSubClientRegistry,
+    InProcessPubSub,
+    createClientRegistry
+};
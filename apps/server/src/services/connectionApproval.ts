@@ -0,0 +1,204 @@
+/**
+ * 호스트 연결 승인 서비스
+ * 뷰어를 대기 상태로 두고 호스트에게 수락/거절을 요청
+ *
+ * 대기 상태는 뷰어의 레지스트리 레코드에 저장되므로 호스트와 뷰어가 다른 노드에 있어도 동작함.
+ * 시간 초과 타이머는 요청을 만든 노드에만 존재하며, 만료 시점에 레코드를 다시 확인함.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ClientRecord, ClientRegistry, PendingApproval } from './clientRegistry';
+import { SessionPermission } from '../../../../packages/protocol/src/signaling';
+
+export interface ApprovalOptions {
+    timeoutMs?: number;
+    maxPendingPerHost?: number;
+}
+
+export interface ApprovalRequestDetails {
+    viewerName?: string;
+    ipAddress?: string;
+    requestedPermissions?: SessionPermission[];
+}
+
+export interface ApprovalResult {
+    viewer: ClientRecord;
+    host: ClientRecord;
+    approval: PendingApproval;
+}
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 60 * 1000; // 1분
+const DEFAULT_MAX_PENDING_PER_HOST = 5;
+const DEFAULT_REQUESTED_PERMISSIONS: SessionPermission[] = ['view', 'input'];
+
+export class ConnectionApprovalService {
+    private timers = new Map<string, NodeJS.Timeout>();
+    private readonly timeoutMs: number;
+    private readonly maxPendingPerHost: number;
+
+    constructor(private readonly registry: ClientRegistry, options: ApprovalOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+        this.maxPendingPerHost = options.maxPendingPerHost ?? DEFAULT_MAX_PENDING_PER_HOST;
+    }
+
+    /**
+     * 승인 요청 생성 (뷰어는 connect-pending, 호스트는 connection-request 수신)
+     * 호스트의 대기열이 가득 차면 null
+     */
+    async request(viewer: ClientRecord, host: ClientRecord, details: ApprovalRequestDetails = {}): Promise<PendingApproval | null> {
+        // 같은 뷰어의 이전 요청은 새 요청으로 대체
+        if (viewer.pendingApproval) {
+            await this.cancel(viewer, 'Replaced by a new request');
+        }
+
+        const pending = await this.listPending(host.id);
+        if (pending.length >= this.maxPendingPerHost) {
+            return null;
+        }
+
+        const approval: PendingApproval = {
+            requestId: uuidv4(),
+            hostClientId: host.id,
+            expiresAt: Date.now() + this.timeoutMs,
+            viewerName: details.viewerName,
+            requestedPermissions: details.requestedPermissions?.length
+                ? details.requestedPermissions
+                : DEFAULT_REQUESTED_PERMISSIONS,
+        };
+
+        await this.registry.update(viewer.id, { pendingApproval: approval });
+
+        const timer = setTimeout(() => {
+            this.expire(viewer.id, approval.requestId).catch(error => {
+                console.error(`Failed to expire approval request ${approval.requestId}:`, error);
+            });
+        }, this.timeoutMs);
+        this.timers.set(approval.requestId, timer);
+
+        await this.registry.send(host.id, {
+            type: 'connection-request',
+            requestId: approval.requestId,
+            viewerConnectionId: viewer.connectionId,
+            viewerName: approval.viewerName,
+            ipAddress: details.ipAddress,
+            requestedPermissions: approval.requestedPermissions,
+            expiresAt: approval.expiresAt,
+        });
+
+        await this.registry.send(viewer.id, {
+            type: 'connect-pending',
+            requestId: approval.requestId,
+            expiresAt: approval.expiresAt,
+        });
+
+        return approval;
+    }
+
+    /**
+     * 호스트 응답 처리
+     * 수락이면 세션 생성을 위해 결과 반환, 거절이면 뷰어에게 오류 전송 후 null
+     */
+    async respond(hostClientId: string, requestId: string, accepted: boolean, reason?: string): Promise<ApprovalResult | null> {
+        const records = await this.registry.list();
+        const viewer = records.find(r =>
+            r.pendingApproval?.requestId === requestId && r.pendingApproval.hostClientId === hostClientId
+        );
+        if (!viewer || !viewer.pendingApproval) return null;
+
+        const approval = viewer.pendingApproval;
+        await this.clear(viewer.id, requestId);
+
+        if (!accepted) {
+            await this.registry.send(viewer.id, {
+                type: 'connect-error',
+                error: reason || 'Connection rejected by host',
+                code: 'APPROVAL_REJECTED',
+            });
+            return null;
+        }
+
+        const host = await this.registry.get(hostClientId);
+        if (!host) return null;
+
+        return { viewer: { ...viewer, pendingApproval: undefined }, host, approval };
+    }
+
+    /**
+     * 클라이언트 연결 종료 시 관련 요청 정리
+     * 뷰어가 나가면 호스트의 프롬프트를 닫고, 호스트가 나가면 대기 중인 뷰어에게 알림
+     */
+    async cancelForClient(client: ClientRecord): Promise<void> {
+        if (client.pendingApproval) {
+            await this.cancel(client, 'Viewer disconnected');
+        }
+
+        for (const viewer of await this.listPending(client.id)) {
+            await this.clear(viewer.id, viewer.pendingApproval!.requestId);
+            await this.registry.send(viewer.id, {
+                type: 'connect-error',
+                error: 'Host disconnected before responding',
+                code: 'APPROVAL_CANCELLED',
+            });
+        }
+    }
+
+    /**
+     * 모든 타이머 해제 (서버 종료 시)
+     */
+    shutdown(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    private async expire(viewerId: string, requestId: string): Promise<void> {
+        this.timers.delete(requestId);
+
+        // 다른 노드에서 이미 응답했으면 레코드에 요청이 남아있지 않음
+        const viewer = await this.registry.get(viewerId);
+        if (!viewer || viewer.pendingApproval?.requestId !== requestId) return;
+
+        const { hostClientId } = viewer.pendingApproval;
+        await this.registry.update(viewerId, { pendingApproval: undefined });
+
+        await this.registry.send(viewerId, {
+            type: 'connect-error',
+            error: 'Host did not respond in time',
+            code: 'APPROVAL_TIMEOUT',
+        });
+        await this.registry.send(hostClientId, {
+            type: 'connection-request-cancelled',
+            requestId,
+            reason: 'Request timed out',
+        });
+    }
+
+    private async cancel(viewer: ClientRecord, reason: string): Promise<void> {
+        const approval = viewer.pendingApproval;
+        if (!approval) return;
+
+        await this.clear(viewer.id, approval.requestId);
+        await this.registry.send(approval.hostClientId, {
+            type: 'connection-request-cancelled',
+            requestId: approval.requestId,
+            reason,
+        });
+    }
+
+    private async clear(viewerId: string, requestId: string): Promise<void> {
+        const timer = this.timers.get(requestId);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(requestId);
+        }
+        await this.registry.update(viewerId, { pendingApproval: undefined });
+    }
+
+    private async listPending(hostClientId: string): Promise<ClientRecord[]> {
+        const records = await this.registry.list();
+        return records.filter(r => r.pendingApproval?.hostClientId === hostClientId);
+    }
+}
+
+export default ConnectionApprovalService;
@@ -0,0 +1,301 @@
+/**
+ * 장치 등록 서비스
+ * 로그인한 사용자가 자기 PC를 이름 있는 장치로 등록하고, 비밀번호 없이 자기/팀 장치에 연결
+ *
+ * - 장치는 등록 시 만든 Ed25519 키쌍의 공개키와 고정 ID를 가짐 (개인키는 장치에만 보관)
+ * - 호스트는 register 메시지에 장치 키 서명을 넣어 자신이 등록된 장치임을 증명
+ * - 소유자 본인은 장치 목록에서 바로 연결, 같은 조직 구성원은 호스트 승인 후 연결
+ * - 해제된 장치는 서명해도 등록되지 않음 (연결 중인 세션은 라우터에서 종료)
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, toIso } from '../models/database';
+
+export const MAX_DEVICES_PER_USER = 20;
+export const MAX_DEVICE_NAME_LENGTH = 64;
+// 장치 서명 timestamp 허용 오차 (재전송 방지, 시계 오차 고려)
+export const DEFAULT_SIGNATURE_WINDOW_MS = 5 * 60 * 1000;
+
+export interface DeviceRecord {
+    id: string;
+    userId: string;
+    name: string;
+    // Ed25519 공개키 (SPKI DER, base64)
+    publicKey: string;
+    platform: string | null;
+    createdAt: string;
+    lastSeenAt: string | null;
+    revokedAt: string | null;
+}
+
+// 장치 목록 항목 (팀 장치는 소유자 정보 포함)
+export interface AccessibleDevice extends DeviceRecord {
+    ownerEmail: string;
+    ownerName: string | null;
+}
+
+export interface NewDevice {
+    name: string;
+    publicKey: string;
+    platform?: string;
+}
+
+// register 메시지에 포함된 장치 서명
+export interface DeviceProof {
+    deviceId: string;
+    connectionId: string;
+    timestamp: number;
+    signature: string;
+}
+
+/**
+ * 장치 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface DeviceStore {
+    create(device: Omit<DeviceRecord, 'createdAt' | 'lastSeenAt' | 'revokedAt'>): Promise<void>;
+    get(deviceId: string): Promise<DeviceRecord | null>;
+    countActive(userId: string): Promise<number>;
+    // 본인 장치 + 같은 조직 구성원의 장치 (해제된 장치 제외)
+    listAccessible(userId: string): Promise<AccessibleDevice[]>;
+    rename(deviceId: string, name: string): Promise<void>;
+    revoke(deviceId: string, revokedAt: Date): Promise<boolean>;
+    touch(deviceId: string, seenAt: Date): Promise<void>;
+    // actor와 owner가 같은 조직이면 actor의 역할, 아니면 null
+    findSharedOrganizationRole(actorId: string, ownerId: string): Promise<string | null>;
+}
+
+export type DeviceResult<T = {}> =
+    | ({ success: true } & T)
+    | { success: false; status: 400 | 403 | 404 | 409; error: string };
+
+export interface DeviceServiceOptions {
+    signatureWindowMs?: number;
+    now?: () => number;
+}
+
+/**
+ * 장치 키로 서명하는 문자열 (connectionId를 포함해 다른 등록에 재사용할 수 없음)
+ */
+export function getDeviceSignaturePayload(deviceId: string, connectionId: string, timestamp: number): string {
+    return `lunarview-device:${deviceId}:${connectionId}:${timestamp}`;
+}
+
+/**
+ * base64 SPKI 공개키 파싱 (Ed25519가 아니면 null)
+ */
+export function parseDevicePublicKey(value: string): crypto.KeyObject | null {
+    try {
+        const key = crypto.createPublicKey({ key: Buffer.from(value, 'base64'), format: 'der', type: 'spki' });
+        return key.asymmetricKeyType === 'ed25519' ? key : null;
+    } catch {
+        return null;
+    }
+}
+
+const fail = (status: 400 | 403 | 404 | 409, error: string) => ({ success: false as const, status, error });
+
+export class DeviceService {
+    private readonly now: () => number;
+    private readonly signatureWindowMs: number;
+
+    constructor(
+        private readonly store: DeviceStore,
+        options: DeviceServiceOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+        this.signatureWindowMs = options.signatureWindowMs ?? DEFAULT_SIGNATURE_WINDOW_MS;
+    }
+
+    /**
+     * 장치 등록 (장치가 만든 공개키 저장, 반환된 id를 장치가 보관)
+     */
+    async enroll(userId: string, input: NewDevice): Promise<DeviceResult<{ device: DeviceRecord }>> {
+        if (!parseDevicePublicKey(input.publicKey)) {
+            return fail(400, '유효한 Ed25519 공개키가 필요합니다.');
+        }
+        if (await this.store.countActive(userId) >= MAX_DEVICES_PER_USER) {
+            return fail(409, `장치는 최대 ${MAX_DEVICES_PER_USER}대까지 등록할 수 있습니다.`);
+        }
+
+        const id = uuidv4();
+        await this.store.create({
+            id,
+            userId,
+            name: input.name,
+            publicKey: input.publicKey,
+            platform: input.platform || null,
+        });
+        return { success: true, device: (await this.store.get(id))! };
+    }
+
+    async listForUser(userId: string): Promise<AccessibleDevice[]> {
+        return this.store.listAccessible(userId);
+    }
+
+    /**
+     * 장치 이름 변경 (소유자만)
+     */
+    async rename(actorId: string, deviceId: string, name: string): Promise<DeviceResult<{ device: DeviceRecord }>> {
+        const device = await this.store.get(deviceId);
+        if (!device || device.revokedAt || device.userId !== actorId) {
+            return fail(404, '장치를 찾을 수 없습니다.');
+        }
+
+        await this.store.rename(deviceId, name);
+        return { success: true, device: { ...device, name } };
+    }
+
+    /**
+     * 장치 해제 (소유자, 또는 같은 조직의 owner/admin)
+     */
+    async revoke(actorId: string, deviceId: string): Promise<DeviceResult<{ device: DeviceRecord }>> {
+        const device = await this.store.get(deviceId);
+        if (!device || device.revokedAt) {
+            return fail(404, '장치를 찾을 수 없습니다.');
+        }
+
+        if (device.userId !== actorId) {
+            const role = await this.store.findSharedOrganizationRole(actorId, device.userId);
+            if (!role) return fail(404, '장치를 찾을 수 없습니다.');
+            if (role !== 'owner' && role !== 'admin') {
+                return fail(403, '다른 구성원의 장치는 조직 관리자만 해제할 수 있습니다.');
+            }
+        }
+
+        const revokedAt = new Date(this.now());
+        if (!(await this.store.revoke(deviceId, revokedAt))) {
+            return fail(404, '장치를 찾을 수 없습니다.');
+        }
+        return { success: true, device: { ...device, revokedAt: revokedAt.toISOString() } };
+    }
+
+    /**
+     * 비밀번호 없는 연결 허용 여부 (소유자 본인 또는 같은 조직 구성원, isOwner가 아니면 호스트 승인 필요)
+     */
+    async authorizeConnection(userId: string, deviceId: string): Promise<DeviceResult<{ device: DeviceRecord; isOwner: boolean }>> {
+        const device = await this.store.get(deviceId);
+        if (!device || device.revokedAt) {
+            return fail(404, '장치를 찾을 수 없습니다.');
+        }
+        const isOwner = device.userId === userId;
+        if (!isOwner && !(await this.store.findSharedOrganizationRole(userId, device.userId))) {
+            return fail(403, '이 장치에 연결할 권한이 없습니다.');
+        }
+        return { success: true, device, isOwner };
+    }
+
+    /**
+     * 호스트 등록 시 장치 서명 확인 (해제됐거나 서명이 틀리면 null)
+     */
+    async verifyRegistration(proof: DeviceProof): Promise<DeviceRecord | null> {
+        const now = this.now();
+        if (!Number.isFinite(proof.timestamp) || Math.abs(now - proof.timestamp) > this.signatureWindowMs) {
+            return null;
+        }
+
+        const device = await this.store.get(proof.deviceId);
+        if (!device || device.revokedAt) return null;
+
+        const key = parseDevicePublicKey(device.publicKey);
+        if (!key) return null;
+
+        const payload = Buffer.from(getDeviceSignaturePayload(proof.deviceId, proof.connectionId, proof.timestamp));
+        let valid = false;
+        try {
+            valid = crypto.verify(null, payload, key, Buffer.from(proof.signature, 'base64'));
+        } catch {
+            valid = false;
+        }
+        if (!valid) return null;
+
+        await this.store.touch(device.id, new Date(now));
+        return device;
+    }
+}
+
+export class PostgresDeviceStore implements DeviceStore {
+    constructor(private readonly db: Queryable) { }
+
+    async create(device: Omit<DeviceRecord, 'createdAt' | 'lastSeenAt' | 'revokedAt'>): Promise<void> {
+        await this.db.query(
+            'INSERT INTO devices (id, user_id, name, public_key, platform) VALUES ($1, $2, $3, $4, $5)',
+            [device.id, device.userId, device.name, device.publicKey, device.platform]
+        );
+    }
+
+    async get(deviceId: string): Promise<DeviceRecord | null> {
+        const result = await this.db.query('SELECT * FROM devices WHERE id = $1', [deviceId]);
+        return result.rows[0] ? rowToDevice(result.rows[0]) : null;
+    }
+
+    async countActive(userId: string): Promise<number> {
+        const result = await this.db.query(
+            'SELECT COUNT(*) AS total FROM devices WHERE user_id = $1 AND revoked_at IS NULL',
+            [userId]
+        );
+        return Number(result.rows[0]?.total ?? 0);
+    }
+
+    async listAccessible(userId: string): Promise<AccessibleDevice[]> {
+        const result = await this.db.query(
+            `SELECT d.*, u.email AS owner_email, u.name AS owner_name
+             FROM devices d
+             JOIN users u ON u.id = d.user_id
+             WHERE d.revoked_at IS NULL
+               AND (d.user_id = $1 OR d.user_id IN (
+                   SELECT peer.user_id
+                   FROM organization_members me
+                   JOIN organization_members peer ON peer.organization_id = me.organization_id
+                   WHERE me.user_id = $1
+               ))
+             ORDER BY (d.user_id = $1) DESC, d.name`,
+            [userId]
+        );
+        return result.rows.map((row: any) => ({
+            ...rowToDevice(row),
+            ownerEmail: row.owner_email,
+            ownerName: row.owner_name || null,
+        }));
+    }
+
+    async rename(deviceId: string, name: string): Promise<void> {
+        await this.db.query('UPDATE devices SET name = $2 WHERE id = $1', [deviceId, name]);
+    }
+
+    async revoke(deviceId: string, revokedAt: Date): Promise<boolean> {
+        const result = await this.db.query(
+            'UPDATE devices SET revoked_at = $2 WHERE id = $1 AND revoked_at IS NULL RETURNING id',
+            [deviceId, revokedAt]
+        );
+        return result.rows.length > 0;
+    }
+
+    async touch(deviceId: string, seenAt: Date): Promise<void> {
+        await this.db.query('UPDATE devices SET last_seen_at = $2 WHERE id = $1', [deviceId, seenAt]);
+    }
+
+    async findSharedOrganizationRole(actorId: string, ownerId: string): Promise<string | null> {
+        const result = await this.db.query(
+            `SELECT me.role
+             FROM organization_members me
+             JOIN organization_members owner ON owner.organization_id = me.organization_id
+             WHERE me.user_id = $1 AND owner.user_id = $2`,
+            [actorId, ownerId]
+        );
+        return result.rows[0]?.role ?? null;
+    }
+}
+
+function rowToDevice(row: any): DeviceRecord {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        name: row.name,
+        publicKey: row.public_key,
+        platform: row.platform || null,
+        createdAt: toIso(row.created_at)!,
+        lastSeenAt: toIso(row.last_seen_at),
+        revokedAt: toIso(row.revoked_at),
+    };
+}
@@ -0,0 +1,147 @@
+/**
+ * 결제 내역 (영수증) 서비스
+ * 첫 결제, 정기 갱신, 플랜 변경마다 invoices에 한 행을 기록
+ *
+ * 주문 ID가 같으면 다시 기록하지 않으므로 재시도해도 중복되지 않음.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, toIso } from '../models/database';
+import { UserPlan } from '../types/api.types';
+import { TossPayment } from './tossPayments';
+
+export type InvoiceKind = 'subscription' | 'renewal' | 'plan_change';
+export type InvoiceStatus = 'paid' | 'credited' | 'refunded';
+
+export interface InvoiceLineItem {
+    description: string;
+    // 원화, 크레딧은 음수
+    amount: number;
+}
+
+export interface NewInvoice {
+    userId: string;
+    subscriptionId?: string;
+    orderId: string;
+    kind: InvoiceKind;
+    plan: UserPlan;
+    amount: number;
+    status?: InvoiceStatus;
+    lineItems: InvoiceLineItem[];
+    // 실제 결제가 있었던 경우 영수증 정보
+    payment?: TossPayment;
+    periodStart?: Date;
+    periodEnd?: Date;
+}
+
+export interface InvoiceItem {
+    id: string;
+    orderId: string;
+    kind: InvoiceKind;
+    plan: UserPlan;
+    amount: number;
+    currency: string;
+    status: InvoiceStatus;
+    lineItems: InvoiceLineItem[];
+    receipt: {
+        paymentKey: string | null;
+        method: string | null;
+        url: string | null;
+        paidAt: string | null;
+    };
+    periodStart: string | null;
+    periodEnd: string | null;
+    createdAt: string;
+}
+
+export interface InvoicePage {
+    invoices: InvoiceItem[];
+    pagination: { page: number; limit: number; total: number };
+}
+
+export const DEFAULT_INVOICE_PAGE_SIZE = 20;
+export const MAX_INVOICE_PAGE_SIZE = 100;
+
+export class InvoiceService {
+    constructor(private readonly db: Queryable) { }
+
+    /**
+     * 결제 내역 기록 (같은 주문 ID는 무시)
+     */
+    async record(invoice: NewInvoice): Promise<string> {
+        const id = uuidv4();
+        const payment = invoice.payment;
+
+        await this.db.query(
+            `INSERT INTO invoices (id, user_id, subscription_id, order_id, kind, plan, amount, status, line_items,
+                payment_key, method, receipt_url, period_start, period_end, paid_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+             ON CONFLICT (order_id) DO NOTHING`,
+            [
+                id,
+                invoice.userId,
+                invoice.subscriptionId || null,
+                invoice.orderId,
+                invoice.kind,
+                invoice.plan,
+                invoice.amount,
+                invoice.status || 'paid',
+                JSON.stringify(invoice.lineItems),
+                payment?.paymentKey || null,
+                payment?.method || null,
+                payment?.receipt?.url || null,
+                invoice.periodStart?.toISOString() || null,
+                invoice.periodEnd?.toISOString() || null,
+                payment ? (payment.approvedAt || new Date().toISOString()) : null,
+            ]
+        );
+        return id;
+    }
+
+    /**
+     * 사용자의 결제 내역 조회 (최신순)
+     */
+    async listForUser(userId: string, page = 1, limit = DEFAULT_INVOICE_PAGE_SIZE): Promise<InvoicePage> {
+        page = Math.max(page, 1);
+        limit = Math.min(Math.max(limit, 1), MAX_INVOICE_PAGE_SIZE);
+
+        const countResult = await this.db.query(
+            'SELECT COUNT(*) AS total FROM invoices WHERE user_id = $1',
+            [userId]
+        );
+
+        const result = await this.db.query(
+            `SELECT * FROM invoices WHERE user_id = $1
+             ORDER BY created_at DESC, id DESC
+             LIMIT $2 OFFSET $3`,
+            [userId, limit, (page - 1) * limit]
+        );
+
+        return {
+            invoices: result.rows.map(rowToItem),
+            pagination: { page, limit, total: Number(countResult.rows[0]?.total || 0) },
+        };
+    }
+}
+
+function rowToItem(row: any): InvoiceItem {
+    return {
+        id: row.id,
+        orderId: row.order_id,
+        kind: row.kind,
+        plan: row.plan,
+        amount: row.amount,
+        currency: row.currency || 'KRW',
+        status: row.status,
+        lineItems: typeof row.line_items === 'string' ? JSON.parse(row.line_items) : (row.line_items || []),
+        receipt: {
+            paymentKey: row.payment_key || null,
+            method: row.method || null,
+            url: row.receipt_url || null,
+            paidAt: toIso(row.paid_at),
+        },
+        periodStart: toIso(row.period_start),
+        periodEnd: toIso(row.period_end),
+        createdAt: toIso(row.created_at)!,
+    };
+}
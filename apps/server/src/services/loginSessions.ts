@@ -0,0 +1,299 @@
+/**
+ * 로그인 세션 (리프레시 토큰 패밀리)
+ * 로그인 한 번이 패밀리 하나, 토큰을 갱신할 때마다 같은 패밀리에 새 토큰 발급
+ *
+ * - 갱신된(이미 사용한) 토큰이 다시 들어오면 탈취로 보고 패밀리 전체를 폐기
+ *   (단, 유예 시간 안에 바로 이전 토큰이 다시 오면 동시 갱신으로 보고 이미 발급한 다음 토큰을 돌려줌)
+ * - 만료/폐기된 패밀리는 주기적으로 삭제 (prune)
+ * - 세션 목록에는 로그인한 기기의 User-Agent/IP와 마지막 갱신 시간 표시
+ * - 세션을 폐기하면 그 기기의 리프레시 토큰은 더 이상 갱신되지 않음 (발급된 액세스 토큰은 만료까지 유효)
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, toIso } from '../models/database';
+
+export const DEFAULT_REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7일
+// 여러 창/요청이 같은 토큰으로 동시에 갱신할 수 있는 시간
+export const DEFAULT_REUSE_GRACE_MS = 10 * 1000;
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface RefreshTokenRecord {
+    id: string;
+    familyId: string;
+    userId: string;
+    expiresAt: string;
+    rotatedAt: string | null;
+    revokedAt: string | null;
+    // 갱신으로 발급한 다음 토큰 ID
+    replacedBy: string | null;
+}
+
+export interface LoginSession {
+    // 패밀리 ID
+    id: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+}
+
+export interface SessionContext {
+    userAgent?: string | null;
+    ipAddress?: string | null;
+}
+
+/**
+ * 리프레시 토큰 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface LoginSessionStore {
+    create(token: {
+        id: string;
+        familyId: string;
+        userId: string;
+        token: string;
+        expiresAt: Date;
+        userAgent: string | null;
+        ipAddress: string | null;
+    }): Promise<void>;
+    findByToken(token: string): Promise<RefreshTokenRecord | null>;
+    findById(tokenId: string): Promise<(RefreshTokenRecord & { token: string }) | null>;
+    // 아직 사용하지 않은 토큰이면 다음 토큰을 연결해 사용 처리하고 true (동시에 같은 토큰으로 갱신하면 한 번만 성공)
+    markRotated(tokenId: string, at: Date, replacedBy: string): Promise<boolean>;
+    deleteToken(tokenId: string): Promise<void>;
+    revokeFamily(familyId: string, at: Date): Promise<void>;
+    // 사용자의 패밀리 폐기 (다른 사용자의 패밀리면 false)
+    revokeUserFamily(userId: string, familyId: string, at: Date): Promise<boolean>;
+    // 유효한 토큰이 남아 있는 패밀리 (최근 사용 순)
+    listActive(userId: string, now: Date): Promise<LoginSession[]>;
+    // 폐기되었거나 모든 토큰이 만료된 패밀리 삭제
+    deleteInactive(now: Date): Promise<void>;
+}
+
+export type RotateResult =
+    | { success: true; userId: string; sessionId: string; refreshToken: string }
+    | { success: false; reason: 'invalid' | 'reused'; userId?: string; sessionId?: string };
+
+export interface LoginSessionServiceOptions {
+    ttlMs?: number;
+    reuseGraceMs?: number;
+    now?: () => number;
+}
+
+export class LoginSessionService {
+    private readonly now: () => number;
+    private readonly ttlMs: number;
+    private readonly reuseGraceMs: number;
+
+    constructor(
+        private readonly store: LoginSessionStore,
+        options: LoginSessionServiceOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+        this.ttlMs = options.ttlMs ?? DEFAULT_REFRESH_TOKEN_TTL_MS;
+        this.reuseGraceMs = options.reuseGraceMs ?? DEFAULT_REUSE_GRACE_MS;
+    }
+
+    /**
+     * 로그인 (새 패밀리)
+     */
+    async start(userId: string, context: SessionContext = {}): Promise<{ sessionId: string; refreshToken: string }> {
+        const sessionId = uuidv4();
+        const { token } = await this.issue(userId, sessionId, context);
+        return { sessionId, refreshToken: token };
+    }
+
+    /**
+     * 토큰 갱신 (사용한 토큰을 다시 쓰면 패밀리 전체 폐기)
+     */
+    async rotate(refreshToken: string, context: SessionContext = {}): Promise<RotateResult> {
+        const record = await this.store.findByToken(refreshToken);
+        if (!record || record.revokedAt || Date.parse(record.expiresAt) <= this.now()) {
+            return { success: false, reason: 'invalid' };
+        }
+
+        const now = new Date(this.now());
+        if (record.rotatedAt) {
+            return this.reuse(record, now);
+        }
+
+        // 다음 토큰을 먼저 만들고 연결 (동시 요청이 연결된 토큰을 찾을 수 있도록)
+        const next = await this.issue(record.userId, record.familyId, context);
+        if (!(await this.store.markRotated(record.id, now, next.id))) {
+            // 다른 요청이 먼저 갱신함
+            await this.store.deleteToken(next.id);
+            const latest = await this.store.findByToken(refreshToken);
+            if (!latest || latest.revokedAt) {
+                return { success: false, reason: 'invalid' };
+            }
+            return this.reuse(latest, now);
+        }
+
+        return { success: true, userId: record.userId, sessionId: record.familyId, refreshToken: next.token };
+    }
+
+    /**
+     * 로그아웃 (토큰의 패밀리 폐기)
+     */
+    async end(refreshToken: string): Promise<void> {
+        const record = await this.store.findByToken(refreshToken);
+        if (record && !record.revokedAt) {
+            await this.store.revokeFamily(record.familyId, new Date(this.now()));
+        }
+    }
+
+    async list(userId: string): Promise<LoginSession[]> {
+        return this.store.listActive(userId, new Date(this.now()));
+    }
+
+    /**
+     * 다른 기기 로그아웃 (본인 세션만)
+     */
+    async revoke(userId: string, sessionId: string): Promise<boolean> {
+        return this.store.revokeUserFamily(userId, sessionId, new Date(this.now()));
+    }
+
+    /**
+     * 만료/폐기된 패밀리 삭제
+     */
+    async prune(): Promise<void> {
+        await this.store.deleteInactive(new Date(this.now()));
+    }
+
+    /**
+     * 이미 갱신한 토큰이 다시 들어온 경우
+     * 유예 시간 안이고 다음 토큰이 아직 쓰이지 않았으면(바로 이전 토큰) 같은 다음 토큰 반환, 아니면 패밀리 폐기
+     */
+    private async reuse(record: RefreshTokenRecord, now: Date): Promise<RotateResult> {
+        if (record.rotatedAt && record.replacedBy && now.getTime() - Date.parse(record.rotatedAt) <= this.reuseGraceMs) {
+            const next = await this.store.findById(record.replacedBy);
+            if (next && !next.rotatedAt && !next.revokedAt) {
+                return { success: true, userId: record.userId, sessionId: record.familyId, refreshToken: next.token };
+            }
+        }
+
+        await this.store.revokeFamily(record.familyId, now);
+        return { success: false, reason: 'reused', userId: record.userId, sessionId: record.familyId };
+    }
+
+    private async issue(userId: string, familyId: string, context: SessionContext): Promise<{ id: string; token: string }> {
+        const id = uuidv4();
+        const token = crypto.randomBytes(32).toString('hex');
+        await this.store.create({
+            id,
+            familyId,
+            userId,
+            token,
+            expiresAt: new Date(this.now() + this.ttlMs),
+            userAgent: context.userAgent ? context.userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null,
+            ipAddress: context.ipAddress || null,
+        });
+        return { id, token };
+    }
+}
+
+export class PostgresLoginSessionStore implements LoginSessionStore {
+    constructor(private readonly db: Queryable) { }
+
+    async create(token: Parameters<LoginSessionStore['create']>[0]): Promise<void> {
+        await this.db.query(
+            `INSERT INTO refresh_tokens (id, family_id, user_id, token, expires_at, user_agent, ip_address)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [token.id, token.familyId, token.userId, token.token, token.expiresAt, token.userAgent, token.ipAddress]
+        );
+    }
+
+    async findByToken(token: string): Promise<RefreshTokenRecord | null> {
+        const result = await this.db.query('SELECT * FROM refresh_tokens WHERE token = $1', [token]);
+        return result.rows[0] ? rowToRecord(result.rows[0]) : null;
+    }
+
+    async findById(tokenId: string): Promise<(RefreshTokenRecord & { token: string }) | null> {
+        const result = await this.db.query('SELECT * FROM refresh_tokens WHERE id = $1', [tokenId]);
+        const row = result.rows[0];
+        return row ? { ...rowToRecord(row), token: row.token } : null;
+    }
+
+    async markRotated(tokenId: string, at: Date, replacedBy: string): Promise<boolean> {
+        const result = await this.db.query(
+            `UPDATE refresh_tokens SET rotated_at = $2, replaced_by = $3
+             WHERE id = $1 AND rotated_at IS NULL AND revoked_at IS NULL
+             RETURNING id`,
+            [tokenId, at, replacedBy]
+        );
+        return result.rows.length > 0;
+    }
+
+    async deleteToken(tokenId: string): Promise<void> {
+        await this.db.query('DELETE FROM refresh_tokens WHERE id = $1', [tokenId]);
+    }
+
+    async revokeFamily(familyId: string, at: Date): Promise<void> {
+        await this.db.query(
+            'UPDATE refresh_tokens SET revoked_at = $2 WHERE family_id = $1 AND revoked_at IS NULL',
+            [familyId, at]
+        );
+    }
+
+    async revokeUserFamily(userId: string, familyId: string, at: Date): Promise<boolean> {
+        const result = await this.db.query(
+            `UPDATE refresh_tokens SET revoked_at = $3
+             WHERE user_id = $1 AND family_id = $2 AND revoked_at IS NULL
+             RETURNING id`,
+            [userId, familyId, at]
+        );
+        return result.rows.length > 0;
+    }
+
+    async listActive(userId: string, now: Date): Promise<LoginSession[]> {
+        const result = await this.db.query(
+            `SELECT family_id,
+                    MIN(created_at) AS created_at,
+                    MAX(created_at) AS last_used_at,
+                    MAX(expires_at) FILTER (WHERE rotated_at IS NULL) AS expires_at,
+                    (ARRAY_AGG(user_agent ORDER BY created_at DESC))[1] AS user_agent,
+                    (ARRAY_AGG(ip_address ORDER BY created_at DESC))[1] AS ip_address
+             FROM refresh_tokens
+             WHERE user_id = $1
+             GROUP BY family_id
+             HAVING BOOL_AND(revoked_at IS NULL)
+                AND MAX(expires_at) FILTER (WHERE rotated_at IS NULL) > $2
+             ORDER BY last_used_at DESC`,
+            [userId, now]
+        );
+
+        return result.rows.map(row => ({
+            id: row.family_id,
+            userAgent: row.user_agent || null,
+            ipAddress: row.ip_address || null,
+            createdAt: toIso(row.created_at)!,
+            lastUsedAt: toIso(row.last_used_at)!,
+            expiresAt: toIso(row.expires_at)!,
+        }));
+    }
+
+    async deleteInactive(now: Date): Promise<void> {
+        await this.db.query(
+            `DELETE FROM refresh_tokens
+             WHERE family_id IN (
+                SELECT family_id FROM refresh_tokens
+                GROUP BY family_id
+                HAVING BOOL_OR(revoked_at IS NOT NULL) OR MAX(expires_at) <= $1
+             )`,
+            [now]
+        );
+    }
+}
+
+function rowToRecord(row: any): RefreshTokenRecord {
+    return {
+        id: row.id,
+        familyId: row.family_id,
+        userId: row.user_id,
+        expiresAt: toIso(row.expires_at)!,
+        rotatedAt: toIso(row.rotated_at),
+        revokedAt: toIso(row.revoked_at),
+        replacedBy: row.replaced_by ?? null,
+    };
+}
@@ -0,0 +1,334 @@
+/**
+ * 메일 발송
+ * 전송 방식은 MailTransport로 분리 (SMTP, 파일, 콘솔)
+ *
+ * - MAIL_TRANSPORT=smtp|file|console (기본: SMTP_HOST가 있으면 smtp, 없으면 console)
+ * - file은 MAIL_DIR에 .eml로 저장해서 메일 서버 없이 링크 확인 가능
+ * - SMTP는 추가 의존성 없이 net/tls로 직접 전송 (465는 암묵적 TLS, 그 외는 STARTTLS 필수)
+ * - 암호화되지 않은 연결에서는 AUTH를 보내지 않음 (STARTTLS를 제거하는 중간자 공격 방지)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+export const DEFAULT_MAIL_FROM = 'LunarView <no-reply@lunarview-remote.com>';
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    // true면 처음부터 TLS (465), false면 STARTTLS
+    secure: boolean;
+    user?: string;
+    pass?: string;
+    from?: string;
+    timeoutMs?: number;
+    // 테스트 서버용 (자체 서명 인증서)
+    rejectUnauthorized?: boolean;
+    // true면 STARTTLS를 지원하지 않는 서버에 평문으로 전송 (로컬 테스트 서버용, AUTH는 여전히 거부)
+    allowInsecure?: boolean;
+}
+
+/**
+ * RFC 5322 메시지 (본문은 UTF-8 base64)
+ */
+export function formatMailMessage(message: MailMessage, from: string, date: Date = new Date()): string {
+    const domain = extractAddress(from).split('@')[1] || 'localhost';
+    const headers = [
+        `From: ${from}`,
+        `To: ${stripLineBreaks(message.to)}`,
+        `Subject: ${encodeHeader(stripLineBreaks(message.subject))}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+    ];
+
+    if (!message.html) {
+        return [...headers, ...bodyPart('text/plain', message.text)].join('\r\n');
+    }
+
+    const boundary = `lunarview-${crypto.randomBytes(12).toString('hex')}`;
+    return [
+        ...headers,
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        ...bodyPart('text/plain', message.text),
+        `--${boundary}`,
+        ...bodyPart('text/html', message.html),
+        `--${boundary}--`,
+        '',
+    ].join('\r\n');
+}
+
+/**
+ * 콘솔 출력 (개발용)
+ */
+export class ConsoleMailTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    }
+}
+
+/**
+ * .eml 파일로 저장 (오프라인 테스트용)
+ */
+export class FileMailTransport implements MailTransport {
+    constructor(
+        private readonly directory: string,
+        private readonly from: string = DEFAULT_MAIL_FROM
+    ) { }
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+        await fs.writeFile(path.join(this.directory, fileName), formatMailMessage(message, this.from));
+    }
+}
+
+/**
+ * SMTP 전송
+ */
+export class SmtpMailTransport implements MailTransport {
+    constructor(private readonly options: SmtpOptions) { }
+
+    async send(message: MailMessage): Promise<void> {
+        const from = this.options.from || DEFAULT_MAIL_FROM;
+        const session = await SmtpSession.open(this.options);
+
+        try {
+            await session.expect(220);
+            let features = await session.command(`EHLO ${os.hostname()}`, 250);
+            let encrypted = this.options.secure;
+
+            if (!encrypted && /^STARTTLS$/im.test(features)) {
+                await session.command('STARTTLS', 220);
+                session.upgrade(this.options);
+                encrypted = true;
+                features = await session.command(`EHLO ${os.hostname()}`, 250);
+            }
+            if (!encrypted && !this.options.allowInsecure) {
+                throw new Error('SMTP server does not support STARTTLS');
+            }
+
+            if (this.options.user) {
+                if (!encrypted) {
+                    throw new Error('Refusing to send SMTP credentials over an unencrypted connection');
+                }
+                if (!/^AUTH\b.*\bPLAIN\b/im.test(features)) {
+                    throw new Error('SMTP server does not support AUTH PLAIN');
+                }
+                const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass ?? ''}`).toString('base64');
+                await session.command(`AUTH PLAIN ${credentials}`, 235);
+            }
+
+            await session.command(`MAIL FROM:<${extractAddress(from)}>`, 250);
+            await session.command(`RCPT TO:<${extractAddress(message.to)}>`, 250, 251);
+            await session.command('DATA', 354);
+            await session.command(`${formatMailMessage(message, from)}\r\n.`, 250);
+            await session.command('QUIT', 221).catch(() => undefined);
+        } finally {
+            session.close();
+        }
+    }
+}
+
+/**
+ * 환경 변수 설정으로 전송 방식 선택
+ */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+    const from = env.MAIL_FROM || DEFAULT_MAIL_FROM;
+    const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+    switch (kind) {
+        case 'smtp': {
+            if (!env.SMTP_HOST) {
+                throw new Error('SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+            }
+            const port = parseInt(env.SMTP_PORT || '587', 10);
+            return new SmtpMailTransport({
+                host: env.SMTP_HOST,
+                port,
+                secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+                user: env.SMTP_USER,
+                pass: env.SMTP_PASS,
+                from,
+                allowInsecure: env.SMTP_INSECURE === 'true',
+            });
+        }
+        case 'file':
+            return new FileMailTransport(env.MAIL_DIR || path.resolve(process.cwd(), 'mail'), from);
+        case 'console':
+            return new ConsoleMailTransport();
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+    }
+}
+
+// SMTP 응답 읽기/명령 전송 (한 번에 명령 하나)
+class SmtpSession {
+    private buffer = '';
+    private lines: string[] = [];
+    private waiter: (() => void) | null = null;
+    private failure: Error | null = null;
+    private readonly onData = (chunk: Buffer) => this.receive(chunk);
+    private readonly onError = (error: Error) => this.fail(error);
+    private readonly onClose = () => this.fail(new Error('SMTP connection closed'));
+
+    private constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+        this.attach(socket);
+    }
+
+    static open(options: SmtpOptions): Promise<SmtpSession> {
+        const timeoutMs = options.timeoutMs ?? SMTP_TIMEOUT_MS;
+
+        return new Promise((resolve, reject) => {
+            const socket = options.secure
+                ? tls.connect({ host: options.host, port: options.port, servername: options.host, rejectUnauthorized: options.rejectUnauthorized ?? true })
+                : net.connect({ host: options.host, port: options.port });
+
+            const timer = setTimeout(() => {
+                socket.destroy();
+                reject(new Error('SMTP connection timed out'));
+            }, timeoutMs);
+
+            socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+                clearTimeout(timer);
+                socket.removeListener('error', onConnectError);
+                resolve(new SmtpSession(socket, timeoutMs));
+            });
+            const onConnectError = (error: Error) => {
+                clearTimeout(timer);
+                reject(error);
+            };
+            socket.once('error', onConnectError);
+        });
+    }
+
+    // STARTTLS 이후 같은 소켓을 TLS로 감쌈
+    upgrade(options: SmtpOptions): void {
+        this.detach(this.socket);
+        this.socket.on('error', ignoreError);
+        this.socket = tls.connect({
+            socket: this.socket,
+            servername: options.host,
+            rejectUnauthorized: options.rejectUnauthorized ?? true,
+        });
+        this.attach(this.socket);
+    }
+
+    async command(line: string, ...expected: number[]): Promise<string> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(...expected);
+    }
+
+    // 응답 코드 확인 후 응답 본문 반환 (여러 줄 응답은 줄바꿈으로 연결)
+    async expect(...expected: number[]): Promise<string> {
+        const texts: string[] = [];
+        let line: string;
+        do {
+            line = await this.readLine();
+            texts.push(line.slice(4));
+        } while (line[3] === '-');
+
+        const code = parseInt(line.slice(0, 3), 10);
+        if (!expected.includes(code)) {
+            throw new Error(`SMTP error: ${texts.join(' ')} (${code})`);
+        }
+        return texts.join('\n');
+    }
+
+    close(): void {
+        this.detach(this.socket);
+        // 종료 후 늦게 오는 ECONNRESET/TLS 오류가 처리되지 않은 'error' 이벤트가 되지 않도록
+        this.socket.on('error', ignoreError);
+        this.socket.end();
+    }
+
+    private async readLine(): Promise<string> {
+        const deadline = Date.now() + this.timeoutMs;
+        while (this.lines.length === 0) {
+            if (this.failure) throw this.failure;
+            if (Date.now() >= deadline) throw new Error('SMTP response timed out');
+
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, deadline - Date.now());
+                this.waiter = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+            this.waiter = null;
+        }
+        return this.lines.shift()!;
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer += chunk.toString('utf8');
+        const parts = this.buffer.split('\r\n');
+        this.buffer = parts.pop()!;
+        this.lines.push(...parts);
+        this.waiter?.();
+    }
+
+    private fail(error: Error): void {
+        this.failure = this.failure ?? error;
+        this.waiter?.();
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.on('data', this.onData);
+        socket.on('error', this.onError);
+        socket.on('close', this.onClose);
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.removeListener('data', this.onData);
+        socket.removeListener('error', this.onError);
+        socket.removeListener('close', this.onClose);
+    }
+}
+
+function ignoreError(): void { }
+
+function bodyPart(contentType: string, body: string): string[] {
+    const encoded = Buffer.from(body, 'utf8').toString('base64').match(/.{1,76}/g) ?? [];
+    return [
+        `Content-Type: ${contentType}; charset=UTF-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        ...encoded,
+        '',
+    ];
+}
+
+// 비ASCII 제목은 RFC 2047 인코딩
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// 헤더 주입 방지
+function stripLineBreaks(value: string): string {
+    return value.replace(/[\r\n]/g, '');
+}
+
+// "이름 <주소>" 형식에서 주소만
+function extractAddress(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return stripLineBreaks(match ? match[1] : value).trim();
+}
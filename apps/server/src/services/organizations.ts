@@ -0,0 +1,596 @@
+/**
+ * 조직(팀) 서비스
+ * 팀/비즈니스 구독 하나에 조직을 연결하고 구성원, 역할, 좌석, 이메일 초대를 관리
+ *
+ * - 역할: owner (모든 권한, 변경/탈퇴 불가), admin (초대/구성원 관리), member
+ * - 좌석: 구독의 seats. 구성원 + 대기 중인 초대 수가 좌석 수를 넘을 수 없음
+ *   좌석 변경은 남은 기간만큼 일할 계산해 결제/크레딧 처리 (SeatBilling)
+ * - 구성원은 개인 플랜과 조직 플랜 중 높은 플랜을 사용 (authMiddleware, 시그널링 플랜 제한)
+ * - 초대 토큰은 해시만 저장하고 원문은 생성 시 한 번만 반환
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, getDatabase, toIso } from '../models/database';
+import { PlanId, isPlanId } from '../../../../packages/protocol/src/plans';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+export type InvitableRole = Exclude<OrganizationRole, 'owner'>;
+
+export const ORGANIZATION_PLANS: readonly PlanId[] = ['business', 'team'];
+export const MAX_ORGANIZATION_SEATS = 500;
+export const DEFAULT_INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7일
+
+export interface OrganizationRecord {
+    id: string;
+    name: string;
+    ownerId: string;
+    subscriptionId: string | null;
+    // 구독이 활성(또는 결제 유예) 상태가 아니면 free
+    plan: PlanId;
+    seats: number;
+    createdAt: string;
+}
+
+export interface MembershipRecord {
+    organizationId: string;
+    userId: string;
+    role: OrganizationRole;
+}
+
+export interface MemberRecord extends MembershipRecord {
+    email: string;
+    name: string | null;
+    joinedAt: string;
+}
+
+export interface InvitationRecord {
+    id: string;
+    organizationId: string;
+    email: string;
+    role: InvitableRole;
+    tokenHash: string;
+    invitedBy: string;
+    expiresAt: string;
+    acceptedAt: string | null;
+    createdAt: string;
+}
+
+export interface OwnerSubscription {
+    id: string;
+    plan: string;
+    status: string;
+}
+
+/**
+ * 조직 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface OrganizationStore {
+    create(org: { id: string; name: string; ownerId: string; subscriptionId: string }): Promise<void>;
+    get(organizationId: string): Promise<OrganizationRecord | null>;
+    rename(organizationId: string, name: string): Promise<void>;
+    // 조직 소유자가 연결할 수 있는 최근 구독
+    findOwnerSubscription(userId: string): Promise<OwnerSubscription | null>;
+    isSubscriptionLinked(subscriptionId: string): Promise<boolean>;
+
+    findMembership(userId: string): Promise<MembershipRecord | null>;
+    listMembers(organizationId: string): Promise<MemberRecord[]>;
+    addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<void>;
+    updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<void>;
+    removeMember(organizationId: string, userId: string): Promise<boolean>;
+    // 조직 구성원이면 조직 플랜, 아니면 null
+    getMemberPlan(userId: string): Promise<PlanId | null>;
+
+    createInvitation(invitation: Omit<InvitationRecord, 'acceptedAt' | 'createdAt'>): Promise<void>;
+    listPendingInvitations(organizationId: string, now: Date): Promise<InvitationRecord[]>;
+    findInvitationByTokenHash(tokenHash: string): Promise<InvitationRecord | null>;
+    markInvitationAccepted(invitationId: string, acceptedAt: Date): Promise<void>;
+    deleteInvitation(organizationId: string, invitationId: string): Promise<boolean>;
+}
+
+export type OrganizationResult<T = {}> =
+    | ({ success: true } & T)
+    | { success: false; status: 400 | 403 | 404 | 409; error: string };
+
+export interface OrganizationDetails {
+    organization: OrganizationRecord;
+    role: OrganizationRole;
+    members: MemberRecord[];
+    invitations: Array<Omit<InvitationRecord, 'tokenHash'>>;
+    seatsUsed: number;
+}
+
+// 좌석 변경 결제 (PlanChangeService.changeSeats), 성공하면 구독 seats도 갱신
+export interface SeatBilling {
+    changeSeats(subscriptionId: string, seats: number): Promise<{ success: boolean; error?: string }>;
+}
+
+export interface OrganizationServiceOptions {
+    invitationTtlMs?: number;
+    now?: () => number;
+}
+
+/**
+ * DB에서 조직 플랜 조회 (조직이 없거나 DB가 없으면 null)
+ */
+export async function resolveMemberPlanFromDatabase(userId: string): Promise<PlanId | null> {
+    try {
+        return await new PostgresOrganizationStore(getDatabase()).getMemberPlan(userId);
+    } catch {
+        return null;
+    }
+}
+
+export function hashInvitationToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isInvitableRole(value: unknown): value is InvitableRole {
+    return value === 'admin' || value === 'member';
+}
+
+const fail = (status: 400 | 403 | 404 | 409, error: string) => ({ success: false as const, status, error });
+
+export class OrganizationService {
+    private readonly now: () => number;
+    private readonly invitationTtlMs: number;
+
+    constructor(
+        private readonly store: OrganizationStore,
+        private readonly billing: SeatBilling,
+        options: OrganizationServiceOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+        this.invitationTtlMs = options.invitationTtlMs ?? DEFAULT_INVITATION_TTL_MS;
+    }
+
+    /**
+     * 조직 생성 (팀/비즈니스 구독 소유자만, 생성자는 owner)
+     */
+    async create(userId: string, name: string): Promise<OrganizationResult<{ organization: OrganizationRecord }>> {
+        if (await this.store.findMembership(userId)) {
+            return fail(409, '이미 다른 조직에 소속되어 있습니다.');
+        }
+
+        const subscription = await this.store.findOwnerSubscription(userId);
+        if (!subscription || subscription.status !== 'active' || !ORGANIZATION_PLANS.includes(subscription.plan as PlanId)) {
+            return fail(403, '팀 또는 비즈니스 플랜 구독이 필요합니다.');
+        }
+        if (await this.store.isSubscriptionLinked(subscription.id)) {
+            return fail(409, '이 구독은 이미 다른 조직에 연결되어 있습니다.');
+        }
+
+        const id = uuidv4();
+        await this.store.create({ id, name, ownerId: userId, subscriptionId: subscription.id });
+        return { success: true, organization: (await this.store.get(id))! };
+    }
+
+    /**
+     * 내 조직 정보 (구성원 목록, 관리자에게는 대기 중인 초대 포함)
+     */
+    async getForUser(userId: string): Promise<OrganizationResult<OrganizationDetails>> {
+        const membership = await this.store.findMembership(userId);
+        if (!membership) {
+            return fail(404, '소속된 조직이 없습니다.');
+        }
+
+        const organization = await this.store.get(membership.organizationId);
+        if (!organization) {
+            return fail(404, '조직을 찾을 수 없습니다.');
+        }
+
+        const [members, invitations] = await Promise.all([
+            this.store.listMembers(organization.id),
+            this.store.listPendingInvitations(organization.id, new Date(this.now())),
+        ]);
+
+        return {
+            success: true,
+            organization,
+            role: membership.role,
+            members,
+            invitations: membership.role === 'member' ? [] : invitations.map(({ tokenHash, ...rest }) => rest),
+            seatsUsed: members.length + invitations.length,
+        };
+    }
+
+    async rename(actorId: string, organizationId: string, name: string): Promise<OrganizationResult> {
+        const access = await this.authorize(actorId, organizationId, ['owner', 'admin']);
+        if (!access.success) return access;
+
+        await this.store.rename(organizationId, name);
+        return { success: true };
+    }
+
+    /**
+     * 좌석 수 변경 (owner만, 현재 사용 중인 좌석보다 적게 줄일 수 없음)
+     * 늘린 좌석의 남은 기간 요금을 결제한 뒤에만 반영
+     */
+    async setSeats(actorId: string, organizationId: string, seats: number): Promise<OrganizationResult<{ seats: number }>> {
+        const access = await this.authorize(actorId, organizationId, ['owner']);
+        if (!access.success) return access;
+
+        if (!Number.isInteger(seats) || seats < 1 || seats > MAX_ORGANIZATION_SEATS) {
+            return fail(400, `좌석 수는 1~${MAX_ORGANIZATION_SEATS} 사이의 정수여야 합니다.`);
+        }
+
+        const used = await this.countSeatsUsed(organizationId);
+        if (seats < used) {
+            return fail(409, `사용 중인 좌석(${used})보다 적게 줄일 수 없습니다.`);
+        }
+        if (!access.organization.subscriptionId) {
+            return fail(409, '조직에 연결된 구독이 없습니다.');
+        }
+
+        if (seats === access.organization.seats) {
+            return { success: true, seats };
+        }
+
+        const billed = await this.billing.changeSeats(access.organization.subscriptionId, seats);
+        if (!billed.success) {
+            return fail(409, billed.error ?? '좌석 변경 결제에 실패했습니다.');
+        }
+        return { success: true, seats };
+    }
+
+    /**
+     * 이메일 초대 (owner/admin, admin은 member만 초대 가능)
+     * 반환된 token은 초대 링크에 넣어 전달
+     */
+    async invite(
+        actorId: string,
+        organizationId: string,
+        email: string,
+        role: InvitableRole
+    ): Promise<OrganizationResult<{ invitation: Omit<InvitationRecord, 'tokenHash'>; token: string }>> {
+        const access = await this.authorize(actorId, organizationId, ['owner', 'admin']);
+        if (!access.success) return access;
+
+        if (role === 'admin' && access.role !== 'owner') {
+            return fail(403, '관리자 초대는 소유자만 할 수 있습니다.');
+        }
+
+        const normalizedEmail = email.trim().toLowerCase();
+        const now = new Date(this.now());
+        const [members, invitations] = await Promise.all([
+            this.store.listMembers(organizationId),
+            this.store.listPendingInvitations(organizationId, now),
+        ]);
+
+        if (members.some(m => m.email.toLowerCase() === normalizedEmail)) {
+            return fail(409, '이미 조직 구성원입니다.');
+        }
+        if (invitations.some(i => i.email === normalizedEmail)) {
+            return fail(409, '이미 초대한 이메일입니다.');
+        }
+        if (members.length + invitations.length >= access.organization.seats) {
+            return fail(409, '남은 좌석이 없습니다. 좌석 수를 늘려주세요.');
+        }
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        const invitation = {
+            id: uuidv4(),
+            organizationId,
+            email: normalizedEmail,
+            role,
+            tokenHash: hashInvitationToken(token),
+            invitedBy: actorId,
+            expiresAt: new Date(now.getTime() + this.invitationTtlMs).toISOString(),
+        };
+        await this.store.createInvitation(invitation);
+
+        const { tokenHash, ...visible } = invitation;
+        return { success: true, invitation: { ...visible, acceptedAt: null, createdAt: now.toISOString() }, token };
+    }
+
+    async revokeInvitation(actorId: string, organizationId: string, invitationId: string): Promise<OrganizationResult> {
+        const access = await this.authorize(actorId, organizationId, ['owner', 'admin']);
+        if (!access.success) return access;
+
+        if (!(await this.store.deleteInvitation(organizationId, invitationId))) {
+            return fail(404, '초대를 찾을 수 없습니다.');
+        }
+        return { success: true };
+    }
+
+    /**
+     * 초대 수락 (초대받은 이메일로 로그인한 사용자만)
+     */
+    async acceptInvitation(userId: string, email: string, token: string): Promise<OrganizationResult<{ organization: OrganizationRecord; role: OrganizationRole }>> {
+        const invitation = await this.store.findInvitationByTokenHash(hashInvitationToken(token));
+        const now = this.now();
+
+        if (!invitation || invitation.acceptedAt) {
+            return fail(404, '유효하지 않은 초대입니다.');
+        }
+        if (new Date(invitation.expiresAt).getTime() <= now) {
+            return fail(400, '만료된 초대입니다.');
+        }
+        if (invitation.email !== email.trim().toLowerCase()) {
+            return fail(403, '초대받은 이메일 계정으로 로그인해주세요.');
+        }
+        if (await this.store.findMembership(userId)) {
+            return fail(409, '이미 다른 조직에 소속되어 있습니다.');
+        }
+
+        const organization = await this.store.get(invitation.organizationId);
+        if (!organization) {
+            return fail(404, '조직을 찾을 수 없습니다.');
+        }
+
+        // 대기 중인 초대는 이미 좌석을 차지하고 있으므로 구성원 수만 확인
+        const members = await this.store.listMembers(organization.id);
+        if (members.length >= organization.seats) {
+            return fail(409, '남은 좌석이 없습니다.');
+        }
+
+        await this.store.addMember(organization.id, userId, invitation.role);
+        await this.store.markInvitationAccepted(invitation.id, new Date(now));
+        return { success: true, organization, role: invitation.role };
+    }
+
+    /**
+     * 구성원 역할 변경 (owner만, owner 역할은 변경 불가)
+     */
+    async updateMemberRole(actorId: string, organizationId: string, userId: string, role: InvitableRole): Promise<OrganizationResult> {
+        const access = await this.authorize(actorId, organizationId, ['owner']);
+        if (!access.success) return access;
+
+        const target = await this.store.findMembership(userId);
+        if (!target || target.organizationId !== organizationId) {
+            return fail(404, '구성원을 찾을 수 없습니다.');
+        }
+        if (target.role === 'owner') {
+            return fail(400, '소유자의 역할은 변경할 수 없습니다.');
+        }
+
+        await this.store.updateMemberRole(organizationId, userId, role);
+        return { success: true };
+    }
+
+    /**
+     * 구성원 제거 또는 탈퇴
+     * - 본인: owner가 아니면 탈퇴 가능
+     * - owner: 모든 구성원 제거, admin: member만 제거
+     */
+    async removeMember(actorId: string, organizationId: string, userId: string): Promise<OrganizationResult> {
+        const actor = await this.store.findMembership(actorId);
+        if (!actor || actor.organizationId !== organizationId) {
+            return fail(403, '조직 구성원이 아닙니다.');
+        }
+
+        const target = actorId === userId ? actor : await this.store.findMembership(userId);
+        if (!target || target.organizationId !== organizationId) {
+            return fail(404, '구성원을 찾을 수 없습니다.');
+        }
+        if (target.role === 'owner') {
+            return fail(400, '소유자는 조직에서 나갈 수 없습니다.');
+        }
+
+        const allowed = actorId === userId
+            || actor.role === 'owner'
+            || (actor.role === 'admin' && target.role === 'member');
+        if (!allowed) {
+            return fail(403, '구성원을 제거할 권한이 없습니다.');
+        }
+
+        await this.store.removeMember(organizationId, userId);
+        return { success: true };
+    }
+
+    private async countSeatsUsed(organizationId: string): Promise<number> {
+        const [members, invitations] = await Promise.all([
+            this.store.listMembers(organizationId),
+            this.store.listPendingInvitations(organizationId, new Date(this.now())),
+        ]);
+        return members.length + invitations.length;
+    }
+
+    private async authorize(
+        actorId: string,
+        organizationId: string,
+        roles: OrganizationRole[]
+    ): Promise<OrganizationResult<{ organization: OrganizationRecord; role: OrganizationRole }>> {
+        const membership = await this.store.findMembership(actorId);
+        if (!membership || membership.organizationId !== organizationId) {
+            return fail(403, '조직 구성원이 아닙니다.');
+        }
+        if (!roles.includes(membership.role)) {
+            return fail(403, '이 작업을 수행할 권한이 없습니다.');
+        }
+
+        const organization = await this.store.get(organizationId);
+        if (!organization) {
+            return fail(404, '조직을 찾을 수 없습니다.');
+        }
+        return { success: true, organization, role: membership.role };
+    }
+}
+
+// 구독이 활성(결제 유예 포함) 상태일 때만 조직 플랜 적용
+const ORGANIZATION_PLAN_SQL = `CASE WHEN s.status IN ('active', 'past_due') THEN s.plan ELSE 'free' END`;
+
+export class PostgresOrganizationStore implements OrganizationStore {
+    constructor(private readonly db: Queryable) { }
+
+    async create(org: { id: string; name: string; ownerId: string; subscriptionId: string }): Promise<void> {
+        await this.db.query(
+            'INSERT INTO organizations (id, name, owner_id, subscription_id) VALUES ($1, $2, $3, $4)',
+            [org.id, org.name, org.ownerId, org.subscriptionId]
+        );
+        await this.addMember(org.id, org.ownerId, 'owner');
+    }
+
+    async get(organizationId: string): Promise<OrganizationRecord | null> {
+        const result = await this.db.query(
+            `SELECT o.*, ${ORGANIZATION_PLAN_SQL} AS plan, COALESCE(s.seats, 1) AS seats
+             FROM organizations o
+             LEFT JOIN subscriptions s ON s.id = o.subscription_id
+             WHERE o.id = $1`,
+            [organizationId]
+        );
+        const row = result.rows[0];
+        if (!row) return null;
+
+        return {
+            id: row.id,
+            name: row.name,
+            ownerId: row.owner_id,
+            subscriptionId: row.subscription_id || null,
+            plan: isPlanId(row.plan) ? row.plan : 'free',
+            seats: Number(row.seats),
+            createdAt: toIso(row.created_at)!,
+        };
+    }
+
+    async rename(organizationId: string, name: string): Promise<void> {
+        await this.db.query(
+            'UPDATE organizations SET name = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [organizationId, name]
+        );
+    }
+
+    async findOwnerSubscription(userId: string): Promise<OwnerSubscription | null> {
+        const result = await this.db.query(
+            'SELECT id, plan, status FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1',
+            [userId]
+        );
+        return result.rows[0] || null;
+    }
+
+    async isSubscriptionLinked(subscriptionId: string): Promise<boolean> {
+        const result = await this.db.query(
+            'SELECT 1 FROM organizations WHERE subscription_id = $1',
+            [subscriptionId]
+        );
+        return result.rows.length > 0;
+    }
+
+    async findMembership(userId: string): Promise<MembershipRecord | null> {
+        const result = await this.db.query(
+            'SELECT organization_id, user_id, role FROM organization_members WHERE user_id = $1',
+            [userId]
+        );
+        const row = result.rows[0];
+        return row ? { organizationId: row.organization_id, userId: row.user_id, role: row.role } : null;
+    }
+
+    async listMembers(organizationId: string): Promise<MemberRecord[]> {
+        const result = await this.db.query(
+            `SELECT m.organization_id, m.user_id, m.role, m.joined_at, u.email, u.name
+             FROM organization_members m
+             JOIN users u ON u.id = m.user_id
+             WHERE m.organization_id = $1
+             ORDER BY m.joined_at`,
+            [organizationId]
+        );
+        return result.rows.map(row => ({
+            organizationId: row.organization_id,
+            userId: row.user_id,
+            role: row.role,
+            email: row.email,
+            name: row.name || null,
+            joinedAt: toIso(row.joined_at)!,
+        }));
+    }
+
+    async addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<void> {
+        await this.db.query(
+            'INSERT INTO organization_members (organization_id, user_id, role) VALUES ($1, $2, $3)',
+            [organizationId, userId, role]
+        );
+    }
+
+    async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<void> {
+        await this.db.query(
+            'UPDATE organization_members SET role = $3 WHERE organization_id = $1 AND user_id = $2',
+            [organizationId, userId, role]
+        );
+    }
+
+    async removeMember(organizationId: string, userId: string): Promise<boolean> {
+        const result = await this.db.query(
+            'DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2 RETURNING user_id',
+            [organizationId, userId]
+        );
+        return result.rows.length > 0;
+    }
+
+    async getMemberPlan(userId: string): Promise<PlanId | null> {
+        const result = await this.db.query(
+            `SELECT ${ORGANIZATION_PLAN_SQL} AS plan
+             FROM organization_members m
+             JOIN organizations o ON o.id = m.organization_id
+             LEFT JOIN subscriptions s ON s.id = o.subscription_id
+             WHERE m.user_id = $1`,
+            [userId]
+        );
+        const plan = result.rows[0]?.plan;
+        return plan === undefined ? null : (isPlanId(plan) ? plan : 'free');
+    }
+
+    async createInvitation(invitation: Omit<InvitationRecord, 'acceptedAt' | 'createdAt'>): Promise<void> {
+        await this.db.query(
+            `INSERT INTO organization_invitations (id, organization_id, email, role, token_hash, invited_by, expires_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+                invitation.id,
+                invitation.organizationId,
+                invitation.email,
+                invitation.role,
+                invitation.tokenHash,
+                invitation.invitedBy,
+                invitation.expiresAt,
+            ]
+        );
+    }
+
+    async listPendingInvitations(organizationId: string, now: Date): Promise<InvitationRecord[]> {
+        const result = await this.db.query(
+            `SELECT * FROM organization_invitations
+             WHERE organization_id = $1 AND accepted_at IS NULL AND expires_at > $2
+             ORDER BY created_at`,
+            [organizationId, now.toISOString()]
+        );
+        return result.rows.map(rowToInvitation);
+    }
+
+    async findInvitationByTokenHash(tokenHash: string): Promise<InvitationRecord | null> {
+        const result = await this.db.query(
+            'SELECT * FROM organization_invitations WHERE token_hash = $1',
+            [tokenHash]
+        );
+        return result.rows[0] ? rowToInvitation(result.rows[0]) : null;
+    }
+
+    async markInvitationAccepted(invitationId: string, acceptedAt: Date): Promise<void> {
+        await this.db.query(
+            'UPDATE organization_invitations SET accepted_at = $2 WHERE id = $1',
+            [invitationId, acceptedAt.toISOString()]
+        );
+    }
+
+    async deleteInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+        const result = await this.db.query(
+            `DELETE FROM organization_invitations
+             WHERE organization_id = $1 AND id = $2 AND accepted_at IS NULL
+             RETURNING id`,
+            [organizationId, invitationId]
+        );
+        return result.rows.length > 0;
+    }
+}
+
+function rowToInvitation(row: any): InvitationRecord {
+    return {
+        id: row.id,
+        organizationId: row.organization_id,
+        email: row.email,
+        role: row.role,
+        tokenHash: row.token_hash,
+        invitedBy: row.invited_by,
+        expiresAt: toIso(row.expires_at)!,
+        acceptedAt: toIso(row.accepted_at),
+        createdAt: toIso(row.created_at)!,
+    };
+}
@@ -6,10 +6,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase, subscriptionQueries, userQueries } from '../models/database';
 import { UserPlan, Subscription } from '../types/api.types';
-
-// 토스페이먼츠 설정
-const TOSS_SECRET_KEY = process.env.TOSS_SECRET_KEY || 'test_sk_XXXXXXXXXXXXXXXX';
-const TOSS_BASE_URL = 'https://api.tosspayments.com/v1';
+import { PLAN_IDS, PLAN_LIMITS } from '../../../../packages/protocol/src/plans';
+import { TOSS_BASE_URL, TossPayment, getTossAuthHeader } from './tossPayments';
+import { InvoiceService } from './invoices';
 
 // 플랜 가격 (원화)
 export const PLAN_PRICES: Record<string, { monthly: number; yearly: number }> = {
@@ -18,13 +17,10 @@ export const PLAN_PRICES: Record<string, { monthly: number; yearly: number }> =
     team: { monthly: 19900, yearly: 199000 }        // 연간 = 10개월
 };
 
-// 플랜 이름 (한글)
-export const PLAN_NAMES: Record<string, string> = {
-    free: '무료',
-    personal_pro: '개인 프로',
-    business: '비즈니스',
-    team: '팀'
-};
+// 플랜 이름 (한글, 공통 플랜 정의 기준)
+export const PLAN_NAMES: Record<string, string> = Object.fromEntries(
+    PLAN_IDS.map(id => [id, PLAN_LIMITS[id].name])
+);
 
 /**
  * 결제 세션 생성 (토스페이먼츠)
@@ -90,7 +86,7 @@ export async function confirmPayment(
         const response = await fetch(`${TOSS_BASE_URL}/payments/confirm`, {
             method: 'POST',
             headers: {
-                'Authorization': `Basic ${Buffer.from(TOSS_SECRET_KEY + ':').toString('base64')}`,
+                'Authorization': getTossAuthHeader(),
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify({
@@ -100,7 +96,7 @@ export async function confirmPayment(
             })
         });
 
-        const paymentData = await response.json() as { billingKey?: string; customerKey?: string; message?: string };
+        const paymentData = await response.json() as TossPayment & { billingKey?: string; customerKey?: string; message?: string };
 
         if (!response.ok) {
             return { success: false, error: paymentData.message || '결제 승인 실패' };
@@ -123,12 +119,31 @@ export async function confirmPayment(
             plan,
             billing_key: paymentData.billingKey || undefined,
             customer_key: paymentData.customerKey || undefined,
-            current_period_end: periodEnd.toISOString()
+            current_period_end: periodEnd.toISOString(),
+            // 웹훅에서 결제 상태 변경을 이 구독에 반영하기 위해 저장
+            last_order_id: orderId,
+            last_payment_key: paymentKey,
+            billing_cycle: billingCycle
         });
 
         // 사용자 플랜 업데이트
         await userQueries.updatePlan(userId, plan);
 
+        // 결제 내역 기록
+        const periodName = `LunarView ${PLAN_NAMES[plan]} ${billingCycle === 'monthly' ? '월간' : '연간'} 구독`;
+        await new InvoiceService(getDatabase()).record({
+            userId,
+            subscriptionId,
+            orderId,
+            kind: 'subscription',
+            plan,
+            amount,
+            lineItems: [{ description: periodName, amount }],
+            payment: paymentData,
+            periodStart: now,
+            periodEnd,
+        });
+
         return {
             success: true,
             subscription: {
@@ -174,7 +189,7 @@ export async function cancelSubscription(userId: string): Promise<{
         await subscriptionQueries.cancel(subscription.id);
 
         // 현재 결제 기간이 끝나면 무료로 다운그레이드됨
-        // (스케줄러에서 처리)
+        // (BillingScheduler에서 처리)
 
         return {
             success: true,
@@ -0,0 +1,159 @@
+/**
+ * 결제 웹훅 처리
+ * 토스페이먼츠 PAYMENT_STATUS_CHANGED 웹훅을 검증하고 구독/사용자 플랜에 반영
+ *
+ * - 검증: 웹훅 본문은 신뢰하지 않고 paymentKey로 결제를 다시 조회해 주문 ID와 상태를 확인
+ * - 중복 방지: 이벤트 ID를 payment_webhook_events에 기록하고, 이미 처리된 이벤트는 건너뜀
+ *   이벤트 행 선점과 구독/사용자 플랜 변경을 한 트랜잭션에서 처리 (동시에 온 같은 이벤트는 행 잠금으로 대기 후 duplicate,
+ *   처리 중 실패하면 모두 롤백되므로 재전송 시 다시 처리)
+ * - ABORTED는 past_due로 바꾸고 플랜 유지 (정기 결제 스케줄러의 유예 기간과 같은 의미)
+ */
+
+import { Queryable, TransactionalDatabase, withTransaction } from '../models/database';
+import { SubscriptionStatus, UserPlan } from '../types/api.types';
+import { PaymentProvider, TossPayment, TossPaymentStatus } from './tossPayments';
+
+export const PAYMENT_STATUS_CHANGED = 'PAYMENT_STATUS_CHANGED';
+
+export interface PaymentWebhookPayload {
+    eventType?: string;
+    createdAt?: string;
+    data?: {
+        paymentKey?: string;
+        orderId?: string;
+        status?: string;
+    };
+}
+
+type ProcessedResult = { status: 'processed'; eventId: string; paymentStatus: TossPaymentStatus; subscriptionId?: string; subscriptionStatus?: SubscriptionStatus };
+type IgnoredResult = { status: 'ignored'; eventId?: string; reason: string };
+
+export type PaymentWebhookResult =
+    | ProcessedResult
+    | IgnoredResult
+    | { status: 'duplicate'; eventId: string }
+    | { status: 'rejected'; reason: string };
+
+interface StatusTransition {
+    subscription: SubscriptionStatus;
+    // true면 사용자 플랜을 무료로, false면 구독 플랜으로 복구
+    downgrade: boolean;
+}
+
+// 결제 상태별 구독 상태 (PARTIAL_CANCELED는 기록만 하고 구독은 유지)
+const STATUS_TRANSITIONS: Partial<Record<TossPaymentStatus, StatusTransition>> = {
+    DONE: { subscription: 'active', downgrade: false },
+    ABORTED: { subscription: 'past_due', downgrade: false },
+    CANCELED: { subscription: 'cancelled', downgrade: true },
+    EXPIRED: { subscription: 'expired', downgrade: true },
+};
+
+const RECORDED_STATUSES: readonly TossPaymentStatus[] = ['DONE', 'CANCELED', 'PARTIAL_CANCELED', 'ABORTED', 'EXPIRED'];
+
+/**
+ * 이벤트 ID (같은 결제의 같은 상태 변경은 재전송되어도 같은 ID)
+ */
+export function getPaymentEventId(eventType: string, payment: TossPayment): string {
+    const version = payment.lastTransactionKey || payment.approvedAt || payment.requestedAt || '';
+    return `${eventType}:${payment.paymentKey}:${payment.status}:${version}`;
+}
+
+export class PaymentWebhookProcessor {
+    constructor(
+        private readonly db: TransactionalDatabase,
+        private readonly provider: PaymentProvider
+    ) { }
+
+    async process(payload: PaymentWebhookPayload): Promise<PaymentWebhookResult> {
+        const eventType = payload?.eventType;
+        if (eventType !== PAYMENT_STATUS_CHANGED) {
+            return { status: 'ignored', reason: `unsupported_event:${eventType ?? 'unknown'}` };
+        }
+
+        const paymentKey = payload.data?.paymentKey;
+        const orderId = payload.data?.orderId;
+        if (!paymentKey || !orderId) {
+            return { status: 'rejected', reason: 'missing_payment' };
+        }
+
+        // 결제사에 다시 조회해서 본문 위조 여부 확인
+        const payment = await this.provider.getPayment(paymentKey);
+        if (!payment) {
+            return { status: 'rejected', reason: 'unknown_payment' };
+        }
+        if (payment.orderId !== orderId) {
+            return { status: 'rejected', reason: 'order_mismatch' };
+        }
+
+        const eventId = getPaymentEventId(eventType, payment);
+        if (!RECORDED_STATUSES.includes(payment.status)) {
+            return { status: 'ignored', eventId, reason: `status:${payment.status}` };
+        }
+
+        return withTransaction<PaymentWebhookResult>(this.db, async tx => {
+            // ON CONFLICT DO UPDATE는 이벤트 행을 잠그므로 같은 이벤트의 다른 처리는 커밋까지 기다린 뒤 processed_at을 봄
+            const inserted = await tx.query(
+                `INSERT INTO payment_webhook_events (event_id, event_type, payment_key, payment_status, payload)
+                 VALUES ($1, $2, $3, $4, $5)
+                 ON CONFLICT (event_id) DO UPDATE SET attempts = payment_webhook_events.attempts + 1
+                 RETURNING processed_at`,
+                [eventId, eventType, paymentKey, payment.status, JSON.stringify(payload)]
+            );
+            if (inserted.rows[0]?.processed_at) {
+                return { status: 'duplicate', eventId };
+            }
+
+            const result = await this.apply(tx, eventId, payment);
+
+            await tx.query(
+                `UPDATE payment_webhook_events SET processed_at = CURRENT_TIMESTAMP, result = $2 WHERE event_id = $1`,
+                [eventId, result.status === 'processed' ? (result.subscriptionStatus ?? 'recorded') : result.reason]
+            );
+
+            return result;
+        });
+    }
+
+    /**
+     * 결제 상태를 구독과 사용자 플랜에 반영
+     */
+    private async apply(tx: Queryable, eventId: string, payment: TossPayment): Promise<ProcessedResult | IgnoredResult> {
+        const found = await tx.query(
+            `SELECT * FROM subscriptions
+             WHERE last_order_id = $1 OR last_payment_key = $2
+             ORDER BY created_at DESC LIMIT 1`,
+            [payment.orderId, payment.paymentKey]
+        );
+        const subscription = found.rows[0] as { id: string; user_id: string; plan: UserPlan } | undefined;
+        if (!subscription) {
+            return { status: 'ignored', eventId, reason: 'subscription_not_found' };
+        }
+
+        const transition = STATUS_TRANSITIONS[payment.status];
+        if (!transition) {
+            return { status: 'processed', eventId, paymentStatus: payment.status, subscriptionId: subscription.id };
+        }
+
+        await tx.query(
+            `UPDATE subscriptions SET status = $2,
+                cancelled_at = CASE WHEN $2 = 'cancelled' THEN COALESCE(cancelled_at, CURRENT_TIMESTAMP) ELSE cancelled_at END,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [subscription.id, transition.subscription]
+        );
+
+        const plan: UserPlan = transition.downgrade ? 'free' : subscription.plan;
+        await tx.query(
+            `UPDATE users SET plan = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+            [subscription.user_id, plan]
+        );
+
+        return {
+            status: 'processed',
+            eventId,
+            paymentStatus: payment.status,
+            subscriptionId: subscription.id,
+            subscriptionStatus: transition.subscription,
+        };
+    }
+}
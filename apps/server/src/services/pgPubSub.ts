@@ -0,0 +1,214 @@
+/**
+ * PostgreSQL LISTEN/NOTIFY 기반 Pub/Sub 브로커
+ * 별도 인프라 없이 기존 데이터베이스로 시그널링 노드 간 메시지 전달
+ *
+ * - NOTIFY 페이로드는 8000바이트 미만으로 제한되므로 큰 메시지(화면 프레임 릴레이 등)는
+ *   pubsub_messages 행에 저장하고 행 ID만 NOTIFY (받는 쪽이 조회, 오래된 행은 주기적으로 삭제)
+ * - 큰 메시지 조회를 기다리는 동안 뒤 메시지가 먼저 전달되지 않도록 알림은 받은 순서대로 처리
+ * - LISTEN 연결이 끊기면 다시 연결해서 구독 중인 채널을 다시 LISTEN (끊긴 동안의 메시지는 유실)
+ */
+
+import { Client } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, getDatabase } from '../models/database';
+import { PubSubBroker, PubSubHandler } from './clientRegistry';
+
+// NOTIFY 페이로드 한도 (바이트, 이보다 짧아야 함)
+export const NOTIFY_PAYLOAD_LIMIT = 8000;
+// 행에 저장한 메시지 참조 (JSON 메시지는 '{'나 '"'로 시작하므로 구분됨)
+const MESSAGE_REF_PREFIX = 'ref:';
+const DEFAULT_RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+// 저장한 메시지 보관 시간 (모든 노드가 조회할 시간)
+const DEFAULT_MESSAGE_TTL_MS = 60 * 1000;
+
+// LISTEN 연결 (pg Client 중 사용하는 부분)
+export interface ListenerClient {
+    connect(): Promise<unknown>;
+    query(text: string): Promise<unknown>;
+    end(): Promise<void>;
+    on(event: 'notification', listener: (notification: { channel: string; payload?: string }) => void): unknown;
+    on(event: 'error', listener: (error: Error) => void): unknown;
+    on(event: 'end', listener: () => void): unknown;
+}
+
+export interface PostgresPubSubOptions {
+    // 기본: getDatabase()
+    db?: () => Queryable;
+    createListener?: () => ListenerClient;
+    // 재연결 간격 (마지막 값을 계속 사용)
+    reconnectDelaysMs?: number[];
+    messageTtlMs?: number;
+    now?: () => number;
+}
+
+export class PostgresPubSub implements PubSubBroker {
+    private listener: ListenerClient | null = null;
+    private connecting: Promise<ListenerClient> | null = null;
+    private handlers = new Map<string, Set<PubSubHandler>>();
+    private delivery: Promise<void> = Promise.resolve();
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+    private lastCleanupAt = 0;
+    private closed = false;
+    private readonly db: () => Queryable;
+    private readonly createListener: () => ListenerClient;
+    private readonly reconnectDelaysMs: number[];
+    private readonly messageTtlMs: number;
+    private readonly now: () => number;
+
+    constructor(private readonly connectionString: string, options: PostgresPubSubOptions = {}) {
+        this.db = options.db ?? getDatabase;
+        this.createListener = options.createListener ?? (() => new Client({
+            connectionString: this.connectionString,
+            ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+        }));
+        this.reconnectDelaysMs = options.reconnectDelaysMs ?? DEFAULT_RECONNECT_DELAYS_MS;
+        this.messageTtlMs = options.messageTtlMs ?? DEFAULT_MESSAGE_TTL_MS;
+        this.now = options.now ?? Date.now;
+    }
+
+    async publish(channel: string, payload: string): Promise<void> {
+        const db = this.db();
+        if (Buffer.byteLength(payload) < NOTIFY_PAYLOAD_LIMIT) {
+            await db.query('SELECT pg_notify($1, $2)', [channel, payload]);
+            return;
+        }
+
+        const id = uuidv4();
+        await db.query('INSERT INTO pubsub_messages (id, channel, payload) VALUES ($1, $2, $3)', [id, channel, payload]);
+        await db.query('SELECT pg_notify($1, $2)', [channel, `${MESSAGE_REF_PREFIX}${id}`]);
+        await this.cleanup(db);
+    }
+
+    async subscribe(channel: string, handler: PubSubHandler): Promise<() => Promise<void>> {
+        const listener = await this.getListener();
+
+        if (!this.handlers.has(channel)) {
+            this.handlers.set(channel, new Set());
+            await listener.query(`LISTEN ${quoteIdentifier(channel)}`);
+        }
+        this.handlers.get(channel)!.add(handler);
+
+        return async () => {
+            const handlers = this.handlers.get(channel);
+            if (!handlers) return;
+
+            handlers.delete(handler);
+            if (handlers.size === 0) {
+                this.handlers.delete(channel);
+                // 재연결 중이면 새 연결에서 LISTEN하지 않으므로 충분
+                await this.listener?.query(`UNLISTEN ${quoteIdentifier(channel)}`);
+            }
+        };
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.listener) {
+            const listener = this.listener;
+            this.listener = null;
+            await listener.end();
+        }
+    }
+
+    private getListener(): Promise<ListenerClient> {
+        if (this.listener) return Promise.resolve(this.listener);
+        if (!this.connecting) {
+            this.connecting = this.connect().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return this.connecting;
+    }
+
+    private async connect(): Promise<ListenerClient> {
+        const listener = this.createListener();
+        let lost = false;
+        const onLost = (error?: Error) => {
+            if (lost) return;
+            lost = true;
+            if (error) console.error('PostgreSQL listener error:', error);
+            if (this.listener === listener) {
+                this.listener = null;
+                listener.end().catch(() => undefined);
+                this.scheduleReconnect();
+            }
+        };
+
+        listener.on('notification', (notification) => {
+            this.delivery = this.delivery
+                .then(() => this.deliver(notification.channel, notification.payload))
+                .catch(error => console.error('PostgreSQL notification error:', error));
+        });
+        listener.on('error', onLost);
+        listener.on('end', () => onLost());
+
+        await listener.connect();
+        // 재연결이면 구독 중인 채널 다시 LISTEN
+        for (const channel of this.handlers.keys()) {
+            await listener.query(`LISTEN ${quoteIdentifier(channel)}`);
+        }
+
+        this.listener = listener;
+        this.reconnectAttempt = 0;
+        return listener;
+    }
+
+    private scheduleReconnect(): void {
+        if (this.closed || this.reconnectTimer) return;
+
+        const delays = this.reconnectDelaysMs;
+        const delay = delays[Math.min(this.reconnectAttempt, delays.length - 1)];
+        this.reconnectAttempt++;
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.getListener().then(
+                () => console.log(`PostgreSQL listener reconnected (${this.handlers.size} channels)`),
+                (error) => {
+                    console.error('PostgreSQL listener reconnect failed:', error);
+                    this.scheduleReconnect();
+                }
+            );
+        }, delay);
+    }
+
+    private async deliver(channel: string, payload: string | undefined): Promise<void> {
+        if (!this.handlers.has(channel) || payload === undefined) return;
+
+        if (payload.startsWith(MESSAGE_REF_PREFIX)) {
+            const result = await this.db().query(
+                'SELECT payload FROM pubsub_messages WHERE id = $1',
+                [payload.slice(MESSAGE_REF_PREFIX.length)]
+            );
+            if (!result.rows[0]) {
+                console.error(`PostgreSQL pub/sub message expired before delivery: ${payload}`);
+                return;
+            }
+            payload = result.rows[0].payload as string;
+        }
+
+        for (const handler of Array.from(this.handlers.get(channel) ?? [])) {
+            handler(payload);
+        }
+    }
+
+    // 보관 시간이 지난 큰 메시지 삭제 (노드마다 보관 시간에 한 번)
+    private async cleanup(db: Queryable): Promise<void> {
+        const now = this.now();
+        if (now - this.lastCleanupAt < this.messageTtlMs) return;
+        this.lastCleanupAt = now;
+
+        await db.query('DELETE FROM pubsub_messages WHERE created_at < $1', [new Date(now - this.messageTtlMs).toISOString()]);
+    }
+}
+
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+export default PostgresPubSub;
@@ -0,0 +1,292 @@
+/**
+ * 플랜 변경 (업그레이드/다운그레이드) 서비스
+ * 현재 결제 기간의 남은 비율만큼 기존 플랜을 크레딧으로 돌려주고 새 플랜 요금을 계산
+ *
+ * - 업그레이드: 차액을 저장된 빌링키로 즉시 결제 (보유 크레딧 먼저 차감)
+ * - 다운그레이드: 차액을 구독 크레딧으로 적립하고 다음 정기 결제에서 차감
+ * - 조직 좌석 수 변경도 같은 방식 (늘린 좌석은 즉시 결제, 줄인 좌석은 크레딧)
+ * - 구독 행을 잠그고 처리하므로 같은 구독의 변경은 차례로 실행
+ * 결제 기간과 결제 주기는 그대로 유지.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, TransactionalDatabase, withTransaction } from '../models/database';
+import { UserPlan } from '../types/api.types';
+import { PLAN_PRICES, PLAN_NAMES } from './payment.service';
+import { BillingProvider, TossPayment } from './tossPayments';
+import { InvoiceLineItem, InvoiceService } from './invoices';
+import { addBillingPeriod, withPersistRetry } from './billingScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProrationInput {
+    currentPlan: UserPlan;
+    newPlan: UserPlan;
+    billingCycle: 'monthly' | 'yearly';
+    periodStart: Date;
+    periodEnd: Date;
+    // 구독에 적립된 크레딧
+    creditBalance?: number;
+    // 조직 구독 좌석 수 (기본 1)
+    seats?: number;
+    // 변경 후 좌석 수 (기본 seats)
+    newSeats?: number;
+    now: number;
+}
+
+export interface Proration {
+    remainingDays: number;
+    // 기존 플랜의 남은 기간 금액
+    credit: number;
+    // 새 플랜의 남은 기간 금액
+    charge: number;
+    // 사용한 보유 크레딧
+    creditApplied: number;
+    // 지금 결제할 금액 (0 이상)
+    amountDue: number;
+    // 새로 적립할 크레딧 (다운그레이드)
+    creditIssued: number;
+    lineItems: InvoiceLineItem[];
+}
+
+/**
+ * 남은 기간 기준 일할 계산
+ */
+export function calculateProration(input: ProrationInput): Proration {
+    const seats = input.seats ?? 1;
+    const newSeats = input.newSeats ?? seats;
+    const currentPrice = (PLAN_PRICES[input.currentPlan]?.[input.billingCycle] ?? 0) * seats;
+    const newPrice = (PLAN_PRICES[input.newPlan]?.[input.billingCycle] ?? 0) * newSeats;
+
+    const total = input.periodEnd.getTime() - input.periodStart.getTime();
+    const remaining = Math.min(Math.max(input.periodEnd.getTime() - input.now, 0), total);
+    const ratio = total > 0 ? remaining / total : 0;
+    const remainingDays = Math.ceil(remaining / DAY_MS);
+
+    const credit = Math.round(currentPrice * ratio);
+    const charge = Math.round(newPrice * ratio);
+    const net = charge - credit;
+    const creditApplied = net > 0 ? Math.min(input.creditBalance ?? 0, net) : 0;
+
+    // 좌석 수가 바뀌면 항목에 좌석 수 표시
+    const label = (plan: UserPlan, count: number) => seats === newSeats ? PLAN_NAMES[plan] : `${PLAN_NAMES[plan]} ${count}석`;
+    const lineItems: InvoiceLineItem[] = [
+        { description: `${label(input.currentPlan, seats)} 남은 기간 크레딧 (${remainingDays}일)`, amount: -credit },
+        { description: `${label(input.newPlan, newSeats)} 남은 기간 (${remainingDays}일)`, amount: charge },
+    ];
+    if (creditApplied > 0) {
+        lineItems.push({ description: '보유 크레딧 사용', amount: -creditApplied });
+    }
+
+    return {
+        remainingDays,
+        credit,
+        charge,
+        creditApplied,
+        amountDue: Math.max(net - creditApplied, 0),
+        creditIssued: Math.max(-net, 0),
+        lineItems,
+    };
+}
+
+export interface PlanChangeResult {
+    success: boolean;
+    subscription?: { id: string; plan: UserPlan; status: string; current_period_end: string; credit_balance: number };
+    proration?: Proration;
+    invoiceId?: string;
+    error?: string;
+}
+
+export interface PlanChangeOptions {
+    // 결제 후 구독/결제 내역 저장 실패 시 재시도 간격 (기본 1초, 5초)
+    persistRetryDelaysMs?: number[];
+    now?: () => number;
+}
+
+// 결제까지 끝나고 저장할 변경
+interface PendingChange {
+    subscription: any;
+    next: { plan: UserPlan; seats: number };
+    // 사용자 플랜도 갱신 (개인 플랜 변경)
+    updateUserPlan: boolean;
+    orderId: string;
+    proration: Proration;
+    payment?: TossPayment;
+    nextCredit: number;
+    periodEnd: Date;
+    now: number;
+}
+
+export class PlanChangeService {
+    private readonly now: () => number;
+
+    constructor(
+        private readonly db: TransactionalDatabase,
+        private readonly provider: BillingProvider,
+        private readonly options: PlanChangeOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+    }
+
+    async changePlan(userId: string, newPlan: UserPlan): Promise<PlanChangeResult> {
+        if (!PLAN_PRICES[newPlan]) {
+            return { success: false, error: '유효하지 않은 플랜입니다.' };
+        }
+
+        return this.withLockedSubscription(
+            'SELECT * FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1 FOR UPDATE',
+            [userId],
+            async (subscription) => {
+                if (subscription?.plan === newPlan && subscription.status === 'active') {
+                    return { success: false, error: '이미 사용 중인 플랜입니다.' };
+                }
+                return this.charge(subscription, { plan: newPlan, seats: subscription?.seats ?? 1 }, `LunarView ${PLAN_NAMES[newPlan]} 플랜 변경`, true);
+            }
+        );
+    }
+
+    /**
+     * 조직 구독 좌석 수 변경 (늘린 좌석의 남은 기간 요금을 즉시 결제)
+     */
+    async changeSeats(subscriptionId: string, seats: number): Promise<PlanChangeResult> {
+        return this.withLockedSubscription(
+            'SELECT * FROM subscriptions WHERE id = $1 FOR UPDATE',
+            [subscriptionId],
+            async (subscription) => {
+                if (subscription && (subscription.seats ?? 1) === seats) {
+                    return { success: false, error: '이미 사용 중인 좌석 수입니다.' };
+                }
+                return this.charge(subscription, { plan: subscription?.plan, seats }, `LunarView ${PLAN_NAMES[subscription?.plan as UserPlan]} 좌석 변경`, false);
+            }
+        );
+    }
+
+    /**
+     * 구독 행을 잠근 트랜잭션에서 결제하고 저장 (동시 요청이 같은 크레딧으로 이중 결제하지 않도록)
+     * 결제 후 트랜잭션이 실패하면 결제는 다시 하지 않고 같은 값으로 저장만 재시도
+     */
+    private async withLockedSubscription(
+        text: string,
+        params: any[],
+        prepare: (subscription: any) => Promise<PlanChangeResult | PendingChange>
+    ): Promise<PlanChangeResult> {
+        let charged = null as PendingChange | null;
+        try {
+            return await withTransaction<PlanChangeResult>(this.db, async (tx) => {
+                const found = await tx.query(text, params);
+                const prepared = await prepare(found.rows[0]);
+                if (!('orderId' in prepared)) return prepared;
+
+                charged = prepared;
+                return this.persist(tx, prepared);
+            });
+        } catch (error) {
+            const change = charged;
+            if (!change) throw error;
+            console.error(`Plan change save error after payment (${change.orderId}):`, error);
+            return withPersistRetry(() => this.persist(this.db, change), this.options.persistRetryDelaysMs, 'Plan change save error, retrying:');
+        }
+    }
+
+    /**
+     * 일할 계산한 차액을 결제 (다운그레이드면 결제 없이 크레딧 적립)
+     */
+    private async charge(subscription: any, next: { plan: UserPlan; seats: number }, orderName: string, updateUserPlan: boolean): Promise<PlanChangeResult | PendingChange> {
+        if (!subscription || subscription.status !== 'active') {
+            return { success: false, error: '활성 구독이 없습니다.' };
+        }
+
+        const now = this.now();
+        const cycle: 'monthly' | 'yearly' = subscription.billing_cycle ?? 'monthly';
+        const periodEnd = new Date(subscription.current_period_end);
+        const periodStart = subscription.current_period_start
+            ? new Date(subscription.current_period_start)
+            : addBillingPeriod(periodEnd, cycle, -1);
+        if (periodEnd.getTime() <= now) {
+            return { success: false, error: '결제 기간이 끝난 구독은 갱신 후 변경할 수 있습니다.' };
+        }
+
+        const creditBalance = subscription.credit_balance ?? 0;
+        const proration = calculateProration({
+            currentPlan: subscription.plan,
+            newPlan: next.plan,
+            billingCycle: cycle,
+            periodStart,
+            periodEnd,
+            creditBalance,
+            seats: subscription.seats ?? 1,
+            newSeats: next.seats,
+            now,
+        });
+
+        const orderId = `CHANGE_${now}_${uuidv4().substring(0, 8)}`;
+        let payment: TossPayment | undefined;
+
+        if (proration.amountDue > 0) {
+            if (!subscription.billing_key) {
+                return { success: false, error: '등록된 자동 결제 수단이 없습니다.' };
+            }
+            try {
+                payment = await this.provider.chargeBillingKey(subscription.billing_key, {
+                    customerKey: subscription.customer_key ?? `CUSTOMER_${subscription.user_id}`,
+                    amount: proration.amountDue,
+                    orderId,
+                    orderName,
+                });
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : '플랜 변경 결제 실패' };
+            }
+        }
+
+        const nextCredit = creditBalance - proration.creditApplied + proration.creditIssued;
+        return { subscription, next, updateUserPlan, orderId, proration, payment, nextCredit, periodEnd, now };
+    }
+
+    /**
+     * 구독, 사용자 플랜, 결제 내역 저장 (같은 값으로 다시 실행해도 같은 결과, 결제 내역은 주문 ID 중복 무시)
+     */
+    private async persist(db: Queryable, change: PendingChange): Promise<PlanChangeResult> {
+        const { subscription, next, payment } = change;
+
+        await db.query(
+            `UPDATE subscriptions SET plan = $2, credit_balance = $3,
+                last_order_id = COALESCE($4, last_order_id), last_payment_key = COALESCE($5, last_payment_key),
+                seats = $6, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [subscription.id, next.plan, change.nextCredit, payment ? change.orderId : null, payment?.paymentKey ?? null, next.seats]
+        );
+        if (change.updateUserPlan) {
+            await db.query(
+                'UPDATE users SET plan = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+                [subscription.user_id, next.plan]
+            );
+        }
+
+        const invoiceId = await new InvoiceService(db).record({
+            userId: subscription.user_id,
+            subscriptionId: subscription.id,
+            orderId: change.orderId,
+            kind: 'plan_change',
+            plan: next.plan,
+            amount: change.proration.amountDue,
+            status: payment ? 'paid' : 'credited',
+            lineItems: change.proration.lineItems,
+            payment,
+            periodStart: new Date(change.now),
+            periodEnd: change.periodEnd,
+        });
+
+        return {
+            success: true,
+            subscription: {
+                id: subscription.id,
+                plan: next.plan,
+                status: subscription.status,
+                current_period_end: change.periodEnd.toISOString(),
+                credit_balance: change.nextCredit,
+            },
+            proration: change.proration,
+            invoiceId,
+        };
+    }
+}
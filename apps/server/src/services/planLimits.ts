@@ -0,0 +1,169 @@
+/**
+ * 플랜 제한 서비스
+ * 연결 시 호스트/뷰어의 플랜을 확인해 동시 세션 수를 제한하고, 시간 제한이 있는 세션을 종료
+ *
+ * 동시 세션 수는 로그인한 사용자면 계정 기준(여러 기기 합산), 아니면 클라이언트 기준으로 계산.
+ * 시간 제한 타이머는 세션을 만든 노드에만 존재하며, 만료 시점에 레코드를 다시 확인함.
+ */
+
+import { ClientRecord, ClientRegistry } from './clientRegistry';
+import { SessionManager } from './sessionManager';
+import { userQueries } from '../models/database';
+import { resolveMemberPlanFromDatabase } from './organizations';
+import {
+    PlanId,
+    getEffectivePlan,
+    getHigherPlan,
+    getPlanLimits,
+    getSessionDurationLimit,
+} from '../../../../packages/protocol/src/plans';
+
+export type PlanResolver = (userId: string) => Promise<PlanId>;
+
+export interface PlanLimitOptions {
+    resolvePlan?: PlanResolver;
+    // 세션 만료 직전 호출 (기록/로그용, 뷰어 레코드는 아직 세션 정보를 가지고 있음)
+    onSessionExpired?: (viewer: ClientRecord) => Promise<void>;
+    now?: () => number;
+}
+
+export type PlanCheck =
+    | { allowed: true; hostPlan: PlanId; viewerPlan: PlanId; sessionDuration: number | null }
+    | { allowed: false; reason: string };
+
+export const SESSION_TIME_LIMIT_REASON = 'Session time limit reached';
+
+/**
+ * DB에서 사용자 플랜 조회 (조직 구성원이면 조직 플랜과 비교해 높은 쪽, DB가 없거나 사용자가 없으면 무료)
+ */
+export async function resolvePlanFromDatabase(userId: string): Promise<PlanId> {
+    try {
+        const [user, memberPlan] = await Promise.all([
+            userQueries.findById(userId),
+            resolveMemberPlanFromDatabase(userId),
+        ]);
+        const plan = getEffectivePlan(user?.plan, user?.trial_ends_at);
+        return memberPlan ? getHigherPlan(plan, memberPlan) : plan;
+    } catch {
+        return 'free';
+    }
+}
+
+export class PlanLimitService {
+    private timers = new Map<string, NodeJS.Timeout>();
+    private readonly resolvePlan: PlanResolver;
+    private readonly now: () => number;
+
+    constructor(
+        private readonly registry: ClientRegistry,
+        private readonly sessions: SessionManager,
+        private readonly options: PlanLimitOptions = {}
+    ) {
+        this.resolvePlan = options.resolvePlan ?? resolvePlanFromDatabase;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 연결 가능 여부 확인 (양쪽 플랜의 동시 세션 수)
+     */
+    async check(viewer: ClientRecord, host: ClientRecord): Promise<PlanCheck> {
+        const [viewerPlan, hostPlan] = await Promise.all([
+            this.getPlan(viewer),
+            this.getPlan(host),
+        ]);
+
+        const records = await this.registry.list();
+
+        const viewerLimit = getPlanLimits(viewerPlan).simultaneousSessions;
+        if (this.countActiveSessions(viewer, viewer, records) >= viewerLimit) {
+            return { allowed: false, reason: `Concurrent session limit reached for viewer plan (${viewerLimit})` };
+        }
+
+        const hostLimit = getPlanLimits(hostPlan).simultaneousSessions;
+        if (this.countActiveSessions(host, viewer, records) >= hostLimit) {
+            return { allowed: false, reason: `Concurrent session limit reached for host plan (${hostLimit})` };
+        }
+
+        return {
+            allowed: true,
+            hostPlan,
+            viewerPlan,
+            sessionDuration: getSessionDurationLimit(hostPlan, viewerPlan),
+        };
+    }
+
+    /**
+     * 세션 종료 시각 (시간 제한이 없으면 undefined)
+     */
+    getExpiresAt(check: PlanCheck): number | undefined {
+        if (!check.allowed || check.sessionDuration === null) return undefined;
+        return this.now() + check.sessionDuration;
+    }
+
+    /**
+     * 종료 시각에 뷰어를 세션에서 내보내는 타이머 등록
+     */
+    schedule(viewerId: string, sessionId: string, expiresAt: number | undefined): void {
+        if (expiresAt === undefined) return;
+
+        const key = `${viewerId}:${sessionId}`;
+        clearTimeout(this.timers.get(key));
+
+        const timer = setTimeout(() => {
+            this.expire(viewerId, sessionId).catch(error => {
+                console.error(`Failed to expire session ${sessionId} for ${viewerId}:`, error);
+            });
+        }, Math.max(expiresAt - this.now(), 0));
+        this.timers.set(key, timer);
+    }
+
+    /**
+     * 모든 타이머 해제 (서버 종료 시)
+     */
+    shutdown(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    private async expire(viewerId: string, sessionId: string): Promise<void> {
+        this.timers.delete(`${viewerId}:${sessionId}`);
+
+        // 이미 세션을 나갔으면 무시
+        const viewer = await this.registry.get(viewerId);
+        if (!viewer || viewer.sessionId !== sessionId) return;
+
+        await this.options.onSessionExpired?.(viewer);
+
+        await this.registry.send(viewerId, {
+            type: 'disconnected',
+            reason: SESSION_TIME_LIMIT_REASON,
+            code: 'SESSION_TIME_LIMIT',
+        });
+        await this.sessions.leave(viewerId, SESSION_TIME_LIMIT_REASON, 'SESSION_TIME_LIMIT');
+    }
+
+    private async getPlan(client: ClientRecord): Promise<PlanId> {
+        return client.userId ? this.resolvePlan(client.userId) : 'free';
+    }
+
+    /**
+     * 참여자(계정 또는 클라이언트)가 속한 뷰어-호스트 연결 수
+     * 새로 연결하려는 뷰어의 기존 연결은 교체되므로 제외
+     */
+    private countActiveSessions(party: ClientRecord, joiningViewer: ClientRecord, records: ClientRecord[]): number {
+        const owned = new Set(records
+            .filter(r => party.userId ? r.userId === party.userId : r.id === party.id)
+            .map(r => r.id));
+
+        return records.filter(r =>
+            r.sessionRole === 'viewer' &&
+            r.connectedTo &&
+            r.id !== joiningViewer.id &&
+            (owned.has(r.id) || owned.has(r.connectedTo))
+        ).length;
+    }
+}
+
+export default PlanLimitService;
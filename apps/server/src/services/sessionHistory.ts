@@ -0,0 +1,220 @@
+/**
+ * 세션 기록 서비스
+ * 뷰어가 세션에 참여할 때마다 connection_logs에 한 행을 기록
+ *
+ * - connection_id / user_id: 뷰어 (로그인하지 않았으면 user_id 없음)
+ * - connected_to / peer_user_id: 호스트
+ * 사용자 기준으로 보면 user_id가 본인이면 보낸 연결, peer_user_id가 본인이면 받은 연결
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Queryable, toIso } from '../models/database';
+
+export interface SessionStart {
+    sessionId: string;
+    connectionId: string;
+    connectedTo: string;
+    userId?: string;
+    peerUserId?: string;
+    viewerName?: string;
+}
+
+export type SessionDirection = 'incoming' | 'outgoing';
+
+export interface SessionHistoryQuery {
+    page?: number;
+    limit?: number;
+    direction?: SessionDirection;
+    status?: 'active' | 'ended';
+    from?: Date;
+    to?: Date;
+    // 상대방 연결 ID
+    peer?: string;
+}
+
+export interface SessionHistoryItem {
+    id: string;
+    sessionId: string | null;
+    direction: SessionDirection;
+    connectionId: string;
+    peerConnectionId: string | null;
+    viewerName: string | null;
+    startedAt: string;
+    endedAt: string | null;
+    durationSeconds: number | null;
+    endReason: string | null;
+}
+
+export interface SessionHistoryPage {
+    sessions: SessionHistoryItem[];
+    pagination: { page: number; limit: number; total: number };
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+export class SessionHistoryService {
+    constructor(private readonly db: Queryable) { }
+
+    /**
+     * 세션 시작 기록
+     */
+    async start(entry: SessionStart): Promise<string> {
+        const id = uuidv4();
+        await this.db.query(
+            `INSERT INTO connection_logs (id, user_id, connection_id, connected_to, session_id, peer_user_id, viewer_name)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+                id,
+                entry.userId || null,
+                entry.connectionId,
+                entry.connectedTo,
+                entry.sessionId,
+                entry.peerUserId || null,
+                entry.viewerName || null,
+            ]
+        );
+        return id;
+    }
+
+    /**
+     * 세션 종료 기록 (connectionId 생략 시 세션 전체)
+     * 종료 처리한 행 수 반환
+     */
+    async end(sessionId: string, connectionId?: string, reason?: string): Promise<number> {
+        const params: any[] = [sessionId, reason || null];
+        let condition = 'session_id = $1 AND ended_at IS NULL';
+        if (connectionId) {
+            params.push(connectionId);
+            condition += ' AND connection_id = $3';
+        }
+
+        const result = await this.db.query(
+            `UPDATE connection_logs
+             SET ended_at = CURRENT_TIMESTAMP,
+                 duration_seconds = EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - started_at))::INTEGER,
+                 end_reason = $2
+             WHERE ${condition}
+             RETURNING id`,
+            params
+        );
+        return result.rows.length;
+    }
+
+    /**
+     * 사용자의 세션 기록 조회 (최신순)
+     */
+    async listForUser(userId: string, query: SessionHistoryQuery = {}): Promise<SessionHistoryPage> {
+        const page = Math.max(query.page || 1, 1);
+        const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+        const params: any[] = [userId];
+        const conditions: string[] = [];
+
+        const add = (condition: (index: number) => string, value: any) => {
+            params.push(value);
+            conditions.push(condition(params.length));
+        };
+
+        if (query.direction === 'outgoing') {
+            conditions.push('user_id = $1');
+        } else if (query.direction === 'incoming') {
+            conditions.push('peer_user_id = $1');
+        } else {
+            conditions.push('(user_id = $1 OR peer_user_id = $1)');
+        }
+
+        if (query.status === 'active') conditions.push('ended_at IS NULL');
+        if (query.status === 'ended') conditions.push('ended_at IS NOT NULL');
+        if (query.from) add(i => `started_at >= $${i}`, query.from);
+        if (query.to) add(i => `started_at < $${i}`, query.to);
+        if (query.peer) {
+            add(i => `(CASE WHEN user_id = $1 THEN connected_to ELSE connection_id END) = $${i}`, query.peer);
+        }
+
+        const where = `WHERE ${conditions.join(' AND ')}`;
+
+        const countResult = await this.db.query(
+            `SELECT COUNT(*) AS total FROM connection_logs ${where}`,
+            params
+        );
+
+        const result = await this.db.query(
+            `SELECT * FROM connection_logs ${where}
+             ORDER BY started_at DESC, id DESC
+             LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, limit, (page - 1) * limit]
+        );
+
+        return {
+            sessions: result.rows.map(row => rowToItem(row, userId)),
+            pagination: { page, limit, total: Number(countResult.rows[0]?.total || 0) },
+        };
+    }
+}
+
+function rowToItem(row: any, userId: string): SessionHistoryItem {
+    const outgoing = row.user_id === userId;
+
+    return {
+        id: row.id,
+        sessionId: row.session_id || null,
+        direction: outgoing ? 'outgoing' : 'incoming',
+        connectionId: outgoing ? row.connection_id : row.connected_to,
+        peerConnectionId: outgoing ? row.connected_to : row.connection_id,
+        viewerName: row.viewer_name || null,
+        startedAt: toIso(row.started_at)!,
+        endedAt: toIso(row.ended_at),
+        durationSeconds: row.duration_seconds ?? null,
+        endReason: row.end_reason || null,
+    };
+}
+
+export type ParsedHistoryRequest =
+    | { ok: true; query: SessionHistoryQuery }
+    | { ok: false; error: string };
+
+/**
+ * GET /api/sessions 쿼리 파라미터 해석
+ * page, limit, direction, status, from, to, peer
+ */
+export function parseSessionHistoryRequest(params: Record<string, unknown>): ParsedHistoryRequest {
+    const query: SessionHistoryQuery = {};
+
+    for (const key of ['page', 'limit'] as const) {
+        if (params[key] === undefined) continue;
+        const value = Number(params[key]);
+        if (!Number.isInteger(value) || value < 1) {
+            return { ok: false, error: `${key}는 1 이상의 정수여야 합니다.` };
+        }
+        query[key] = value;
+    }
+
+    if (params.direction !== undefined) {
+        if (params.direction !== 'incoming' && params.direction !== 'outgoing') {
+            return { ok: false, error: 'direction은 incoming 또는 outgoing이어야 합니다.' };
+        }
+        query.direction = params.direction;
+    }
+
+    if (params.status !== undefined) {
+        if (params.status !== 'active' && params.status !== 'ended') {
+            return { ok: false, error: 'status는 active 또는 ended여야 합니다.' };
+        }
+        query.status = params.status;
+    }
+
+    for (const key of ['from', 'to'] as const) {
+        if (params[key] === undefined || params[key] === '') continue;
+        const date = new Date(String(params[key]));
+        if (isNaN(date.getTime())) {
+            return { ok: false, error: `${key} 날짜 형식이 올바르지 않습니다.` };
+        }
+        query[key] = date;
+    }
+
+    if (typeof params.peer === 'string' && params.peer) {
+        query.peer = params.peer;
+    }
+
+    return { ok: true, query };
+}
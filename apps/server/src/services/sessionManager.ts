@@ -0,0 +1,365 @@
+/**
+ * 세션 관리 서비스
+ * 호스트 한 명과 여러 뷰어가 참여하는 세션의 참여자 목록, 입력 제어 토큰, 권한을 관리
+ *
+ * - 뷰어 레코드: sessionId, connectedTo(호스트 ID), grant
+ * - 호스트 레코드: sessionId, controlHolder(제어 토큰을 가진 뷰어 ID)
+ * 참여자 목록은 레지스트리의 세션 인덱스로 조회하므로 별도 목록을 동기화할 필요가 없음
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ClientRecord, ClientRegistry } from './clientRegistry';
+import {
+    SessionGrant,
+    SessionParticipant,
+    ServerMessage,
+    DisconnectCode,
+    getRequiredPermission,
+    isHostOnlyMessage,
+    isMessageAllowed,
+    FULL_CONTROL_GRANT,
+} from '../../../../packages/protocol/src/signaling';
+
+export interface SessionManagerOptions {
+    maxViewersPerSession?: number;
+}
+
+export interface JoinOptions {
+    grant: SessionGrant;
+    viewerName?: string;
+    // 플랜 시간 제한에 따른 세션 종료 시각 (Unix ms)
+    expiresAt?: number;
+}
+
+export type JoinResult =
+    | { ok: true; sessionId: string }
+    | { ok: false; reason: 'SESSION_FULL' | 'INVALID_TARGET' };
+
+export interface RouteOptions {
+    // 특정 참여자에게만 전달 (connectionId)
+    targetId?: string;
+    // 뷰어가 보낸 메시지를 호스트뿐 아니라 다른 뷰어에게도 전달 (채팅 등)
+    broadcast?: boolean;
+}
+
+export type InputCheck =
+    | { allowed: true }
+    | { allowed: false; reason: string };
+
+const DEFAULT_MAX_VIEWERS_PER_SESSION = 10;
+
+/**
+ * 연결 대상이 세션을 열 수 있는 호스트인지 (뷰어나 자기 자신에게는 연결할 수 없음)
+ */
+export function isJoinableHost(viewer: ClientRecord, host: ClientRecord): boolean {
+    return host.isHost && host.sessionRole !== 'viewer' && host.id !== viewer.id;
+}
+
+export class SessionManager {
+    private readonly maxViewersPerSession: number;
+
+    constructor(private readonly registry: ClientRegistry, options: SessionManagerOptions = {}) {
+        this.maxViewersPerSession = options.maxViewersPerSession ?? DEFAULT_MAX_VIEWERS_PER_SESSION;
+    }
+
+    /**
+     * 뷰어를 호스트의 세션에 참여시킴 (호스트에게 세션이 없으면 새로 생성)
+     */
+    async join(viewer: ClientRecord, host: ClientRecord, options: JoinOptions): Promise<JoinResult> {
+        if (!isJoinableHost(viewer, host)) {
+            return { ok: false, reason: 'INVALID_TARGET' };
+        }
+
+        const sessionId = host.sessionId || uuidv4();
+        const members = host.sessionId ? await this.registry.listSession(sessionId) : [];
+        const viewerCount = members.filter(m => m.sessionRole === 'viewer' && m.id !== viewer.id).length;
+
+        if (viewerCount >= this.maxViewersPerSession) {
+            return { ok: false, reason: 'SESSION_FULL' };
+        }
+
+        // 다른 세션에 참여 중이었다면 먼저 나감
+        if (viewer.sessionId && viewer.sessionId !== sessionId) {
+            await this.leave(viewer.id, 'Joined another session');
+        }
+
+        const updatedViewer = await this.registry.update(viewer.id, {
+            sessionId,
+            sessionRole: 'viewer',
+            connectedTo: host.id,
+            grant: options.grant,
+            viewerName: options.viewerName,
+        });
+        if (!updatedViewer) return { ok: true, sessionId };
+
+        // 제어 토큰이 비어 있으면 입력 권한이 있는 첫 뷰어에게 부여 (1:1 세션의 기존 동작 유지)
+        const hostChanges: Partial<ClientRecord> = { sessionId, sessionRole: 'host', connectedTo: undefined };
+        if (!host.controlHolder && this.canHoldControl(options.grant)) {
+            hostChanges.controlHolder = viewer.id;
+        }
+        const updatedHost = await this.registry.update(host.id, hostChanges);
+        if (!updatedHost) return { ok: true, sessionId };
+
+        // 연결 성공 알림 (공개키 포함, 기존 1:1 클라이언트와 호환)
+        await this.registry.send(viewer.id, {
+            type: 'connect-success',
+            sessionId,
+            targetConnectionId: host.connectionId,
+            targetPublicKey: host.publicKey,
+            grant: options.grant,
+            expiresAt: options.expiresAt,
+        });
+        await this.registry.send(host.id, {
+            type: 'incoming-connection',
+            sessionId,
+            fromConnectionId: viewer.connectionId,
+            fromPublicKey: viewer.publicKey,
+            grant: options.grant,
+            expiresAt: options.expiresAt,
+        });
+
+        const participants = await this.getRoster(sessionId);
+        const joined = participants.find(p => p.connectionId === updatedViewer.connectionId)!;
+
+        // 기존 참여자에게 입장 알림
+        for (const member of await this.registry.listSession(sessionId)) {
+            if (member.id === viewer.id) continue;
+            await this.registry.send(member.id, { type: 'participant-joined', sessionId, participant: joined });
+        }
+
+        await this.registry.send(viewer.id, { type: 'session-roster', sessionId, participants });
+        if (hostChanges.controlHolder) {
+            await this.broadcast(sessionId, {
+                type: 'control-changed',
+                sessionId,
+                holderConnectionId: updatedViewer.connectionId,
+            });
+        }
+
+        return { ok: true, sessionId };
+    }
+
+    /**
+     * 세션에서 나감
+     * 호스트가 나가거나 마지막 뷰어가 나가면 세션 종료
+     * code는 세션이 종료되는 상대에게 보내는 disconnected 메시지에 포함
+     */
+    async leave(clientId: string, reason: string, code?: DisconnectCode): Promise<void> {
+        const client = await this.registry.get(clientId);
+        if (!client || !client.sessionId) return;
+
+        const sessionId = client.sessionId;
+
+        if (client.sessionRole === 'host') {
+            for (const member of await this.registry.listSession(sessionId)) {
+                if (member.id === clientId) continue;
+                await this.registry.send(member.id, { type: 'disconnected', reason, code });
+                await this.clearSession(member.id);
+            }
+            await this.clearSession(clientId);
+            return;
+        }
+
+        await this.clearSession(clientId);
+
+        const host = client.connectedTo ? await this.registry.get(client.connectedTo) : null;
+        const remaining = await this.registry.listSession(sessionId);
+
+        for (const member of remaining) {
+            await this.registry.send(member.id, {
+                type: 'participant-left',
+                sessionId,
+                connectionId: client.connectionId,
+                reason,
+            });
+        }
+
+        if (!host) return;
+
+        if (!remaining.some(m => m.sessionRole === 'viewer')) {
+            // 마지막 뷰어가 나가면 호스트 세션도 종료 (1:1 세션의 기존 동작)
+            await this.registry.send(host.id, { type: 'disconnected', reason, code });
+            await this.clearSession(host.id);
+        } else if (host.controlHolder === clientId) {
+            await this.registry.update(host.id, { controlHolder: undefined });
+            await this.broadcast(sessionId, { type: 'control-changed', sessionId, holderConnectionId: null });
+        }
+    }
+
+    /**
+     * 메시지 전달 대상
+     * 뷰어 → 호스트 (broadcast면 다른 뷰어 포함), 호스트 → 모든 뷰어 (targetId면 해당 뷰어만)
+     */
+    async getRecipients(clientId: string, options: RouteOptions = {}): Promise<{ client: ClientRecord; recipients: ClientRecord[] } | null> {
+        const client = await this.registry.get(clientId);
+        if (!client || !client.sessionId) return null;
+
+        const members = (await this.registry.listSession(client.sessionId)).filter(m => m.id !== clientId);
+        let recipients: ClientRecord[];
+
+        if (options.targetId) {
+            recipients = members.filter(m => m.connectionId === options.targetId);
+        } else if (client.sessionRole === 'viewer' && !options.broadcast) {
+            recipients = members.filter(m => m.id === client.connectedTo);
+        } else {
+            recipients = members;
+        }
+
+        return { client, recipients };
+    }
+
+    /**
+     * 뷰어가 보낸 메시지가 권한과 제어 토큰 범위 내인지 확인 (호스트 전용 메시지는 거부)
+     */
+    async checkInput(client: ClientRecord, type: string): Promise<InputCheck> {
+        if (client.sessionRole !== 'viewer') return { allowed: true };
+        if (isHostOnlyMessage(type)) {
+            return { allowed: false, reason: `Only the host can send ${type}` };
+        }
+
+        const grant = client.grant || FULL_CONTROL_GRANT;
+        if (!isMessageAllowed(grant, type)) {
+            return { allowed: false, reason: `Permission required: ${getRequiredPermission(type)}` };
+        }
+
+        // 마우스/키보드 입력은 제어 토큰을 가진 뷰어만 가능
+        if (getRequiredPermission(type) === 'input') {
+            const host = client.connectedTo ? await this.registry.get(client.connectedTo) : null;
+            if (!host || host.controlHolder !== client.id) {
+                return { allowed: false, reason: 'Control token required' };
+            }
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * 뷰어 권한 변경 (호스트만 가능, targetConnectionId 생략 시 모든 뷰어)
+     * 변경된 뷰어 수 반환, 호스트가 아니면 null
+     */
+    async updatePermissions(hostId: string, grant: SessionGrant, targetConnectionId?: string): Promise<number | null> {
+        const host = await this.registry.get(hostId);
+        if (!host || host.sessionRole !== 'host' || !host.sessionId) return null;
+
+        const sessionId = host.sessionId;
+        const viewers = (await this.registry.listSession(sessionId)).filter(m =>
+            m.sessionRole === 'viewer' && (!targetConnectionId || m.connectionId === targetConnectionId)
+        );
+
+        for (const viewer of viewers) {
+            await this.registry.update(viewer.id, { grant });
+            await this.registry.send(viewer.id, { type: 'permissions-updated', sessionId, grant });
+            await this.registry.send(hostId, {
+                type: 'permissions-updated',
+                sessionId,
+                grant,
+                targetConnectionId: viewer.connectionId,
+            });
+
+            // 입력 권한을 잃은 뷰어의 제어 토큰 회수
+            if (host.controlHolder === viewer.id && !this.canHoldControl(grant)) {
+                await this.setControlHolder(host, null);
+            }
+        }
+
+        return viewers.length;
+    }
+
+    /**
+     * 제어 토큰 이전 (호스트만 가능, null이면 회수)
+     */
+    async transferControl(hostId: string, targetConnectionId: string | null): Promise<boolean> {
+        const host = await this.registry.get(hostId);
+        if (!host || host.sessionRole !== 'host' || !host.sessionId) return false;
+
+        if (targetConnectionId === null) {
+            await this.setControlHolder(host, null);
+            return true;
+        }
+
+        const target = (await this.registry.listSession(host.sessionId)).find(m =>
+            m.sessionRole === 'viewer' && m.connectionId === targetConnectionId
+        );
+        if (!target || !this.canHoldControl(target.grant || FULL_CONTROL_GRANT)) return false;
+
+        await this.setControlHolder(host, target);
+        return true;
+    }
+
+    /**
+     * 제어 토큰 요청 (호스트에게 전달)
+     */
+    async requestControl(viewerId: string): Promise<boolean> {
+        const viewer = await this.registry.get(viewerId);
+        if (!viewer || viewer.sessionRole !== 'viewer' || !viewer.sessionId || !viewer.connectedTo) return false;
+
+        return this.registry.send(viewer.connectedTo, {
+            type: 'control-requested',
+            sessionId: viewer.sessionId,
+            viewerConnectionId: viewer.connectionId,
+        });
+    }
+
+    /**
+     * 제어 토큰 반납
+     */
+    async releaseControl(viewerId: string): Promise<boolean> {
+        const viewer = await this.registry.get(viewerId);
+        if (!viewer || !viewer.connectedTo) return false;
+
+        const host = await this.registry.get(viewer.connectedTo);
+        if (!host || host.controlHolder !== viewerId) return false;
+
+        await this.setControlHolder(host, null);
+        return true;
+    }
+
+    /**
+     * 세션 참여자 목록
+     */
+    async getRoster(sessionId: string): Promise<SessionParticipant[]> {
+        const members = await this.registry.listSession(sessionId);
+        const host = members.find(m => m.sessionRole === 'host');
+
+        return members.map(member => ({
+            connectionId: member.connectionId,
+            role: member.sessionRole === 'host' ? 'host' : 'viewer',
+            name: member.viewerName,
+            grant: member.sessionRole === 'viewer' ? member.grant : undefined,
+            hasControl: host?.controlHolder === member.id,
+        }));
+    }
+
+    private async setControlHolder(host: ClientRecord, viewer: ClientRecord | null): Promise<void> {
+        if (!host.sessionId) return;
+
+        await this.registry.update(host.id, { controlHolder: viewer?.id });
+        await this.broadcast(host.sessionId, {
+            type: 'control-changed',
+            sessionId: host.sessionId,
+            holderConnectionId: viewer?.connectionId ?? null,
+        });
+    }
+
+    private async broadcast(sessionId: string, message: ServerMessage): Promise<void> {
+        for (const member of await this.registry.listSession(sessionId)) {
+            await this.registry.send(member.id, message);
+        }
+    }
+
+    private async clearSession(clientId: string): Promise<void> {
+        await this.registry.update(clientId, {
+            sessionId: undefined,
+            sessionRole: undefined,
+            connectedTo: undefined,
+            controlHolder: undefined,
+            grant: undefined,
+        });
+    }
+
+    private canHoldControl(grant: SessionGrant): boolean {
+        return grant.mode === 'control' && grant.permissions.includes('input');
+    }
+}
+
+export default SessionManager;
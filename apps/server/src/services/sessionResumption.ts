@@ -0,0 +1,130 @@
+/**
+ * 세션 재개 서비스
+ * 시그널링 소켓이 끊겨도 유예 시간 동안 클라이언트 레코드와 세션을 유지하고,
+ * 재개 토큰으로 다시 연결한 소켓을 기존 레코드에 연결
+ *
+ * 토큰은 `<clientId>.<secret>` 형식이며 레코드에는 secret의 해시만 저장.
+ * 유예 타이머는 소켓이 끊긴 노드에만 존재하며, 만료 시점에 레코드를 다시 확인함.
+ */
+
+import * as crypto from 'crypto';
+import { ClientRecord, ClientRegistry } from './clientRegistry';
+import { ResumeErrorCode } from '../../../../packages/protocol/src/signaling';
+
+export interface ResumptionOptions {
+    graceMs?: number;
+    // 유예 시간 안에 재연결하지 않은 클라이언트 정리
+    onExpired?: (clientId: string) => Promise<void>;
+    now?: () => number;
+}
+
+export type ResumeResult =
+    | { ok: true; client: ClientRecord; resumeToken: string }
+    | { ok: false; code: ResumeErrorCode };
+
+const DEFAULT_RESUME_GRACE_MS = 30 * 1000; // 30초
+
+export class SessionResumptionService {
+    private timers = new Map<string, NodeJS.Timeout>();
+    readonly graceMs: number;
+    private readonly now: () => number;
+
+    constructor(private readonly registry: ClientRegistry, private readonly options: ResumptionOptions = {}) {
+        this.graceMs = options.graceMs ?? DEFAULT_RESUME_GRACE_MS;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 재개 토큰 발급 (이전 토큰은 무효화)
+     */
+    async issue(clientId: string): Promise<string> {
+        const secret = crypto.randomBytes(32).toString('base64url');
+        await this.registry.update(clientId, { resumeTokenHash: hashSecret(secret) });
+        return `${clientId}.${secret}`;
+    }
+
+    /**
+     * 소켓이 끊긴 클라이언트를 유예 상태로 전환
+     * 세션 중이 아니면 유지할 것이 없으므로 false (호출 측에서 바로 정리)
+     */
+    async suspend(client: ClientRecord): Promise<boolean> {
+        if (!client.sessionId || !client.resumeTokenHash || this.graceMs <= 0) return false;
+
+        const suspendedUntil = this.now() + this.graceMs;
+        await this.registry.update(client.id, { suspendedUntil });
+
+        clearTimeout(this.timers.get(client.id));
+        this.timers.set(client.id, setTimeout(() => {
+            this.expire(client.id).catch(error => {
+                console.error(`Failed to expire suspended client ${client.id}:`, error);
+            });
+        }, this.graceMs));
+
+        return true;
+    }
+
+    /**
+     * 토큰으로 기존 레코드에 재연결 (이 노드가 소유권을 가져오고 새 토큰 발급)
+     * 유예 상태가 아닌 레코드도 재개 가능 (서버가 아직 끊김을 감지하지 못한 경우)
+     */
+    async resume(token: string): Promise<ResumeResult> {
+        const separator = token.indexOf('.');
+        if (separator <= 0) return { ok: false, code: 'INVALID_TOKEN' };
+
+        const clientId = token.slice(0, separator);
+        const secret = token.slice(separator + 1);
+        const client = await this.registry.get(clientId);
+        if (!client || !client.resumeTokenHash || !safeEqual(client.resumeTokenHash, hashSecret(secret))) {
+            return { ok: false, code: 'INVALID_TOKEN' };
+        }
+
+        if (client.suspendedUntil !== undefined && client.suspendedUntil <= this.now()) {
+            return { ok: false, code: 'RESUME_EXPIRED' };
+        }
+
+        clearTimeout(this.timers.get(clientId));
+        this.timers.delete(clientId);
+
+        const updated = await this.registry.update(clientId, {
+            nodeId: this.registry.nodeId,
+            suspendedUntil: undefined,
+        });
+        if (!updated) return { ok: false, code: 'INVALID_TOKEN' };
+
+        const resumeToken = await this.issue(clientId);
+        return { ok: true, client: updated, resumeToken };
+    }
+
+    /**
+     * 모든 타이머 해제 (서버 종료 시)
+     */
+    shutdown(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    private async expire(clientId: string): Promise<void> {
+        this.timers.delete(clientId);
+
+        // 재개되었거나 다른 노드로 옮겨갔으면 무시
+        const client = await this.registry.get(clientId);
+        if (!client || client.suspendedUntil === undefined || client.nodeId !== this.registry.nodeId) return;
+        if (client.suspendedUntil > this.now()) return;
+
+        await this.options.onExpired?.(clientId);
+    }
+}
+
+function hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export default SessionResumptionService;
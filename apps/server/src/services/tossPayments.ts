@@ -0,0 +1,122 @@
+/**
+ * 토스페이먼츠 API 클라이언트
+ * 웹훅 검증(결제 재조회)과 빌링키 자동 결제에 사용
+ *
+ * 테스트에서는 baseUrl을 로컬 가짜 서버로 지정.
+ */
+
+export const TOSS_SECRET_KEY = process.env.TOSS_SECRET_KEY || 'test_sk_XXXXXXXXXXXXXXXX';
+export const TOSS_BASE_URL = process.env.TOSS_BASE_URL || 'https://api.tosspayments.com/v1';
+
+export type TossPaymentStatus =
+    | 'READY'
+    | 'IN_PROGRESS'
+    | 'WAITING_FOR_DEPOSIT'
+    | 'DONE'
+    | 'CANCELED'
+    | 'PARTIAL_CANCELED'
+    | 'ABORTED'
+    | 'EXPIRED';
+
+export interface TossPayment {
+    paymentKey: string;
+    orderId: string;
+    status: TossPaymentStatus;
+    totalAmount?: number;
+    lastTransactionKey?: string | null;
+    approvedAt?: string | null;
+    requestedAt?: string;
+    method?: string | null;
+    receipt?: { url: string } | null;
+}
+
+/**
+ * 결제 조회 인터페이스 (웹훅 처리기는 이 인터페이스에만 의존)
+ */
+export interface PaymentProvider {
+    // 결제가 없으면 null
+    getPayment(paymentKey: string): Promise<TossPayment | null>;
+}
+
+export interface BillingChargeRequest {
+    customerKey: string;
+    amount: number;
+    orderId: string;
+    orderName: string;
+}
+
+/**
+ * 빌링키 자동 결제 인터페이스 (정기 결제 스케줄러는 이 인터페이스에만 의존)
+ */
+export interface BillingProvider {
+    // 결제 실패 시 TossPaymentsError
+    chargeBillingKey(billingKey: string, request: BillingChargeRequest): Promise<TossPayment>;
+}
+
+export interface TossPaymentsClientOptions {
+    secretKey?: string;
+    baseUrl?: string;
+}
+
+export class TossPaymentsError extends Error {
+    constructor(message: string, public readonly status: number, public readonly code?: string) {
+        super(message);
+        this.name = 'TossPaymentsError';
+    }
+}
+
+/**
+ * 시크릿 키 Basic 인증 헤더
+ */
+export function getTossAuthHeader(secretKey: string = TOSS_SECRET_KEY): string {
+    return `Basic ${Buffer.from(secretKey + ':').toString('base64')}`;
+}
+
+export class TossPaymentsClient implements PaymentProvider, BillingProvider {
+    private readonly secretKey: string;
+    private readonly baseUrl: string;
+
+    constructor(options: TossPaymentsClientOptions = {}) {
+        this.secretKey = options.secretKey ?? TOSS_SECRET_KEY;
+        this.baseUrl = (options.baseUrl ?? TOSS_BASE_URL).replace(/\/$/, '');
+    }
+
+    /**
+     * 결제 조회 (GET /payments/{paymentKey})
+     */
+    async getPayment(paymentKey: string): Promise<TossPayment | null> {
+        const response = await fetch(`${this.baseUrl}/payments/${encodeURIComponent(paymentKey)}`, {
+            headers: { 'Authorization': getTossAuthHeader(this.secretKey) },
+        });
+
+        if (response.status === 404) return null;
+
+        const body = await response.json() as TossPayment & { code?: string; message?: string };
+        if (!response.ok) {
+            throw new TossPaymentsError(body.message || '결제 조회 실패', response.status, body.code);
+        }
+
+        return body;
+    }
+
+    /**
+     * 빌링키 결제 승인 (POST /billing/{billingKey})
+     */
+    async chargeBillingKey(billingKey: string, request: BillingChargeRequest): Promise<TossPayment> {
+        const response = await fetch(`${this.baseUrl}/billing/${encodeURIComponent(billingKey)}`, {
+            method: 'POST',
+            headers: {
+                'Authorization': getTossAuthHeader(this.secretKey),
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(request),
+        });
+
+        const body = await response.json() as TossPayment & { code?: string; message?: string };
+        if (!response.ok) {
+            throw new TossPaymentsError(body.message || '자동 결제 실패', response.status, body.code);
+        }
+
+        return body;
+    }
+}
@@ -0,0 +1,370 @@
+/**
+ * 2단계 인증 (TOTP) 서비스
+ * 인증 앱 등록, 복구 코드, 로그인 2단계 확인
+ *
+ * - RFC 6238 TOTP (HMAC-SHA1, 6자리, 30초). 데스크톱의 TOTPAuthenticator(packages/crypto)와 같은 방식이지만
+ *   Web Crypto 타입에 의존하지 않도록 서버에서는 Node crypto로 계산
+ * - 등록: setup으로 받은 비밀키를 인증 앱에 추가하고 첫 코드로 확인하면 활성화 + 복구 코드 발급
+ * - 같은 시간 구간의 코드는 한 번만 사용 가능 (재사용 방지)
+ * - 복구 코드는 해시만 저장하고 한 번 사용하면 소진
+ */
+
+import crypto from 'crypto';
+import { Queryable } from '../models/database';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// 시계 오차 허용 (앞뒤 구간 수)
+export const TOTP_WINDOW = 1;
+export const RECOVERY_CODE_COUNT = 10;
+export const DEFAULT_TOTP_ISSUER = 'LunarView';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorRecord {
+    userId: string;
+    // 확인 전 비밀키 (setup 후 enable 전까지)
+    pendingSecret: string | null;
+    secret: string | null;
+    enabledAt: string | null;
+    // 마지막으로 사용한 TOTP 시간 구간
+    lastUsedStep: number | null;
+}
+
+/**
+ * 2단계 인증 저장소 (Postgres, 테스트에서는 메모리 구현)
+ */
+export interface TwoFactorStore {
+    get(userId: string): Promise<TwoFactorRecord | null>;
+    setPendingSecret(userId: string, secret: string): Promise<void>;
+    enable(userId: string, secret: string, enabledAt: Date): Promise<void>;
+    disable(userId: string): Promise<void>;
+    // 더 최근 구간일 때만 기록 (동시에 같은 코드로 로그인하는 경우도 한 번만 성공)
+    markStepUsed(userId: string, step: number): Promise<boolean>;
+    replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+    // 사용하지 않은 복구 코드면 소진하고 true
+    consumeRecoveryCode(userId: string, codeHash: string, usedAt: Date): Promise<boolean>;
+    countRecoveryCodes(userId: string): Promise<number>;
+}
+
+export type TwoFactorResult<T = {}> =
+    | ({ success: true } & T)
+    | { success: false; status: 400 | 401 | 409; error: string };
+
+export interface TwoFactorServiceOptions {
+    issuer?: string;
+    now?: () => number;
+}
+
+/**
+ * 새 TOTP 비밀키 (160비트, base32)
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * 시간 구간의 TOTP 코드
+ */
+export function generateTotpCode(secret: string, timestamp: number = Date.now()): string {
+    return codeForStep(secret, getTotpStep(timestamp));
+}
+
+export function getTotpStep(timestamp: number): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * 인증 앱 등록용 otpauth URI (QR 코드로 표시)
+ */
+export function getOtpAuthUri(secret: string, accountName: string, issuer: string = DEFAULT_TOTP_ISSUER): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+const fail = (status: 400 | 401 | 409, error: string) => ({ success: false as const, status, error });
+
+export class TwoFactorService {
+    private readonly now: () => number;
+    private readonly issuer: string;
+
+    constructor(
+        private readonly store: TwoFactorStore,
+        options: TwoFactorServiceOptions = {}
+    ) {
+        this.now = options.now ?? Date.now;
+        this.issuer = options.issuer ?? DEFAULT_TOTP_ISSUER;
+    }
+
+    async isEnabled(userId: string): Promise<boolean> {
+        const record = await this.store.get(userId);
+        return Boolean(record?.enabledAt && record.secret);
+    }
+
+    async getStatus(userId: string): Promise<{ enabled: boolean; enabledAt: string | null; recoveryCodesRemaining: number }> {
+        const record = await this.store.get(userId);
+        const enabled = Boolean(record?.enabledAt && record.secret);
+        return {
+            enabled,
+            enabledAt: enabled ? record!.enabledAt : null,
+            recoveryCodesRemaining: enabled ? await this.store.countRecoveryCodes(userId) : 0,
+        };
+    }
+
+    /**
+     * 등록 시작 (새 비밀키 발급, 첫 코드로 확인하기 전까지는 로그인에 적용되지 않음)
+     */
+    async beginSetup(userId: string, accountName: string): Promise<TwoFactorResult<{ secret: string; otpauthUri: string }>> {
+        if (await this.isEnabled(userId)) {
+            return fail(409, '이미 2단계 인증을 사용 중입니다.');
+        }
+
+        const secret = generateTotpSecret();
+        await this.store.setPendingSecret(userId, secret);
+        return { success: true, secret, otpauthUri: getOtpAuthUri(secret, accountName, this.issuer) };
+    }
+
+    /**
+     * 첫 코드로 등록 확인 → 활성화하고 복구 코드 발급 (원문은 이때만 반환)
+     */
+    async confirmSetup(userId: string, code: string): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+        const record = await this.store.get(userId);
+        if (record?.enabledAt && record.secret) {
+            return fail(409, '이미 2단계 인증을 사용 중입니다.');
+        }
+        if (!record?.pendingSecret) {
+            return fail(400, '먼저 2단계 인증 설정을 시작해주세요.');
+        }
+
+        const step = this.matchStep(record.pendingSecret, code, null);
+        if (step === null) {
+            return fail(401, '인증 코드가 올바르지 않습니다.');
+        }
+
+        await this.store.enable(userId, record.pendingSecret, new Date(this.now()));
+        await this.store.markStepUsed(userId, step);
+        return { success: true, recoveryCodes: await this.issueRecoveryCodes(userId) };
+    }
+
+    /**
+     * 로그인 2단계 확인 (인증 앱 코드 또는 복구 코드)
+     */
+    async verify(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+        const record = await this.store.get(userId);
+        if (!record?.enabledAt || !record.secret) return null;
+
+        const step = this.matchStep(record.secret, code, record.lastUsedStep);
+        if (step !== null) {
+            return await this.store.markStepUsed(userId, step) ? 'totp' : null;
+        }
+
+        if (isRecoveryCodeFormat(code) && await this.store.consumeRecoveryCode(userId, hashRecoveryCode(code), new Date(this.now()))) {
+            return 'recovery';
+        }
+        return null;
+    }
+
+    /**
+     * 2단계 인증 해제 (현재 코드 또는 복구 코드 필요)
+     */
+    async disable(userId: string, code: string): Promise<TwoFactorResult> {
+        if (!(await this.isEnabled(userId))) {
+            return fail(400, '2단계 인증을 사용하고 있지 않습니다.');
+        }
+        if (!(await this.verify(userId, code))) {
+            return fail(401, '인증 코드가 올바르지 않습니다.');
+        }
+
+        await this.store.disable(userId);
+        return { success: true };
+    }
+
+    /**
+     * 복구 코드 재발급 (기존 코드는 모두 무효)
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+        if (!(await this.isEnabled(userId))) {
+            return fail(400, '2단계 인증을 사용하고 있지 않습니다.');
+        }
+        if (!(await this.verify(userId, code))) {
+            return fail(401, '인증 코드가 올바르지 않습니다.');
+        }
+
+        return { success: true, recoveryCodes: await this.issueRecoveryCodes(userId) };
+    }
+
+    private async issueRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        await this.store.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+        return codes;
+    }
+
+    // 허용 구간 안에서 코드가 맞는 시간 구간 (이미 사용한 구간 이하는 제외)
+    private matchStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+        const normalized = code.replace(/\s/g, '');
+        if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+        const current = getTotpStep(this.now());
+        for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+            if (lastUsedStep !== null && step <= lastUsedStep) continue;
+            if (timingSafeEqual(codeForStep(secret, step), normalized)) return step;
+        }
+        return null;
+    }
+}
+
+export class PostgresTwoFactorStore implements TwoFactorStore {
+    constructor(private readonly db: Queryable) { }
+
+    async get(userId: string): Promise<TwoFactorRecord | null> {
+        const result = await this.db.query('SELECT * FROM user_two_factor WHERE user_id = $1', [userId]);
+        const row = result.rows[0];
+        if (!row) return null;
+
+        return {
+            userId: row.user_id,
+            pendingSecret: row.pending_secret || null,
+            secret: row.secret || null,
+            enabledAt: row.enabled_at ? new Date(row.enabled_at).toISOString() : null,
+            lastUsedStep: row.last_used_step === null ? null : Number(row.last_used_step),
+        };
+    }
+
+    async setPendingSecret(userId: string, secret: string): Promise<void> {
+        await this.db.query(
+            `INSERT INTO user_two_factor (user_id, pending_secret) VALUES ($1, $2)
+             ON CONFLICT (user_id) DO UPDATE SET pending_secret = $2, updated_at = CURRENT_TIMESTAMP`,
+            [userId, secret]
+        );
+    }
+
+    async enable(userId: string, secret: string, enabledAt: Date): Promise<void> {
+        await this.db.query(
+            `UPDATE user_two_factor
+             SET secret = $2, pending_secret = NULL, enabled_at = $3, last_used_step = NULL, updated_at = CURRENT_TIMESTAMP
+             WHERE user_id = $1`,
+            [userId, secret, enabledAt]
+        );
+    }
+
+    async disable(userId: string): Promise<void> {
+        await this.db.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+        await this.db.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+    }
+
+    async markStepUsed(userId: string, step: number): Promise<boolean> {
+        const result = await this.db.query(
+            `UPDATE user_two_factor SET last_used_step = $2
+             WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)
+             RETURNING user_id`,
+            [userId, step]
+        );
+        return result.rows.length > 0;
+    }
+
+    async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+        await this.db.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+        for (const codeHash of codeHashes) {
+            await this.db.query(
+                'INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+                [userId, codeHash]
+            );
+        }
+    }
+
+    async consumeRecoveryCode(userId: string, codeHash: string, usedAt: Date): Promise<boolean> {
+        const result = await this.db.query(
+            `UPDATE two_factor_recovery_codes SET used_at = $3
+             WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+             RETURNING code_hash`,
+            [userId, codeHash, usedAt]
+        );
+        return result.rows.length > 0;
+    }
+
+    async countRecoveryCodes(userId: string): Promise<number> {
+        const result = await this.db.query(
+            'SELECT COUNT(*) AS total FROM two_factor_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+            [userId]
+        );
+        return Number(result.rows[0]?.total ?? 0);
+    }
+}
+
+function codeForStep(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226)
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// 복구 코드: xxxxx-xxxxx (base32 소문자)
+function generateRecoveryCode(): string {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function isRecoveryCodeFormat(code: string): boolean {
+    return /^[a-z2-7]{10}$/.test(normalizeRecoveryCode(code));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+    return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function base32Encode(data: Buffer): string {
+    let result = '';
+    let bits = 0;
+    let value = 0;
+
+    for (const byte of data) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            bits -= 5;
+            result += BASE32_ALPHABET[(value >>> bits) & 31];
+        }
+    }
+    if (bits > 0) {
+        result += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return result;
+}
+
+function base32Decode(encoded: string): Buffer {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) continue;
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((value >>> bits) & 0xff);
+        }
+    }
+    return Buffer.from(bytes);
+}
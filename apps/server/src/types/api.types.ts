@@ -5,6 +5,23 @@
 // 사용자 플랜 타입
 export type UserPlan = 'free' | 'personal_pro' | 'business' | 'team';
 
+// 관리자 역할 타입
+// - support: 접속 클라이언트/감사 로그 조회, 연결 해제, IP 차단
+// - billing: 사용자 플랜/체험 기간, 구독 관리
+// - superadmin: 전체 권한 + 관리자 역할 지정
+export type AdminRole = 'support' | 'billing' | 'superadmin';
+
+// 관리자 API 권한
+export type AdminPermission =
+    | 'clients:read'
+    | 'clients:disconnect'
+    | 'ip:block'
+    | 'logs:read'
+    | 'users:read'
+    | 'users:write'
+    | 'subscriptions:read'
+    | 'admins:manage';
+
 // 구독 상태 타입
 export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'past_due';
 
@@ -19,7 +36,9 @@ export interface User {
     provider_id?: string;
     avatar_url?: string;
     trial_ends_at?: string;
+    email_verified_at?: string | null;
     is_admin?: boolean;
+    admin_role?: AdminRole | null;
     created_at: string;
     updated_at: string;
 }
@@ -35,6 +54,15 @@ export interface Subscription {
     current_period_start?: string;
     current_period_end?: string;
     cancelled_at?: string;
+    last_order_id?: string;
+    last_payment_key?: string;
+    billing_cycle?: 'monthly' | 'yearly';
+    renewal_attempts?: number;
+    next_retry_at?: string;
+    // 플랜 다운그레이드로 남은 금액 (다음 갱신 결제에서 차감)
+    credit_balance?: number;
+    // 조직 구독의 좌석 수 (갱신 금액 = 플랜 가격 × 좌석 수)
+    seats?: number;
     created_at: string;
     updated_at: string;
 }
@@ -45,9 +73,13 @@ export interface ConnectionLog {
     user_id: string;
     connection_id: string;
     connected_to?: string;
+    session_id?: string;
+    peer_user_id?: string;
+    viewer_name?: string;
     started_at: string;
     ended_at?: string;
     duration_seconds?: number;
+    end_reason?: string;
 }
 
 // API 요청/응답 타입
@@ -97,14 +129,30 @@ export interface JWTPayload {
     userId: string;
     email: string;
     plan: UserPlan;
+    // 로그인 세션 (리프레시 토큰 패밀리) ID
+    sessionId?: string;
+    // 개인 API 토큰으로 인증한 경우 토큰 ID와 허용 범위 (JWT면 없음)
+    apiTokenId?: string;
+    scopes?: string[];
     iat?: number;
     exp?: number;
 }
 
+// 관리자 인증 후 요청에 추가되는 정보
+export interface AdminContext {
+    userId: string;
+    email: string;
+    role: AdminRole;
+}
+
 // Express Request 확장 (Passport 타입을 위해 User 인터페이스 확장)
 declare global {
     namespace Express {
         // Passport의 User 인터페이스를 JWTPayload와 병합
         interface User extends JWTPayload { }
+
+        interface Request {
+            admin?: AdminContext;
+        }
     }
 }
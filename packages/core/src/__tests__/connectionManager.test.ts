@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Connection Manager
+ * 시그널링 재연결 및 세션 재개 단위 테스트
+ */
+
+import { ConnectionManager, getReconnectDelay } from '../connectionManager';
+
+// Mock WebSocket
+class MockWebSocket {
+    static OPEN = 1;
+    static instances: MockWebSocket[] = [];
+
+    readyState = 0;
+    sent: any[] = [];
+    onopen: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((error: any) => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+
+    constructor(public url: string) {
+        MockWebSocket.instances.push(this);
+    }
+
+    send(data: string) {
+        this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+        this.readyState = 3;
+    }
+
+    open() {
+        this.readyState = MockWebSocket.OPEN;
+        this.onopen?.();
+    }
+
+    receive(message: any) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+    }
+
+    drop() {
+        this.readyState = 3;
+        this.onclose?.();
+    }
+}
+
+(global as any).WebSocket = MockWebSocket;
+
+const config = {
+    serverUrl: 'ws://localhost:8080',
+    connectionId: '111',
+    password: 'ABCD',
+    isHost: false,
+    reconnect: { maxAttempts: 2, baseDelayMs: 100, maxDelayMs: 1000 },
+};
+
+describe('getReconnectDelay', () => {
+    it('should back off exponentially up to the maximum', () => {
+        const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+        expect(getReconnectDelay(1, options, () => 1)).toBe(100);
+        expect(getReconnectDelay(3, options, () => 1)).toBe(400);
+        expect(getReconnectDelay(10, options, () => 1)).toBe(1000);
+        expect(getReconnectDelay(3, options, () => 0)).toBe(200);
+    });
+});
+
+describe('ConnectionManager', () => {
+    let manager: ConnectionManager;
+    let states: string[];
+    let messages: Array<{ type: string; data: any }>;
+
+    const latest = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+    beforeEach(async () => {
+        jest.useFakeTimers();
+        MockWebSocket.instances = [];
+        manager = new ConnectionManager();
+        states = [];
+        messages = [];
+        manager.setStateChangeHandler(state => states.push(state));
+        manager.setMessageHandler((type, data) => messages.push({ type, data }));
+
+        const connected = manager.connect(config);
+        latest().open();
+        await connected;
+        latest().receive({ type: 'registered', clientId: 'c-1', connectionId: '111', resumeToken: 'c-1.secret' });
+        latest().receive({ type: 'connect-success', sessionId: 's-1', targetConnectionId: '222' });
+    });
+
+    afterEach(() => {
+        manager.disconnect();
+        jest.useRealTimers();
+    });
+
+    it('should resume the session with the token after the socket drops', () => {
+        latest().drop();
+        expect(manager.getState()).toBe('reconnecting');
+
+        jest.advanceTimersByTime(100);
+        latest().open();
+
+        expect(MockWebSocket.instances).toHaveLength(2);
+        expect(latest().sent[0]).toMatchObject({ type: 'resume', resumeToken: 'c-1.secret' });
+
+        latest().receive({ type: 'resumed', clientId: 'c-1', connectionId: '111', resumeToken: 'c-1.next', sessionId: 's-1', role: 'viewer' });
+
+        expect(manager.getState()).toBe('session-active');
+        expect(messages.map(m => m.type)).toContain('resumed');
+    });
+
+    it('should register again and end the session when resume fails', () => {
+        latest().drop();
+        jest.advanceTimersByTime(100);
+        latest().open();
+
+        latest().receive({ type: 'resume-failed', error: 'Resume window expired', code: 'RESUME_EXPIRED' });
+
+        expect(latest().sent[1]).toMatchObject({ type: 'register', connectionId: '111' });
+        expect(messages).toContainEqual({ type: 'disconnected', data: expect.objectContaining({ reason: 'Resume window expired' }) });
+    });
+
+    it('should give up after the maximum number of attempts', () => {
+        latest().drop();
+        jest.advanceTimersByTime(100);
+        latest().drop();
+        jest.advanceTimersByTime(200);
+        latest().drop();
+
+        expect(MockWebSocket.instances).toHaveLength(3);
+        expect(states[states.length - 1]).toBe('disconnected');
+    });
+});
@@ -2,3 +2,4 @@
 export * from './BaseService';
 export * from './EventBus';
 export * from './types';
+export * from './permissions';
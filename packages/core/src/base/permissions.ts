@@ -0,0 +1,36 @@
+/**
+ * Session Permissions
+ * 시그널링 세션 권한(SessionGrant)과 UI용 Permission 변환
+ */
+
+import { SessionGrant, SessionPermission } from '@remote-desktop/protocol';
+import { Permission } from './types';
+
+/**
+ * 세션 권한 → Permission
+ */
+export function toPermission(grant: SessionGrant): Permission {
+    const has = (permission: SessionPermission) => grant.permissions.includes(permission);
+
+    return {
+        canControl: grant.mode === 'control' && has('input'),
+        canViewScreen: has('view'),
+        canTransferFiles: grant.mode === 'control' && has('files'),
+        canUseClipboard: grant.mode === 'control' && has('clipboard'),
+        canChat: true,
+    };
+}
+
+/**
+ * Permission → 세션 권한 (제어 권한이 하나도 없으면 view-only)
+ */
+export function toSessionGrant(permission: Permission, audio = true): SessionGrant {
+    const permissions: SessionPermission[] = ['view'];
+    if (permission.canControl) permissions.push('input');
+    if (permission.canUseClipboard) permissions.push('clipboard');
+    if (permission.canTransferFiles) permissions.push('files');
+    if (audio) permissions.push('audio');
+
+    const isViewOnly = !permission.canControl && !permission.canUseClipboard && !permission.canTransferFiles;
+    return { mode: isViewOnly ? 'view-only' : 'control', permissions };
+}
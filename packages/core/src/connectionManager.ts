@@ -3,11 +3,26 @@
  * 시그널링 서버 연결 및 세션 관리
  */
 
+import {
+    SIGNALING_PROTOCOL_VERSION,
+    validateServerMessage,
+    ClientMessage,
+    ServerMessage,
+} from '@remote-desktop/protocol';
+
 export interface ConnectionConfig {
     serverUrl: string;
     connectionId: string;
     password: string;
     isHost: boolean;
+    reconnect?: ReconnectOptions;
+}
+
+// 재연결 간격: baseDelayMs부터 두 배씩 늘려 maxDelayMs까지 (지터 포함)
+export interface ReconnectOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
 }
 
 export type ConnectionState =
@@ -16,8 +31,25 @@ export type ConnectionState =
     | 'connected'
     | 'authenticating'
     | 'session-active'
+    | 'reconnecting'
     | 'error';
 
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+    maxAttempts: 8,
+    baseDelayMs: 500,
+    maxDelayMs: 15000,
+};
+
+/**
+ * 재연결 대기 시간 (attempt는 1부터)
+ * 지수 백오프의 절반은 고정, 나머지 절반은 무작위로 분산해 동시에 재연결이 몰리지 않게 함
+ */
+export function getReconnectDelay(attempt: number, options: ReconnectOptions = {}, random: () => number = Math.random): number {
+    const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RECONNECT, ...options };
+    const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)));
+    return Math.round(delay / 2 + random() * delay / 2);
+}
+
 type StateChangeHandler = (state: ConnectionState, data?: any) => void;
 type MessageHandler = (type: string, data: any) => void;
 
@@ -28,8 +60,11 @@ export class ConnectionManager {
     private onStateChange: StateChangeHandler | null = null;
     private onMessage: MessageHandler | null = null;
     private reconnectAttempts = 0;
-    private maxReconnectAttempts = 5;
+    private reconnectTimer: NodeJS.Timeout | null = null;
     private heartbeatInterval: NodeJS.Timeout | null = null;
+    // 서버가 발급한 재개 토큰 (재연결 시 register 대신 resume)
+    private resumeToken: string | null = null;
+    private sessionId: string | null = null;
 
     /**
      * 시그널링 서버에 연결
@@ -43,8 +78,11 @@ export class ConnectionManager {
                 this.ws = new WebSocket(config.serverUrl);
 
                 this.ws.onopen = () => {
-                    this.reconnectAttempts = 0;
-                    this.register();
+                    if (this.resumeToken) {
+                        this.send({ type: 'resume', resumeToken: this.resumeToken });
+                    } else {
+                        this.register();
+                    }
                     this.startHeartbeat();
                     resolve();
                 };
@@ -63,7 +101,7 @@ export class ConnectionManager {
                 };
 
                 this.ws.onmessage = (event) => {
-                    this.handleMessage(JSON.parse(event.data));
+                    this.handleRawMessage(event.data);
                 };
             } catch (error) {
                 this.updateState('error');
@@ -88,7 +126,7 @@ export class ConnectionManager {
      * WebRTC 시그널링 메시지 전송
      */
     sendSignaling(type: 'offer' | 'answer' | 'ice-candidate', data: any): void {
-        this.send({ type, ...data });
+        this.send({ type, ...data } as ClientMessage);
     }
 
     /**
@@ -103,6 +141,8 @@ export class ConnectionManager {
      */
     disconnect(): void {
         this.send({ type: 'disconnect' });
+        this.resumeToken = null;
+        this.sessionId = null;
         this.cleanup();
         this.updateState('disconnected');
     }
@@ -137,14 +177,58 @@ export class ConnectionManager {
         });
     }
 
-    private handleMessage(message: any): void {
+    private handleRawMessage(data: string): void {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(data);
+        } catch (error) {
+            console.error('Invalid signaling message:', error);
+            return;
+        }
+
+        const result = validateServerMessage(raw);
+        if (!result.ok) {
+            console.warn(`Dropped signaling message: ${result.error.code} ${result.error.message}`);
+            return;
+        }
+
+        this.handleMessage(result.message);
+    }
+
+    private handleMessage(message: ServerMessage): void {
         switch (message.type) {
             case 'registered':
+                this.reconnectAttempts = 0;
+                this.resumeToken = message.resumeToken || null;
                 this.updateState('connected');
                 break;
 
+            case 'resumed':
+                // 기존 세션과 상대방을 그대로 유지 (참여자 목록은 session-roster로 이어서 수신)
+                this.reconnectAttempts = 0;
+                this.resumeToken = message.resumeToken;
+                this.sessionId = message.sessionId || null;
+                this.updateState(message.sessionId ? 'session-active' : 'connected', { sessionId: message.sessionId, resumed: true });
+                if (this.onMessage) {
+                    this.onMessage('resumed', message);
+                }
+                break;
+
+            case 'resume-failed':
+                // 유예 시간이 지났으면 세션은 이미 종료됨, 처음부터 다시 등록
+                this.resumeToken = null;
+                if (this.sessionId) {
+                    this.sessionId = null;
+                    if (this.onMessage) {
+                        this.onMessage('disconnected', { type: 'disconnected', reason: message.error });
+                    }
+                }
+                this.register();
+                break;
+
             case 'connect-success':
-                this.updateState('session-active', { sessionId: message.sessionId });
+                this.sessionId = message.sessionId;
+                this.updateState('session-active', { sessionId: message.sessionId, grant: message.grant });
                 break;
 
             case 'connect-error':
@@ -156,7 +240,29 @@ export class ConnectionManager {
                 if (this.onMessage) {
                     this.onMessage('incoming-connection', message);
                 }
-                this.updateState('session-active', { sessionId: message.sessionId });
+                this.sessionId = message.sessionId;
+                this.updateState('session-active', { sessionId: message.sessionId, grant: message.grant });
+                break;
+
+            case 'connect-pending':
+            case 'connection-request':
+            case 'connection-request-cancelled':
+            case 'permissions-updated':
+                // 호스트 승인 및 세션 권한 변경
+                if (this.onMessage) {
+                    this.onMessage(message.type, message);
+                }
+                break;
+
+            case 'session-roster':
+            case 'participant-joined':
+            case 'participant-left':
+            case 'control-changed':
+            case 'control-requested':
+                // 다중 뷰어 세션 참여자 및 제어권 변경
+                if (this.onMessage) {
+                    this.onMessage(message.type, message);
+                }
                 break;
 
             case 'offer':
@@ -176,6 +282,7 @@ export class ConnectionManager {
                 break;
 
             case 'disconnected':
+                this.sessionId = null;
                 this.updateState('connected'); // 세션만 종료, 서버 연결 유지
                 if (this.onMessage) {
                     this.onMessage('disconnected', message);
@@ -186,31 +293,46 @@ export class ConnectionManager {
                 // Heartbeat 응답
                 break;
 
+            case 'error':
+                // 서버가 거부한 메시지 (스키마/버전 불일치)
+                console.error(`Signaling error ${message.code}: ${message.message}`);
+                if (this.onMessage) {
+                    this.onMessage('error', message);
+                }
+                break;
+
             default:
-                console.warn('Unknown message type:', message.type);
+                console.warn('Unhandled message type:', message.type);
         }
     }
 
     private handleDisconnect(): void {
         this.stopHeartbeat();
+        this.ws = null;
 
-        if (this.reconnectAttempts < this.maxReconnectAttempts && this.config) {
+        const options = { ...DEFAULT_RECONNECT, ...this.config?.reconnect };
+        if (this.reconnectAttempts < options.maxAttempts && this.config) {
             this.reconnectAttempts++;
-            console.log(`Reconnecting... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+            const delay = getReconnectDelay(this.reconnectAttempts, options);
+            console.log(`Reconnecting in ${delay}ms... (${this.reconnectAttempts}/${options.maxAttempts})`);
+            this.updateState('reconnecting', { attempt: this.reconnectAttempts, delay });
 
-            setTimeout(() => {
+            this.reconnectTimer = setTimeout(() => {
+                this.reconnectTimer = null;
                 if (this.config) {
-                    this.connect(this.config).catch(console.error);
+                    this.connect(this.config).catch(error => console.error('Reconnect failed:', error));
                 }
-            }, 1000 * this.reconnectAttempts);
+            }, delay);
         } else {
+            this.resumeToken = null;
+            this.sessionId = null;
             this.updateState('disconnected');
         }
     }
 
-    private send(data: any): void {
+    private send(data: ClientMessage): void {
         if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify(data));
+            this.ws.send(JSON.stringify({ ...data, v: SIGNALING_PROTOCOL_VERSION }));
         }
     }
 
@@ -229,6 +351,10 @@ export class ConnectionManager {
 
     private cleanup(): void {
         this.stopHeartbeat();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
         if (this.ws) {
             this.ws.close();
             this.ws = null;
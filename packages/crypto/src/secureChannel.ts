@@ -100,6 +100,39 @@ export class SecureChannel {
         this.sendFunction = fn;
     }
 
+    /**
+     * AES-GCM 암호화 (IV 12바이트 + 암호문)
+     * 패킷 payload 암호화(PacketFlags.ENCRYPTED)에도 사용
+     */
+    async encrypt(data: Uint8Array): Promise<Uint8Array> {
+        if (!this.isEstablished || !this.sessionKey) {
+            throw new Error('Secure channel not established');
+        }
+
+        const { ciphertext, iv } = await crypto.encryptAES(data, this.sessionKey);
+
+        // IV + Ciphertext를 하나로 합침
+        const payload = new Uint8Array(iv.length + ciphertext.length);
+        payload.set(iv, 0);
+        payload.set(ciphertext, iv.length);
+        return payload;
+    }
+
+    /**
+     * encrypt 결과 복호화 (변조되었으면 예외)
+     */
+    async decrypt(encryptedPayload: Uint8Array): Promise<Uint8Array> {
+        if (!this.isEstablished || !this.sessionKey) {
+            throw new Error('Secure channel not established');
+        }
+
+        // IV (12 bytes) + Ciphertext 분리
+        const iv = encryptedPayload.slice(0, 12);
+        const ciphertext = encryptedPayload.slice(12);
+
+        return crypto.decryptAES(ciphertext, this.sessionKey, iv);
+    }
+
     /**
      * 데이터 암호화 및 전송
      */
@@ -109,15 +142,7 @@ export class SecureChannel {
         }
 
         try {
-            // AES-GCM으로 암호화
-            const { ciphertext, iv } = await crypto.encryptAES(data, this.sessionKey);
-
-            // IV + Ciphertext를 하나로 합침
-            const payload = new Uint8Array(iv.length + ciphertext.length);
-            payload.set(iv, 0);
-            payload.set(ciphertext, iv.length);
-
-            return this.sendFunction(payload);
+            return this.sendFunction(await this.encrypt(data));
         } catch (error) {
             this.config.onError(error as Error);
             return false;
@@ -134,14 +159,7 @@ export class SecureChannel {
         }
 
         try {
-            // IV (12 bytes) + Ciphertext 분리
-            const iv = encryptedPayload.slice(0, 12);
-            const ciphertext = encryptedPayload.slice(12);
-
-            // AES-GCM으로 복호화
-            const decrypted = await crypto.decryptAES(ciphertext, this.sessionKey, iv);
-
-            this.config.onMessage(decrypted);
+            this.config.onMessage(await this.decrypt(encryptedPayload));
         } catch (error) {
             this.config.onError(error as Error);
         }
@@ -0,0 +1,81 @@
+/**
+ * Input Event Codec Benchmark
+ * 입력 이벤트 바이너리 인코딩과 기존 JSON 경로(encodeJSON/decodeJSON) 비교
+ *
+ *   npm run bench:input
+ */
+
+import { performance } from 'perf_hooks';
+import {
+    decodeKeyboardEvent,
+    decodeMouseEvent,
+    encodeKeyboardEvent,
+    encodeMouseEvent,
+} from '../src/inputCodec';
+import { decodeJSON, deserializePacket, encodeJSON, serializePacket } from '../src/serialization';
+import { KeyboardEvent, MouseEvent, PacketType } from '../src/types';
+
+const ITERATIONS = 200_000;
+
+interface Case<T> {
+    name: string;
+    packetType: PacketType;
+    events: T[];
+    encode: (event: T) => Uint8Array;
+    decode: (payload: Uint8Array) => T;
+}
+
+// 패킷으로 감싸서 보내고 받는 한 번의 왕복 (ops/s, 패킷 크기)
+function measure<T>(events: T[], packetType: PacketType, encode: (event: T) => Uint8Array, decode: (payload: Uint8Array) => T) {
+    let bytes = 0;
+    let sink = 0;
+    const start = performance.now();
+    for (let i = 0; i < ITERATIONS; i++) {
+        const packet = serializePacket({ type: packetType, timestamp: 0, payload: encode(events[i % events.length]) });
+        bytes += packet.length;
+        sink += (decode(deserializePacket(packet).payload) as unknown as { type: string }).type.length;
+    }
+    const elapsed = performance.now() - start;
+    if (sink === 0) throw new Error('unreachable');
+
+    return { opsPerSec: Math.round(ITERATIONS / (elapsed / 1000)), bytesPerPacket: bytes / ITERATIONS };
+}
+
+function run<T>(benchCase: Case<T>): void {
+    const json = measure(benchCase.events, benchCase.packetType, encodeJSON, payload => decodeJSON<T>(payload));
+    const binary = measure(benchCase.events, benchCase.packetType, benchCase.encode, benchCase.decode);
+
+    console.log(`\n${benchCase.name}`);
+    console.log(`  JSON    ${json.opsPerSec.toLocaleString().padStart(12)} ops/s  ${json.bytesPerPacket.toFixed(1)} bytes/packet`);
+    console.log(`  binary  ${binary.opsPerSec.toLocaleString().padStart(12)} ops/s  ${binary.bytesPerPacket.toFixed(1)} bytes/packet`);
+    console.log(`  → ${(binary.opsPerSec / json.opsPerSec).toFixed(1)}x faster, ${(json.bytesPerPacket / binary.bytesPerPacket).toFixed(1)}x smaller`);
+}
+
+const moves: MouseEvent[] = Array.from({ length: 1000 }, (_, i) => ({
+    type: 'move',
+    x: (i * 7919 % 1000) / 1000,
+    y: (i * 104729 % 1000) / 1000,
+}));
+
+const scrolls: MouseEvent[] = Array.from({ length: 100 }, (_, i) => ({
+    type: 'scroll',
+    x: 0.5,
+    y: 0.5,
+    deltaX: 0,
+    deltaY: (i % 2 ? -1 : 1) * (i % 7) * 12.5,
+}));
+
+const keys: KeyboardEvent[] = ['a', 'Enter', 'Shift', 'ArrowLeft', '한'].flatMap(key => (['down', 'up'] as const).map(type => ({
+    type,
+    key,
+    keyCode: key.charCodeAt(0),
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: key === 'Shift',
+    metaKey: false,
+})));
+
+console.log(`Input codec benchmark (${ITERATIONS.toLocaleString()} packets per case, serialize + deserialize)`);
+run({ name: 'mouse move', packetType: PacketType.MOUSE_EVENT, events: moves, encode: encodeMouseEvent, decode: decodeMouseEvent });
+run({ name: 'scroll', packetType: PacketType.MOUSE_EVENT, events: scrolls, encode: encodeMouseEvent, decode: decodeMouseEvent });
+run({ name: 'keyboard', packetType: PacketType.KEYBOARD_EVENT, events: keys, encode: encodeKeyboardEvent, decode: decodeKeyboardEvent });
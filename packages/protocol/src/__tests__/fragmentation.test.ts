@@ -0,0 +1,224 @@
+/**
+ * Unit Tests for Packet Flags and Fragmentation
+ * 헤더 flags, 압축/암호화 payload, 조각내기/재조립 단위 테스트
+ */
+
+import nodeCrypto from 'crypto';
+import {
+    DEFAULT_FRAGMENT_MTU,
+    DEFAULT_MAX_MESSAGE_SIZE,
+    IncompleteMessage,
+    PacketFragmenter,
+    PacketReassembler,
+} from '../fragmentation';
+import {
+    DEFAULT_MAX_PAYLOAD_SIZE,
+    PayloadCipher,
+    compressPayload,
+    decodePacketPayload,
+    decompressPayload,
+    deserializePacket,
+    encodePacketPayload,
+    serializePacket,
+} from '../serialization';
+import { Packet, PacketFlags, PacketType } from '../types';
+
+// SecureChannel과 같은 형식 (IV 12바이트 + 암호문 + 태그)의 AES-GCM 구현
+class TestCipher implements PayloadCipher {
+    private readonly key = nodeCrypto.randomBytes(32);
+
+    async encrypt(data: Uint8Array) {
+        const iv = nodeCrypto.randomBytes(12);
+        const cipher = nodeCrypto.createCipheriv('aes-256-gcm', this.key, iv);
+        return new Uint8Array(Buffer.concat([iv, cipher.update(data), cipher.final(), cipher.getAuthTag()]));
+    }
+
+    async decrypt(data: Uint8Array) {
+        const decipher = nodeCrypto.createDecipheriv('aes-256-gcm', this.key, data.subarray(0, 12));
+        decipher.setAuthTag(data.subarray(data.length - 16));
+        return new Uint8Array(Buffer.concat([decipher.update(data.subarray(12, data.length - 16)), decipher.final()]));
+    }
+}
+
+function frame(size: number): Packet {
+    const payload = new Uint8Array(size);
+    for (let i = 0; i < size; i++) payload[i] = (i * 31) % 251;
+    return { type: PacketType.SCREEN_FRAME, timestamp: 1000, payload };
+}
+
+describe('Packet flags', () => {
+    it('should carry flags through the header', () => {
+        const packet: Packet = { type: PacketType.FILE_TRANSFER, timestamp: 0, payload: new Uint8Array([1]), flags: PacketFlags.COMPRESSED | PacketFlags.ENCRYPTED };
+        const data = serializePacket(packet);
+
+        expect(data[1]).toBe(0x03);
+        expect(deserializePacket(data).flags).toBe(PacketFlags.COMPRESSED | PacketFlags.ENCRYPTED);
+        expect(deserializePacket(serializePacket({ ...packet, flags: undefined })).flags).toBe(PacketFlags.NONE);
+    });
+
+    it('should reject unknown flag bits', () => {
+        const data = serializePacket({ type: PacketType.HEARTBEAT, timestamp: 0, payload: new Uint8Array(0) });
+        data[1] = 0x80;
+
+        expect(() => deserializePacket(data)).toThrow('unknown flags');
+        expect(() => serializePacket({ type: PacketType.HEARTBEAT, timestamp: 0, payload: new Uint8Array(0), flags: 0x40 })).toThrow('unknown flags');
+    });
+
+    it('should compress then encrypt and reverse it on decode', async () => {
+        const cipher = new TestCipher();
+        const text = new TextEncoder().encode('clipboard text '.repeat(200));
+        const packet: Packet = { type: PacketType.CLIPBOARD_DATA, timestamp: 0, payload: text };
+
+        const encoded = await encodePacketPayload(packet, { compress: true, cipher });
+        expect(encoded.flags).toBe(PacketFlags.COMPRESSED | PacketFlags.ENCRYPTED);
+        expect(encoded.payload.length).toBeLessThan(text.length / 4);
+
+        const received = deserializePacket(serializePacket(encoded));
+        const decoded = await decodePacketPayload(received, cipher);
+        expect(decoded.flags).toBe(PacketFlags.NONE);
+        expect(decoded.payload).toEqual(text);
+
+        await expect(decodePacketPayload(received)).rejects.toThrow('without a secure channel');
+        await expect(decodePacketPayload(received, new TestCipher())).rejects.toThrow();
+    });
+
+    it('should skip compression when it does not help', async () => {
+        const random = new Uint8Array(nodeCrypto.randomBytes(512));
+        const encoded = await encodePacketPayload({ type: PacketType.SCREEN_FRAME, timestamp: 0, payload: random }, { compress: true });
+
+        expect(encoded.flags).toBe(PacketFlags.NONE);
+        expect(encoded.payload).toBe(random);
+    });
+
+    it('should reject corrupt compressed payloads', async () => {
+        const packet: Packet = { type: PacketType.FILE_TRANSFER, timestamp: 0, payload: new Uint8Array([1, 2, 3]), flags: PacketFlags.COMPRESSED };
+        await expect(decodePacketPayload(packet)).rejects.toThrow('corrupt compressed payload');
+    });
+
+    it('should stop inflating once the payload exceeds the limit', async () => {
+        // 1 MB의 0은 약 1 KB로 압축됨
+        const bomb = await compressPayload(new Uint8Array(1024 * 1024));
+        const packet: Packet = { type: PacketType.FILE_TRANSFER, timestamp: 0, payload: bomb, flags: PacketFlags.COMPRESSED };
+        expect(bomb.length).toBeLessThan(4096);
+
+        await expect(decodePacketPayload(packet, undefined, 64 * 1024)).rejects.toThrow('decompressed payload exceeds 65536 bytes');
+        await expect(decompressPayload(bomb, 1024 * 1024)).resolves.toHaveLength(1024 * 1024);
+    });
+});
+
+describe('PacketFragmenter / PacketReassembler', () => {
+    const fragmenter = () => new PacketFragmenter({ mtu: 100 });
+    const receive = (data: Uint8Array[]) => data.map(deserializePacket);
+
+    it('should pass small packets through unchanged', () => {
+        const packet = frame(DEFAULT_FRAGMENT_MTU - 6);
+        const [data, ...rest] = new PacketFragmenter().fragment(packet);
+
+        expect(rest).toEqual([]);
+        expect(new PacketReassembler().push(deserializePacket(data))).toMatchObject({ flags: PacketFlags.NONE, payload: packet.payload });
+    });
+
+    it('should split to the MTU and rebuild in order', () => {
+        const packet = { ...frame(1000), flags: PacketFlags.ENCRYPTED };
+        const fragments = fragmenter().fragment(packet);
+
+        expect(fragments).toHaveLength(Math.ceil(1000 / (100 - 6 - 8)));
+        expect(fragments.every(f => f.length <= 100)).toBe(true);
+
+        const reassembler = new PacketReassembler();
+        const results = receive(fragments).map(f => reassembler.push(f));
+        expect(results.slice(0, -1).every(r => r === null)).toBe(true);
+        expect(results[results.length - 1]).toMatchObject({ type: packet.type, flags: PacketFlags.ENCRYPTED, payload: packet.payload });
+        expect(reassembler.getStats()).toEqual({ completed: 1, incomplete: 0, duplicates: 0, late: 0, pending: 0, buffered: 0 });
+    });
+
+    it('should handle out-of-order, duplicated and interleaved fragments', () => {
+        const f = fragmenter();
+        const a = receive(f.fragment(frame(700)));
+        const b = receive(f.fragment({ ...frame(300), type: PacketType.FILE_TRANSFER }));
+        const reassembler = new PacketReassembler();
+
+        expect(a).toHaveLength(9);
+        expect(b).toHaveLength(4);
+        // 완료 후 늦게 도착한 조각은 새 메시지로 취급하지 않음
+        const arrivals = [a[8], a[3], b[2], a[0], a[3], b[3], b[1], b[0], a[5], a[1], a[2], a[4], a[6], a[7], a[0], b[2]];
+        const completed = arrivals.map(p => reassembler.push(p)).filter((p): p is Packet => p !== null);
+
+        expect(completed.map(p => p.type)).toEqual([PacketType.FILE_TRANSFER, PacketType.SCREEN_FRAME]);
+        expect(completed[1].payload).toEqual(frame(700).payload);
+        expect(reassembler.getStats()).toMatchObject({ completed: 2, duplicates: 1, late: 2, pending: 0 });
+    });
+
+    it('should drop messages with missing fragments after the timeout', () => {
+        let now = 0;
+        const lost: IncompleteMessage[] = [];
+        const reassembler = new PacketReassembler({ timeoutMs: 1000, now: () => now, onIncomplete: m => lost.push(m) });
+        const fragments = receive(fragmenter().fragment(frame(500)));
+
+        fragments.filter((_, i) => i !== 2 && i !== 4).forEach(p => expect(reassembler.push(p)).toBeNull());
+        now = 1000;
+        reassembler.expire();
+
+        expect(lost).toEqual([expect.objectContaining({ reason: 'timeout', missing: [2, 4], count: fragments.length })]);
+        expect(reassembler.getStats()).toMatchObject({ incomplete: 1, pending: 0 });
+
+        // 늦게 도착한 조각은 새 메시지로 취급하지 않음
+        expect(reassembler.push(fragments[2])).toBeNull();
+        expect(reassembler.getStats()).toMatchObject({ late: 1, pending: 0 });
+    });
+
+    it('should bound pending messages and message size', () => {
+        const lost: IncompleteMessage[] = [];
+        const f = fragmenter();
+        const reassembler = new PacketReassembler({ maxPendingMessages: 2, maxMessageSize: 400, onIncomplete: m => lost.push(m) });
+
+        for (let i = 0; i < 3; i++) {
+            reassembler.push(receive(f.fragment(frame(300)))[0]);
+        }
+        expect(lost.map(m => [m.messageId, m.reason])).toEqual([[0, 'evicted']]);
+
+        receive(f.fragment(frame(1000))).forEach(p => reassembler.push(p));
+        expect(lost.map(m => m.reason)).toContain('too_large');
+    });
+
+    it('should bound the bytes buffered across all pending messages', () => {
+        const lost: IncompleteMessage[] = [];
+        const f = fragmenter();
+        const reassembler = new PacketReassembler({ maxBufferedBytes: 500, onIncomplete: m => lost.push(m) });
+
+        const a = receive(f.fragment(frame(300)));
+        const b = receive(f.fragment(frame(300)));
+        a.slice(0, 3).forEach(p => reassembler.push(p));
+        b.slice(0, 3).forEach(p => reassembler.push(p));
+        expect(lost.map(m => [m.messageId, m.reason])).toEqual([[0, 'evicted']]);
+        expect(reassembler.getStats()).toMatchObject({ pending: 1, buffered: 3 * 86 });
+
+        // 혼자서 한도를 넘는 메시지는 다른 메시지를 버린 뒤에도 넘으면 버림
+        receive(f.fragment(frame(1000))).forEach(p => reassembler.push(p));
+        expect(lost.map(m => [m.messageId, m.reason])).toEqual([[0, 'evicted'], [1, 'evicted'], [2, 'too_large']]);
+        expect(reassembler.getStats()).toMatchObject({ pending: 0, buffered: 0 });
+
+        expect(DEFAULT_MAX_MESSAGE_SIZE).toBe(DEFAULT_MAX_PAYLOAD_SIZE);
+    });
+
+    it('should reject malformed fragment headers', () => {
+        const [first] = fragmenter().fragment(frame(500));
+        const packet = deserializePacket(first);
+        packet.payload[6] = 0;
+        packet.payload[7] = 0;
+
+        expect(() => new PacketReassembler().push(packet)).toThrow('fragment index out of range');
+        expect(() => fragmenter().fragment(packet)).toThrow('already a fragment');
+    });
+
+    it('should survive the full pipeline', async () => {
+        const cipher = new TestCipher();
+        const original: Packet = { type: PacketType.FILE_TRANSFER, timestamp: 0, payload: new TextEncoder().encode('file chunk '.repeat(1000)) };
+
+        const encoded = await encodePacketPayload(original, { compress: true, cipher });
+        const reassembler = new PacketReassembler();
+        const rebuilt = receive(fragmenter().fragment(encoded)).reverse().map(p => reassembler.push(p)).find(p => p !== null)!;
+
+        expect((await decodePacketPayload(rebuilt, cipher)).payload).toEqual(original.payload);
+    });
+});
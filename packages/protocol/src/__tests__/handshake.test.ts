@@ -0,0 +1,221 @@
+/**
+ * Unit Tests for Handshake
+ * 프로토콜 버전 확인과 기능 협상 단위 테스트
+ */
+
+import {
+    Capabilities,
+    HandshakeOptions,
+    HandshakeSession,
+    decodeCapabilities,
+    encodeCapabilities,
+    hasSessionFeature,
+    negotiateFeatures,
+    negotiatedEncodeOptions,
+    negotiatedFragmenterOptions,
+    resolveProtocolVersion,
+} from '../handshake';
+import { PacketFragmenter } from '../fragmentation';
+import { encodeJSON } from '../serialization';
+import { PacketType } from '../types';
+
+const host: Capabilities = {
+    videoCodecs: ['h264', 'vp9', 'jpeg'],
+    audio: true,
+    fileTransfer: true,
+    clipboardFormats: ['text', 'image', 'files'],
+    input: ['mouse', 'keyboard', 'scroll', 'binary'],
+    packet: ['compression', 'encryption', 'fragmentation'],
+};
+
+const viewer: Capabilities = {
+    videoCodecs: ['av1', 'vp9', 'h264', 'jpeg'],
+    audio: false,
+    fileTransfer: true,
+    clipboardFormats: ['text', 'html', 'image'],
+    input: ['mouse', 'keyboard', 'scroll'],
+    packet: ['encryption', 'fragmentation'],
+};
+
+function session(overrides: Partial<HandshakeOptions> = {}): HandshakeSession {
+    return new HandshakeSession({
+        role: 'initiator',
+        clientId: 'client',
+        publicKey: 'key',
+        capabilities: host,
+        now: () => 0,
+        ...overrides,
+    });
+}
+
+describe('Capabilities', () => {
+    it('should round-trip through capability strings', () => {
+        const encoded = encodeCapabilities(host);
+        expect(encoded).toContain('codec:h264');
+        expect(encoded).toContain('clipboard:image');
+        expect(decodeCapabilities(encoded)).toEqual(host);
+    });
+
+    it('should ignore unknown and duplicate capabilities', () => {
+        const decoded = decodeCapabilities(['codec:h265', 'codec:vp9', 'codec:vp9', 'clipboard:rtf', 'hologram']);
+        expect(decoded.videoCodecs).toEqual(['vp9']);
+        expect(decoded.clipboardFormats).toEqual([]);
+        expect(decoded.audio).toBe(false);
+    });
+});
+
+describe('resolveProtocolVersion', () => {
+    it('should pick the lower version within the same major', () => {
+        expect(resolveProtocolVersion('1.2.0', '1.1.5')).toBe('1.1.5');
+        expect(resolveProtocolVersion('1.0.3', '1.0.7')).toBe('1.0.3');
+    });
+
+    it('should reject different majors and malformed versions', () => {
+        expect(resolveProtocolVersion('1.0.0', '2.0.0')).toBeNull();
+        expect(resolveProtocolVersion('1.0.0', 'v1')).toBeNull();
+    });
+});
+
+describe('Negotiated packet options', () => {
+    // viewer는 압축을 지원하지 않음
+    const features = negotiateFeatures(host, viewer);
+
+    it('should only compress when both peers support it', () => {
+        expect(negotiatedEncodeOptions(features, { compress: true }).compress).toBe(false);
+        expect(negotiatedEncodeOptions(negotiateFeatures(host, host), { compress: true }).compress).toBe(true);
+    });
+
+    it('should only encrypt when both peers negotiated encryption', () => {
+        const cipher = { encrypt: async (data: Uint8Array) => data, decrypt: async (data: Uint8Array) => data };
+        const plain = negotiateFeatures(host, { ...host, packet: ['compression', 'fragmentation'] });
+
+        expect(negotiatedEncodeOptions(features, { cipher }).cipher).toBe(cipher);
+        expect(negotiatedEncodeOptions(plain, { compress: true, cipher })).toEqual({ compress: true });
+        expect('cipher' in negotiatedEncodeOptions(plain, { cipher })).toBe(false);
+    });
+
+    it('should only fragment when both peers can reassemble', () => {
+        const large = { type: PacketType.FILE_TRANSFER, timestamp: 0, payload: new Uint8Array(500) };
+        const noFragments = negotiateFeatures(host, { ...viewer, packet: ['encryption'] });
+
+        expect(new PacketFragmenter(negotiatedFragmenterOptions(features, { mtu: 100 })).fragment(large).length).toBeGreaterThan(1);
+        expect(new PacketFragmenter(negotiatedFragmenterOptions(noFragments, { mtu: 100 })).fragment(large)).toHaveLength(1);
+    });
+});
+
+describe('HandshakeSession', () => {
+    it('should negotiate the same features on both sides', () => {
+        const initiator = session({ clientId: 'host', capabilities: host });
+        const responder = session({ role: 'responder', clientId: 'viewer', capabilities: viewer, version: '1.1.0' });
+
+        const fromHost = initiator.start();
+        const fromViewer = responder.start();
+        expect(fromHost.type).toBe(PacketType.HANDSHAKE);
+
+        const a = initiator.receive(fromViewer);
+        const b = responder.receive(fromHost);
+        if (!a.success || !b.success) throw new Error('handshake failed');
+
+        expect(a.features).toEqual(b.features);
+        expect(a.peer.clientId).toBe('viewer');
+        expect(a.features).toEqual({
+            version: '1.0.0',
+            videoCodec: 'h264',
+            videoCodecs: ['h264', 'vp9', 'jpeg'],
+            audio: false,
+            fileTransfer: true,
+            clipboardFormats: ['text', 'image'],
+            input: ['mouse', 'keyboard', 'scroll'],
+            packet: ['encryption', 'fragmentation'],
+        });
+        expect(initiator.state).toBe('completed');
+        expect(hasSessionFeature(a.features, 'clipboard:image')).toBe(true);
+        expect(hasSessionFeature(a.features, 'input:binary')).toBe(false);
+    });
+
+    it('should fail with a clear error on incompatible versions', () => {
+        const local = session();
+        const remote = session({ role: 'responder', version: '2.0.0' });
+        local.start();
+
+        const result = local.receive(remote.start());
+        expect(result.success).toBe(false);
+        expect(local.state).toBe('failed');
+        expect(local.error?.code).toBe('incompatible_version');
+        expect(local.error?.message).toBe('Incompatible protocol version: peer 2.0.0, local 1.0.0 (requires 1.x)');
+        expect(local.features).toBeNull();
+    });
+
+    it('should fail when both sides send video but share no codec', () => {
+        const local = session({ capabilities: { ...host, videoCodecs: ['h264'] } });
+        const remote = session({ role: 'responder', capabilities: { ...viewer, videoCodecs: ['av1'] } });
+        local.start();
+
+        expect(local.receive(remote.start())).toMatchObject({ success: false, error: { code: 'no_common_codec' } });
+    });
+
+    it('should allow connections without video', () => {
+        const local = session();
+        const remote = session({ role: 'responder', capabilities: { ...viewer, videoCodecs: [] } });
+        local.start();
+
+        const result = local.receive(remote.start());
+        expect(result.success && result.features.videoCodec).toBeNull();
+        expect(local.state).toBe('completed');
+    });
+
+    it('should start and reply when the peer handshake arrives first', () => {
+        const initiator = session({ clientId: 'host', capabilities: host });
+        const responder = session({ role: 'responder', clientId: 'viewer', capabilities: viewer });
+
+        const answered = responder.receive(initiator.start());
+        expect(responder.state).toBe('completed');
+        expect(answered.reply?.type).toBe(PacketType.HANDSHAKE);
+
+        const completed = initiator.receive(answered.reply!);
+        if (!answered.success || !completed.success) throw new Error('handshake failed');
+        expect(completed.reply).toBeUndefined();
+        expect(completed.features).toEqual(answered.features);
+        expect(completed.peer.clientId).toBe('viewer');
+    });
+
+    it('should still reply when an early handshake is incompatible', () => {
+        const responder = session({ role: 'responder' });
+
+        const result = responder.receive(session({ version: '2.0.0' }).start());
+        expect(result).toMatchObject({ success: false, error: { code: 'incompatible_version' } });
+        expect(result.reply?.type).toBe(PacketType.HANDSHAKE);
+    });
+
+    it('should reject malformed messages', () => {
+        const malformed = session();
+        malformed.start();
+        const payload = encodeJSON({ version: '1.0.0', clientId: 'x', capabilities: 'codec:h264' });
+        expect(malformed.receive({ type: PacketType.HANDSHAKE, timestamp: 0, payload }))
+            .toMatchObject({ success: false, error: { code: 'invalid_message' } });
+    });
+
+    it('should keep negotiated features when a second handshake arrives', () => {
+        const local = session();
+        const remote = session({ role: 'responder', capabilities: viewer });
+        local.start();
+        const packet = remote.start();
+        local.receive(packet);
+
+        expect(local.receive(packet)).toMatchObject({ success: false, error: { code: 'unexpected_message' } });
+        expect(local.state).toBe('completed');
+        expect(local.features?.videoCodec).toBe('h264');
+    });
+
+    it('should time out when the peer does not answer', () => {
+        let now = 0;
+        const local = session({ timeoutMs: 1000, now: () => now });
+        local.start();
+
+        now = 999;
+        expect(local.checkTimeout()).toBe(false);
+        now = 1000;
+        expect(local.checkTimeout()).toBe(true);
+        expect(local.error?.code).toBe('timeout');
+    });
+});
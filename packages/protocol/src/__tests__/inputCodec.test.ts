@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Input Event Codec
+ * 마우스/키보드/스크롤 바이너리 인코딩 왕복 및 크기 단위 테스트
+ */
+
+import {
+    InputEventKind,
+    KEYBOARD_EVENT_HEADER_SIZE,
+    MOUSE_EVENT_SIZE,
+    SCROLL_EVENT_SIZE,
+    decodeInputEvent,
+    decodeKeyboardEvent,
+    decodeMouseEvent,
+    encodeKeyboardEvent,
+    encodeMouseEvent,
+} from '../inputCodec';
+import { encodeJSON } from '../serialization';
+import type { KeyboardEvent, MouseEvent } from '../types';
+
+// 좌표 양자화 오차 (1/65535)
+const COORDINATE_PRECISION = 1 / 0xffff;
+
+const key = (overrides: Partial<KeyboardEvent>): KeyboardEvent => ({
+    type: 'down',
+    key: 'a',
+    keyCode: 65,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    metaKey: false,
+    ...overrides,
+});
+
+describe('Input Event Codec', () => {
+    describe('mouse events', () => {
+        it('should round-trip move, down and up events', () => {
+            const events: MouseEvent[] = [
+                { type: 'move', x: 0.123456, y: 0.987654 },
+                { type: 'down', x: 0, y: 1, button: 0 },
+                { type: 'up', x: 0.5, y: 0.5, button: 2 },
+            ];
+
+            for (const event of events) {
+                const encoded = encodeMouseEvent(event);
+                const decoded = decodeMouseEvent(encoded);
+
+                expect(encoded.length).toBe(MOUSE_EVENT_SIZE);
+                expect(decoded.type).toBe(event.type);
+                expect(decoded.button).toBe(event.button);
+                expect(Math.abs(decoded.x - event.x)).toBeLessThanOrEqual(COORDINATE_PRECISION);
+                expect(Math.abs(decoded.y - event.y)).toBeLessThanOrEqual(COORDINATE_PRECISION);
+            }
+        });
+
+        it('should stay within one pixel on an 8K screen', () => {
+            const width = 7680;
+            for (let px = 0; px < width; px += 997) {
+                const decoded = decodeMouseEvent(encodeMouseEvent({ type: 'move', x: px / width, y: 0 }));
+                expect(Math.round(decoded.x * width)).toBe(px);
+            }
+        });
+
+        it('should clamp coordinates outside the screen', () => {
+            const decoded = decodeMouseEvent(encodeMouseEvent({ type: 'move', x: -0.2, y: 1.5 }));
+            expect(decoded).toEqual({ type: 'move', x: 0, y: 1 });
+        });
+
+        it('should round-trip scroll deltas including fractions', () => {
+            const encoded = encodeMouseEvent({ type: 'scroll', x: 0.25, y: 0.75, deltaX: -0.5, deltaY: 120 });
+            expect(encoded.length).toBe(SCROLL_EVENT_SIZE);
+
+            const decoded = decodeMouseEvent(encoded);
+            expect(decoded).toMatchObject({ type: 'scroll', deltaX: -0.5, deltaY: 120 });
+            expect(decoded.x).toBeCloseTo(0.25, 4);
+        });
+    });
+
+    describe('keyboard events', () => {
+        it('should round-trip keys and modifiers', () => {
+            const events = [
+                key({}),
+                key({ type: 'up', key: 'Enter', keyCode: 13, ctrlKey: true, metaKey: true }),
+                key({ key: 'ArrowLeft', keyCode: 37, altKey: true, shiftKey: true }),
+                key({ key: '한', keyCode: 229 }),
+            ];
+
+            for (const event of events) {
+                const encoded = encodeKeyboardEvent(event);
+                expect(encoded.length).toBe(KEYBOARD_EVENT_HEADER_SIZE + new TextEncoder().encode(event.key).length);
+                expect(decodeKeyboardEvent(encoded)).toEqual(event);
+            }
+        });
+
+        it('should reject keys longer than 255 bytes', () => {
+            expect(() => encodeKeyboardEvent(key({ key: 'x'.repeat(256) }))).toThrow('Invalid input event');
+        });
+    });
+
+    describe('decodeInputEvent', () => {
+        it('should dispatch on the kind byte', () => {
+            expect(decodeInputEvent(encodeMouseEvent({ type: 'move', x: 0, y: 0 })).kind).toBe(InputEventKind.MOUSE);
+            expect(decodeInputEvent(encodeMouseEvent({ type: 'scroll', x: 0, y: 0, deltaY: 1 })).kind).toBe(InputEventKind.SCROLL);
+            expect(decodeInputEvent(encodeKeyboardEvent(key({}))).kind).toBe(InputEventKind.KEYBOARD);
+        });
+
+        it('should reject malformed data', () => {
+            const mouse = encodeMouseEvent({ type: 'down', x: 0.5, y: 0.5, button: 0 });
+            const keyboard = encodeKeyboardEvent(key({ key: 'Enter' }));
+
+            expect(() => decodeInputEvent(new Uint8Array(0))).toThrow('Invalid input event');
+            expect(() => decodeInputEvent(new Uint8Array([0x7f]))).toThrow('unknown kind');
+            expect(() => decodeMouseEvent(mouse.subarray(0, 5))).toThrow('expected 7 bytes');
+            expect(() => decodeMouseEvent(keyboard)).toThrow('expected mouse event');
+            expect(() => decodeKeyboardEvent(keyboard.subarray(0, keyboard.length - 1))).toThrow('Invalid input event');
+            expect(() => decodeMouseEvent(Uint8Array.of(InputEventKind.MOUSE, 9, 0, 0, 0, 0, 0))).toThrow('unknown mouse action');
+        });
+
+        it('should decode from an offset inside a larger buffer', () => {
+            const encoded = encodeKeyboardEvent(key({ key: 'Tab', keyCode: 9 }));
+            const buffer = new Uint8Array(encoded.length + 10);
+            buffer.set(encoded, 10);
+
+            expect(decodeKeyboardEvent(buffer.subarray(10))).toMatchObject({ key: 'Tab', keyCode: 9 });
+        });
+    });
+
+    it('should be several times smaller than the JSON payload', () => {
+        const move: MouseEvent = { type: 'move', x: 0.4821, y: 0.1377 };
+        const keyDown = key({ key: 'Shift', keyCode: 16, shiftKey: true });
+
+        expect(encodeMouseEvent(move).length * 4).toBeLessThan(encodeJSON(move).length);
+        expect(encodeKeyboardEvent(keyDown).length * 4).toBeLessThan(encodeJSON(keyDown).length);
+    });
+});
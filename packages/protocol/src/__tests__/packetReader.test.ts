@@ -0,0 +1,163 @@
+/**
+ * Unit Tests for Packet Reader
+ * 바이트 스트림 청크에서 패킷을 조립하는 스트리밍 디코더 단위 테스트
+ */
+
+import { PacketFramingError, PacketReader } from '../packetReader';
+import { PacketFragmenter } from '../fragmentation';
+import { serializePacket } from '../serialization';
+import { Packet, PacketFlags, PacketType } from '../types';
+
+function packet(type: PacketType, size: number, flags = PacketFlags.NONE): Packet {
+    const payload = new Uint8Array(size);
+    for (let i = 0; i < size; i++) payload[i] = (i + type) % 256;
+    return { type, timestamp: 0, payload, flags };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+// 고정된 크기 패턴으로 스트림 자르기
+function split(data: Uint8Array, sizes: number[]): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0, i = 0; offset < data.length; i++) {
+        const size = sizes[i % sizes.length];
+        chunks.push(data.subarray(offset, offset + size));
+        offset += size;
+    }
+    return chunks;
+}
+
+const summary = (packets: Packet[]) => packets.map(p => ({ type: p.type, flags: p.flags, payload: Array.from(p.payload) }));
+
+describe('PacketReader', () => {
+    const packets = [
+        packet(PacketType.HEARTBEAT, 0),
+        packet(PacketType.MOUSE_EVENT, 7),
+        packet(PacketType.SCREEN_FRAME, 5000, PacketFlags.COMPRESSED),
+        packet(PacketType.KEYBOARD_EVENT, 9),
+    ];
+    const stream = concat(packets.map(serializePacket));
+
+    it.each([
+        ['one chunk', [stream.length]],
+        ['single bytes', [1]],
+        ['header-sized chunks', [6]],
+        ['uneven chunks', [3, 11, 1, 4096, 2]],
+    ])('should emit the same packets for %s', (_, sizes) => {
+        const reader = new PacketReader();
+        const received = split(stream, sizes).flatMap(chunk => reader.push(chunk));
+
+        expect(summary(received)).toEqual(summary(packets));
+        expect(reader.getStats()).toEqual({ packets: 4, errors: 0, skippedBytes: 0, buffered: 0 });
+    });
+
+    it('should read fragments streamed back to back', () => {
+        const fragments = new PacketFragmenter({ mtu: 200 }).fragment(packet(PacketType.FILE_TRANSFER, 1000));
+        const reader = new PacketReader();
+
+        const received = split(concat(fragments), [77]).flatMap(chunk => reader.push(chunk));
+        expect(received).toHaveLength(fragments.length);
+        expect(received.every(p => p.flags === PacketFlags.FRAGMENTED)).toBe(true);
+    });
+
+    it('should carry sequence and sender timestamp from the extended header', () => {
+        const sent = { ...packet(PacketType.MOUSE_EVENT, 7), timestamp: 1234.5, sequence: 42 };
+        const reader = new PacketReader({ now: () => 9999 });
+
+        const [received] = split(serializePacket(sent), [5]).flatMap(chunk => reader.push(chunk));
+        expect(received).toEqual(sent);
+    });
+
+    it('should skip sequenced packets too short for the extended header', () => {
+        const errors: PacketFramingError[] = [];
+        const reader = new PacketReader({ onError: e => errors.push(e) });
+        const broken = new Uint8Array([PacketType.HEARTBEAT, PacketFlags.SEQUENCED, 4, 0, 0, 0, 1, 2, 3, 4]);
+
+        const received = reader.push(concat([broken, serializePacket(packet(PacketType.HEARTBEAT, 1))]));
+        expect(received).toHaveLength(1);
+        expect(errors.map(e => e.code)).toEqual(['invalid_header']);
+    });
+
+    it('should skip oversized payloads without buffering them', () => {
+        const errors: PacketFramingError[] = [];
+        const reader = new PacketReader({ maxPayloadSize: 1024, onError: e => errors.push(e) });
+        const data = concat([
+            serializePacket(packet(PacketType.FILE_TRANSFER, 100_000)),
+            serializePacket(packet(PacketType.HEARTBEAT, 1)),
+        ]);
+
+        let maxBuffered = 0;
+        const received = split(data, [4000]).flatMap(chunk => {
+            const result = reader.push(chunk);
+            maxBuffered = Math.max(maxBuffered, reader.getStats().buffered);
+            return result;
+        });
+
+        expect(errors.map(e => e.code)).toEqual(['payload_too_large']);
+        expect(errors[0]).toBeInstanceOf(PacketFramingError);
+        expect(errors[0].message).toContain('Invalid packet');
+        expect(maxBuffered).toBeLessThan(4000);
+        expect(summary(received)).toEqual(summary([packet(PacketType.HEARTBEAT, 1)]));
+        expect(reader.getStats()).toMatchObject({ packets: 1, errors: 1, skippedBytes: 100_006 });
+    });
+
+    it('should report a header claiming 4 GB without allocating it', () => {
+        const errors: PacketFramingError[] = [];
+        const reader = new PacketReader({ onError: e => errors.push(e) });
+
+        expect(reader.push(Uint8Array.of(PacketType.SCREEN_FRAME, 0, 0xff, 0xff, 0xff, 0xff, 1, 2, 3))).toEqual([]);
+        expect(errors.map(e => e.code)).toEqual(['payload_too_large']);
+        expect(reader.getStats().buffered).toBe(0);
+    });
+
+    it('should skip unknown types and flags and keep reading', () => {
+        const errors: PacketFramingError[] = [];
+        const reader = new PacketReader({ onError: e => errors.push(e) });
+
+        const unknownType = serializePacket(packet(PacketType.HEARTBEAT, 3));
+        unknownType[0] = 0x7e;
+        const unknownFlags = serializePacket(packet(PacketType.HEARTBEAT, 2));
+        unknownFlags[1] = 0x80;
+        const valid = packet(PacketType.CONTROL_COMMAND, 4);
+
+        const received = reader.push(concat([unknownType, unknownFlags, serializePacket(valid)]));
+
+        expect(errors.map(e => e.code)).toEqual(['unknown_type', 'unknown_flags']);
+        expect(summary(received)).toEqual(summary([valid]));
+        expect(reader.getStats()).toMatchObject({ packets: 1, errors: 2, skippedBytes: 9 + 8 });
+    });
+
+    it('should report a stream that ends mid-packet', () => {
+        const errors: PacketFramingError[] = [];
+        const reader = new PacketReader({ onError: e => errors.push(e) });
+        const data = serializePacket(packet(PacketType.SCREEN_FRAME, 100));
+
+        reader.push(data.subarray(0, 50));
+        reader.end();
+
+        expect(errors).toEqual([expect.objectContaining({ code: 'truncated', skippedBytes: 50 })]);
+        expect(reader.getStats().buffered).toBe(0);
+
+        // 종료 후 새 스트림으로 재사용
+        expect(reader.push(data)).toHaveLength(1);
+        reader.end();
+        expect(errors).toHaveLength(1);
+    });
+
+    it('should not alias the caller\'s chunks', () => {
+        const reader = new PacketReader();
+        const data = serializePacket(packet(PacketType.MOUSE_EVENT, 7));
+        const [received] = reader.push(data);
+
+        data.fill(0);
+        expect(Array.from(received.payload)).toEqual(Array.from(packet(PacketType.MOUSE_EVENT, 7).payload));
+    });
+});
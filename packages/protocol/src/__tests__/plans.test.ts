@@ -0,0 +1,39 @@
+/**
+ * Unit Tests for Plan Definitions
+ * 플랜 제한 정의 단위 테스트
+ */
+
+import {
+    PLAN_IDS,
+    getPlanLimits,
+    getEffectivePlan,
+    getHigherPlan,
+    getSessionDurationLimit,
+} from '../plans';
+
+describe('Plan Definitions', () => {
+    it('should fall back to the free plan for unknown plans', () => {
+        expect(getPlanLimits('enterprise')).toBe(getPlanLimits('free'));
+        expect(getPlanLimits(undefined).simultaneousSessions).toBe(1);
+        expect(PLAN_IDS.every(id => getPlanLimits(id).name)).toBe(true);
+    });
+
+    it('should grant pro limits during an active trial', () => {
+        const now = Date.parse('2025-01-10T00:00:00Z');
+
+        expect(getEffectivePlan('free', '2025-01-14T00:00:00Z', now)).toBe('personal_pro');
+        expect(getEffectivePlan('free', '2025-01-01T00:00:00Z', now)).toBe('free');
+        expect(getEffectivePlan('business', '2025-01-01T00:00:00Z', now)).toBe('business');
+    });
+
+    it('should pick the higher of two plans', () => {
+        expect(getHigherPlan('personal_pro', 'team')).toBe('team');
+        expect(getHigherPlan('business', 'free')).toBe('business');
+    });
+
+    it('should only limit session duration when both sides are limited', () => {
+        expect(getSessionDurationLimit('free', 'free')).toBe(30 * 60 * 1000);
+        expect(getSessionDurationLimit('free', 'team')).toBeNull();
+        expect(getSessionDurationLimit('personal_pro', 'free')).toBeNull();
+    });
+});
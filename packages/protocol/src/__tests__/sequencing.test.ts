@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for Sequencing
+ * 확장 헤더(sequence + 송신 timestamp), 재전송 방지 윈도우, 손실/지터 통계 단위 테스트
+ */
+
+import { PacketFragmenter, PacketReassembler } from '../fragmentation';
+import { MAX_SEQUENCE, deserializePacket, serializePacket } from '../serialization';
+import { PacketSequencer, ReplayWindow, SequenceTracker, isAcceptedSequence } from '../sequencing';
+import { Packet, PacketFlags, PacketType } from '../types';
+
+function packet(type: PacketType, sequence: number, timestamp = 0): Packet {
+    return { type, timestamp, payload: new Uint8Array([1, 2, 3]), sequence };
+}
+
+describe('Extended header', () => {
+    it('should round-trip sequence and sender timestamp', () => {
+        const sent: Packet = { type: PacketType.SCREEN_FRAME, timestamp: 1_760_000_000_123, payload: new Uint8Array([9, 8]), sequence: MAX_SEQUENCE };
+        const data = serializePacket(sent);
+
+        expect(data[1]).toBe(PacketFlags.SEQUENCED);
+        expect(data).toHaveLength(6 + 12 + 2);
+        expect(deserializePacket(data)).toEqual({ ...sent, flags: PacketFlags.NONE });
+    });
+
+    it('should keep the plain header for unsequenced packets', () => {
+        const data = serializePacket({ type: PacketType.HEARTBEAT, timestamp: 5, payload: new Uint8Array(1) });
+        expect(data).toHaveLength(7);
+        expect(deserializePacket(data).sequence).toBeUndefined();
+    });
+
+    it('should reject invalid sequences', () => {
+        const base = { type: PacketType.HEARTBEAT, timestamp: 0, payload: new Uint8Array(0) };
+        expect(() => serializePacket({ ...base, sequence: -1 })).toThrow('sequence -1 out of range');
+        expect(() => serializePacket({ ...base, flags: PacketFlags.SEQUENCED })).toThrow('SEQUENCED flag without sequence');
+    });
+
+    it('should carry the sequence through fragmentation', () => {
+        const large: Packet = { type: PacketType.FILE_TRANSFER, timestamp: 77, payload: new Uint8Array(500), sequence: 3 };
+        const reassembler = new PacketReassembler();
+        const results = new PacketFragmenter({ mtu: 100 })
+            .fragment(large)
+            .map(fragment => reassembler.push(deserializePacket(fragment)));
+
+        expect(results[results.length - 1]).toEqual({ ...large, flags: PacketFlags.NONE });
+    });
+});
+
+describe('PacketSequencer', () => {
+    it('should number each stream independently and stamp the send time', () => {
+        let now = 100;
+        const sequencer = new PacketSequencer({ now: () => now++ });
+        const base = { timestamp: 0, payload: new Uint8Array(0) };
+
+        const stamped = [
+            sequencer.stamp({ ...base, type: PacketType.MOUSE_EVENT }),
+            sequencer.stamp({ ...base, type: PacketType.MOUSE_EVENT }),
+            sequencer.stamp({ ...base, type: PacketType.SCREEN_FRAME }),
+        ];
+        expect(stamped.map(p => [p.sequence, p.timestamp])).toEqual([[0, 100], [1, 101], [0, 102]]);
+    });
+});
+
+describe('ReplayWindow', () => {
+    it('should classify new, reordered, duplicate and replayed sequences', () => {
+        const window = new ReplayWindow(4);
+
+        expect([0, 1, 3].map(s => window.check(s))).toEqual(['accepted', 'accepted', 'accepted']);
+        expect(window.check(2)).toBe('reordered');
+        expect(window.check(2)).toBe('duplicate');
+        expect(window.check(7)).toBe('accepted');
+        // 7 - 4 = 3 이하는 윈도우 밖
+        expect(window.check(3)).toBe('replayed');
+        expect(window.check(5)).toBe('reordered');
+        expect(window.highestSequence).toBe(7);
+    });
+
+    it('should continue across uint32 wraparound', () => {
+        const window = new ReplayWindow(16);
+
+        expect(window.check(MAX_SEQUENCE - 1)).toBe('accepted');
+        expect(window.check(1)).toBe('accepted');
+        expect(window.check(MAX_SEQUENCE)).toBe('reordered');
+        expect(window.check(0)).toBe('reordered');
+        expect(window.check(MAX_SEQUENCE)).toBe('duplicate');
+        expect(window.highestSequence).toBe(1);
+    });
+
+    it('should forget everything after a jump larger than the window', () => {
+        const window = new ReplayWindow(8);
+        window.check(1);
+        window.check(100);
+
+        expect(window.check(95)).toBe('reordered');
+        expect(window.check(1)).toBe('replayed');
+    });
+});
+
+describe('SequenceTracker', () => {
+    it('should report loss, reordering and duplicates per stream', () => {
+        const tracker = new SequenceTracker();
+        const verdicts = [0, 1, 3, 2, 2, 6].map(s => tracker.push(packet(PacketType.AUDIO_DATA, s)));
+        tracker.push(packet(PacketType.MOUSE_EVENT, 0));
+        tracker.push({ type: PacketType.HEARTBEAT, timestamp: 0, payload: new Uint8Array(0) });
+
+        expect(verdicts).toEqual(['accepted', 'accepted', 'accepted', 'reordered', 'duplicate', 'accepted']);
+        expect(verdicts.map(isAcceptedSequence)).toEqual([true, true, true, true, false, true]);
+        expect(tracker.getStreamStats(PacketType.AUDIO_DATA)).toMatchObject({
+            received: 5,
+            duplicates: 1,
+            reordered: 1,
+            replayed: 0,
+            lost: 2,
+            lossRate: 2 / 7,
+            highestSequence: 6,
+        });
+
+        const stats = tracker.getStats();
+        expect(stats.unsequenced).toBe(1);
+        expect(stats.streams.get(PacketType.MOUSE_EVENT)).toMatchObject({ received: 1, lost: 0 });
+    });
+
+    it('should reject replays of packets older than the window', () => {
+        const tracker = new SequenceTracker({ windowSize: 32 });
+        for (let s = 0; s < 100; s++) tracker.push(packet(PacketType.CONTROL_COMMAND, s));
+
+        expect(tracker.push(packet(PacketType.CONTROL_COMMAND, 10))).toBe('replayed');
+        expect(tracker.push(packet(PacketType.CONTROL_COMMAND, 90))).toBe('duplicate');
+        expect(tracker.getStreamStats(PacketType.CONTROL_COMMAND)).toMatchObject({ received: 100, replayed: 1, lost: 0 });
+    });
+
+    it('should estimate jitter from sender timestamps and arrival times', () => {
+        let arrival = 0;
+        const tracker = new SequenceTracker({ now: () => arrival });
+
+        // 20ms 간격으로 보냈지만 도착 간격이 20/30/10ms
+        const arrivals = [1000, 1020, 1050, 1060];
+        arrivals.forEach((at, i) => {
+            arrival = at;
+            tracker.push(packet(PacketType.AUDIO_DATA, i, 500 + i * 20));
+        });
+
+        // |D| = 0, 10, 10 → 0 → 0.625 → 1.2109375
+        expect(tracker.getStreamStats(PacketType.AUDIO_DATA).jitterMs).toBeCloseTo(1.2109375);
+    });
+
+    it('should return empty stats for unseen streams', () => {
+        expect(new SequenceTracker().getStreamStats(PacketType.SCREEN_FRAME)).toEqual({
+            received: 0,
+            duplicates: 0,
+            reordered: 0,
+            replayed: 0,
+            lost: 0,
+            lossRate: 0,
+            jitterMs: 0,
+            highestSequence: null,
+        });
+    });
+});
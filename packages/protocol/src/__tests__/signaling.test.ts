@@ -0,0 +1,277 @@
+/**
+ * Unit Tests for Signaling Message Schema
+ * 시그널링 메시지 스키마 단위 테스트
+ */
+
+import {
+    SIGNALING_PROTOCOL_VERSION,
+    validateClientMessage,
+    validateServerMessage,
+    parseClientMessage,
+    createErrorMessage,
+    normalizeSessionGrant,
+    isMessageAllowed,
+    VIEW_ONLY_GRANT,
+    FULL_CONTROL_GRANT,
+} from '../signaling';
+
+describe('Signaling Schema', () => {
+    describe('validateClientMessage', () => {
+        it('should accept a valid register message', () => {
+            const result = validateClientMessage({
+                type: 'register',
+                connectionId: '123456789',
+                password: 'ABCD',
+                isHost: true,
+            });
+
+            expect(result.ok).toBe(true);
+        });
+
+        it('should accept legacy messages without a version', () => {
+            const result = validateClientMessage({ type: 'ping' });
+            expect(result.ok).toBe(true);
+        });
+
+        it('should accept nullable ICE candidate fields', () => {
+            const result = validateClientMessage({
+                type: 'webrtc-ice-candidate',
+                candidate: 'candidate:1 1 udp 2122260223 192.168.0.2 54321 typ host',
+                sdpMid: null,
+                sdpMLineIndex: null,
+            });
+
+            expect(result.ok).toBe(true);
+        });
+
+        it('should reject unknown message types', () => {
+            const result = validateClientMessage({ type: 'format-disk' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.code).toBe('UNKNOWN_MESSAGE_TYPE');
+                expect(result.error.requestType).toBe('format-disk');
+            }
+        });
+
+        it('should reject server-only message types from clients', () => {
+            const result = validateClientMessage({ type: 'registered', clientId: 'x', connectionId: 'y' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.code).toBe('UNKNOWN_MESSAGE_TYPE');
+            }
+        });
+
+        it('should reject missing required fields', () => {
+            const result = validateClientMessage({ type: 'connect', targetConnectionId: '123' });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.code).toBe('INVALID_FIELD');
+                expect(result.error.field).toBe('password');
+            }
+        });
+
+        it('should reject fields of the wrong type', () => {
+            const result = validateClientMessage({
+                type: 'register',
+                connectionId: '123',
+                password: 'pw',
+                isHost: 'yes',
+            });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.field).toBe('isHost');
+            }
+        });
+
+        it('should reject unsupported protocol versions', () => {
+            const result = validateClientMessage({ type: 'ping', v: SIGNALING_PROTOCOL_VERSION + 1 });
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.code).toBe('UNSUPPORTED_VERSION');
+                expect(result.error.supportedVersion).toBe(SIGNALING_PROTOCOL_VERSION);
+            }
+        });
+
+        it('should accept approval mode registration and connection responses', () => {
+            expect(validateClientMessage({
+                type: 'register',
+                connectionId: '123456789',
+                password: '',
+                isHost: true,
+                accessMode: 'approval',
+            }).ok).toBe(true);
+
+            expect(validateClientMessage({
+                type: 'connection-response',
+                requestId: 'req-1',
+                accepted: false,
+                reason: 'busy',
+            }).ok).toBe(true);
+        });
+
+        it('should reject unknown access modes and permissions', () => {
+            const register = validateClientMessage({
+                type: 'register',
+                connectionId: '123',
+                password: 'pw',
+                isHost: true,
+                accessMode: 'anyone',
+            });
+            expect(register.ok).toBe(false);
+            if (!register.ok) {
+                expect(register.error.field).toBe('accessMode');
+            }
+
+            const connect = validateClientMessage({
+                type: 'connect',
+                targetConnectionId: '123',
+                password: '',
+                requestedPermissions: ['view', 'root'],
+            });
+            expect(connect.ok).toBe(false);
+            if (!connect.ok) {
+                expect(connect.error.field).toBe('requestedPermissions');
+            }
+        });
+
+        it('should accept targeted peer messages and control requests', () => {
+            expect(validateClientMessage({ type: 'webrtc-offer', sdp: 'v=0', targetId: '222' }).ok).toBe(true);
+            expect(validateClientMessage({ type: 'control-request' }).ok).toBe(true);
+            expect(validateClientMessage({ type: 'control-transfer', targetConnectionId: null }).ok).toBe(true);
+
+            const result = validateClientMessage({ type: 'screen-frame', frame: 'abc', targetId: 42 });
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.field).toBe('targetId');
+            }
+        });
+
+        it('should accept device registration and device connections', () => {
+            expect(validateClientMessage({
+                type: 'register',
+                connectionId: '123456789',
+                password: '',
+                isHost: true,
+                deviceId: 'device-1',
+                deviceTimestamp: 1767225600000,
+                deviceSignature: 'c2lnbmF0dXJl',
+            }).ok).toBe(true);
+            expect(validateClientMessage({ type: 'connect-device', deviceId: 'device-1', requestedPermissions: ['view'] }).ok).toBe(true);
+
+            const result = validateClientMessage({ type: 'register', connectionId: '1', password: '', isHost: true, deviceTimestamp: '1' });
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.field).toBe('deviceTimestamp');
+            }
+            expect(validateClientMessage({ type: 'connect-device' }).ok).toBe(false);
+        });
+
+        it('should reject non-object payloads', () => {
+            expect(validateClientMessage(null).ok).toBe(false);
+            expect(validateClientMessage([{ type: 'ping' }]).ok).toBe(false);
+            expect(validateClientMessage('ping').ok).toBe(false);
+        });
+    });
+
+    describe('parseClientMessage', () => {
+        it('should report malformed JSON', () => {
+            const result = parseClientMessage('{not json');
+
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.code).toBe('MALFORMED_MESSAGE');
+            }
+        });
+    });
+
+    describe('validateServerMessage', () => {
+        it('should accept structured error replies', () => {
+            const error = createErrorMessage('INVALID_FIELD', 'Missing required field: password', {
+                requestType: 'connect',
+                field: 'password',
+            });
+
+            expect(validateServerMessage(error).ok).toBe(true);
+        });
+
+        it('should accept relayed peer messages', () => {
+            const result = validateServerMessage({ type: 'webrtc-offer', sdp: 'v=0', v: 1 });
+            expect(result.ok).toBe(true);
+        });
+
+        it('should accept connection approval prompts', () => {
+            const result = validateServerMessage({
+                type: 'connection-request',
+                requestId: 'req-1',
+                viewerConnectionId: '987654321',
+                viewerName: 'Support Desk',
+                ipAddress: '10.0.0.7',
+                requestedPermissions: ['view', 'input'],
+                expiresAt: Date.now() + 60000,
+            });
+            expect(result.ok).toBe(true);
+        });
+
+        it('should accept session roster updates', () => {
+            const result = validateServerMessage({
+                type: 'session-roster',
+                sessionId: 's-1',
+                participants: [
+                    { connectionId: '111', role: 'host', hasControl: false },
+                    { connectionId: '222', role: 'viewer', hasControl: true, grant: FULL_CONTROL_GRANT },
+                ],
+            });
+            expect(result.ok).toBe(true);
+            expect(validateServerMessage({ type: 'control-changed', sessionId: 's-1', holderConnectionId: null }).ok).toBe(true);
+        });
+
+        it('should accept session resumption messages', () => {
+            expect(validateClientMessage({ type: 'resume', resumeToken: 'c-1.secret' }).ok).toBe(true);
+            expect(validateClientMessage({ type: 'resume' }).ok).toBe(false);
+            expect(validateServerMessage({
+                type: 'resumed',
+                clientId: 'c-1',
+                connectionId: '111',
+                resumeToken: 'c-1.next',
+                sessionId: 's-1',
+                role: 'viewer',
+            }).ok).toBe(true);
+            expect(validateServerMessage({ type: 'resume-failed', error: 'expired', code: 'RESUME_EXPIRED' }).ok).toBe(true);
+        });
+
+        it('should reject client-only message types from the server', () => {
+            const result = validateServerMessage({ type: 'connect', targetConnectionId: '1', password: '2' });
+            expect(result.ok).toBe(false);
+        });
+    });
+
+    describe('Session grants', () => {
+        it('should strip control permissions from view-only grants', () => {
+            const grant = normalizeSessionGrant({ mode: 'view-only', permissions: ['input', 'files', 'audio'] });
+            expect(grant).toEqual({ mode: 'view-only', permissions: ['view', 'audio'] });
+        });
+
+        it('should drop unknown permissions and always include view', () => {
+            const grant = normalizeSessionGrant({ mode: 'control', permissions: ['clipboard', 'root'] });
+            expect(grant).toEqual({ mode: 'control', permissions: ['view', 'clipboard'] });
+        });
+
+        it('should reject malformed grants', () => {
+            expect(normalizeSessionGrant(undefined)).toBeNull();
+            expect(normalizeSessionGrant({ mode: 'control' })).toBeNull();
+        });
+
+        it('should only allow messages covered by the grant', () => {
+            expect(isMessageAllowed(VIEW_ONLY_GRANT, 'mouse-event')).toBe(false);
+            expect(isMessageAllowed(VIEW_ONLY_GRANT, 'clipboard-sync')).toBe(false);
+            expect(isMessageAllowed(VIEW_ONLY_GRANT, 'chat-message')).toBe(true);
+            expect(isMessageAllowed(FULL_CONTROL_GRANT, 'file-chunk')).toBe(true);
+            expect(isMessageAllowed(VIEW_ONLY_GRANT, 'relay')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,360 @@
+/**
+ * Packet Fragmentation
+ * MTU보다 큰 패킷(SCREEN_FRAME, FILE_TRANSFER 등)을 조각내고 받는 쪽에서 재조립
+ *
+ * 조각은 원래 패킷의 type과 flags에 FRAGMENTED를 더한 패킷이고, payload 앞에 조각 헤더가 붙음.
+ *   messageId(4) index(2) count(2) + 원래 payload의 일부
+ *
+ * - 조각은 순서가 바뀌어 도착해도 되고 중복 조각은 무시
+ * - 제한 시간 안에 모든 조각이 오지 않으면 메시지를 버리고 빠진 조각 번호를 알림 (키프레임 재요청 등)
+ * - 재조립 중인 조각의 전체 크기도 제한 (넘으면 오래된 메시지부터 버림, 한 상대가 메모리를 차지하지 못하도록)
+ * - 압축/암호화는 조각내기 전 패킷 전체에 적용 (encodePacketPayload → fragment)
+ * - sequence는 모든 조각에 복사되고 재조립한 패킷에 유지 (SequenceTracker는 재조립 후 적용)
+ */
+
+import { DEFAULT_MAX_PAYLOAD_SIZE, PACKET_HEADER_SIZE, serializePacket, serializedHeaderSize } from './serialization';
+import { Packet, PacketFlags, PacketType } from './types';
+
+export const FRAGMENT_HEADER_SIZE = 8;
+// 일반적인 경로 MTU에서 IP/UDP/DTLS 헤더를 뺀 값
+export const DEFAULT_FRAGMENT_MTU = 1200;
+export const MAX_FRAGMENT_COUNT = 0xffff;
+export const DEFAULT_REASSEMBLY_TIMEOUT_MS = 5000;
+export const DEFAULT_MAX_PENDING_MESSAGES = 64;
+// 재조립한 패킷도 일반 패킷과 같은 payload 한도
+export const DEFAULT_MAX_MESSAGE_SIZE = DEFAULT_MAX_PAYLOAD_SIZE;
+// 재조립 중인 모든 메시지의 조각 크기 합
+export const DEFAULT_MAX_BUFFERED_BYTES = 64 * 1024 * 1024;
+// 완료/폐기 후 늦게 도착한 조각을 새 메시지로 착각하지 않도록 기억하는 메시지 수
+const FINISHED_HISTORY_SIZE = 256;
+
+export interface FragmentHeader {
+    messageId: number;
+    index: number;
+    count: number;
+}
+
+export interface PacketFragmenterOptions {
+    // 조각 하나의 최대 크기 (패킷 헤더 + 조각 헤더 포함)
+    mtu?: number;
+    // false면 조각내지 않고 한 패킷으로 보냄 (상대가 재조립을 지원하지 않을 때, 기본 true)
+    enabled?: boolean;
+}
+
+/**
+ * 큰 패킷을 MTU 크기의 직렬화된 조각으로 분할
+ */
+export class PacketFragmenter {
+    readonly mtu: number;
+    readonly enabled: boolean;
+    private nextMessageId = 0;
+
+    constructor(options: PacketFragmenterOptions = {}) {
+        this.mtu = options.mtu ?? DEFAULT_FRAGMENT_MTU;
+        this.enabled = options.enabled ?? true;
+        if (this.mtu <= PACKET_HEADER_SIZE + FRAGMENT_HEADER_SIZE) {
+            throw new Error(`MTU must be larger than ${PACKET_HEADER_SIZE + FRAGMENT_HEADER_SIZE} bytes`);
+        }
+    }
+
+    /**
+     * MTU 이하(또는 조각내기를 끈 경우)면 그대로 한 개, 크면 조각 목록 (각각 serializePacket 결과)
+     */
+    fragment(packet: Packet): Uint8Array[] {
+        if ((packet.flags ?? PacketFlags.NONE) & PacketFlags.FRAGMENTED) {
+            throw new Error('Packet is already a fragment');
+        }
+        const headerSize = serializedHeaderSize(packet);
+        if (!this.enabled || headerSize + packet.payload.length <= this.mtu) {
+            return [serializePacket(packet)];
+        }
+
+        const chunkSize = this.mtu - headerSize - FRAGMENT_HEADER_SIZE;
+        if (chunkSize <= 0) {
+            throw new Error(`MTU ${this.mtu} is too small for a ${headerSize}-byte packet header`);
+        }
+        const count = Math.ceil(packet.payload.length / chunkSize);
+        if (count > MAX_FRAGMENT_COUNT) {
+            throw new Error(`Packet is too large to fragment (${count} fragments at MTU ${this.mtu})`);
+        }
+
+        const messageId = this.nextMessageId;
+        this.nextMessageId = (this.nextMessageId + 1) >>> 0;
+
+        const fragments: Uint8Array[] = [];
+        for (let index = 0; index < count; index++) {
+            const chunk = packet.payload.subarray(index * chunkSize, (index + 1) * chunkSize);
+            const payload = new Uint8Array(FRAGMENT_HEADER_SIZE + chunk.length);
+            writeFragmentHeader(payload, { messageId, index, count });
+            payload.set(chunk, FRAGMENT_HEADER_SIZE);
+
+            fragments.push(serializePacket({
+                type: packet.type,
+                timestamp: packet.timestamp,
+                payload,
+                flags: (packet.flags ?? PacketFlags.NONE) | PacketFlags.FRAGMENTED,
+                sequence: packet.sequence,
+            }));
+        }
+        return fragments;
+    }
+}
+
+// 재조립하지 못하고 버린 메시지
+export interface IncompleteMessage {
+    messageId: number;
+    type: PacketType;
+    received: number;
+    count: number;
+    missing: number[];
+    reason: 'timeout' | 'evicted' | 'too_large' | 'inconsistent';
+}
+
+export interface ReassemblyStats {
+    completed: number;
+    incomplete: number;
+    duplicates: number;
+    // 완료/폐기된 메시지의 조각이 늦게 도착한 수
+    late: number;
+    pending: number;
+    // 재조립 중인 조각 크기 합 (바이트)
+    buffered: number;
+}
+
+export interface PacketReassemblerOptions {
+    timeoutMs?: number;
+    // 동시에 재조립 중인 메시지 수 (넘으면 가장 오래된 메시지를 버림)
+    maxPendingMessages?: number;
+    maxMessageSize?: number;
+    // 재조립 중인 조각 크기 합 (넘으면 가장 오래된 메시지부터 버림)
+    maxBufferedBytes?: number;
+    onIncomplete?: (message: IncompleteMessage) => void;
+    now?: () => number;
+}
+
+interface PendingMessage {
+    type: PacketType;
+    flags: number;
+    timestamp: number;
+    sequence?: number;
+    count: number;
+    chunks: Array<Uint8Array | undefined>;
+    received: number;
+    size: number;
+    startedAt: number;
+}
+
+/**
+ * 조각을 모아 원래 패킷으로 재조립
+ */
+export class PacketReassembler {
+    private readonly timeoutMs: number;
+    private readonly maxPendingMessages: number;
+    private readonly maxMessageSize: number;
+    private readonly maxBufferedBytes: number;
+    private readonly onIncomplete?: (message: IncompleteMessage) => void;
+    private readonly now: () => number;
+    private readonly pending = new Map<number, PendingMessage>();
+    private readonly finished = new Set<number>();
+    private completed = 0;
+    private incomplete = 0;
+    private duplicates = 0;
+    private late = 0;
+    private buffered = 0;
+
+    constructor(options: PacketReassemblerOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_REASSEMBLY_TIMEOUT_MS;
+        this.maxPendingMessages = options.maxPendingMessages ?? DEFAULT_MAX_PENDING_MESSAGES;
+        this.maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+        this.maxBufferedBytes = options.maxBufferedBytes ?? DEFAULT_MAX_BUFFERED_BYTES;
+        this.onIncomplete = options.onIncomplete;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 역직렬화된 패킷 입력
+     * 조각이 아니면 그대로, 마지막 조각이면 재조립한 패킷, 아직 모자라면 null
+     */
+    push(packet: Packet): Packet | null {
+        const flags = packet.flags ?? PacketFlags.NONE;
+        if (!(flags & PacketFlags.FRAGMENTED)) {
+            return packet;
+        }
+
+        this.expire();
+
+        const header = readFragmentHeader(packet.payload);
+        const chunk = packet.payload.subarray(FRAGMENT_HEADER_SIZE);
+        if (this.finished.has(header.messageId)) {
+            this.late++;
+            return null;
+        }
+
+        let message = this.pending.get(header.messageId);
+
+        if (message && (message.count !== header.count || message.type !== packet.type || message.flags !== flags || message.sequence !== packet.sequence)) {
+            // 같은 ID의 다른 메시지 (ID 순환 또는 손상) → 이전 메시지 폐기
+            this.drop(header.messageId, message, 'inconsistent');
+            message = undefined;
+        }
+
+        if (!message) {
+            if (this.pending.size >= this.maxPendingMessages) {
+                const [oldestId, oldest] = this.pending.entries().next().value as [number, PendingMessage];
+                this.drop(oldestId, oldest, 'evicted');
+            }
+            message = {
+                type: packet.type,
+                flags,
+                timestamp: packet.timestamp,
+                sequence: packet.sequence,
+                count: header.count,
+                chunks: new Array(header.count),
+                received: 0,
+                size: 0,
+                startedAt: this.now(),
+            };
+            this.pending.set(header.messageId, message);
+        }
+
+        if (message.chunks[header.index]) {
+            this.duplicates++;
+            return null;
+        }
+
+        message.chunks[header.index] = chunk.slice();
+        message.received++;
+        message.size += chunk.length;
+        this.buffered += chunk.length;
+        if (message.size > this.maxMessageSize) {
+            this.drop(header.messageId, message, 'too_large');
+            return null;
+        }
+        if (!this.makeRoom(header.messageId)) {
+            this.drop(header.messageId, message, 'too_large');
+            return null;
+        }
+
+        if (message.received < message.count) {
+            return null;
+        }
+
+        this.pending.delete(header.messageId);
+        this.buffered -= message.size;
+        this.completed++;
+        this.rememberFinished(header.messageId);
+        const reassembled: Packet = {
+            type: message.type,
+            timestamp: message.timestamp,
+            payload: concat(message.chunks as Uint8Array[], message.size),
+            flags: message.flags & ~PacketFlags.FRAGMENTED,
+        };
+        if (message.sequence !== undefined) {
+            reassembled.sequence = message.sequence;
+        }
+        return reassembled;
+    }
+
+    /**
+     * 제한 시간이 지난 메시지 폐기 (push에서도 호출, 수신이 끊긴 경우 타이머로 호출)
+     */
+    expire(): void {
+        const deadline = this.now() - this.timeoutMs;
+        for (const [messageId, message] of this.pending) {
+            if (message.startedAt <= deadline) {
+                this.drop(messageId, message, 'timeout');
+            }
+        }
+    }
+
+    getStats(): ReassemblyStats {
+        return {
+            completed: this.completed,
+            incomplete: this.incomplete,
+            duplicates: this.duplicates,
+            late: this.late,
+            pending: this.pending.size,
+            buffered: this.buffered,
+        };
+    }
+
+    clear(): void {
+        this.pending.clear();
+        this.finished.clear();
+        this.buffered = 0;
+    }
+
+    /**
+     * 전체 크기가 한도를 넘으면 다른 메시지를 오래된 순서로 버림 (그래도 넘으면 false)
+     */
+    private makeRoom(currentId: number): boolean {
+        for (const [messageId, message] of this.pending) {
+            if (this.buffered <= this.maxBufferedBytes) break;
+            if (messageId !== currentId) {
+                this.drop(messageId, message, 'evicted');
+            }
+        }
+        return this.buffered <= this.maxBufferedBytes;
+    }
+
+    private rememberFinished(messageId: number): void {
+        this.finished.add(messageId);
+        if (this.finished.size > FINISHED_HISTORY_SIZE) {
+            this.finished.delete(this.finished.values().next().value as number);
+        }
+    }
+
+    private drop(messageId: number, message: PendingMessage, reason: IncompleteMessage['reason']): void {
+        this.pending.delete(messageId);
+        this.buffered -= message.size;
+        this.incomplete++;
+        this.rememberFinished(messageId);
+
+        const missing: number[] = [];
+        for (let index = 0; index < message.count; index++) {
+            if (!message.chunks[index]) missing.push(index);
+        }
+        this.onIncomplete?.({
+            messageId,
+            type: message.type,
+            received: message.received,
+            count: message.count,
+            missing,
+            reason,
+        });
+    }
+}
+
+export function writeFragmentHeader(target: Uint8Array, header: FragmentHeader): void {
+    const view = new DataView(target.buffer, target.byteOffset, FRAGMENT_HEADER_SIZE);
+    view.setUint32(0, header.messageId, true);
+    view.setUint16(4, header.index, true);
+    view.setUint16(6, header.count, true);
+}
+
+export function readFragmentHeader(payload: Uint8Array): FragmentHeader {
+    if (payload.length < FRAGMENT_HEADER_SIZE) {
+        throw new Error('Invalid packet: fragment header too short');
+    }
+
+    const view = new DataView(payload.buffer, payload.byteOffset, FRAGMENT_HEADER_SIZE);
+    const header = {
+        messageId: view.getUint32(0, true),
+        index: view.getUint16(4, true),
+        count: view.getUint16(6, true),
+    };
+    if (header.count === 0 || header.index >= header.count) {
+        throw new Error('Invalid packet: fragment index out of range');
+    }
+    return header;
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
@@ -0,0 +1,335 @@
+/**
+ * Handshake & Capability Negotiation
+ * HANDSHAKE 패킷으로 프로토콜 버전과 기능을 교환하고 두 피어가 함께 쓸 수 있는 세션 기능 결정
+ *
+ * - 두 피어가 동시에 자기 HandshakeMessage를 보내고, 상대 메시지를 받으면 협상 완료
+ * - start() 전에 상대 메시지가 먼저 오면 receive()가 start()를 대신 호출하고 보낼 패킷을 reply로 반환
+ * - 메이저 버전이 다르면 실패 (마이너/패치 차이는 낮은 쪽 버전으로 동작)
+ * - 기능은 "종류:값" 문자열 (codec:h264, clipboard:image 등), 모르는 기능은 무시 (새 버전과의 호환)
+ * - 코덱은 선호 순서대로 보내고, 양쪽 결과가 같도록 initiator의 순서를 따름
+ * - 다른 모듈은 기본값을 가정하지 않고 협상된 SessionFeatures를 조회
+ *   (압축/암호화/조각내기는 negotiatedEncodeOptions, negotiatedFragmenterOptions로 결정)
+ */
+
+import { PacketFragmenterOptions } from './fragmentation';
+import { PayloadEncodeOptions, decodeJSON, encodeJSON } from './serialization';
+import { HandshakeMessage, Packet, PacketType } from './types';
+
+export const PROTOCOL_VERSION = '1.0.0';
+export const DEFAULT_HANDSHAKE_TIMEOUT_MS = 10 * 1000;
+const MAX_CAPABILITIES = 64;
+const MAX_CAPABILITY_LENGTH = 64;
+
+export type VideoCodec = 'jpeg' | 'h264' | 'vp9' | 'av1';
+export type ClipboardFormat = 'text' | 'html' | 'image' | 'files';
+export type InputFeature = 'mouse' | 'keyboard' | 'scroll' | 'binary';
+export type PacketFeature = 'compression' | 'encryption' | 'fragmentation' | 'sequencing';
+
+export const VIDEO_CODECS: readonly VideoCodec[] = ['av1', 'vp9', 'h264', 'jpeg'];
+export const CLIPBOARD_FORMATS: readonly ClipboardFormat[] = ['text', 'html', 'image', 'files'];
+export const INPUT_FEATURES: readonly InputFeature[] = ['mouse', 'keyboard', 'scroll', 'binary'];
+export const PACKET_FEATURES: readonly PacketFeature[] = ['compression', 'encryption', 'fragmentation', 'sequencing'];
+
+// 한 피어가 지원하는 기능 (videoCodecs는 선호 순서)
+export interface Capabilities {
+    videoCodecs: VideoCodec[];
+    audio: boolean;
+    fileTransfer: boolean;
+    clipboardFormats: ClipboardFormat[];
+    input: InputFeature[];
+    packet: PacketFeature[];
+}
+
+// 협상 결과 (양쪽 모두 지원하는 기능)
+export interface SessionFeatures extends Capabilities {
+    // 양쪽이 사용할 프로토콜 버전 (낮은 쪽)
+    version: string;
+    // 사용할 코덱 (공통 코덱이 없으면 null, 화면을 보내지 않는 연결)
+    videoCodec: VideoCodec | null;
+}
+
+export type HandshakeRole = 'initiator' | 'responder';
+export type HandshakeState = 'idle' | 'sent' | 'completed' | 'failed';
+export type HandshakeErrorCode =
+    | 'incompatible_version'
+    | 'no_common_codec'
+    | 'invalid_message'
+    | 'unexpected_message'
+    | 'timeout';
+
+export class HandshakeError extends Error {
+    constructor(public readonly code: HandshakeErrorCode, message: string) {
+        super(message);
+        this.name = 'HandshakeError';
+    }
+}
+
+// reply: receive()가 start()를 대신 호출했을 때 상대에게 보낼 내 HANDSHAKE 패킷
+export type HandshakeResult =
+    | { success: true; features: SessionFeatures; peer: HandshakeMessage; reply?: Packet }
+    | { success: false; error: HandshakeError; reply?: Packet };
+
+export interface HandshakeOptions {
+    role: HandshakeRole;
+    clientId: string;
+    publicKey: string;
+    capabilities: Capabilities;
+    version?: string;
+    timeoutMs?: number;
+    now?: () => number;
+}
+
+/**
+ * 기능 목록을 HandshakeMessage.capabilities 문자열로
+ */
+export function encodeCapabilities(capabilities: Capabilities): string[] {
+    return [
+        ...capabilities.videoCodecs.map(codec => `codec:${codec}`),
+        ...(capabilities.audio ? ['audio'] : []),
+        ...(capabilities.fileTransfer ? ['file-transfer'] : []),
+        ...capabilities.clipboardFormats.map(format => `clipboard:${format}`),
+        ...capabilities.input.map(feature => `input:${feature}`),
+        ...capabilities.packet.map(feature => `packet:${feature}`),
+    ];
+}
+
+/**
+ * HandshakeMessage.capabilities 문자열을 기능 목록으로 (모르는 값은 무시)
+ */
+export function decodeCapabilities(values: string[]): Capabilities {
+    const pick = <T extends string>(prefix: string, known: readonly T[]): T[] => {
+        const picked = values
+            .filter(value => value.startsWith(`${prefix}:`))
+            .map(value => value.slice(prefix.length + 1) as T)
+            .filter(value => known.includes(value));
+        return [...new Set(picked)];
+    };
+
+    return {
+        videoCodecs: pick('codec', VIDEO_CODECS),
+        audio: values.includes('audio'),
+        fileTransfer: values.includes('file-transfer'),
+        clipboardFormats: pick('clipboard', CLIPBOARD_FORMATS),
+        input: pick('input', INPUT_FEATURES),
+        packet: pick('packet', PACKET_FEATURES),
+    };
+}
+
+/**
+ * 두 피어의 기능 교집합 (코덱 순서는 initiator 기준)
+ */
+export function negotiateFeatures(initiator: Capabilities, responder: Capabilities, version: string = PROTOCOL_VERSION): SessionFeatures {
+    const common = <T>(a: T[], b: T[]) => a.filter(value => b.includes(value));
+    const videoCodecs = common(initiator.videoCodecs, responder.videoCodecs);
+
+    return {
+        version,
+        videoCodec: videoCodecs[0] ?? null,
+        videoCodecs,
+        audio: initiator.audio && responder.audio,
+        fileTransfer: initiator.fileTransfer && responder.fileTransfer,
+        clipboardFormats: common(initiator.clipboardFormats, responder.clipboardFormats),
+        input: common(initiator.input, responder.input),
+        packet: common(initiator.packet, responder.packet),
+    };
+}
+
+/**
+ * 협상된 기능 확인 (capability는 encodeCapabilities와 같은 형식, 예: 'clipboard:image')
+ */
+export function hasSessionFeature(features: SessionFeatures, capability: string): boolean {
+    return encodeCapabilities(features).includes(capability);
+}
+
+/**
+ * 협상 결과에 맞춘 payload 인코딩 옵션 (상대가 지원하지 않는 압축/암호화는 적용하지 않음)
+ */
+export function negotiatedEncodeOptions(features: SessionFeatures, options: PayloadEncodeOptions): PayloadEncodeOptions {
+    const { cipher, ...rest } = options;
+    const encoded: PayloadEncodeOptions = { ...rest, compress: !!options.compress && features.packet.includes('compression') };
+    if (cipher && features.packet.includes('encryption')) {
+        encoded.cipher = cipher;
+    }
+    return encoded;
+}
+
+/**
+ * 협상 결과에 맞춘 조각내기 옵션 (상대가 재조립을 지원하지 않으면 조각내지 않음)
+ */
+export function negotiatedFragmenterOptions(features: SessionFeatures, options: PacketFragmenterOptions = {}): PacketFragmenterOptions {
+    return { ...options, enabled: (options.enabled ?? true) && features.packet.includes('fragmentation') };
+}
+
+/**
+ * 버전 호환 여부 (같은 메이저 버전), 호환되면 낮은 버전 반환
+ */
+export function resolveProtocolVersion(local: string, peer: string): string | null {
+    const a = parseVersion(local);
+    const b = parseVersion(peer);
+    if (!a || !b || a[0] !== b[0]) return null;
+
+    for (let i = 1; i < 3; i++) {
+        if (a[i] !== b[i]) return a[i] < b[i] ? local : peer;
+    }
+    return local;
+}
+
+/**
+ * 핸드쉐이크 상태 머신
+ * start()로 내 HANDSHAKE 패킷을 만들어 보내고, 상대 HANDSHAKE 패킷을 receive()에 전달
+ */
+export class HandshakeSession {
+    private readonly options: HandshakeOptions;
+    private readonly version: string;
+    private readonly timeoutMs: number;
+    private readonly now: () => number;
+    private startedAt = 0;
+    private currentState: HandshakeState = 'idle';
+    private result: HandshakeResult | null = null;
+
+    constructor(options: HandshakeOptions) {
+        this.options = options;
+        this.version = options.version ?? PROTOCOL_VERSION;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_HANDSHAKE_TIMEOUT_MS;
+        this.now = options.now ?? Date.now;
+
+        if (!parseVersion(this.version)) {
+            throw new Error(`Invalid protocol version: ${this.version}`);
+        }
+    }
+
+    get state(): HandshakeState {
+        return this.currentState;
+    }
+
+    /**
+     * 협상된 기능 (완료 전에는 null)
+     */
+    get features(): SessionFeatures | null {
+        return this.result?.success ? this.result.features : null;
+    }
+
+    get error(): HandshakeError | null {
+        return this.result && !this.result.success ? this.result.error : null;
+    }
+
+    /**
+     * 내 HandshakeMessage를 담은 HANDSHAKE 패킷
+     */
+    start(): Packet {
+        if (this.currentState !== 'idle') {
+            throw new Error(`Handshake already ${this.currentState}`);
+        }
+
+        const message: HandshakeMessage = {
+            version: this.version,
+            clientId: this.options.clientId,
+            publicKey: this.options.publicKey,
+            capabilities: encodeCapabilities(this.options.capabilities),
+        };
+
+        this.currentState = 'sent';
+        this.startedAt = this.now();
+        return { type: PacketType.HANDSHAKE, timestamp: this.startedAt, payload: encodeJSON(message) };
+    }
+
+    /**
+     * 상대 HANDSHAKE 패킷 처리 (아직 start()하지 않았으면 시작하고 result.reply로 내 패킷 반환)
+     */
+    receive(packet: Packet): HandshakeResult {
+        if (this.currentState === 'idle') {
+            const reply = this.start();
+            return { ...this.process(packet), reply };
+        }
+        return this.process(packet);
+    }
+
+    /**
+     * 응답이 오지 않으면 실패 처리 (타이머에서 호출), 실패했으면 true
+     */
+    checkTimeout(): boolean {
+        if (this.currentState === 'sent' && this.isTimedOut()) {
+            this.fail('timeout', `Handshake timed out after ${this.timeoutMs}ms`);
+            return true;
+        }
+        return false;
+    }
+
+    private process(packet: Packet): HandshakeResult {
+        if (this.currentState === 'completed' || this.currentState === 'failed') {
+            return this.fail('unexpected_message', `Unexpected handshake after ${this.currentState}`);
+        }
+        if (this.isTimedOut()) {
+            return this.fail('timeout', `Handshake timed out after ${this.timeoutMs}ms`);
+        }
+        if (packet.type !== PacketType.HANDSHAKE) {
+            return this.fail('unexpected_message', `Expected HANDSHAKE packet, got type ${packet.type}`);
+        }
+
+        const peer = parseHandshakeMessage(packet.payload);
+        if (!peer) {
+            return this.fail('invalid_message', 'Malformed handshake message');
+        }
+
+        const version = resolveProtocolVersion(this.version, peer.version);
+        if (!version) {
+            return this.fail(
+                'incompatible_version',
+                `Incompatible protocol version: peer ${peer.version}, local ${this.version} (requires ${this.version.split('.')[0]}.x)`
+            );
+        }
+
+        const local = this.options.capabilities;
+        const remote = decodeCapabilities(peer.capabilities);
+        const features = this.options.role === 'initiator'
+            ? negotiateFeatures(local, remote, version)
+            : negotiateFeatures(remote, local, version);
+
+        if (!features.videoCodec && local.videoCodecs.length > 0 && remote.videoCodecs.length > 0) {
+            return this.fail(
+                'no_common_codec',
+                `No common video codec: peer ${remote.videoCodecs.join(', ')}, local ${local.videoCodecs.join(', ')}`
+            );
+        }
+
+        this.currentState = 'completed';
+        this.result = { success: true, features, peer };
+        return this.result;
+    }
+
+    private isTimedOut(): boolean {
+        return this.now() - this.startedAt >= this.timeoutMs;
+    }
+
+    private fail(code: HandshakeErrorCode, message: string): HandshakeResult {
+        const result: HandshakeResult = { success: false, error: new HandshakeError(code, message) };
+        // 완료된 세션에 잘못된 메시지가 와도 협상 결과는 유지
+        if (this.currentState !== 'completed') {
+            this.currentState = 'failed';
+            this.result = result;
+        }
+        return result;
+    }
+}
+
+function parseVersion(version: string): [number, number, number] | null {
+    const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version);
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+function parseHandshakeMessage(payload: Uint8Array): HandshakeMessage | null {
+    let message: unknown;
+    try {
+        message = decodeJSON<unknown>(payload);
+    } catch {
+        return null;
+    }
+
+    if (!message || typeof message !== 'object') return null;
+    const { version, clientId, publicKey, capabilities } = message as Record<string, unknown>;
+    if (typeof version !== 'string' || typeof clientId !== 'string' || typeof publicKey !== 'string') return null;
+    if (!Array.isArray(capabilities) || capabilities.length > MAX_CAPABILITIES) return null;
+    if (!capabilities.every((c: unknown): c is string => typeof c === 'string' && c.length <= MAX_CAPABILITY_LENGTH)) return null;
+
+    return { version, clientId, publicKey, capabilities };
+}
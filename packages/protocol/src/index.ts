@@ -1,2 +1,9 @@
 export * from './types';
 export * from './serialization';
+export * from './signaling';
+export * from './plans';
+export * from './inputCodec';
+export * from './fragmentation';
+export * from './packetReader';
+export * from './handshake';
+export * from './sequencing';
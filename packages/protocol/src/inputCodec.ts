@@ -0,0 +1,226 @@
+/**
+ * Input Event Binary Codec
+ * 마우스/키보드/스크롤 이벤트의 고정 레이아웃 바이너리 인코딩 (JSON 대비 작고 파싱 불필요)
+ *
+ * 모든 이벤트는 첫 바이트가 InputEventKind라서 데이터그램 하나만으로 디코딩 가능.
+ * 숫자는 little-endian (serializePacket 헤더와 동일).
+ *
+ *   마우스   kind(1) action(1) button(1) x(2) y(2)                    = 7바이트
+ *   스크롤   kind(1) x(2) y(2) deltaX(f32) deltaY(f32)                = 13바이트
+ *   키보드   kind(1) action(1) modifiers(1) keyCode(2) keyLength(1) key(UTF-8, 최대 255)
+ *
+ * 좌표는 화면 크기에 대한 비율(0~1)을 Uint16으로 양자화 (8K 화면에서도 1픽셀보다 정밀).
+ */
+
+import type { KeyboardEvent, MouseEvent } from './types';
+
+export enum InputEventKind {
+    MOUSE = 0x01,
+    SCROLL = 0x02,
+    KEYBOARD = 0x03,
+}
+
+// 키보드 modifiers 비트
+export const MODIFIER_CTRL = 0x01;
+export const MODIFIER_ALT = 0x02;
+export const MODIFIER_SHIFT = 0x04;
+export const MODIFIER_META = 0x08;
+
+export const MOUSE_EVENT_SIZE = 7;
+export const SCROLL_EVENT_SIZE = 13;
+export const KEYBOARD_EVENT_HEADER_SIZE = 6;
+export const MAX_KEY_LENGTH = 255;
+
+const COORDINATE_SCALE = 0xffff;
+const NO_BUTTON = 0xff;
+
+const MOUSE_ACTIONS = ['move', 'down', 'up'] as const;
+const KEY_ACTIONS = ['down', 'up'] as const;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export type DecodedInputEvent =
+    | { kind: InputEventKind.MOUSE | InputEventKind.SCROLL; event: MouseEvent }
+    | { kind: InputEventKind.KEYBOARD; event: KeyboardEvent };
+
+/**
+ * 마우스 이벤트 인코딩 (type이 scroll이면 스크롤 레이아웃)
+ */
+export function encodeMouseEvent(event: MouseEvent): Uint8Array {
+    if (event.type === 'scroll') {
+        return encodeScrollEvent(event);
+    }
+
+    const action = MOUSE_ACTIONS.indexOf(event.type);
+    if (action === -1) {
+        throw new Error(`Invalid input event: unknown mouse action ${event.type}`);
+    }
+
+    const data = new Uint8Array(MOUSE_EVENT_SIZE);
+    const view = new DataView(data.buffer);
+    view.setUint8(0, InputEventKind.MOUSE);
+    view.setUint8(1, action);
+    view.setUint8(2, event.button ?? NO_BUTTON);
+    view.setUint16(3, quantize(event.x), true);
+    view.setUint16(5, quantize(event.y), true);
+    return data;
+}
+
+/**
+ * 스크롤 이벤트 인코딩 (delta는 트랙패드의 소수 값을 유지하도록 float32)
+ */
+export function encodeScrollEvent(event: MouseEvent): Uint8Array {
+    const data = new Uint8Array(SCROLL_EVENT_SIZE);
+    const view = new DataView(data.buffer);
+    view.setUint8(0, InputEventKind.SCROLL);
+    view.setUint16(1, quantize(event.x), true);
+    view.setUint16(3, quantize(event.y), true);
+    view.setFloat32(5, event.deltaX ?? 0, true);
+    view.setFloat32(9, event.deltaY ?? 0, true);
+    return data;
+}
+
+/**
+ * 마우스/스크롤 이벤트 디코딩
+ */
+export function decodeMouseEvent(data: Uint8Array): MouseEvent {
+    const view = toView(data);
+    const kind = view.getUint8(0);
+
+    if (kind === InputEventKind.SCROLL) {
+        expectLength(data, SCROLL_EVENT_SIZE);
+        return {
+            type: 'scroll',
+            x: dequantize(view.getUint16(1, true)),
+            y: dequantize(view.getUint16(3, true)),
+            deltaX: view.getFloat32(5, true),
+            deltaY: view.getFloat32(9, true),
+        };
+    }
+
+    if (kind !== InputEventKind.MOUSE) {
+        throw new Error(`Invalid input event: expected mouse event, got kind ${kind}`);
+    }
+    expectLength(data, MOUSE_EVENT_SIZE);
+
+    const type = MOUSE_ACTIONS[view.getUint8(1)];
+    if (!type) {
+        throw new Error('Invalid input event: unknown mouse action');
+    }
+
+    const button = view.getUint8(2);
+    const event: MouseEvent = {
+        type,
+        x: dequantize(view.getUint16(3, true)),
+        y: dequantize(view.getUint16(5, true)),
+    };
+    if (button !== NO_BUTTON) {
+        if (button > 2) throw new Error('Invalid input event: unknown mouse button');
+        event.button = button as 0 | 1 | 2;
+    }
+    return event;
+}
+
+/**
+ * 키보드 이벤트 인코딩
+ */
+export function encodeKeyboardEvent(event: KeyboardEvent): Uint8Array {
+    const action = KEY_ACTIONS.indexOf(event.type);
+    if (action === -1) {
+        throw new Error(`Invalid input event: unknown key action ${event.type}`);
+    }
+
+    const key = textEncoder.encode(event.key);
+    if (key.length > MAX_KEY_LENGTH) {
+        throw new Error('Invalid input event: key is too long');
+    }
+
+    const data = new Uint8Array(KEYBOARD_EVENT_HEADER_SIZE + key.length);
+    const view = new DataView(data.buffer);
+    view.setUint8(0, InputEventKind.KEYBOARD);
+    view.setUint8(1, action);
+    view.setUint8(2, encodeModifiers(event));
+    view.setUint16(3, event.keyCode & 0xffff, true);
+    view.setUint8(5, key.length);
+    data.set(key, KEYBOARD_EVENT_HEADER_SIZE);
+    return data;
+}
+
+/**
+ * 키보드 이벤트 디코딩
+ */
+export function decodeKeyboardEvent(data: Uint8Array): KeyboardEvent {
+    const view = toView(data);
+    const kind = view.getUint8(0);
+    if (kind !== InputEventKind.KEYBOARD) {
+        throw new Error(`Invalid input event: expected keyboard event, got kind ${kind}`);
+    }
+    if (data.length < KEYBOARD_EVENT_HEADER_SIZE) {
+        throw new Error('Invalid input event: too short');
+    }
+
+    const type = KEY_ACTIONS[view.getUint8(1)];
+    if (!type) {
+        throw new Error('Invalid input event: unknown key action');
+    }
+
+    expectLength(data, KEYBOARD_EVENT_HEADER_SIZE + view.getUint8(5));
+    const modifiers = view.getUint8(2);
+
+    return {
+        type,
+        key: textDecoder.decode(data.subarray(KEYBOARD_EVENT_HEADER_SIZE)),
+        keyCode: view.getUint16(3, true),
+        ctrlKey: (modifiers & MODIFIER_CTRL) !== 0,
+        altKey: (modifiers & MODIFIER_ALT) !== 0,
+        shiftKey: (modifiers & MODIFIER_SHIFT) !== 0,
+        metaKey: (modifiers & MODIFIER_META) !== 0,
+    };
+}
+
+/**
+ * 첫 바이트로 종류를 판별해서 디코딩
+ */
+export function decodeInputEvent(data: Uint8Array): DecodedInputEvent {
+    const kind = toView(data).getUint8(0);
+    switch (kind) {
+        case InputEventKind.MOUSE:
+        case InputEventKind.SCROLL:
+            return { kind, event: decodeMouseEvent(data) };
+        case InputEventKind.KEYBOARD:
+            return { kind, event: decodeKeyboardEvent(data) };
+        default:
+            throw new Error(`Invalid input event: unknown kind ${kind}`);
+    }
+}
+
+export function encodeModifiers(event: Pick<KeyboardEvent, 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): number {
+    return (event.ctrlKey ? MODIFIER_CTRL : 0)
+        | (event.altKey ? MODIFIER_ALT : 0)
+        | (event.shiftKey ? MODIFIER_SHIFT : 0)
+        | (event.metaKey ? MODIFIER_META : 0);
+}
+
+// 0~1 비율 → Uint16 (범위 밖은 화면 가장자리로)
+function quantize(value: number): number {
+    if (!Number.isFinite(value)) return 0;
+    return Math.round(Math.min(1, Math.max(0, value)) * COORDINATE_SCALE);
+}
+
+function dequantize(value: number): number {
+    return value / COORDINATE_SCALE;
+}
+
+function toView(data: Uint8Array): DataView {
+    if (data.length === 0) {
+        throw new Error('Invalid input event: empty');
+    }
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function expectLength(data: Uint8Array, length: number): void {
+    if (data.length !== length) {
+        throw new Error(`Invalid input event: expected ${length} bytes, got ${data.length}`);
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * Streaming Packet Reader
+ * 바이트 스트림(WebTransport 양방향 스트림, WebSocket 릴레이)에서 임의로 잘린 청크를 받아 완성된 패킷으로 변환
+ *
+ * - 헤더의 size가 maxPayloadSize를 넘으면 payload를 버퍼에 쌓지 않고 흘려보냄 (메모리 고갈 방지)
+ * - 알 수 없는 type/flags 패킷은 건너뛰고 onError로 알림 (스트림은 계속 사용)
+ * - 헤더의 size로 다음 패킷 위치를 알 수 있으므로 오류 후에도 프레이밍 유지
+ */
+
+import {
+    DEFAULT_MAX_PAYLOAD_SIZE,
+    PACKET_HEADER_SIZE,
+    PacketHeader,
+    SEQUENCE_HEADER_SIZE,
+    hasUnknownFlags,
+    readPacketBody,
+    readPacketHeader,
+} from './serialization';
+import { Packet, PacketFlags, PacketType } from './types';
+
+export type PacketFramingErrorCode = 'payload_too_large' | 'unknown_type' | 'unknown_flags' | 'invalid_header' | 'truncated';
+
+export class PacketFramingError extends Error {
+    constructor(
+        public readonly code: PacketFramingErrorCode,
+        message: string,
+        // 이 오류로 버린 바이트 수 (헤더 포함)
+        public readonly skippedBytes: number
+    ) {
+        super(`Invalid packet: ${message}`);
+        this.name = 'PacketFramingError';
+    }
+}
+
+export interface PacketReaderOptions {
+    maxPayloadSize?: number;
+    onError?: (error: PacketFramingError) => void;
+    now?: () => number;
+}
+
+export interface PacketReaderStats {
+    packets: number;
+    errors: number;
+    skippedBytes: number;
+    // 아직 패킷이 되지 않은 버퍼 크기
+    buffered: number;
+}
+
+const KNOWN_TYPES = new Set<number>(
+    Object.values(PacketType).filter((value): value is number => typeof value === 'number')
+);
+
+export class PacketReader {
+    private readonly maxPayloadSize: number;
+    private readonly onError?: (error: PacketFramingError) => void;
+    private readonly now: () => number;
+
+    // 받은 청크 큐 (첫 청크의 offset부터 유효)
+    private chunks: Uint8Array[] = [];
+    private offset = 0;
+    private length = 0;
+
+    // 헤더를 읽고 payload를 기다리는 중인 패킷
+    private header: PacketHeader | null = null;
+    // 건너뛰는 중인 payload의 남은 바이트
+    private skipRemaining = 0;
+
+    private packets = 0;
+    private errors = 0;
+    private skippedBytes = 0;
+
+    constructor(options: PacketReaderOptions = {}) {
+        this.maxPayloadSize = options.maxPayloadSize ?? DEFAULT_MAX_PAYLOAD_SIZE;
+        this.onError = options.onError;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 청크 입력, 이번 청크로 완성된 패킷 반환 (없으면 빈 배열)
+     */
+    push(chunk: Uint8Array): Packet[] {
+        if (chunk.length > 0) {
+            this.chunks.push(chunk);
+            this.length += chunk.length;
+        }
+
+        const packets: Packet[] = [];
+        while (true) {
+            if (this.skipRemaining > 0) {
+                const skipped = Math.min(this.skipRemaining, this.length);
+                this.discard(skipped);
+                this.skipRemaining -= skipped;
+                if (this.skipRemaining > 0) break;
+            }
+
+            if (!this.header) {
+                if (this.length < PACKET_HEADER_SIZE) break;
+                const header = readPacketHeader(this.take(PACKET_HEADER_SIZE));
+                const error = this.validate(header);
+                if (error) {
+                    this.skipRemaining = header.size;
+                    this.report(error);
+                    continue;
+                }
+                this.header = header;
+            }
+
+            if (this.length < this.header.size) break;
+
+            packets.push(readPacketBody(this.header, this.take(this.header.size), this.now()));
+            this.header = null;
+            this.packets++;
+        }
+        return packets;
+    }
+
+    /**
+     * 스트림 종료 (패킷 중간에서 끝났으면 truncated 오류)
+     */
+    end(): void {
+        const remaining = this.getStats().buffered;
+        const expected = this.header ? PACKET_HEADER_SIZE + this.header.size : PACKET_HEADER_SIZE;
+        this.reset();
+
+        if (remaining > 0) {
+            this.report(new PacketFramingError('truncated', `stream ended after ${remaining} of ${expected} bytes`, remaining));
+        }
+    }
+
+    reset(): void {
+        this.chunks = [];
+        this.offset = 0;
+        this.length = 0;
+        this.header = null;
+        this.skipRemaining = 0;
+    }
+
+    getStats(): PacketReaderStats {
+        return {
+            packets: this.packets,
+            errors: this.errors,
+            skippedBytes: this.skippedBytes,
+            buffered: this.length + (this.header ? PACKET_HEADER_SIZE : 0),
+        };
+    }
+
+    private validate(header: PacketHeader): PacketFramingError | null {
+        const skipped = PACKET_HEADER_SIZE + header.size;
+        if (header.size > this.maxPayloadSize) {
+            return new PacketFramingError('payload_too_large', `payload of ${header.size} bytes exceeds ${this.maxPayloadSize}`, skipped);
+        }
+        if (!KNOWN_TYPES.has(header.type)) {
+            return new PacketFramingError('unknown_type', `unknown type 0x${header.type.toString(16)}`, skipped);
+        }
+        if (hasUnknownFlags(header.flags)) {
+            return new PacketFramingError('unknown_flags', `unknown flags 0x${header.flags.toString(16)}`, skipped);
+        }
+        if ((header.flags & PacketFlags.SEQUENCED) && header.size < SEQUENCE_HEADER_SIZE) {
+            return new PacketFramingError('invalid_header', `sequence header needs ${SEQUENCE_HEADER_SIZE} bytes, got ${header.size}`, skipped);
+        }
+        return null;
+    }
+
+    private report(error: PacketFramingError): void {
+        this.errors++;
+        this.skippedBytes += error.skippedBytes;
+        this.onError?.(error);
+    }
+
+    // 앞에서 n바이트를 꺼내 하나의 배열로 (n <= length)
+    private take(n: number): Uint8Array {
+        const first = this.chunks[0];
+        if (first && first.length - this.offset >= n) {
+            const result = first.slice(this.offset, this.offset + n);
+            this.discard(n);
+            return result;
+        }
+
+        const result = new Uint8Array(n);
+        let written = 0;
+        while (written < n) {
+            const chunk = this.chunks[0];
+            const count = Math.min(chunk.length - this.offset, n - written);
+            result.set(chunk.subarray(this.offset, this.offset + count), written);
+            written += count;
+            this.discard(count);
+        }
+        return result;
+    }
+
+    // 앞에서 n바이트 버리기 (n <= length)
+    private discard(n: number): void {
+        this.length -= n;
+        while (n > 0) {
+            const available = this.chunks[0].length - this.offset;
+            if (n < available) {
+                this.offset += n;
+                return;
+            }
+            n -= available;
+            this.chunks.shift();
+            this.offset = 0;
+        }
+    }
+}
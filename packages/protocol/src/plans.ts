@@ -0,0 +1,125 @@
+/**
+ * LunarView Plan Definitions
+ * 플랜별 제한 (서버 시그널링, 결제 API, 데스크톱 앱이 공통으로 사용)
+ */
+
+export type PlanId = 'free' | 'personal_pro' | 'business' | 'team';
+
+export const PLAN_IDS: readonly PlanId[] = ['free', 'personal_pro', 'business', 'team'];
+
+export interface PlanLimits {
+    name: string;
+    // 세션 최대 시간 (ms, null이면 무제한)
+    sessionDuration: number | null;
+    // 하루 최대 연결 횟수 (null이면 무제한)
+    maxDailyConnections: number | null;
+    // 동시에 유지할 수 있는 세션 수 (호스트/뷰어 합산)
+    simultaneousSessions: number;
+    maxResolution: number;
+    fileTransfer: boolean;
+    multiMonitor: boolean;
+    watermark: boolean;
+    clipboard: boolean;
+    audioStream: boolean;
+    gameMode: boolean;
+    priority: 'low' | 'normal' | 'high' | 'highest';
+}
+
+export const PLAN_LIMITS: Record<PlanId, PlanLimits> = {
+    free: {
+        name: '무료',
+        sessionDuration: 30 * 60 * 1000,  // 30분
+        maxDailyConnections: 5,
+        simultaneousSessions: 1,
+        maxResolution: 720,
+        fileTransfer: false,
+        multiMonitor: false,
+        watermark: true,
+        clipboard: true,
+        audioStream: false,
+        gameMode: false,
+        priority: 'low',
+    },
+    personal_pro: {
+        name: '개인 프로',
+        sessionDuration: null,
+        maxDailyConnections: null,
+        simultaneousSessions: 2,
+        maxResolution: 1080,
+        fileTransfer: true,
+        multiMonitor: true,
+        watermark: false,
+        clipboard: true,
+        audioStream: true,
+        gameMode: true,
+        priority: 'normal',
+    },
+    business: {
+        name: '비즈니스',
+        sessionDuration: null,
+        maxDailyConnections: null,
+        simultaneousSessions: 5,
+        maxResolution: 2160,
+        fileTransfer: true,
+        multiMonitor: true,
+        watermark: false,
+        clipboard: true,
+        audioStream: true,
+        gameMode: true,
+        priority: 'high',
+    },
+    team: {
+        name: '팀',
+        sessionDuration: null,
+        maxDailyConnections: null,
+        simultaneousSessions: 10,
+        maxResolution: 2160,
+        fileTransfer: true,
+        multiMonitor: true,
+        watermark: false,
+        clipboard: true,
+        audioStream: true,
+        gameMode: true,
+        priority: 'highest',
+    },
+};
+
+export function isPlanId(value: unknown): value is PlanId {
+    return typeof value === 'string' && (PLAN_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * 플랜 제한 조회 (알 수 없는 플랜은 무료)
+ */
+export function getPlanLimits(plan: string | null | undefined): PlanLimits {
+    return isPlanId(plan) ? PLAN_LIMITS[plan] : PLAN_LIMITS.free;
+}
+
+/**
+ * 실제 적용 플랜 (무료 체험 기간 중에는 개인 프로)
+ */
+export function getEffectivePlan(plan: string | null | undefined, trialEndsAt?: string | Date | null, now: number = Date.now()): PlanId {
+    const base = isPlanId(plan) ? plan : 'free';
+    if (base === 'free' && trialEndsAt && new Date(trialEndsAt).getTime() > now) {
+        return 'personal_pro';
+    }
+    return base;
+}
+
+/**
+ * 두 플랜 중 상위 플랜 (조직 구성원은 개인 플랜과 조직 플랜 중 높은 쪽 적용)
+ */
+export function getHigherPlan(a: PlanId, b: PlanId): PlanId {
+    return PLAN_IDS.indexOf(a) >= PLAN_IDS.indexOf(b) ? a : b;
+}
+
+/**
+ * 두 참여자 사이 세션의 최대 시간
+ * 한쪽이라도 시간 제한 없는 플랜이면 무제한, 둘 다 제한이 있으면 더 긴 쪽
+ */
+export function getSessionDurationLimit(hostPlan: PlanId, viewerPlan: PlanId): number | null {
+    const host = PLAN_LIMITS[hostPlan].sessionDuration;
+    const viewer = PLAN_LIMITS[viewerPlan].sessionDuration;
+    if (host === null || viewer === null) return null;
+    return Math.max(host, viewer);
+}
@@ -0,0 +1,280 @@
+/**
+ * Packet Sequencing & Replay Protection
+ * 송신 측에서 스트림(패킷 타입)별 sequence와 송신 시각을 붙이고, 수신 측에서 중복/순서 바뀜/재전송을 판별
+ *
+ * - 수신 측은 최근 windowSize개의 sequence를 기억하는 슬라이딩 윈도우 (IPsec/DTLS 재전송 방지와 같은 방식)
+ * - 윈도우보다 오래된 sequence는 재전송(replay)으로 보고 버림
+ * - sequence는 uint32라서 순환하며, 순환 후에도 이어지도록 마지막 sequence 기준의 확장 sequence로 비교
+ * - 손실률/지터는 RFC 3550(RTP) 방식으로 계산 (WebRTC 통계와 별개로 이 계층에서 측정)
+ * - 조각난 패킷은 재조립 후 push, 키(SecureChannel)가 바뀌거나 재연결하면 양쪽 모두 새로 생성
+ * - 확장 헤더는 암호화 대상이 아니므로 변조된 재전송까지 막지는 못함 (그 경우는 DTLS/TLS 계층에 의존)
+ */
+
+import { MAX_SEQUENCE } from './serialization';
+import { Packet, PacketType } from './types';
+
+export const DEFAULT_REPLAY_WINDOW_SIZE = 1024;
+// RFC 3550 지터 평활 계수
+const JITTER_GAIN = 1 / 16;
+const SEQUENCE_SPACE = MAX_SEQUENCE + 1;
+
+// accepted/reordered만 처리, duplicate/replayed는 버림, unsequenced는 sequencing 협상 여부에 따라 결정
+export type SequenceVerdict = 'accepted' | 'reordered' | 'duplicate' | 'replayed' | 'unsequenced';
+
+export interface StreamStats {
+    // 받아들인 패킷 (중복/재전송 제외)
+    received: number;
+    duplicates: number;
+    reordered: number;
+    replayed: number;
+    // 기대한 수 - 받은 수 (늦게 도착하면 다시 줄어듦)
+    lost: number;
+    lossRate: number;
+    jitterMs: number;
+    highestSequence: number | null;
+}
+
+export interface SequenceTrackerStats {
+    // sequence 없이 받은 패킷 (협상 전 또는 구버전 피어)
+    unsequenced: number;
+    streams: Map<PacketType, StreamStats>;
+}
+
+export interface PacketSequencerOptions {
+    now?: () => number;
+}
+
+export interface SequenceTrackerOptions {
+    windowSize?: number;
+    // 도착 시각 (지터 계산)
+    now?: () => number;
+}
+
+interface StreamState {
+    window: ReplayWindow;
+    // 받은 것 중 가장 작은/큰 확장 sequence
+    first: number;
+    last: number;
+    received: number;
+    duplicates: number;
+    reordered: number;
+    replayed: number;
+    jitter: number;
+    lastTransit: number | null;
+}
+
+export function isAcceptedSequence(verdict: SequenceVerdict): boolean {
+    return verdict === 'accepted' || verdict === 'reordered';
+}
+
+/**
+ * 송신 측: 스트림별 다음 sequence와 송신 시각 부여
+ */
+export class PacketSequencer {
+    private readonly now: () => number;
+    private readonly next = new Map<PacketType, number>();
+
+    constructor(options: PacketSequencerOptions = {}) {
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * sequence와 현재 시각을 붙인 패킷 (압축/암호화 후, 조각내기 전에 호출)
+     */
+    stamp(packet: Packet): Packet {
+        const sequence = this.next.get(packet.type) ?? 0;
+        this.next.set(packet.type, (sequence + 1) % SEQUENCE_SPACE);
+        return { ...packet, timestamp: this.now(), sequence };
+    }
+
+    reset(): void {
+        this.next.clear();
+    }
+}
+
+/**
+ * 한 스트림의 재전송 방지 윈도우
+ */
+export class ReplayWindow {
+    readonly size: number;
+    private readonly seen: Uint8Array;
+    // 가장 큰 확장 sequence (아직 없으면 -1)
+    private highest = -1;
+
+    constructor(size: number = DEFAULT_REPLAY_WINDOW_SIZE) {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error(`Invalid replay window size: ${size}`);
+        }
+        this.size = size;
+        this.seen = new Uint8Array(size);
+    }
+
+    get highestSequence(): number | null {
+        return this.highest < 0 ? null : this.highest % SEQUENCE_SPACE;
+    }
+
+    /**
+     * uint32 sequence를 가장 큰 sequence에 가까운 확장 sequence로 (순환 처리)
+     */
+    extend(sequence: number): number {
+        if (this.highest < 0) return sequence;
+        const delta = (sequence - (this.highest % SEQUENCE_SPACE)) | 0;
+        return this.highest + delta;
+    }
+
+    /**
+     * sequence 판별 후 기록 (duplicate/replayed는 기록하지 않음)
+     */
+    check(sequence: number): Exclude<SequenceVerdict, 'unsequenced'> {
+        const extended = this.extend(sequence);
+
+        if (extended > this.highest) {
+            const advance = this.highest < 0 ? this.size : extended - this.highest;
+            if (advance >= this.size) {
+                this.seen.fill(0);
+            } else {
+                for (let skipped = this.highest + 1; skipped < extended; skipped++) {
+                    this.seen[skipped % this.size] = 0;
+                }
+            }
+            this.seen[extended % this.size] = 1;
+            this.highest = extended;
+            return 'accepted';
+        }
+
+        if (extended < 0 || extended <= this.highest - this.size) {
+            return 'replayed';
+        }
+
+        const slot = extended % this.size;
+        if (this.seen[slot]) {
+            return 'duplicate';
+        }
+        this.seen[slot] = 1;
+        return 'reordered';
+    }
+
+    reset(): void {
+        this.seen.fill(0);
+        this.highest = -1;
+    }
+}
+
+/**
+ * 수신 측: 스트림별 재전송 방지와 손실/지터 통계
+ */
+export class SequenceTracker {
+    private readonly windowSize: number;
+    private readonly now: () => number;
+    private readonly streams = new Map<PacketType, StreamState>();
+    private unsequenced = 0;
+
+    constructor(options: SequenceTrackerOptions = {}) {
+        this.windowSize = options.windowSize ?? DEFAULT_REPLAY_WINDOW_SIZE;
+        this.now = options.now ?? Date.now;
+    }
+
+    /**
+     * 받은 패킷 판별 (isAcceptedSequence가 false면 버림)
+     */
+    push(packet: Packet): SequenceVerdict {
+        if (packet.sequence === undefined) {
+            this.unsequenced++;
+            return 'unsequenced';
+        }
+
+        const stream = this.stream(packet.type);
+        const extended = stream.window.extend(packet.sequence);
+        const verdict = stream.window.check(packet.sequence);
+
+        switch (verdict) {
+            case 'duplicate':
+                stream.duplicates++;
+                return verdict;
+            case 'replayed':
+                stream.replayed++;
+                return verdict;
+            case 'reordered':
+                stream.reordered++;
+                break;
+        }
+
+        stream.received++;
+        stream.first = stream.received === 1 ? extended : Math.min(stream.first, extended);
+        stream.last = stream.received === 1 ? extended : Math.max(stream.last, extended);
+        this.updateJitter(stream, packet.timestamp);
+        return verdict;
+    }
+
+    getStreamStats(type: PacketType): StreamStats {
+        const stream = this.streams.get(type);
+        if (!stream) {
+            return {
+                received: 0,
+                duplicates: 0,
+                reordered: 0,
+                replayed: 0,
+                lost: 0,
+                lossRate: 0,
+                jitterMs: 0,
+                highestSequence: null,
+            };
+        }
+
+        const expected = stream.received > 0 ? stream.last - stream.first + 1 : 0;
+        const lost = Math.max(0, expected - stream.received);
+        return {
+            received: stream.received,
+            duplicates: stream.duplicates,
+            reordered: stream.reordered,
+            replayed: stream.replayed,
+            lost,
+            lossRate: expected > 0 ? lost / expected : 0,
+            jitterMs: stream.jitter,
+            highestSequence: stream.window.highestSequence,
+        };
+    }
+
+    getStats(): SequenceTrackerStats {
+        const streams = new Map<PacketType, StreamStats>();
+        for (const type of this.streams.keys()) {
+            streams.set(type, this.getStreamStats(type));
+        }
+        return { unsequenced: this.unsequenced, streams };
+    }
+
+    reset(): void {
+        this.streams.clear();
+        this.unsequenced = 0;
+    }
+
+    private stream(type: PacketType): StreamState {
+        let stream = this.streams.get(type);
+        if (!stream) {
+            stream = {
+                window: new ReplayWindow(this.windowSize),
+                first: 0,
+                last: 0,
+                received: 0,
+                duplicates: 0,
+                reordered: 0,
+                replayed: 0,
+                jitter: 0,
+                lastTransit: null,
+            };
+            this.streams.set(type, stream);
+        }
+        return stream;
+    }
+
+    // 도착 간격과 송신 간격의 차이 (송수신 시계 차이는 상쇄됨)
+    private updateJitter(stream: StreamState, sentAt: number): void {
+        const transit = this.now() - sentAt;
+        if (!Number.isFinite(transit)) return;
+
+        if (stream.lastTransit !== null) {
+            stream.jitter += (Math.abs(transit - stream.lastTransit) - stream.jitter) * JITTER_GAIN;
+        }
+        stream.lastTransit = transit;
+    }
+}
@@ -3,55 +3,259 @@
  * 패킷 직렬화 및 역직렬화 유틸리티
  */
 
-import { Packet, PacketType } from './types';
+import { Packet, PacketFlags, PacketType } from './types';
 
-const HEADER_SIZE = 6; // type(1) + flags(1) + size(4)
+export const PACKET_HEADER_SIZE = 6; // type(1) + flags(1) + size(4)
+// SEQUENCED 확장 헤더: sequence(4) + 송신 timestamp(8, float64 ms)
+export const SEQUENCE_HEADER_SIZE = 12;
+export const MAX_SEQUENCE = 0xffffffff;
+// 패킷 하나의 최대 payload (PacketReader 수신 한도, 압축 해제 후 크기 한도)
+export const DEFAULT_MAX_PAYLOAD_SIZE = 16 * 1024 * 1024;
+
+const KNOWN_FLAGS = PacketFlags.COMPRESSED | PacketFlags.ENCRYPTED | PacketFlags.FRAGMENTED | PacketFlags.SEQUENCED;
+
+/**
+ * payload 암호화 (SecureChannel의 encrypt/decrypt)
+ */
+export interface PayloadCipher {
+    encrypt(data: Uint8Array): Promise<Uint8Array>;
+    decrypt(data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface PacketHeader {
+    type: PacketType;
+    flags: number;
+    // 기본 헤더 뒤 바이트 수 (확장 헤더 + payload, 모르는 확장이 있어도 다음 패킷 위치를 알 수 있음)
+    size: number;
+}
+
+export interface PayloadEncodeOptions {
+    // 압축해서 작아질 때만 COMPRESSED로 보냄 (JPEG 프레임처럼 이미 압축된 데이터는 그대로)
+    compress?: boolean;
+    cipher?: PayloadCipher;
+}
 
 /**
- * 패킷을 바이너리로 직렬화
+ * 패킷을 바이너리로 직렬화 (sequence가 있으면 SEQUENCED 확장 헤더 포함)
  */
 export function serializePacket(packet: Packet): Uint8Array {
     const payload = packet.payload;
-    const buffer = new ArrayBuffer(HEADER_SIZE + payload.length);
+    let flags = packet.flags ?? PacketFlags.NONE;
+    if (hasUnknownFlags(flags)) {
+        throw new Error(`Invalid packet: unknown flags 0x${flags.toString(16)}`);
+    }
+
+    if (packet.sequence !== undefined) {
+        if (!Number.isInteger(packet.sequence) || packet.sequence < 0 || packet.sequence > MAX_SEQUENCE) {
+            throw new Error(`Invalid packet: sequence ${packet.sequence} out of range`);
+        }
+        flags |= PacketFlags.SEQUENCED;
+    } else if (flags & PacketFlags.SEQUENCED) {
+        throw new Error('Invalid packet: SEQUENCED flag without sequence');
+    }
+
+    const headerSize = serializedHeaderSize(packet);
+    const buffer = new ArrayBuffer(headerSize + payload.length);
     const view = new DataView(buffer);
 
     // Header
     view.setUint8(0, packet.type);
-    view.setUint8(1, 0); // flags (reserved)
-    view.setUint32(2, payload.length, true); // little-endian
+    view.setUint8(1, flags);
+    view.setUint32(2, headerSize - PACKET_HEADER_SIZE + payload.length, true); // little-endian
+
+    if (packet.sequence !== undefined) {
+        view.setUint32(PACKET_HEADER_SIZE, packet.sequence, true);
+        view.setFloat64(PACKET_HEADER_SIZE + 4, packet.timestamp, true);
+    }
 
     // Payload
     const result = new Uint8Array(buffer);
-    result.set(payload, HEADER_SIZE);
+    result.set(payload, headerSize);
 
     return result;
 }
 
 /**
- * 바이너리를 패킷으로 역직렬화
+ * 직렬화했을 때 헤더 크기 (확장 헤더 포함)
+ */
+export function serializedHeaderSize(packet: Packet): number {
+    return PACKET_HEADER_SIZE + (packet.sequence !== undefined ? SEQUENCE_HEADER_SIZE : 0);
+}
+
+/**
+ * 바이너리를 패킷으로 역직렬화 (버퍼 하나에 완성된 패킷 하나, 바이트 스트림은 PacketReader 사용)
  */
 export function deserializePacket(data: Uint8Array): Packet {
-    if (data.length < HEADER_SIZE) {
+    if (data.length < PACKET_HEADER_SIZE) {
         throw new Error('Invalid packet: too short');
     }
 
-    const view = new DataView(data.buffer, data.byteOffset);
-    const type = view.getUint8(0) as PacketType;
-    const size = view.getUint32(2, true);
+    const { type, flags, size } = readPacketHeader(data);
 
-    if (data.length < HEADER_SIZE + size) {
+    if (data.length < PACKET_HEADER_SIZE + size) {
         throw new Error('Invalid packet: payload incomplete');
     }
 
-    const payload = data.slice(HEADER_SIZE, HEADER_SIZE + size);
+    if (hasUnknownFlags(flags)) {
+        throw new Error(`Invalid packet: unknown flags 0x${flags.toString(16)}`);
+    }
+
+    return readPacketBody({ type, flags, size }, data.slice(PACKET_HEADER_SIZE, PACKET_HEADER_SIZE + size), Date.now());
+}
+
+/**
+ * 기본 헤더 뒤 body(확장 헤더 + payload)로 패킷 구성
+ * SEQUENCED면 송신 timestamp와 sequence를 쓰고, 아니면 receivedAt을 timestamp로 사용
+ */
+export function readPacketBody(header: PacketHeader, body: Uint8Array, receivedAt: number): Packet {
+    if (!(header.flags & PacketFlags.SEQUENCED)) {
+        return { type: header.type, timestamp: receivedAt, payload: body, flags: header.flags };
+    }
+
+    if (body.length < SEQUENCE_HEADER_SIZE) {
+        throw new Error('Invalid packet: sequence header too short');
+    }
 
+    const view = new DataView(body.buffer, body.byteOffset, SEQUENCE_HEADER_SIZE);
     return {
-        type,
-        timestamp: Date.now(),
-        payload,
+        type: header.type,
+        timestamp: view.getFloat64(4, true),
+        payload: body.subarray(SEQUENCE_HEADER_SIZE),
+        // SEQUENCED는 sequence 필드로 표현
+        flags: header.flags & ~PacketFlags.SEQUENCED,
+        sequence: view.getUint32(0, true),
     };
 }
 
+/**
+ * 헤더만 읽기 (data는 PACKET_HEADER_SIZE 이상)
+ */
+export function readPacketHeader(data: Uint8Array): PacketHeader {
+    const view = new DataView(data.buffer, data.byteOffset, PACKET_HEADER_SIZE);
+    return {
+        type: view.getUint8(0) as PacketType,
+        flags: view.getUint8(1),
+        size: view.getUint32(2, true),
+    };
+}
+
+export function hasUnknownFlags(flags: number): boolean {
+    return (flags & ~KNOWN_FLAGS) !== 0;
+}
+
+export function hasPacketFlag(packet: Packet, flag: PacketFlags): boolean {
+    return ((packet.flags ?? PacketFlags.NONE) & flag) !== 0;
+}
+
+/**
+ * payload 압축/암호화 후 flags 설정 (압축 → 암호화 순서, 조각내기 전에 적용)
+ */
+export async function encodePacketPayload(packet: Packet, options: PayloadEncodeOptions): Promise<Packet> {
+    let payload = packet.payload;
+    let flags = packet.flags ?? PacketFlags.NONE;
+
+    if (options.compress && !(flags & PacketFlags.COMPRESSED)) {
+        const compressed = await compressPayload(payload);
+        if (compressed.length < payload.length) {
+            payload = compressed;
+            flags |= PacketFlags.COMPRESSED;
+        }
+    }
+
+    if (options.cipher && !(flags & PacketFlags.ENCRYPTED)) {
+        payload = await options.cipher.encrypt(payload);
+        flags |= PacketFlags.ENCRYPTED;
+    }
+
+    return { ...packet, payload, flags };
+}
+
+/**
+ * encodePacketPayload의 역순으로 복호화/압축 해제 (조각난 패킷은 재조립 후 호출)
+ */
+export async function decodePacketPayload(
+    packet: Packet,
+    cipher?: PayloadCipher,
+    maxPayloadSize = DEFAULT_MAX_PAYLOAD_SIZE
+): Promise<Packet> {
+    if (hasPacketFlag(packet, PacketFlags.FRAGMENTED)) {
+        throw new Error('Invalid packet: reassemble fragments before decoding');
+    }
+
+    let payload = packet.payload;
+    let flags = packet.flags ?? PacketFlags.NONE;
+
+    if (flags & PacketFlags.ENCRYPTED) {
+        if (!cipher) {
+            throw new Error('Invalid packet: encrypted payload without a secure channel');
+        }
+        payload = await cipher.decrypt(payload);
+        flags &= ~PacketFlags.ENCRYPTED;
+    }
+
+    if (flags & PacketFlags.COMPRESSED) {
+        payload = await decompressPayload(payload, maxPayloadSize);
+        flags &= ~PacketFlags.COMPRESSED;
+    }
+
+    return { ...packet, payload, flags };
+}
+
+/**
+ * deflate 압축 (브라우저/Node 18+의 CompressionStream)
+ */
+export async function compressPayload(data: Uint8Array): Promise<Uint8Array> {
+    return (await pipeThrough(data, new CompressionStream('deflate'), Infinity))!;
+}
+
+/**
+ * deflate 압축 해제 (결과가 maxSize를 넘으면 중간에 멈추고 거부, 압축 폭탄 방지)
+ */
+export async function decompressPayload(data: Uint8Array, maxSize = DEFAULT_MAX_PAYLOAD_SIZE): Promise<Uint8Array> {
+    let result: Uint8Array | null;
+    try {
+        result = await pipeThrough(data, new DecompressionStream('deflate'), maxSize);
+    } catch {
+        throw new Error('Invalid packet: corrupt compressed payload');
+    }
+    if (!result) {
+        throw new Error(`Invalid packet: decompressed payload exceeds ${maxSize} bytes`);
+    }
+    return result;
+}
+
+/**
+ * 스트림을 통과시킨 결과 (maxSize를 넘으면 읽기를 취소하고 null)
+ */
+async function pipeThrough(data: Uint8Array, stream: CompressionStream | DecompressionStream, maxSize: number): Promise<Uint8Array | null> {
+    const writer = stream.writable.getWriter();
+    // 오류는 readable 쪽에서 받음 (SharedArrayBuffer 뷰일 수 있어 복사)
+    writer.write(new Uint8Array(data)).catch(() => undefined);
+    writer.close().catch(() => undefined);
+
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxSize) {
+            await reader.cancel().catch(() => undefined);
+            return null;
+        }
+        chunks.push(value);
+    }
+
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
 /**
  * JSON 데이터를 패킷 페이로드로 인코딩
  */
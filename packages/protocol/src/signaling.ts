@@ -0,0 +1,822 @@
+/**
+ * Signaling Message Schema
+ * 시그널링 서버와 클라이언트가 공유하는 메시지 타입 정의 및 런타임 검증
+ */
+
+// 시그널링 프로토콜 버전 (호환되지 않는 변경 시 증가)
+export const SIGNALING_PROTOCOL_VERSION = 1;
+
+// 메시지에 버전이 없으면 최초 버전으로 간주 (구버전 클라이언트 호환)
+export const MIN_SIGNALING_PROTOCOL_VERSION = 1;
+
+interface VersionedMessage {
+    v?: number;
+}
+
+// 호스트 접속 허용 방식
+// - password: 비밀번호 일치 시 즉시 연결 (기존 동작)
+// - approval: 비밀번호 없이 호스트가 직접 수락
+// - password-and-approval: 비밀번호 확인 후 호스트 수락까지 필요
+export type HostAccessMode = 'password' | 'approval' | 'password-and-approval';
+
+export const HOST_ACCESS_MODES: readonly HostAccessMode[] = ['password', 'approval', 'password-and-approval'];
+
+// 뷰어가 요청할 수 있는 세션 권한
+export type SessionPermission = 'view' | 'input' | 'clipboard' | 'files' | 'audio';
+
+export const SESSION_PERMISSIONS: readonly SessionPermission[] = ['view', 'input', 'clipboard', 'files', 'audio'];
+
+// 세션 모드 (view-only는 입력/클립보드/파일 권한을 부여할 수 없음)
+export type SessionMode = 'control' | 'view-only';
+
+export const SESSION_MODES: readonly SessionMode[] = ['control', 'view-only'];
+
+// 호스트가 세션 시작 시 부여하고 세션 중 변경할 수 있는 권한
+export interface SessionGrant {
+    mode: SessionMode;
+    permissions: SessionPermission[];
+}
+
+// 세션 참여자
+export interface SessionParticipant {
+    connectionId: string;
+    role: 'host' | 'viewer';
+    name?: string;
+    grant?: SessionGrant;
+    hasControl: boolean;
+}
+
+// ================================
+// 클라이언트 → 서버 메시지
+// ================================
+
+// 세션 상대방에게 전달되는 메시지 공통 필드
+// - targetId: 특정 참여자의 connectionId (생략 시 호스트는 모든 뷰어에게, 뷰어는 호스트에게 전달)
+// - fromId: 서버가 채우는 보낸 참여자의 connectionId
+interface PeerMessageBase extends VersionedMessage {
+    targetId?: string;
+    fromId?: string;
+}
+
+export interface RegisterMessage extends VersionedMessage {
+    type: 'register';
+    connectionId: string;
+    password: string;
+    isHost: boolean;
+    publicKey?: string;
+    accessMode?: HostAccessMode;
+    // 승인 없이 연결되는 세션에 적용할 기본 권한
+    defaultGrant?: SessionGrant;
+    // 로그인한 사용자의 액세스 토큰 (세션 기록을 계정에 연결)
+    authToken?: string;
+    // 등록된 장치로 호스트 등록 (세 필드 모두 필요)
+    // deviceSignature: 장치 개인키(Ed25519)로 `lunarview-device:{deviceId}:{connectionId}:{deviceTimestamp}`에 서명한 값 (base64)
+    deviceId?: string;
+    deviceTimestamp?: number;
+    deviceSignature?: string;
+}
+
+// 끊어진 시그널링 연결 재개 (새 소켓의 첫 메시지, register 대신 사용)
+export interface ResumeMessage extends VersionedMessage {
+    type: 'resume';
+    resumeToken: string;
+}
+
+export interface ConnectMessage extends VersionedMessage {
+    type: 'connect';
+    targetConnectionId: string;
+    // approval 모드 호스트에는 빈 문자열 허용
+    password: string;
+    viewerName?: string;
+    requestedPermissions?: SessionPermission[];
+}
+
+// 등록된 장치에 비밀번호 없이 연결 (로그인한 소유자/팀 구성원만)
+export interface ConnectDeviceMessage extends VersionedMessage {
+    type: 'connect-device';
+    deviceId: string;
+    viewerName?: string;
+    requestedPermissions?: SessionPermission[];
+}
+
+// 호스트의 연결 요청 수락/거절
+export interface ConnectionResponseMessage extends VersionedMessage {
+    type: 'connection-response';
+    requestId: string;
+    accepted: boolean;
+    reason?: string;
+    // 생략 시 뷰어가 요청한 권한 그대로 부여
+    grant?: SessionGrant;
+}
+
+// 세션 중 권한 변경 (호스트만 가능)
+export interface UpdatePermissionsMessage extends VersionedMessage {
+    type: 'update-permissions';
+    grant: SessionGrant;
+    // 생략 시 모든 뷰어에게 적용
+    targetConnectionId?: string;
+}
+
+// 입력 제어 토큰 요청 (뷰어 → 호스트)
+export interface ControlRequestMessage extends VersionedMessage {
+    type: 'control-request';
+}
+
+// 입력 제어 토큰 반납 (뷰어)
+export interface ControlReleaseMessage extends VersionedMessage {
+    type: 'control-release';
+}
+
+// 입력 제어 토큰 이전 (호스트만 가능, null이면 회수)
+export interface ControlTransferMessage extends VersionedMessage {
+    type: 'control-transfer';
+    targetConnectionId: string | null;
+}
+
+export interface KeyExchangeMessage extends PeerMessageBase {
+    type: 'key-exchange';
+    publicKey: string;
+    sessionId?: string;
+}
+
+export interface SignalingOfferMessage extends PeerMessageBase {
+    type: 'offer';
+    offer?: any;
+    sdp?: string;
+}
+
+export interface SignalingAnswerMessage extends PeerMessageBase {
+    type: 'answer';
+    answer?: any;
+    sdp?: string;
+}
+
+export interface SignalingIceCandidateMessage extends PeerMessageBase {
+    type: 'ice-candidate';
+    candidate: any;
+}
+
+export interface WebRTCOfferMessage extends PeerMessageBase {
+    type: 'webrtc-offer';
+    sdp: string;
+}
+
+export interface WebRTCAnswerMessage extends PeerMessageBase {
+    type: 'webrtc-answer';
+    sdp: string;
+}
+
+export interface WebRTCIceCandidateMessage extends PeerMessageBase {
+    type: 'webrtc-ice-candidate';
+    candidate: any;
+    sdpMid?: string | null;
+    sdpMLineIndex?: number | null;
+}
+
+export interface WebRTCViewerReadyMessage extends PeerMessageBase {
+    type: 'webrtc-viewer-ready';
+}
+
+export interface RelayMessage extends PeerMessageBase {
+    type: 'relay';
+    data: any;
+}
+
+export interface ScreenFrameMessage extends PeerMessageBase {
+    type: 'screen-frame';
+    frame: any;
+}
+
+export interface MouseEventMessage extends PeerMessageBase {
+    type: 'mouse-event';
+    event: Record<string, any>;
+}
+
+export interface KeyboardEventMessage extends PeerMessageBase {
+    type: 'keyboard-event';
+    event: Record<string, any>;
+}
+
+export interface FileChunkMessage extends PeerMessageBase {
+    type: 'file-chunk';
+    fileName: string;
+    chunkIndex: number;
+    totalChunks: number;
+    data: string;
+    fileSize?: number;
+}
+
+export interface ClipboardSyncMessage extends PeerMessageBase {
+    type: 'clipboard-sync';
+    content: any;
+}
+
+export interface ChatMessage extends PeerMessageBase {
+    type: 'chat-message';
+    text: string;
+}
+
+export interface DisconnectMessage extends VersionedMessage {
+    type: 'disconnect';
+}
+
+export interface PingMessage extends VersionedMessage {
+    type: 'ping';
+}
+
+// 상대방에게 그대로 전달되는 메시지
+export type PeerMessage =
+    | SignalingOfferMessage
+    | SignalingAnswerMessage
+    | SignalingIceCandidateMessage
+    | WebRTCOfferMessage
+    | WebRTCAnswerMessage
+    | WebRTCIceCandidateMessage
+    | WebRTCViewerReadyMessage
+    | ScreenFrameMessage
+    | MouseEventMessage
+    | KeyboardEventMessage
+    | FileChunkMessage
+    | ClipboardSyncMessage
+    | ChatMessage;
+
+export type ClientMessage =
+    | RegisterMessage
+    | ResumeMessage
+    | ConnectMessage
+    | ConnectDeviceMessage
+    | ConnectionResponseMessage
+    | UpdatePermissionsMessage
+    | ControlRequestMessage
+    | ControlReleaseMessage
+    | ControlTransferMessage
+    | KeyExchangeMessage
+    | RelayMessage
+    | DisconnectMessage
+    | PingMessage
+    | PeerMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+// ================================
+// 서버 → 클라이언트 메시지
+// ================================
+
+export interface RegisteredMessage extends VersionedMessage {
+    type: 'registered';
+    clientId: string;
+    connectionId: string;
+    // 연결이 끊겼을 때 resume에 사용 (세션 중에는 resumeWindowMs 동안 유효)
+    resumeToken?: string;
+    resumeWindowMs?: number;
+}
+
+// 연결 재개 성공 (새 토큰 발급, 세션 중이면 session-roster가 이어서 전송됨)
+export interface ResumedMessage extends VersionedMessage {
+    type: 'resumed';
+    clientId: string;
+    connectionId: string;
+    resumeToken: string;
+    sessionId?: string;
+    role?: 'host' | 'viewer';
+}
+
+export type ResumeErrorCode = 'INVALID_TOKEN' | 'RESUME_EXPIRED';
+
+// 연결 재개 실패 (클라이언트는 register부터 다시 시작)
+export interface ResumeFailedMessage extends VersionedMessage {
+    type: 'resume-failed';
+    error: string;
+    code: ResumeErrorCode;
+}
+
+export interface ConnectSuccessMessage extends VersionedMessage {
+    type: 'connect-success';
+    sessionId: string;
+    targetConnectionId: string;
+    targetPublicKey?: string;
+    grant?: SessionGrant;
+    // 플랜 시간 제한이 있는 세션의 종료 시각 (epoch ms)
+    expiresAt?: number;
+}
+
+export type ConnectErrorCode =
+    | 'APPROVAL_REJECTED'
+    | 'APPROVAL_TIMEOUT'
+    | 'APPROVAL_CANCELLED'
+    | 'SESSION_FULL'
+    | 'INVALID_TARGET'
+    | 'PLAN_LIMIT'
+    | 'LOGIN_REQUIRED'
+    | 'DEVICE_NOT_FOUND'
+    | 'DEVICE_ACCESS_DENIED'
+    | 'DEVICE_OFFLINE';
+
+export interface ConnectErrorMessage extends VersionedMessage {
+    type: 'connect-error';
+    error: string;
+    code?: ConnectErrorCode;
+}
+
+// 호스트 승인 대기 중 (뷰어에게)
+export interface ConnectPendingMessage extends VersionedMessage {
+    type: 'connect-pending';
+    requestId: string;
+    expiresAt: number;
+}
+
+// 연결 승인 요청 (호스트에게)
+export interface ConnectionRequestMessage extends VersionedMessage {
+    type: 'connection-request';
+    requestId: string;
+    viewerConnectionId: string;
+    viewerName?: string;
+    ipAddress?: string;
+    requestedPermissions: SessionPermission[];
+    expiresAt: number;
+}
+
+// 뷰어 이탈 또는 시간 초과로 승인 요청 취소 (호스트에게)
+export interface ConnectionRequestCancelledMessage extends VersionedMessage {
+    type: 'connection-request-cancelled';
+    requestId: string;
+    reason: string;
+}
+
+export interface IncomingConnectionMessage extends VersionedMessage {
+    type: 'incoming-connection';
+    sessionId: string;
+    fromConnectionId: string;
+    fromPublicKey?: string;
+    grant?: SessionGrant;
+    expiresAt?: number;
+}
+
+// 세션 권한 변경 알림 (양쪽에게)
+export interface PermissionsUpdatedMessage extends VersionedMessage {
+    type: 'permissions-updated';
+    sessionId: string;
+    grant: SessionGrant;
+    // 호스트에게 보낼 때 대상 뷰어
+    targetConnectionId?: string;
+}
+
+// 세션 참여자 전체 목록 (참여 시 전송)
+export interface SessionRosterMessage extends VersionedMessage {
+    type: 'session-roster';
+    sessionId: string;
+    participants: SessionParticipant[];
+}
+
+export interface ParticipantJoinedMessage extends VersionedMessage {
+    type: 'participant-joined';
+    sessionId: string;
+    participant: SessionParticipant;
+}
+
+export interface ParticipantLeftMessage extends VersionedMessage {
+    type: 'participant-left';
+    sessionId: string;
+    connectionId: string;
+    reason: string;
+}
+
+// 입력 제어 토큰 보유자 변경 (모든 참여자에게)
+export interface ControlChangedMessage extends VersionedMessage {
+    type: 'control-changed';
+    sessionId: string;
+    holderConnectionId: string | null;
+}
+
+// 뷰어의 제어 요청 (호스트에게)
+export interface ControlRequestedMessage extends VersionedMessage {
+    type: 'control-requested';
+    sessionId: string;
+    viewerConnectionId: string;
+}
+
+export interface RelayedMessage extends PeerMessageBase {
+    type: 'relayed';
+    data: any;
+}
+
+// 서버가 세션을 종료한 이유 (상대방이 나간 경우에는 없음)
+export type DisconnectCode = 'SESSION_TIME_LIMIT';
+
+export interface DisconnectedMessage extends VersionedMessage {
+    type: 'disconnected';
+    reason: string;
+    code?: DisconnectCode;
+}
+
+export interface PongMessage extends VersionedMessage {
+    type: 'pong';
+}
+
+export type SignalingErrorCode =
+    | 'MALFORMED_MESSAGE'
+    | 'UNKNOWN_MESSAGE_TYPE'
+    | 'INVALID_FIELD'
+    | 'UNSUPPORTED_VERSION'
+    | 'PERMISSION_DENIED';
+
+// 잘못된 메시지에 대한 구조화된 오류 응답
+export interface ErrorMessage extends VersionedMessage {
+    type: 'error';
+    code: SignalingErrorCode;
+    message: string;
+    requestType?: string;
+    field?: string;
+    supportedVersion: number;
+}
+
+export type ServerMessage =
+    | RegisteredMessage
+    | ResumedMessage
+    | ResumeFailedMessage
+    | ConnectSuccessMessage
+    | ConnectErrorMessage
+    | ConnectPendingMessage
+    | ConnectionRequestMessage
+    | ConnectionRequestCancelledMessage
+    | IncomingConnectionMessage
+    | PermissionsUpdatedMessage
+    | SessionRosterMessage
+    | ParticipantJoinedMessage
+    | ParticipantLeftMessage
+    | ControlChangedMessage
+    | ControlRequestedMessage
+    | KeyExchangeMessage
+    | RelayedMessage
+    | DisconnectedMessage
+    | PongMessage
+    | ErrorMessage
+    | PeerMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// ================================
+// 런타임 검증
+// ================================
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+interface FieldSpec {
+    type: FieldType;
+    optional?: boolean;
+    nullable?: boolean;
+    // 허용 값 목록 (string은 값 자체, array는 각 항목 검사)
+    values?: readonly string[];
+}
+
+type MessageSchema = Record<string, FieldSpec>;
+
+const optional = (type: FieldType): FieldSpec => ({ type, optional: true });
+const required = (type: FieldType): FieldSpec => ({ type });
+
+// 세션 상대방에게 전달되는 메시지 공통 필드 추가
+const peer = (schema: MessageSchema): MessageSchema => ({
+    ...schema,
+    targetId: optional('string'),
+    fromId: optional('string'),
+});
+
+const PEER_MESSAGE_SCHEMAS: Record<PeerMessage['type'], MessageSchema> = {
+    'offer': peer({ offer: optional('any'), sdp: optional('string') }),
+    'answer': peer({ answer: optional('any'), sdp: optional('string') }),
+    'ice-candidate': peer({ candidate: required('any') }),
+    'webrtc-offer': peer({ sdp: required('string') }),
+    'webrtc-answer': peer({ sdp: required('string') }),
+    'webrtc-ice-candidate': peer({
+        candidate: required('any'),
+        sdpMid: { type: 'string', optional: true, nullable: true },
+        sdpMLineIndex: { type: 'number', optional: true, nullable: true },
+    }),
+    'webrtc-viewer-ready': peer({}),
+    'screen-frame': peer({ frame: required('any') }),
+    'mouse-event': peer({ event: required('object') }),
+    'keyboard-event': peer({ event: required('object') }),
+    'file-chunk': peer({
+        fileName: required('string'),
+        chunkIndex: required('number'),
+        totalChunks: required('number'),
+        data: required('string'),
+        fileSize: optional('number'),
+    }),
+    'clipboard-sync': peer({ content: required('any') }),
+    'chat-message': peer({ text: required('string') }),
+};
+
+const CLIENT_MESSAGE_SCHEMAS: Record<ClientMessageType, MessageSchema> = {
+    'register': {
+        connectionId: required('string'),
+        password: required('string'),
+        isHost: required('boolean'),
+        publicKey: optional('string'),
+        accessMode: { type: 'string', optional: true, values: HOST_ACCESS_MODES },
+        defaultGrant: optional('object'),
+        authToken: optional('string'),
+        deviceId: optional('string'),
+        deviceTimestamp: optional('number'),
+        deviceSignature: optional('string'),
+    },
+    'resume': { resumeToken: required('string') },
+    'connect': {
+        targetConnectionId: required('string'),
+        password: required('string'),
+        viewerName: optional('string'),
+        requestedPermissions: { type: 'array', optional: true, values: SESSION_PERMISSIONS },
+    },
+    'connect-device': {
+        deviceId: required('string'),
+        viewerName: optional('string'),
+        requestedPermissions: { type: 'array', optional: true, values: SESSION_PERMISSIONS },
+    },
+    'connection-response': {
+        requestId: required('string'),
+        accepted: required('boolean'),
+        reason: optional('string'),
+        grant: optional('object'),
+    },
+    'update-permissions': { grant: required('object'), targetConnectionId: optional('string') },
+    'control-request': {},
+    'control-release': {},
+    'control-transfer': { targetConnectionId: { type: 'string', nullable: true } },
+    'key-exchange': peer({ publicKey: required('string'), sessionId: optional('string') }),
+    'relay': peer({ data: required('any') }),
+    'disconnect': {},
+    'ping': {},
+    ...PEER_MESSAGE_SCHEMAS,
+};
+
+const SERVER_MESSAGE_SCHEMAS: Record<ServerMessageType, MessageSchema> = {
+    'registered': {
+        clientId: required('string'),
+        connectionId: required('string'),
+        resumeToken: optional('string'),
+        resumeWindowMs: optional('number'),
+    },
+    'resumed': {
+        clientId: required('string'),
+        connectionId: required('string'),
+        resumeToken: required('string'),
+        sessionId: optional('string'),
+        role: { type: 'string', optional: true, values: ['host', 'viewer'] },
+    },
+    'resume-failed': { error: required('string'), code: required('string') },
+    'connect-success': {
+        sessionId: required('string'),
+        targetConnectionId: required('string'),
+        targetPublicKey: optional('string'),
+        grant: optional('object'),
+        expiresAt: optional('number'),
+    },
+    'connect-error': { error: required('string'), code: optional('string') },
+    'connect-pending': { requestId: required('string'), expiresAt: required('number') },
+    'connection-request': {
+        requestId: required('string'),
+        viewerConnectionId: required('string'),
+        viewerName: optional('string'),
+        ipAddress: optional('string'),
+        requestedPermissions: { type: 'array', values: SESSION_PERMISSIONS },
+        expiresAt: required('number'),
+    },
+    'connection-request-cancelled': { requestId: required('string'), reason: required('string') },
+    'incoming-connection': {
+        sessionId: required('string'),
+        fromConnectionId: required('string'),
+        fromPublicKey: optional('string'),
+        grant: optional('object'),
+        expiresAt: optional('number'),
+    },
+    'permissions-updated': {
+        sessionId: required('string'),
+        grant: required('object'),
+        targetConnectionId: optional('string'),
+    },
+    'session-roster': { sessionId: required('string'), participants: required('array') },
+    'participant-joined': { sessionId: required('string'), participant: required('object') },
+    'participant-left': { sessionId: required('string'), connectionId: required('string'), reason: required('string') },
+    'control-changed': { sessionId: required('string'), holderConnectionId: { type: 'string', nullable: true } },
+    'control-requested': { sessionId: required('string'), viewerConnectionId: required('string') },
+    'key-exchange': peer({ publicKey: required('string'), sessionId: optional('string') }),
+    'relayed': peer({ data: required('any') }),
+    'disconnected': { reason: required('string'), code: optional('string') },
+    'pong': {},
+    'error': {
+        code: required('string'),
+        message: required('string'),
+        requestType: optional('string'),
+        field: optional('string'),
+        supportedVersion: required('number'),
+    },
+    ...PEER_MESSAGE_SCHEMAS,
+};
+
+export type ValidationResult<T> =
+    | { ok: true; message: T }
+    | { ok: false; error: ErrorMessage };
+
+/**
+ * 클라이언트가 보낸 메시지 검증 (서버에서 사용)
+ */
+export function validateClientMessage(raw: unknown): ValidationResult<ClientMessage> {
+    return validateMessage<ClientMessage>(raw, CLIENT_MESSAGE_SCHEMAS);
+}
+
+/**
+ * 서버가 보낸 메시지 검증 (클라이언트에서 사용)
+ */
+export function validateServerMessage(raw: unknown): ValidationResult<ServerMessage> {
+    return validateMessage<ServerMessage>(raw, SERVER_MESSAGE_SCHEMAS);
+}
+
+/**
+ * JSON 문자열 파싱 + 검증
+ */
+export function parseClientMessage(data: string): ValidationResult<ClientMessage> {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(data);
+    } catch {
+        return { ok: false, error: createErrorMessage('MALFORMED_MESSAGE', 'Message is not valid JSON') };
+    }
+    return validateClientMessage(raw);
+}
+
+/**
+ * 구조화된 오류 메시지 생성
+ */
+export function createErrorMessage(
+    code: SignalingErrorCode,
+    message: string,
+    details: { requestType?: string; field?: string } = {}
+): ErrorMessage {
+    return {
+        type: 'error',
+        v: SIGNALING_PROTOCOL_VERSION,
+        code,
+        message,
+        ...details,
+        supportedVersion: SIGNALING_PROTOCOL_VERSION,
+    };
+}
+
+// ================================
+// 세션 권한
+// ================================
+
+// 권한을 지정하지 않은 세션은 기존처럼 모든 기능 허용
+export const FULL_CONTROL_GRANT: SessionGrant = { mode: 'control', permissions: [...SESSION_PERMISSIONS] };
+
+export const VIEW_ONLY_GRANT: SessionGrant = { mode: 'view-only', permissions: ['view', 'audio'] };
+
+// view-only 세션에서 부여할 수 없는 권한
+const CONTROL_PERMISSIONS: readonly SessionPermission[] = ['input', 'clipboard', 'files'];
+
+// 뷰어 → 호스트 메시지별 필요 권한 (없는 메시지는 항상 허용)
+const MESSAGE_PERMISSIONS: Partial<Record<ClientMessageType, SessionPermission>> = {
+    'mouse-event': 'input',
+    'keyboard-event': 'input',
+    'clipboard-sync': 'clipboard',
+    'file-chunk': 'files',
+    // 릴레이 data는 서버가 내용을 알 수 없으므로 입력과 같은 권한 필요 (WebRTC 대신 릴레이로 입력 전송)
+    'relay': 'input',
+};
+
+// 세션에서 호스트만 보낼 수 있는 메시지
+const HOST_ONLY_MESSAGES: readonly string[] = ['screen-frame'];
+
+/**
+ * 권한 정규화 (알 수 없는 값 제거, view 항상 포함, view-only 모드의 제어 권한 제거)
+ * 형식이 잘못된 값은 null
+ */
+export function normalizeSessionGrant(raw: unknown): SessionGrant | null {
+    if (!isPlainObject(raw) || !Array.isArray(raw.permissions)) return null;
+
+    const mode: SessionMode = raw.mode === 'view-only' ? 'view-only' : 'control';
+    const permissions = SESSION_PERMISSIONS.filter(permission =>
+        permission === 'view' || (raw.permissions as unknown[]).includes(permission)
+    ).filter(permission => mode === 'control' || !CONTROL_PERMISSIONS.includes(permission));
+
+    return { mode, permissions };
+}
+
+/**
+ * 메시지 전달에 필요한 권한 (필요 없으면 null)
+ */
+export function getRequiredPermission(type: string): SessionPermission | null {
+    return MESSAGE_PERMISSIONS[type as ClientMessageType] ?? null;
+}
+
+/**
+ * 호스트만 보낼 수 있는 메시지인지 확인 (뷰어가 보내면 거부)
+ */
+export function isHostOnlyMessage(type: string): boolean {
+    return HOST_ONLY_MESSAGES.includes(type);
+}
+
+/**
+ * 권한 범위 내 메시지인지 확인
+ */
+export function isMessageAllowed(grant: SessionGrant, type: string): boolean {
+    const permission = getRequiredPermission(type);
+    return permission === null || grant.permissions.includes(permission);
+}
+
+/**
+ * 버전 호환 여부
+ */
+export function isSupportedVersion(version: number | undefined): boolean {
+    const effective = version ?? MIN_SIGNALING_PROTOCOL_VERSION;
+    return effective >= MIN_SIGNALING_PROTOCOL_VERSION && effective <= SIGNALING_PROTOCOL_VERSION;
+}
+
+function validateMessage<T>(raw: unknown, schemas: Record<string, MessageSchema>): ValidationResult<T> {
+    if (!isPlainObject(raw)) {
+        return { ok: false, error: createErrorMessage('MALFORMED_MESSAGE', 'Message must be a JSON object') };
+    }
+
+    const type = raw.type;
+    if (typeof type !== 'string') {
+        return {
+            ok: false,
+            error: createErrorMessage('MALFORMED_MESSAGE', 'Message type is required', { field: 'type' }),
+        };
+    }
+
+    if (raw.v !== undefined && (typeof raw.v !== 'number' || !isSupportedVersion(raw.v))) {
+        return {
+            ok: false,
+            error: createErrorMessage('UNSUPPORTED_VERSION', `Unsupported protocol version: ${String(raw.v)}`, {
+                requestType: type,
+                field: 'v',
+            }),
+        };
+    }
+
+    const schema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+    if (!schema) {
+        return {
+            ok: false,
+            error: createErrorMessage('UNKNOWN_MESSAGE_TYPE', `Unknown message type: ${type}`, { requestType: type }),
+        };
+    }
+
+    for (const [field, spec] of Object.entries(schema)) {
+        const value = raw[field];
+
+        if (value === undefined) {
+            if (spec.optional) continue;
+            return {
+                ok: false,
+                error: createErrorMessage('INVALID_FIELD', `Missing required field: ${field}`, { requestType: type, field }),
+            };
+        }
+
+        if (value === null && spec.nullable) continue;
+
+        if (!matchesType(value, spec.type)) {
+            return {
+                ok: false,
+                error: createErrorMessage('INVALID_FIELD', `Field ${field} must be ${spec.type}`, { requestType: type, field }),
+            };
+        }
+
+        if (spec.values && !matchesValues(value, spec.values)) {
+            return {
+                ok: false,
+                error: createErrorMessage('INVALID_FIELD', `Field ${field} must be one of: ${spec.values.join(', ')}`, {
+                    requestType: type,
+                    field,
+                }),
+            };
+        }
+    }
+
+    return { ok: true, message: raw as unknown as T };
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'any':
+            return true;
+        case 'object':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function matchesValues(value: unknown, values: readonly string[]): boolean {
+    const items = Array.isArray(value) ? value : [value];
+    return items.every(item => typeof item === 'string' && values.includes(item));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -18,11 +18,29 @@ export enum PacketType {
     AUTH_RESPONSE = 0x0b,
 }
 
+// 패킷 헤더 flags 비트
+export enum PacketFlags {
+    NONE = 0x00,
+    // payload가 deflate 압축됨
+    COMPRESSED = 0x01,
+    // payload가 AES-GCM 암호문 (IV 12바이트 + 암호문, SecureChannel)
+    ENCRYPTED = 0x02,
+    // payload 앞에 조각 헤더가 있음 (PacketReassembler로 재조립)
+    FRAGMENTED = 0x04,
+    // 기본 헤더 뒤에 확장 헤더(sequence + 송신 timestamp)가 있음 (핸드쉐이크에서 packet:sequencing 협상 시)
+    SEQUENCED = 0x08,
+}
+
 // 기본 패킷 인터페이스
 export interface Packet {
     type: PacketType;
+    // 송신 시각 (SEQUENCED가 아닌 패킷은 수신 시각)
     timestamp: number;
     payload: Uint8Array;
+    // PacketFlags 조합 (없으면 0)
+    flags?: number;
+    // 스트림(패킷 타입)별 일련번호, 있으면 SEQUENCED로 직렬화 (PacketSequencer)
+    sequence?: number;
 }
 
 // 마우스 이벤트
@@ -50,7 +68,7 @@ export interface KeyboardEvent {
 export interface ScreenFrame {
     width: number;
     height: number;
-    format: 'jpeg' | 'h264' | 'vp9';
+    format: 'jpeg' | 'h264' | 'vp9' | 'av1';
     quality: number;
     data: Uint8Array;
     isKeyFrame: boolean;
@@ -68,7 +86,7 @@ export interface FileTransferMessage {
     error?: string;
 }
 
-// 핸드쉐이크 메시지
+// 핸드쉐이크 메시지 (capabilities 형식과 협상은 handshake.ts)
 export interface HandshakeMessage {
     version: string;
     clientId: string;